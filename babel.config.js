@@ -1,7 +1,8 @@
 module.exports = function (api) {
   api.cache(true);
   return {
-    presets: ['babel-preset-expo'],
+    // import.meta.url locates the paint Web Worker (utils/worker)
+    presets: [['babel-preset-expo', { unstable_transformImportMeta: true }]],
     plugins: [
       [
         'module-resolver',
@@ -55,10 +55,12 @@ export default defineConfig([
       'react/no-inline-styles': 'off',
       'react/destructuring-assignment': 'off',
       'react/require-default-props': 'off',
+      // Components, services and most utils are named after the class or
+      // object they export; everything else is kebab-case
       'unicorn/filename-case': [
         'error',
         {
-          case: 'kebabCase',
+          cases: { kebabCase: true, pascalCase: true },
           ignore: ['/android', '/ios'],
         },
       ],
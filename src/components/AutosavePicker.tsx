@@ -0,0 +1,58 @@
+import React from 'react';
+import { StyleSheet, Text, View } from 'react-native';
+
+import type { AutosaveSettings } from '../services/SettingsService';
+import { OptionChips } from './OptionChips';
+
+interface AutosavePickerProps {
+  value: AutosaveSettings;
+  onChange: (value: AutosaveSettings) => void;
+}
+
+const INTERVALS: { ms: number; label: string }[] = [
+  { ms: 0, label: 'Always' },
+  { ms: 10_000, label: '10 s' },
+  { ms: 30_000, label: '30 s' },
+  { ms: 60_000, label: '1 min' },
+  { ms: 300_000, label: '5 min' },
+];
+
+const RETENTIONS: { days: number; label: string }[] = [
+  { days: 3, label: '3 days' },
+  { days: 7, label: '1 week' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: '1 month' },
+];
+
+// How often drawings autosave, and how long unfinished ones are kept
+export const AutosavePicker: React.FC<AutosavePickerProps> = ({
+  value,
+  onChange,
+}) => (
+  <View style={styles.container}>
+    <Text style={styles.label}>Autosave while colouring</Text>
+    <OptionChips
+      options={INTERVALS.map(({ ms, label }) => ({ value: ms, label }))}
+      active={value.intervalMs}
+      onPress={(intervalMs) => onChange({ ...value, intervalMs })}
+    />
+    <Text style={styles.label}>Keep unfinished drawings for</Text>
+    <OptionChips
+      options={RETENTIONS.map(({ days, label }) => ({ value: days, label }))}
+      active={value.retentionDays}
+      onPress={(retentionDays) => onChange({ ...value, retentionDays })}
+    />
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#334155',
+    marginBottom: 6,
+  },
+});
@@ -0,0 +1,69 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import Svg, { Circle, Text as SvgText } from 'react-native-svg';
+
+import type { ColorByNumberPage } from '../utils/ColorByNumber';
+
+// Label size limits in bitmap pixels
+const MIN_FONT = 4;
+const MAX_FONT = 20;
+
+interface ColorByNumberOverlayProps {
+  page: ColorByNumberPage;
+  done: Set<number>; // Region ids already painted their colour
+  wrongTap: { x: number; y: number } | null; // Bitmap px, flagged briefly
+  bitmapSize: { width: number; height: number };
+  canvasSize: { width: number; height: number };
+}
+
+// Numbers of the regions still to paint, drawn in bitmap space over the page
+export const ColorByNumberOverlay: React.FC<ColorByNumberOverlayProps> = ({
+  page,
+  done,
+  wrongTap,
+  bitmapSize,
+  canvasSize,
+}) => (
+  <Svg
+    pointerEvents="none"
+    width={canvasSize.width}
+    height={canvasSize.height}
+    viewBox={`0 0 ${bitmapSize.width} ${bitmapSize.height}`}
+    preserveAspectRatio="none"
+    style={StyleSheet.absoluteFill}
+  >
+    {page.regions
+      .filter((region) => !done.has(region.id))
+      .map(({ id, number, label, radius }) => {
+        // Two digits need a little more room than one
+        const digits = String(number).length;
+        const fontSize = Math.min(
+          MAX_FONT,
+          Math.max(MIN_FONT, (radius * 1.4) / Math.max(1, digits * 0.7))
+        );
+        return (
+          <SvgText
+            key={id}
+            x={label.x + 0.5}
+            y={label.y + 0.5}
+            fontSize={fontSize}
+            fill="#64748B"
+            textAnchor="middle"
+            alignmentBaseline="central"
+          >
+            {number}
+          </SvgText>
+        );
+      })}
+    {wrongTap && (
+      <Circle
+        cx={wrongTap.x + 0.5}
+        cy={wrongTap.y + 0.5}
+        r={MAX_FONT / 2}
+        stroke="#EF4444"
+        strokeWidth={2}
+        fill="rgba(239,68,68,0.2)"
+      />
+    )}
+  </Svg>
+);
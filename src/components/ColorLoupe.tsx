@@ -0,0 +1,81 @@
+import { Image } from 'expo-image';
+import React from 'react';
+import { StyleSheet, View } from 'react-native';
+
+const LOUPE_SIZE = 96;
+const BORDER = 6;
+const ZOOM = 4;
+// Centre of the loupe's content box (children sit inside the border)
+const CENTRE = LOUPE_SIZE / 2 - BORDER;
+// Lift the loupe above the finger so the finger does not hide it
+const LIFT = 24;
+
+interface ColorLoupeProps {
+  imageUri: string; // Current page as drawn on the canvas
+  canvasSize: { width: number; height: number };
+  point: { x: number; y: number }; // Touch, in canvas (screen) coordinates
+  color: string | null; // Sampled colour; null until the first sample
+}
+
+// Magnified view of the page around the eyedropper, with the picked colour
+// as a ring
+export const ColorLoupe: React.FC<ColorLoupeProps> = ({
+  imageUri,
+  canvasSize,
+  point,
+  color,
+}) => {
+  // Keep it on the canvas: below the finger when there is no room above
+  const above = point.y - LOUPE_SIZE - LIFT >= 0;
+  const left = Math.min(
+    Math.max(point.x - LOUPE_SIZE / 2, 0),
+    canvasSize.width - LOUPE_SIZE
+  );
+  const top = above ? point.y - LOUPE_SIZE - LIFT : point.y + LIFT;
+
+  return (
+    <View
+      pointerEvents="none"
+      style={[styles.loupe, { left, top, borderColor: color ?? '#FFFFFF' }]}
+    >
+      <Image
+        source={{ uri: imageUri }}
+        contentFit="fill"
+        style={{
+          position: 'absolute',
+          width: canvasSize.width * ZOOM,
+          height: canvasSize.height * ZOOM,
+          left: CENTRE - point.x * ZOOM,
+          top: CENTRE - point.y * ZOOM,
+        }}
+      />
+      <View style={styles.crosshair} />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loupe: {
+    position: 'absolute',
+    width: LOUPE_SIZE,
+    height: LOUPE_SIZE,
+    borderRadius: LOUPE_SIZE / 2,
+    borderWidth: BORDER,
+    overflow: 'hidden',
+    backgroundColor: '#FFFFFF',
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 4,
+  },
+  crosshair: {
+    position: 'absolute',
+    left: CENTRE - ZOOM / 2,
+    top: CENTRE - ZOOM / 2,
+    width: ZOOM,
+    height: ZOOM,
+    borderWidth: 1,
+    borderColor: '#1F2937',
+  },
+});
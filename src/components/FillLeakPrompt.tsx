@@ -0,0 +1,98 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { FillPreview } from '../utils/FillLeakGuard';
+
+interface FillLeakPromptProps {
+  preview: FillPreview;
+  // True after auto-seal ran but the shape is still open
+  sealFailed?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+  onSeal: () => void;
+}
+
+// Shown over the canvas while a suspected leaking bucket fill is previewed
+export const FillLeakPrompt: React.FC<FillLeakPromptProps> = ({
+  preview,
+  sealFailed = false,
+  onConfirm,
+  onCancel,
+  onSeal,
+}) => {
+  const percent = Math.round(preview.areaRatio * 100);
+  const message = sealFailed
+    ? "Couldn't close the outline. Fill anyway?"
+    : preview.touchesAllEdges
+      ? 'This fill would reach every edge. The outline may have a gap.'
+      : `This fill would cover ${percent}% of the page. The outline may have a gap.`;
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.message}>{message}</Text>
+      <View style={styles.actions}>
+        <TouchableOpacity onPress={onCancel} style={styles.button}>
+          <Text style={styles.buttonText}>Cancel</Text>
+        </TouchableOpacity>
+        {!sealFailed && (
+          <TouchableOpacity onPress={onSeal} style={styles.button}>
+            <Text style={styles.buttonText}>Seal gaps</Text>
+          </TouchableOpacity>
+        )}
+        <TouchableOpacity
+          onPress={onConfirm}
+          style={[styles.button, styles.primary]}
+        >
+          <Text style={[styles.buttonText, styles.primaryText]}>
+            Fill anyway
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 8,
+    right: 8,
+    bottom: 8,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  message: {
+    fontSize: 13,
+    color: '#333',
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#F0F0F0',
+  },
+  buttonText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '600',
+  },
+  primary: {
+    backgroundColor: '#2563EB',
+  },
+  primaryText: {
+    color: '#FFFFFF',
+  },
+});
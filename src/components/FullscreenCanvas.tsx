@@ -21,7 +21,6 @@ import * as ScreenOrientation from 'expo-screen-orientation';
 import { captureRef } from 'react-native-view-shot';
 import * as MediaLibrary from 'expo-media-library';
 
-import { WorkingColoringCanvas } from './WorkingColoringCanvas';
 import { ZebraColoringCanvas } from './ZebraColoringCanvas';
 import { NativeZebraCanvas } from './NativeZebraCanvas';
 // (removed unused reanimated Colors import)
@@ -365,13 +364,11 @@ export default function FullscreenCanvas({
                   }}
                 >
                   {Platform.OS === 'web' ? (
-                    <WorkingColoringCanvas
+                    <ZebraColoringCanvas
                       selectedColor={currentColor}
                       selectedTool={currentTool}
                       brushSize={currentBrushSize}
                       templateUri={templateUri}
-                      width={computeFit(canvasSize, templateSize).width}
-                      height={computeFit(canvasSize, templateSize).height}
                     />
                   ) : (
                     <NativeZebraCanvas
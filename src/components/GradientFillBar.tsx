@@ -0,0 +1,81 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type { GradientKind } from '../utils/GradientFill';
+
+interface GradientFillBarProps {
+  kind: GradientKind;
+  onApply: () => void;
+  onCancel: () => void;
+}
+
+// Shown over the canvas while a gradient fill is being placed
+export const GradientFillBar: React.FC<GradientFillBarProps> = ({
+  kind,
+  onApply,
+  onCancel,
+}) => (
+  <View style={styles.container}>
+    <Text style={styles.message}>
+      {kind === 'radial'
+        ? 'Drag from the centre outwards to size the gradient.'
+        : 'Drag across the shape to set the gradient direction.'}
+    </Text>
+    <View style={styles.actions}>
+      <TouchableOpacity onPress={onCancel} style={styles.button}>
+        <Text style={styles.buttonText}>Cancel</Text>
+      </TouchableOpacity>
+      <TouchableOpacity
+        onPress={onApply}
+        style={[styles.button, styles.primary]}
+      >
+        <Text style={[styles.buttonText, styles.primaryText]}>Apply</Text>
+      </TouchableOpacity>
+    </View>
+  </View>
+);
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 8,
+    right: 8,
+    bottom: 8,
+    padding: 10,
+    borderRadius: 10,
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    elevation: 6,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 4,
+  },
+  message: {
+    fontSize: 13,
+    color: '#333',
+    textAlign: 'center',
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    marginTop: 8,
+  },
+  button: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginHorizontal: 4,
+    borderRadius: 8,
+    backgroundColor: '#F0F0F0',
+  },
+  buttonText: {
+    fontSize: 13,
+    color: '#333',
+    fontWeight: '600',
+  },
+  primary: {
+    backgroundColor: '#2563EB',
+  },
+  primaryText: {
+    color: '#FFFFFF',
+  },
+});
@@ -17,9 +17,12 @@ import {
 import * as ImagePicker from 'expo-image-picker';
 import * as FileSystem from 'expo-file-system';
 import { WebView } from 'react-native-webview';
+import Svg, { Circle } from 'react-native-svg';
 import { SettingsService } from '../services/SettingsService';
 import { GeminiService } from '../services/GeminiService';
 import { UserTemplatesService, type UserTemplate } from '../services/UserTemplatesService';
+import { TemplateMaskService } from '../services/TemplateMaskService';
+import { type BundleFile, ProjectBundleService } from '../services/ProjectBundleService';
 
 import {
   type PngTemplate,
@@ -47,9 +50,13 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
   const [showGuide, setShowGuide] = useState(false);
   const [showSave, setShowSave] = useState(false);
   const [genResult, setGenResult] = useState<string | null>(null);
+  // Outline gaps bridged in the generated line art (shown before saving)
+  const [outlineRepair, setOutlineRepair] = useState<ReturnType<typeof TemplateMaskService.repair> | null>(null);
   const [saveTitle, setSaveTitle] = useState('My Line Art');
   const [saveCategory, setSaveCategory] = useState('custom');
   const [userTemplates, setUserTemplates] = useState<UserTemplate[]>([]);
+  // Project bundles found to import from, while the picker is open
+  const [bundleFiles, setBundleFiles] = useState<BundleFile[] | null>(null);
 
   const baseCategories = [
     { id: 'all', name: 'All Templates', emoji: '🎨' },
@@ -163,6 +170,12 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
   // Call Gemini to generate line art
   const outDataUrl = await GeminiService.generateLineArt(imgB64, key!, mimeType);
       setGenResult(outDataUrl);
+      try {
+        setOutlineRepair(TemplateMaskService.repair(outDataUrl));
+      } catch {
+        // Optional: without it fills may only leak through gaps in the outline
+        setOutlineRepair(null);
+      }
       setSaveTitle('My Line Art');
       setSaveCategory('custom');
       setShowSave(true);
@@ -194,6 +207,8 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
     try {
       if (!genResult) return;
       const tpl = await UserTemplatesService.addFromBase64(saveTitle.trim() || 'My Line Art', saveCategory.trim() || 'custom', genResult);
+      if (outlineRepair) await UserTemplatesService.attachOutlineRepair(tpl.id, outlineRepair);
+      setOutlineRepair(null);
       setUserTemplates(UserTemplatesService.list());
       setShowSave(false);
       setGenResult(null);
@@ -211,6 +226,35 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
     setUserTemplates(UserTemplatesService.list());
   };
 
+  const handleFindBundles = async () => {
+    try {
+      const files = await ProjectBundleService.findImportable();
+      if (!files) return;
+      if (files.length === 0) {
+        Alert.alert('No bundles found', 'Export a project bundle from a drawing, then import it here.');
+        return;
+      }
+      setBundleFiles(files);
+    } catch (e: any) {
+      Alert.alert('Import failed', e?.message ?? 'Unknown error');
+    }
+  };
+
+  // Add the bundle's template and open it with the drawing on it
+  const handleImportBundle = async (file: BundleFile) => {
+    setBundleFiles(null);
+    setBusy(true);
+    try {
+      const tpl = await ProjectBundleService.import(await ProjectBundleService.read(file.uri));
+      setUserTemplates(UserTemplatesService.list());
+      openUserTemplate(tpl);
+    } catch (e: any) {
+      Alert.alert('Import failed', e?.message ?? 'Unknown error');
+    } finally {
+      setBusy(false);
+    }
+  };
+
   const filteredTemplates =
     selectedCategory === 'all'
       ? templates
@@ -221,7 +265,7 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
       ? userTemplates
       : userTemplates.filter((t) => (t.category || '').trim() === selectedCategory);
 
-  const useUserTemplate = (tpl: UserTemplate) => {
+  const openUserTemplate = (tpl: UserTemplate) => {
     onBitmapTemplateSelected(tpl.pngUri, tpl.title);
     onTemplateSelected({ bitmapUri: tpl.pngUri, fileName: tpl.title, width: 0, height: 0, type: 'png' });
   };
@@ -261,6 +305,11 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
       <TouchableOpacity style={styles.uploadButton} onPress={handleUploadImage} disabled={busy}>
         <Text style={styles.uploadButtonText}>{busy ? 'Processing…' : '📁 Upload Your Own Image'}</Text>
       </TouchableOpacity>
+      {Platform.OS !== 'web' && (
+        <TouchableOpacity style={[styles.uploadButton, styles.importButton]} onPress={handleFindBundles} disabled={busy}>
+          <Text style={styles.uploadButtonText}>📦 Import a Drawing Bundle</Text>
+        </TouchableOpacity>
+      )}
 
       {/* Manage API key controls */}
       <View style={styles.apiKeyRow}>
@@ -325,7 +374,7 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
                 <Text style={styles.templateDimensions}>{tpl.category} • Saved</Text>
               </View>
               <View style={{ flexDirection: 'row', justifyContent: 'space-between', paddingHorizontal: 12, paddingBottom: 12 }}>
-                <TouchableOpacity onPress={() => useUserTemplate(tpl)}>
+                <TouchableOpacity onPress={() => openUserTemplate(tpl)}>
                   <Text style={{ color: '#4ECDC4', fontWeight: 'bold' }}>Use</Text>
                 </TouchableOpacity>
                 <TouchableOpacity onPress={() => handleDeleteUserTemplate(tpl.id)}>
@@ -444,13 +493,34 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
               {!!genResult && (
                 <Image source={{ uri: genResult }} style={{ width: '100%', height: '100%' }} resizeMode="contain" />
               )}
+              {!!outlineRepair && outlineRepair.bridges.length > 0 && (
+                // Same "contain" fit as the image, so markers land on the bridged spots
+                <Svg style={StyleSheet.absoluteFill} viewBox={`0 0 ${outlineRepair.width} ${outlineRepair.height}`} preserveAspectRatio="xMidYMid meet">
+                  {outlineRepair.bridges.map((b, i) => (
+                    <Circle
+                      key={i}
+                      cx={(b.from.x + b.to.x) / 2}
+                      cy={(b.from.y + b.to.y) / 2}
+                      r={Math.max(outlineRepair.width, outlineRepair.height) / 40}
+                      stroke="#F44336"
+                      strokeWidth={Math.max(outlineRepair.width, outlineRepair.height) / 200}
+                      fill="none"
+                    />
+                  ))}
+                </Svg>
+              )}
             </View>
+            {!!outlineRepair && outlineRepair.bridges.length > 0 && (
+              <Text style={styles.modalText}>
+                Closed {outlineRepair.bridges.length} small gap{outlineRepair.bridges.length === 1 ? '' : 's'} in the outline (circled) so fills stay inside the lines.
+              </Text>
+            )}
             <Text style={[styles.modalText, { marginTop: 10 }]}>Name</Text>
             <TextInput value={saveTitle} onChangeText={setSaveTitle} style={styles.keyInput} />
             <Text style={[styles.modalText, { marginTop: 10 }]}>Category</Text>
             <TextInput value={saveCategory} onChangeText={setSaveCategory} style={styles.keyInput} />
             <View style={styles.modalActions}>
-              <TouchableOpacity onPress={() => { setShowSave(false); setGenResult(null); }} style={styles.modalBtnGhost}>
+              <TouchableOpacity onPress={() => { setShowSave(false); setGenResult(null); setOutlineRepair(null); }} style={styles.modalBtnGhost}>
                 <Text style={styles.modalBtnGhostText}>Cancel</Text>
               </TouchableOpacity>
               <TouchableOpacity onPress={handleSaveTemplate} style={styles.modalBtnPrimary}>
@@ -460,6 +530,28 @@ export const ImageUploaderEnhanced: React.FC<ImageUploaderEnhancedProps> = ({
           </View>
         </KeyboardAvoidingView>
       </Modal>
+
+      {/* Project bundle picker */}
+      <Modal visible={!!bundleFiles} transparent animationType="fade" onRequestClose={() => setBundleFiles(null)}>
+        <View style={styles.modalOverlay}>
+          <View style={styles.modalCardLg}>
+            <Text style={styles.modalTitle}>Import a Drawing Bundle</Text>
+            <Text style={styles.modalText}>The template is added to your templates and opens with the drawing on it.</Text>
+            <ScrollView style={styles.bundleList}>
+              {(bundleFiles ?? []).map((file) => (
+                <TouchableOpacity key={file.uri} style={styles.bundleRow} onPress={() => handleImportBundle(file)}>
+                  <Text style={styles.bundleName} numberOfLines={1}>{file.name}</Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+            <View style={styles.modalActions}>
+              <TouchableOpacity onPress={() => setBundleFiles(null)} style={styles.modalBtnGhost}>
+                <Text style={styles.modalBtnGhostText}>Cancel</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        </View>
+      </Modal>
     </View>
   );
 };
@@ -785,4 +877,21 @@ const styles = StyleSheet.create({
     color: '#FFFFFF',
     fontWeight: '800',
   },
+  importButton: {
+    marginTop: 0,
+    backgroundColor: '#6366F1',
+  },
+  bundleList: {
+    marginTop: 10,
+    maxHeight: 280,
+  },
+  bundleRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E2E8F0',
+  },
+  bundleName: {
+    fontSize: 14,
+    color: '#0F172A',
+  },
 });
@@ -1,6 +1,6 @@
 import { Feather, Ionicons, MaterialIcons, MaterialCommunityIcons } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import {
   Alert,
   Dimensions,
@@ -36,17 +36,50 @@ import * as ScreenOrientation from 'expo-screen-orientation';
 import Slider from '@react-native-community/slider';
 
 import { PngTemplateService } from '../services/PngTemplateService';
+import { AutosaveService } from '../services/AutosaveService';
+import { DrawingLibraryService } from '../services/DrawingLibraryService';
+import { PrintService } from '../services/PrintService';
+import { ProjectBundleService } from '../services/ProjectBundleService';
+import { type AutosaveSettings, type PrintSettings, SettingsService } from '../services/SettingsService';
+import { AutosavePicker } from './AutosavePicker';
 import { ImageUploaderEnhanced } from './ImageUploaderEnhanced';
-import { WorkingColoringCanvas } from './WorkingColoringCanvas';
 import { ZebraColoringCanvas } from './ZebraColoringCanvas';
 import { NativeZebraCanvas } from './NativeZebraCanvas';
+import { type PatternOptions, PatternPicker } from './PatternPicker';
+import { LayersPanel } from './LayersPanel';
+import { type SymmetryOptions, SymmetryPicker } from './SymmetryPicker';
 import FullscreenCanvas from './FullscreenCanvas';
+import { type PrintTarget, PrintSheet } from './PrintSheet';
+import { SavedDrawingsManager } from './SavedDrawingsManager';
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import {
+  DRAWING_DOCUMENT_EXTENSION,
+  type DrawingDocument,
+  serializeDrawingDocument,
+} from '../utils/DrawingDocument';
+import { activeTimeMs, type LibraryDrawing } from '../utils/DrawingLibrary';
+import type { BrushKind } from '../utils/NaturalBrush';
+import type { LayerEdit, LayerStackInfo } from '../utils/PaintLayers';
+import { uint8ArrayToBase64 } from '../utils/PngCodec';
+import { PROJECT_BUNDLE_EXTENSION } from '../utils/ProjectBundle';
+import type { TimelapseEvent } from '../utils/worker/Timelapse';
 
 const { width: screenWidth } = Dimensions.get('window');
 // UI sizing constants for responsive palette/slider
 const MODAL_SIDE_PADDING = 16;
 const SWATCH_GAP = 12;
 const DEFAULT_SWATCH_SIZE = 44; // will shrink/grow based on width
+// Screen px the finger leads the brush by with "Steady hand" on
+const STEADY_HAND_RADIUS = 12;
+const MAX_RECENT_COLORS = 8;
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : String(error);
+
+// Tell the user something failed; `title` names what they were doing
+function alertError(title: string, error: unknown) {
+  Alert.alert(title, errorMessage(error));
+}
 
 // Small custom slider for Android to avoid gesture conflicts with the native Slider
 function SizeSliderNative({
@@ -102,6 +135,18 @@ function SizeSliderNative({
   );
 }
 
+// The page open on the canvas
+type CanvasPage = {
+  svgData?: string | null;
+  bitmapUri: string | null;
+  fileName: string;
+  width: number;
+  height: number;
+  type: 'png';
+  drawingId?: string; // My Drawings id it saves under
+  drawingUri?: string; // Its .coloring document, when carried on from My Drawings or an autosave
+};
+
 export default function IntegratedColoringBookApp({
   compact = false,
 }: {
@@ -110,10 +155,33 @@ export default function IntegratedColoringBookApp({
   const insets = useSafeAreaInsets();
   const [selectedColor, setSelectedColor] = useState('#FF6B6B');
   const [selectedTool, setSelectedTool] = useState<
-    'brush' | 'bucket' | 'eraser' | 'move'
+    'brush' | 'bucket' | 'eraser' | 'eyedropper' | 'move'
   >('bucket');
   const [brushSize, setBrushSize] = useState(8);
-  const [currentTemplate, setCurrentTemplate] = useState<any>(null);
+  const [fillMode, setFillMode] = useState<'solid' | 'linear' | 'radial' | 'pattern' | 'replace'>('solid');
+  const [fillPattern, setFillPattern] = useState<PatternOptions>({ kind: 'stripes' });
+  const [stayInsideLines, setStayInsideLines] = useState(false);
+  const [steadyHand, setSteadyHand] = useState(false);
+  const [brushKind, setBrushKind] = useState<BrushKind>('round');
+  // Mirror brush strokes and fills (off in colour-by-number play)
+  const [symmetry, setSymmetry] = useState<SymmetryOptions>(null);
+  // Colours picked off the page or from the colour picker, newest first
+  const [recentColors, setRecentColors] = useState<string[]>([]);
+  // Colour by number: numbered regions and palette instead of free colouring
+  const [playMode, setPlayMode] = useState<'free' | 'numbers'>('free');
+  // Page colouring the numbers were taken from; null = generated palette
+  const [numberReference, setNumberReference] = useState<string | null>(null);
+  const [numberPalette, setNumberPalette] = useState<string[]>([]);
+  // Canvas layer stack (null when the engine has none) and the panel's visibility
+  const [layerStack, setLayerStack] = useState<LayerStackInfo | null>(null);
+  const [showLayers, setShowLayers] = useState(false);
+  // Layer the last undo/redo changed, marked in the panel
+  const [recentLayer, setRecentLayer] = useState<string | null>(null);
+  const colorByNumber = useMemo(
+    () => (playMode === 'numbers' ? { reference: numberReference ?? undefined } : null),
+    [playMode, numberReference]
+  );
+  const [currentTemplate, setCurrentTemplate] = useState<CanvasPage | null>(null);
   const [activeTab, setActiveTab] = useState<'templates' | 'color'>(
     'templates'
   );
@@ -127,6 +195,13 @@ export default function IntegratedColoringBookApp({
   const captureViewRef = useRef<View>(null);
   // Persist canvas across modal toggles/remounts
   const [canvasSnapshot, setCanvasSnapshot] = useState<string | null>(null);
+  // Colouring time already added to the library drawing, and the recording it was measured on
+  const timeCreditRef = useRef<{ first?: TimelapseEvent; ms: number }>({ ms: 0 });
+  const [autosave, setAutosave] = useState<AutosaveSettings>(() => SettingsService.getAutosave());
+  // What the print sheet offers while it is open
+  const [printTargets, setPrintTargets] = useState<PrintTarget[] | null>(null);
+  // Undo history (and so autosave) key: the page's My Drawings id, given when it is opened if it has none yet
+  const historyKey: string | undefined = currentTemplate?.drawingId;
   // Gesture/slider helpers
   const sliderGestureRef = useRef<any>(null);
   
@@ -143,6 +218,58 @@ export default function IntegratedColoringBookApp({
   <path d="M150,40 L170,100 L230,100 L185,135 L200,195 L150,165 L100,195 L115,135 L70,100 L130,100 Z" fill="none" stroke="#333" stroke-width="2"/>\
 </svg>`;
 
+  // Open a page on the canvas: a template, or a drawing carried on from My Drawings or an autosave.
+  // A new page gets the id it will be saved under, so each has undo history and autosaves of its own.
+  const openOnCanvas = useCallback((page: { bitmapUri: string; fileName: string; drawingId?: string; drawingUri?: string }) => {
+    setCurrentTemplate({
+      svgData: null,
+      width: 600,
+      height: 480,
+      type: 'png',
+      ...page,
+      drawingId: page.drawingId ?? DrawingLibraryService.newId(),
+    });
+    setCanvasSnapshot(null);
+    setActiveTab('color');
+  }, []);
+
+  // After a restart, or the app being killed, offer the drawing autosaved last
+  const offerResume = useCallback(() => {
+    if (Platform.OS === 'web') return;
+    AutosaveService.prune();
+    const session = AutosaveService.latest();
+    if (!session?.savedAt) return;
+    Alert.alert('Resume where you left off?', `"${session.title}", autosaved ${new Date(session.savedAt).toLocaleString()}.`, [
+      { text: 'Not now', style: 'cancel' },
+      {
+        text: 'Resume',
+        onPress: () =>
+          openOnCanvas({
+            bitmapUri: session.templateUri,
+            fileName: session.title,
+            drawingId: session.key,
+            drawingUri: session.drawingUri,
+          }),
+      },
+    ]);
+  }, [openOnCanvas]);
+
+  const changeAutosave = (next: AutosaveSettings) => {
+    setAutosave(next);
+    SettingsService.setAutosave(next);
+  };
+
+  // Autosaves of the open page can be resumed with these details
+  useEffect(() => {
+    if (Platform.OS === 'web' || !historyKey || !currentTemplate?.bitmapUri) return;
+    AutosaveService.open({
+      key: historyKey,
+      templateUri: currentTemplate.bitmapUri,
+      title: currentTemplate.fileName || 'My drawing',
+      drawingUri: currentTemplate.drawingUri,
+    });
+  }, [currentTemplate, historyKey]);
+
   useEffect(() => {
     const loadDefaultTemplate = async () => {
       try {
@@ -160,6 +287,7 @@ export default function IntegratedColoringBookApp({
             width: defaultTemplate.width,
             height: defaultTemplate.height,
             type: 'png',
+            drawingId: DrawingLibraryService.newId(),
           });
           setActiveTab('color');
         }
@@ -174,8 +302,11 @@ export default function IntegratedColoringBookApp({
         });
       }
     };
-    loadDefaultTemplate();
-  }, []);
+    loadDefaultTemplate()
+      .then(offerResume)
+      .catch((error) => alertError('Could not resume your last drawing', error));
+  // Once, at launch (offerResume never changes)
+  }, [offerResume]);
 
   // Pinch gesture handler for zooming (web only to avoid Android lag)
   const pinchHandler = useAnimatedGestureHandler({
@@ -261,6 +392,19 @@ export default function IntegratedColoringBookApp({
     '#8E44AD',
   ];
 
+  // Number the page from the current colouring, then start again on a clean page
+  const startNumbersFromColoring = () => {
+    if (!canvasSnapshot) return;
+    setNumberReference(canvasSnapshot);
+    bitmapCanvasRef.current?.clear?.();
+  };
+
+  // Select a colour and remember it in the recent colours row
+  const pickColor = (color: string) => {
+    setSelectedColor(color);
+    setRecentColors((prev) => [color, ...prev.filter((c) => c !== color)].slice(0, MAX_RECENT_COLORS));
+  };
+
   const applyZoom = (z: number) => {
     const clamped = Math.max(0.5, Math.min(3, z));
     setZoom(clamped);
@@ -270,6 +414,42 @@ export default function IntegratedColoringBookApp({
   const handleZoomOut = () => applyZoom(zoom - 0.25);
   const handleZoomReset = () => applyZoom(1);
 
+  // Add a file to the "Coloring Book" album in the device gallery
+  const saveToAlbum = async (uri: string) => {
+    const asset = await MediaLibrary.createAssetAsync(uri);
+    const album = await MediaLibrary.getAlbumAsync('Coloring Book');
+    if (album) {
+      await MediaLibrary.addAssetsToAlbumAsync([asset], album, false);
+    } else {
+      await MediaLibrary.createAlbumAsync('Coloring Book', asset, false);
+    }
+  };
+
+  // Keep the page in My Drawings: over the library drawing it was opened from or first saved
+  // as, adding only the colouring time not yet credited to it. Null when there is no page yet.
+  const saveToLibrary = async (): Promise<LibraryDrawing | null> => {
+    const project = bitmapCanvasRef.current?.exportProject?.(currentTemplate?.fileName);
+    if (!project) return null;
+    const { drawing, page, carriedOver } = project;
+    // Time from earlier sessions is in the library already; count on from their last operation
+    const operations: TimelapseEvent[] = drawing.operations.slice(Math.max(0, carriedOver - 1));
+    const first: TimelapseEvent | undefined = operations[0];
+    const spent = activeTimeMs(operations);
+    const credit = timeCreditRef.current;
+    const saved = await DrawingLibraryService.save({
+      id: currentTemplate?.drawingId,
+      name: currentTemplate?.fileName || 'My drawing',
+      page,
+      document: drawing,
+      addTimeMs: credit.first === first ? Math.max(0, spent - credit.ms) : spent,
+    });
+    timeCreditRef.current = { first, ms: spent };
+    // Safe in My Drawings now, so what was autosaved for it can go
+    if (historyKey) AutosaveService.finish(historyKey);
+    setCurrentTemplate((prev) => prev && { ...prev, drawingId: saved.id });
+    return saved;
+  };
+
   const handleSaveNative = async () => {
     if (Platform.OS === 'web') return;
     try {
@@ -277,29 +457,221 @@ export default function IntegratedColoringBookApp({
         Alert.alert('Save', 'Nothing to save yet.');
         return;
       }
+      // My Drawings needs no permission, so it is saved there whatever the answer below
+      const saved = await saveToLibrary();
       // Request permissions to save to the device media library
       const { status: perm } = await MediaLibrary.requestPermissionsAsync();
       if (perm !== 'granted') {
-        Alert.alert('Permission required', 'Allow Photos/Media permission to save your image.');
+        Alert.alert(
+          saved ? 'Saved to My Drawings' : 'Permission required',
+          saved
+            ? 'Allow Photos/Media permission to also save your image to the gallery.'
+            : 'Allow Photos/Media permission to save your image.'
+        );
         return;
       }
 
       const uri = await captureRef(captureViewRef, { format: 'png', quality: 1 });
 
       // Save to media library (Pictures/Coloring Book)
-      const asset = await MediaLibrary.createAssetAsync(uri);
-      let album = await MediaLibrary.getAlbumAsync('Coloring Book');
-      if (!album) {
-        album = await MediaLibrary.createAlbumAsync('Coloring Book', asset, false);
-      } else {
-        await MediaLibrary.addAssetsToAlbumAsync([asset], album, false);
-      }
-      Alert.alert('Saved to Gallery', 'Your image was saved to the Photos app in the "Coloring Book" album.');
+      await saveToAlbum(uri);
+      Alert.alert(
+        'Saved to Gallery',
+        `Your image was saved to the Photos app in the "Coloring Book" album${saved ? ' and to My Drawings' : ''}.`
+      );
     } catch (e: any) {
       Alert.alert('Save failed', e?.message ?? 'Unknown error');
     }
   };
 
+  // The colouring session as an animation, encoded in the paint worker
+  const saveTimelapse = async (format: 'gif' | 'apng') => {
+    try {
+      const { status: perm } = await MediaLibrary.requestPermissionsAsync();
+      if (perm !== 'granted') {
+        Alert.alert('Permission required', 'Allow Photos/Media permission to save your timelapse.');
+        return;
+      }
+      const bytes: Uint8Array | null = await bitmapCanvasRef.current?.exportTimelapse?.(format);
+      if (!bytes) {
+        Alert.alert('Timelapse', 'Colour something first, then save how you did it.');
+        return;
+      }
+      // Animated PNGs keep the .png extension so galleries accept them
+      const uri = `${FileSystem.cacheDirectory}timelapse-${Date.now()}.${format === 'gif' ? 'gif' : 'png'}`;
+      await FileSystem.writeAsStringAsync(uri, uint8ArrayToBase64(bytes), {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      await saveToAlbum(uri);
+      FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+      Alert.alert('Saved to Gallery', 'Your timelapse was saved to the "Coloring Book" album.');
+    } catch (e: any) {
+      Alert.alert('Timelapse failed', e?.message ?? 'Unknown error');
+    }
+  };
+
+  const handleTimelapse = () => {
+    Alert.alert('Timelapse', 'Watch or share how this picture was coloured.', [
+      {
+        text: 'Replay',
+        onPress: async () => {
+          const played = await bitmapCanvasRef.current?.replayTimelapse?.();
+          if (played === false) Alert.alert('Timelapse', 'Nothing to replay yet.');
+        },
+      },
+      { text: 'Save as GIF', onPress: () => saveTimelapse('gif') },
+      { text: 'Save as animated PNG', onPress: () => saveTimelapse('apng') },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Write an export where the user can reach it: a folder they pick on Android, the app's
+  // documents elsewhere. Resolves with where it went, or null if no folder was picked.
+  const writeExportFile = async (
+    fileName: string,
+    file: { contents: string; mimeType: string; base64?: boolean }
+  ): Promise<string | null> => {
+    const options = file.base64 ? { encoding: FileSystem.EncodingType.Base64 } : undefined;
+    if (Platform.OS === 'android') {
+      const saf = FileSystem.StorageAccessFramework;
+      const perm = await saf.requestDirectoryPermissionsAsync();
+      if (!perm.granted) return null;
+      const uri = await saf.createFileAsync(perm.directoryUri, fileName, file.mimeType);
+      await FileSystem.writeAsStringAsync(uri, file.contents, options);
+      return 'the folder you picked';
+    }
+    await FileSystem.writeAsStringAsync(`${FileSystem.documentDirectory}${fileName}`, file.contents, options);
+    return "the app's documents";
+  };
+
+  // Vector copy of the artwork for printing at any size (posters)
+  const handleExportSvg = async () => {
+    if (Platform.OS === 'web') return;
+    try {
+      const svg: string | null = await bitmapCanvasRef.current?.exportSvg?.();
+      if (!svg) {
+        Alert.alert('Export', 'Nothing to export yet.');
+        return;
+      }
+      const fileName = `coloring-${Date.now()}.svg`;
+      const where = await writeExportFile(fileName, { contents: svg, mimeType: 'image/svg+xml' });
+      if (where) Alert.alert('Exported', `Your picture was saved as ${fileName} in ${where}.`);
+    } catch (e: any) {
+      Alert.alert('Export failed', e?.message ?? 'Unknown error');
+    }
+  };
+
+  // The drawing as a .coloring document: template, engine and every operation,
+  // so it can be replayed exactly or re-rendered at another size
+  const saveDrawingFile = async (drawing: DrawingDocument) => {
+    const fileName = `coloring-${Date.now()}${DRAWING_DOCUMENT_EXTENSION}`;
+    // A JSON mime type would add ".json" to the name
+    const where = await writeExportFile(fileName, {
+      contents: serializeDrawingDocument(drawing),
+      mimeType: 'application/octet-stream',
+    });
+    if (where) Alert.alert('Exported', `Your drawing was saved as ${fileName} in ${where}.`);
+  };
+
+  // Drawing, template, layers and thumbnail in one zip, to carry on on another device
+  const saveProjectBundle = async () => {
+    const templateUri: string | undefined = currentTemplate?.bitmapUri ?? undefined;
+    const project = bitmapCanvasRef.current?.exportProject?.(currentTemplate?.fileName);
+    if (!templateUri || !project) {
+      Alert.alert('Export', 'This picture cannot be bundled yet.');
+      return;
+    }
+    const bytes = await ProjectBundleService.pack({
+      templateUri,
+      title: currentTemplate?.fileName || 'My drawing',
+      ...project,
+    });
+    const fileName = `coloring-project-${Date.now()}${PROJECT_BUNDLE_EXTENSION}`;
+    const where = await writeExportFile(fileName, {
+      contents: uint8ArrayToBase64(bytes),
+      mimeType: 'application/zip',
+      base64: true,
+    });
+    if (where) {
+      Alert.alert('Exported', `Your project was saved as ${fileName} in ${where}. Import it from the templates screen to carry on.`);
+    }
+  };
+
+  const handleExportDocument = () => {
+    if (Platform.OS === 'web') return;
+    const drawing: DrawingDocument | null =
+      bitmapCanvasRef.current?.exportDocument?.(currentTemplate?.fileName) ?? null;
+    if (!drawing || drawing.operations.length === 0) {
+      Alert.alert('Export', 'Colour something first, then save the drawing.');
+      return;
+    }
+    const run = (save: () => Promise<void>) => async () => {
+      try {
+        await save();
+      } catch (e: any) {
+        Alert.alert('Export failed', e?.message ?? 'Unknown error');
+      }
+    };
+    Alert.alert('Save drawing', 'Keep it editable: as a drawing file, or bundled with its template for another device.', [
+      { text: 'Drawing file', onPress: run(() => saveDrawingFile(drawing)) },
+      { text: 'Project bundle', onPress: run(saveProjectBundle) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  // Print-ready PDF of what the user picked in the print sheet, kept open if no folder was picked
+  const printPdf = async (target: PrintTarget, settings: PrintSettings) => {
+    try {
+      const bytes = await target.pdf(settings);
+      const fileName = `coloring-print-${Date.now()}.pdf`;
+      const where = await writeExportFile(fileName, {
+        contents: uint8ArrayToBase64(bytes),
+        mimeType: 'application/pdf',
+        base64: true,
+      });
+      if (!where) return;
+      setPrintTargets(null);
+      Alert.alert('Ready to print', `${fileName} was saved in ${where}. Open it to print.`);
+    } catch (e: any) {
+      Alert.alert('Print failed', e?.message ?? 'Unknown error');
+    }
+  };
+
+  // The page as coloured or blank, and for built-in templates their whole category as a book
+  const handlePrint = async () => {
+    if (Platform.OS === 'web') return;
+    const title: string = currentTemplate?.fileName || 'My drawing';
+    const templateUri: string | undefined = currentTemplate?.bitmapUri ?? undefined;
+    const page: RgbaBitmap | null = bitmapCanvasRef.current?.exportPage?.() ?? null;
+    const targets: PrintTarget[] = [];
+    if (page) {
+      targets.push({ label: 'This page, coloured', pdf: (settings) => PrintService.pdf([{ bitmap: page, title }], settings) });
+    }
+    if (templateUri) {
+      targets.push({ label: 'This page, blank', pdf: (settings) => PrintService.pdf([{ uri: templateUri, title }], settings) });
+      const templates = await PngTemplateService.getAllTemplates().catch(() => []);
+      const category = templates.find((t) => t.pngUri === templateUri)?.category;
+      if (category) {
+        targets.push({ label: `Colouring book: all ${category}`, pdf: (settings) => PrintService.booklet(category, settings) });
+      }
+    }
+    if (targets.length === 0) {
+      Alert.alert('Print', 'Pick a picture to colour first.');
+      return;
+    }
+    setPrintTargets(targets);
+  };
+
+  const handlePrintDrawings = (drawings: LibraryDrawing[]) => {
+    const sources = drawings.flatMap((d) => (d.pictureUri ? [{ uri: d.pictureUri, title: d.name }] : []));
+    if (sources.length === 0) {
+      Alert.alert('Print', 'These drawings were saved by an older version of the app and have no picture to print.');
+      return;
+    }
+    const label = sources.length === 1 ? 'Print this drawing' : `Print ${sources.length} drawings`;
+    setPrintTargets([{ label, pdf: (settings) => PrintService.pdf(sources, settings) }]);
+  };
+
   const toggleFullscreenWeb = () => {
     if (Platform.OS !== 'web') return;
     try {
@@ -348,17 +720,23 @@ export default function IntegratedColoringBookApp({
       );
       return;
     }
-  setCurrentTemplate({
-      svgData: null,
-      fileName,
+    openOnCanvas({ bitmapUri, fileName });
+  };
+
+  // Carry on a drawing from My Drawings: its template with the drawing replayed on it (or its
+  // own saved history), or for older saves without a document, its picture as a new template
+  const handleDrawingLoad = (drawing: LibraryDrawing) => {
+    const editable = !!(drawing.documentUri && drawing.template);
+    const bitmapUri = editable ? drawing.template?.uri : drawing.pictureUri;
+    if (!bitmapUri) {
+      Alert.alert('Open drawing', 'This drawing was saved by an older version of the app and has no picture to open.');
+      return;
+    }
+    openOnCanvas({
+      fileName: drawing.name,
       bitmapUri,
-      width: 600,
-      height: 480,
-      type: 'png',
+      ...(editable && { drawingId: drawing.id, drawingUri: drawing.documentUri }),
     });
-  // New template => clear previous snapshot
-  setCanvasSnapshot(null);
-    setActiveTab('color');
   };
 
   const renderColorTab = () => (
@@ -375,6 +753,26 @@ export default function IntegratedColoringBookApp({
             <Text style={styles.modernAppTitle}>ColorSplash Kids</Text>
             <Text style={styles.modernAppSubtitle}>Let's create colorful magic!</Text>
           </View>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity style={[styles.headerSaveButton, styles.headerExportButton]} onPress={handleTimelapse}>
+              <MaterialCommunityIcons name="movie-open-play-outline" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity style={[styles.headerSaveButton, styles.headerExportButton]} onPress={handleExportSvg}>
+              <MaterialCommunityIcons name="vector-square" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity style={[styles.headerSaveButton, styles.headerExportButton]} onPress={handleExportDocument}>
+              <MaterialCommunityIcons name="file-code-outline" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity style={[styles.headerSaveButton, styles.headerExportButton]} onPress={handlePrint}>
+              <MaterialCommunityIcons name="printer-outline" size={24} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
           <TouchableOpacity 
             style={styles.headerSaveButton} 
             onPress={Platform.OS === 'web' ? () => bitmapCanvasRef.current?.save?.() : handleSaveNative}
@@ -408,12 +806,14 @@ export default function IntegratedColoringBookApp({
               <Animated.View style={styles.modernCanvasContainer}>
                 <PanGestureHandler onGestureEvent={panHandler} simultaneousHandlers={sliderGestureRef}>
                   <Animated.View style={[animatedStyle, { flex: 1 }]}>
-                    <WorkingColoringCanvas
+                    {/* Paints in the paint Web Worker (utils/worker) */}
+                    <ZebraColoringCanvas
                       ref={bitmapCanvasRef}
                       selectedColor={selectedColor}
-                      selectedTool={selectedTool === 'move' ? 'brush' : selectedTool}
+                      selectedTool={selectedTool === 'move' || selectedTool === 'eyedropper' ? 'brush' : selectedTool}
                       brushSize={brushSize}
                       templateUri={currentTemplate.bitmapUri}
+                      stayInsideLines={stayInsideLines}
                     />
                   </Animated.View>
                 </PanGestureHandler>
@@ -436,6 +836,21 @@ export default function IntegratedColoringBookApp({
                     height={(screenWidth - 32) * 0.8}
                     interactionEnabled={selectedTool !== 'move'}
         initialDataUrl={canvasSnapshot ?? undefined}
+                    historyKey={historyKey}
+                    drawingUri={currentTemplate.drawingUri}
+                    autosaveInterval={autosave.intervalMs}
+                    onAutosave={AutosaveService.saved}
+                    onError={alertError}
+                    fillMode={playMode === 'numbers' ? 'solid' : fillMode}
+                    fillPattern={fillPattern}
+                    stayInsideLines={stayInsideLines}
+                    stabilizer={steadyHand ? STEADY_HAND_RADIUS : 0}
+                    brush={brushKind}
+                    onColorPicked={pickColor}
+                    colorByNumber={colorByNumber}
+                    onNumberPalette={setNumberPalette}
+                    onLayersChange={setLayerStack}
+                    symmetry={playMode === 'free' ? symmetry : null}
                   />
                 </Animated.View>
               </PanGestureHandler>
@@ -479,6 +894,17 @@ export default function IntegratedColoringBookApp({
       <Text style={[styles.toolLabel, selectedTool === 'bucket' && styles.activeToolLabel]}>Fill</Text>
           </TouchableOpacity>
 
+          {/* Eyedropper: pick a colour already on the page (native canvas only) */}
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity
+              style={[styles.toolButton, selectedTool === 'eyedropper' && styles.activeToolButton]}
+              onPress={() => setSelectedTool('eyedropper')}
+            >
+              <MaterialCommunityIcons name="eyedropper-variant" size={24} color={selectedTool === 'eyedropper' ? '#FFFFFF' : '#64748B'} />
+              <Text style={[styles.toolLabel, selectedTool === 'eyedropper' && styles.activeToolLabel]}>Pick</Text>
+            </TouchableOpacity>
+          )}
+
           {/* Move tool button to enable one-finger panning of zoomed canvas */}
           <TouchableOpacity
             style={[styles.toolButton, selectedTool === 'move' && styles.activeToolButton]}
@@ -489,6 +915,97 @@ export default function IntegratedColoringBookApp({
           </TouchableOpacity>
         </View>
 
+        {/* Colour by number - where the numbers' colours come from */}
+        {playMode === 'numbers' && (
+          <View style={styles.fillModeRow}>
+            <TouchableOpacity
+              style={[styles.fillModeChip, !numberReference && styles.fillModeChipActive]}
+              onPress={() => setNumberReference(null)}
+            >
+              <Text style={[styles.fillModeChipText, !numberReference && styles.fillModeChipTextActive]}>Generated colours</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.fillModeChip, !!numberReference && styles.fillModeChipActive]}
+              disabled={!canvasSnapshot}
+              onPress={startNumbersFromColoring}
+            >
+              <Text style={[styles.fillModeChipText, !!numberReference && styles.fillModeChipTextActive]}>From my colouring</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Fill mode - flat colour, a gradient placed by dragging, a pattern, or replace a colour everywhere */}
+        {selectedTool === 'bucket' && Platform.OS !== 'web' && playMode === 'free' && (
+          <View style={styles.fillModeRow}>
+            {([
+              ['solid', 'Solid'],
+              ['linear', 'Linear gradient'],
+              ['radial', 'Radial gradient'],
+              ['pattern', 'Pattern'],
+              ['replace', 'Replace colour'],
+            ] as const).map(([mode, label]) => (
+              <TouchableOpacity
+                key={mode}
+                style={[styles.fillModeChip, fillMode === mode && styles.fillModeChipActive]}
+                onPress={() => setFillMode(mode)}
+              >
+                <Text style={[styles.fillModeChipText, fillMode === mode && styles.fillModeChipTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+        {selectedTool === 'bucket' && Platform.OS !== 'web' && fillMode === 'pattern' && (
+          <PatternPicker value={fillPattern} onChange={setFillPattern} />
+        )}
+
+        {/* Symmetry - brush strokes and fills repeated across mirror axes or radial slices */}
+        {(selectedTool === 'brush' || selectedTool === 'bucket') && Platform.OS !== 'web' && playMode === 'free' && (
+          <SymmetryPicker value={symmetry} onChange={setSymmetry} />
+        )}
+
+        {/* Brush type - solid round stamp or a natural-media preset */}
+        {selectedTool === 'brush' && Platform.OS !== 'web' && (
+          <View style={styles.fillModeRow}>
+            {([
+              ['round', 'Round'],
+              ['crayon', 'Crayon'],
+              ['marker', 'Marker'],
+              ['watercolor', 'Watercolor'],
+              ['airbrush', 'Airbrush'],
+            ] as const).map(([kind, label]) => (
+              <TouchableOpacity
+                key={kind}
+                style={[styles.fillModeChip, brushKind === kind && styles.fillModeChipActive]}
+                onPress={() => setBrushKind(kind)}
+              >
+                <Text style={[styles.fillModeChipText, brushKind === kind && styles.fillModeChipTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Brush mode - lock each stroke to the region it starts in; steady hand trails the brush behind the finger */}
+        {selectedTool === 'brush' && Platform.OS !== 'web' && (
+          <View style={styles.fillModeRow}>
+            <TouchableOpacity
+              accessibilityRole="switch"
+              accessibilityState={{ checked: stayInsideLines }}
+              style={[styles.fillModeChip, stayInsideLines && styles.fillModeChipActive]}
+              onPress={() => setStayInsideLines((on) => !on)}
+            >
+              <Text style={[styles.fillModeChipText, stayInsideLines && styles.fillModeChipTextActive]}>Stay inside the lines</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              accessibilityRole="switch"
+              accessibilityState={{ checked: steadyHand }}
+              style={[styles.fillModeChip, steadyHand && styles.fillModeChipActive]}
+              onPress={() => setSteadyHand((on) => !on)}
+            >
+              <Text style={[styles.fillModeChipText, steadyHand && styles.fillModeChipTextActive]}>Steady hand</Text>
+            </TouchableOpacity>
+          </View>
+        )}
+
         {/* Size Slider - Only show for pen/brush tools */}
         {(selectedTool === 'brush' || selectedTool === 'eraser') && (
           <View style={styles.sizeSliderRow}>
@@ -557,14 +1074,41 @@ export default function IntegratedColoringBookApp({
           </View>
         )}
 
+        {/* Layers - fills on the fill layer, brushes on the active layer, outlines on top */}
+        {showLayers && layerStack && Platform.OS !== 'web' && (
+          <LayersPanel
+            stack={layerStack}
+            recentLayer={recentLayer}
+            onEdit={(edit: LayerEdit) => {
+              setRecentLayer(null);
+              bitmapCanvasRef.current?.editLayers?.(edit);
+            }}
+          />
+        )}
+
         {/* Actions Section - Middle row */}
     <View style={styles.actionsRow}>
-          <TouchableOpacity style={styles.modernActionButton} onPress={() => bitmapCanvasRef.current?.undo?.()}>
+          <TouchableOpacity
+            style={styles.modernActionButton}
+            onPress={async () => setRecentLayer((await bitmapCanvasRef.current?.undo?.()) ?? null)}
+          >
             <Ionicons name="arrow-undo" size={20} color="#FFFFFF" />
           </TouchableOpacity>
-          <TouchableOpacity style={styles.modernActionButton} onPress={() => bitmapCanvasRef.current?.redo?.()}>
+          <TouchableOpacity
+            style={styles.modernActionButton}
+            onPress={async () => setRecentLayer((await bitmapCanvasRef.current?.redo?.()) ?? null)}
+          >
             <Ionicons name="arrow-redo" size={20} color="#FFFFFF" />
           </TouchableOpacity>
+          {layerStack && Platform.OS !== 'web' && (
+            <TouchableOpacity
+              style={[styles.modernActionButton, showLayers && { backgroundColor: '#10b981' }]}
+              onPress={() => setShowLayers((on) => !on)}
+              accessibilityLabel="Layers"
+            >
+              <MaterialCommunityIcons name="layers-outline" size={20} color="#FFFFFF" />
+            </TouchableOpacity>
+          )}
           {/* Move toggle button */}
           <TouchableOpacity
       style={[styles.modernActionButton, selectedTool === 'move' && { backgroundColor: '#10b981' }]}
@@ -585,7 +1129,38 @@ export default function IntegratedColoringBookApp({
           style={styles.colorsScrollView}
           contentContainerStyle={styles.colorsContainer}
         >
-          {colors.map((color) => (
+          {/* Colour by number: the numbered palette replaces the colours */}
+          {playMode === 'numbers' && numberPalette.map((color, i) => (
+            <TouchableOpacity
+              key={`number-${i}`}
+              style={[
+                styles.modernColorButton,
+                styles.numberSwatch,
+                { backgroundColor: color },
+                selectedColor === color && styles.selectedModernColor,
+              ]}
+              onPress={() => {
+                setSelectedColor(color);
+                setSelectedTool('bucket');
+              }}
+            >
+              <Text style={styles.numberSwatchText}>{i + 1}</Text>
+            </TouchableOpacity>
+          ))}
+          {/* Recently picked colours (eyedropper, colour picker) ahead of the palette */}
+          {playMode === 'free' && recentColors.map((color) => (
+            <TouchableOpacity
+              key={`recent-${color}`}
+              style={[
+                styles.modernColorButton,
+                { backgroundColor: color },
+                selectedColor === color && styles.selectedModernColor,
+              ]}
+              onPress={() => setSelectedColor(color)}
+            />
+          ))}
+          {playMode === 'free' && recentColors.length > 0 && <View style={styles.recentColorsDivider} />}
+          {playMode === 'free' && colors.map((color) => (
             <TouchableOpacity
               key={color}
               style={[
@@ -605,6 +1180,15 @@ export default function IntegratedColoringBookApp({
             <MaterialIcons name="colorize" size={22} color={showColorTray ? '#ffffff' : '#64748B'} />
             <Text style={[styles.navItemText, showColorTray && styles.navItemTextActive]}>Color Picker</Text>
           </TouchableOpacity>
+          {Platform.OS !== 'web' && (
+            <TouchableOpacity
+              style={[styles.navItem, playMode === 'numbers' && styles.navItemActive]}
+              onPress={() => setPlayMode(playMode === 'numbers' ? 'free' : 'numbers')}
+            >
+              <MaterialCommunityIcons name="numeric" size={22} color={playMode === 'numbers' ? '#ffffff' : '#64748B'} />
+              <Text style={[styles.navItemText, playMode === 'numbers' && styles.navItemTextActive]}>By number</Text>
+            </TouchableOpacity>
+          )}
           <TouchableOpacity style={[styles.navItem, activeTab === 'templates' && styles.navItemActive]} onPress={() => setActiveTab('templates')}>
             <MaterialIcons name="view-module" size={22} color={activeTab === 'templates' ? '#ffffff' : '#64748B'} />
             <Text style={[styles.navItemText, activeTab === 'templates' && styles.navItemTextActive]}>Templates</Text>
@@ -631,6 +1215,12 @@ export default function IntegratedColoringBookApp({
           Pick a fun picture to color! 🎨
         </Text>
       </View>
+      {Platform.OS !== 'web' && (
+        <View style={styles.section}>
+          <SavedDrawingsManager onDrawingLoad={handleDrawingLoad} onPrintRequest={handlePrintDrawings} />
+          <AutosavePicker value={autosave} onChange={changeAutosave} />
+        </View>
+      )}
       <View style={styles.section}>
         <ImageUploaderEnhanced
           onBitmapTemplateSelected={handleBitmapTemplateSelected}
@@ -654,13 +1244,17 @@ export default function IntegratedColoringBookApp({
       {activeTab === 'color' && renderColorTab()}
       {activeTab === 'templates' && renderTemplatesTab()}
 
+      {Platform.OS !== 'web' && (
+        <PrintSheet targets={printTargets} onPrint={printPdf} onClose={() => setPrintTargets(null)} />
+      )}
+
       {/* Fullscreen Canvas Overlay */}
       <FullscreenCanvas
         isVisible={isFullscreen}
         onClose={() => setIsFullscreen(false)}
-        templateUri={currentTemplate?.bitmapUri}
+        templateUri={currentTemplate?.bitmapUri ?? undefined}
         selectedColor={selectedColor}
-  selectedTool={selectedTool === 'move' ? 'brush' : selectedTool}
+  selectedTool={selectedTool === 'move' || selectedTool === 'eyedropper' ? 'brush' : selectedTool}
         brushSize={brushSize}
         onColoringChange={() => {}}
         onColoringComplete={() => {}}
@@ -720,7 +1314,7 @@ export default function IntegratedColoringBookApp({
                   // Safer native picker: use hue and brightness sliders only
                   <ColorPicker
                     value={selectedColor}
-                    onComplete={(c: any) => setSelectedColor(c.hex)}
+                    onComplete={(c: any) => pickColor(c.hex)}
                     style={{ width: '100%' }}
                   >
                     <Preview hideInitialColor hideText style={{ marginBottom: 10 }} />
@@ -730,7 +1324,7 @@ export default function IntegratedColoringBookApp({
                 ) : (
                   <ColorPicker
                     value={selectedColor}
-                    onComplete={(c: any) => setSelectedColor(c.hex)}
+                    onComplete={(c: any) => pickColor(c.hex)}
                     style={{ width: '100%' }}
                   >
                     <Preview hideInitialColor hideText style={{ marginBottom: 10 }} />
@@ -795,6 +1389,9 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     alignItems: 'center',
   },
+  headerExportButton: {
+    marginRight: 8,
+  },
   canvasArea: {
     flex: 1,
     paddingHorizontal: 16,
@@ -954,6 +1551,29 @@ const styles = StyleSheet.create({
     paddingVertical: 12,
     marginBottom: 16,
   },
+  fillModeRow: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+    marginBottom: 16,
+  },
+  fillModeChip: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 999,
+    backgroundColor: '#F1F5F9',
+  },
+  fillModeChipActive: {
+    backgroundColor: '#6366f1',
+  },
+  fillModeChipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  fillModeChipTextActive: {
+    color: '#FFFFFF',
+  },
   sizeLabel: {
     fontSize: 14,
     fontWeight: '600',
@@ -1007,6 +1627,24 @@ const styles = StyleSheet.create({
     shadowRadius: 4,
     elevation: 2,
   },
+  numberSwatch: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  numberSwatchText: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: '#FFFFFF',
+    textShadowColor: 'rgba(0,0,0,0.6)',
+    textShadowRadius: 2,
+  },
+  recentColorsDivider: {
+    width: 1,
+    height: 32,
+    marginHorizontal: 4,
+    alignSelf: 'center',
+    backgroundColor: '#CBD5E1',
+  },
   selectedModernColor: {
     borderColor: '#1E293B',
     transform: [{ scale: 1.1 }],
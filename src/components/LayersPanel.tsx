@@ -0,0 +1,226 @@
+import { Feather, MaterialCommunityIcons } from '@expo/vector-icons';
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+import type {
+  LayerEdit,
+  LayerInfo,
+  LayerStackInfo,
+} from '../utils/PaintLayers';
+
+// Opacity steps offered per layer; a slider fights the canvas gestures
+const OPACITY_STEPS = [0.25, 0.5, 0.75, 1];
+
+interface LayersPanelProps {
+  stack: LayerStackInfo;
+  // Layer the last undo or redo changed, marked so the user can find it
+  recentLayer?: string | null;
+  onEdit: (edit: LayerEdit) => void;
+}
+
+interface LayerRowProps {
+  layer: LayerInfo;
+  index: number; // Among the paint layers, bottom = 0
+  paintCount: number;
+  active: boolean;
+  recent: boolean;
+  onEdit: (edit: LayerEdit) => void;
+}
+
+// Reorder, merge down and remove, for unlocked layers
+const LayerActions: React.FC<Omit<LayerRowProps, 'active' | 'recent'>> = ({
+  layer,
+  index,
+  paintCount,
+  onEdit,
+}) => {
+  const { id } = layer;
+  return (
+    <>
+      <TouchableOpacity
+        disabled={index >= paintCount - 1}
+        onPress={() => onEdit({ kind: 'move', id, to: index + 1 })}
+        style={styles.iconButton}
+      >
+        <Feather name="chevron-up" size={16} color="#374151" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        disabled={index === 0}
+        onPress={() => onEdit({ kind: 'move', id, to: index - 1 })}
+        style={styles.iconButton}
+      >
+        <Feather name="chevron-down" size={16} color="#374151" />
+      </TouchableOpacity>
+      <TouchableOpacity
+        disabled={index === 0}
+        onPress={() => onEdit({ kind: 'merge', id })}
+        style={styles.iconButton}
+      >
+        <MaterialCommunityIcons
+          name="arrow-collapse-down"
+          size={16}
+          color="#374151"
+        />
+      </TouchableOpacity>
+      {layer.kind === 'brush' && (
+        <TouchableOpacity
+          onPress={() => onEdit({ kind: 'remove', id })}
+          style={styles.iconButton}
+        >
+          <Feather name="trash-2" size={16} color="#EF4444" />
+        </TouchableOpacity>
+      )}
+    </>
+  );
+};
+
+const LayerRow: React.FC<LayerRowProps> = (props) => {
+  const { layer, active, recent, onEdit } = props;
+  const { id } = layer;
+  return (
+    <View style={[styles.row, active && styles.rowActive]}>
+      <View style={styles.rowHeader}>
+        <TouchableOpacity
+          onPress={() =>
+            onEdit({ kind: 'update', id, visible: !layer.visible })
+          }
+          style={styles.iconButton}
+        >
+          <Feather
+            name={layer.visible ? 'eye' : 'eye-off'}
+            size={16}
+            color="#374151"
+          />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={styles.nameButton}
+          disabled={layer.locked}
+          onPress={() => onEdit({ kind: 'select', id })}
+        >
+          <Text style={[styles.name, active && styles.nameActive]}>
+            {layer.name}
+            {recent ? ' •' : ''}
+          </Text>
+        </TouchableOpacity>
+        {layer.locked ? (
+          <Feather name="lock" size={14} color="#9CA3AF" />
+        ) : (
+          <LayerActions {...props} />
+        )}
+      </View>
+      <View style={styles.opacityRow}>
+        {OPACITY_STEPS.map((opacity) => (
+          <TouchableOpacity
+            key={opacity}
+            onPress={() => onEdit({ kind: 'update', id, opacity })}
+            style={[
+              styles.opacityChip,
+              layer.opacity === opacity && styles.opacityChipActive,
+            ]}
+          >
+            <Text style={styles.opacityText}>{opacity * 100}%</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    </View>
+  );
+};
+
+// Layers top to bottom, as they stack on the page
+export const LayersPanel: React.FC<LayersPanelProps> = ({
+  stack,
+  recentLayer,
+  onEdit,
+}) => {
+  const paintCount = stack.layers.length - 1;
+  return (
+    <View style={styles.container}>
+      {stack.layers
+        .map((layer, index) => (
+          <LayerRow
+            key={layer.id}
+            layer={layer}
+            index={index}
+            paintCount={paintCount}
+            active={layer.id === stack.active}
+            recent={layer.id === recentLayer}
+            onEdit={onEdit}
+          />
+        ))
+        .reverse()}
+      <TouchableOpacity
+        onPress={() => onEdit({ kind: 'add' })}
+        style={styles.addButton}
+      >
+        <Feather name="plus" size={16} color="#FFFFFF" />
+        <Text style={styles.addText}>Add brush layer</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    paddingVertical: 4,
+  },
+  row: {
+    padding: 6,
+    marginBottom: 4,
+    borderRadius: 8,
+    backgroundColor: '#F9FAFB',
+  },
+  rowActive: {
+    backgroundColor: '#EEF2FF',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  nameButton: {
+    flex: 1,
+    paddingHorizontal: 6,
+  },
+  name: {
+    fontSize: 14,
+    color: '#374151',
+  },
+  nameActive: {
+    fontWeight: '700',
+    color: '#4F46E5',
+  },
+  opacityRow: {
+    flexDirection: 'row',
+    marginTop: 4,
+  },
+  opacityChip: {
+    paddingHorizontal: 8,
+    paddingVertical: 2,
+    marginRight: 6,
+    borderRadius: 10,
+    backgroundColor: '#E5E7EB',
+  },
+  opacityChipActive: {
+    backgroundColor: '#C7D2FE',
+  },
+  opacityText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  addButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#6366F1',
+  },
+  addText: {
+    marginLeft: 6,
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+});
@@ -1,32 +1,114 @@
-import React, { useCallback, useEffect, useImperativeHandle, useRef, useState } from 'react';
+import React, { useCallback, useEffect, useImperativeHandle, useMemo, useRef, useState } from 'react';
 import {
-  Alert,
+  AppState,
   Dimensions,
+  type GestureResponderEvent,
   PanResponder,
   StyleSheet,
   Text,
   View,
   Animated,
+  Pressable,
 } from 'react-native';
 import { Image } from 'expo-image';
-import * as FileSystem from 'expo-file-system';
-import { encode as btoa, decode as atob } from 'base-64';
-import * as UPNG from 'upng-js';
 import Svg, { Path } from 'react-native-svg';
 
-// We previously used ZebraFloodFill, but Android was leaking through anti-aliased lines.
-// We'll compute a boundary mask once and run a mask-aware flood fill locally.
-// import { ZebraFloodFill } from '../utils/ZebraFloodFill';
+import { autosaveDelay } from '../services/AutosaveService';
+import { DrawingDocumentStore } from '../services/DrawingDocumentStore';
+import { TemplateMaskService } from '../services/TemplateMaskService';
+import { SAVED_HISTORY_LIMITS, UndoHistoryStore } from '../services/UndoHistoryStore';
+import { ColorByNumberOverlay } from './ColorByNumberOverlay';
+import { ColorLoupe } from './ColorLoupe';
+import { FillLeakPrompt } from './FillLeakPrompt';
+import { GradientFillBar } from './GradientFillBar';
+import { AXIS_HANDLE_RADIUS, SymmetryGuides } from './SymmetryGuides';
+import { fitIntoBox, resampleNearest } from '../utils/BitmapUtils';
+import {
+  buildColorByNumber,
+  checkFill,
+  type ColorByNumberPage,
+  completedRegions,
+} from '../utils/ColorByNumber';
+import type {
+  EngineSnapshot,
+  RgbaBitmap,
+} from '../utils/ColoringEngine';
+import {
+  createDrawingDocument,
+  documentTimelapse,
+  type DrawingDocument,
+  scaleDrawingDocument,
+} from '../utils/DrawingDocument';
+import { DEFAULT_COLORING_ENGINE } from '../utils/engines';
+import { type FillPreview, regionHighlight } from '../utils/FillLeakGuard';
+import {
+  type GradientKind,
+  type GradientSpec,
+  gradientStops,
+  regionGradientPreview,
+} from '../utils/GradientFill';
+import type { BrushKind } from '../utils/NaturalBrush';
+import type { LayerEdit, LayerStackInfo } from '../utils/PaintLayers';
+import type { PatternSpec } from '../utils/PatternFill';
+import { encodePngDataUrl, loadPngBitmap } from '../utils/PngCodec';
+import type { RegionMap } from '../utils/RegionLabeling';
+import {
+  type StrokeCurve,
+  StrokeBuilder,
+  type StrokePoint,
+  strokePaths,
+} from '../utils/StrokeSmoothing';
+import {
+  type SymmetryKind,
+  type SymmetrySpec,
+  symmetryTransforms,
+  transformPoints,
+} from '../utils/Symmetry';
+import { DEFAULT_HISTORY_BUDGET, UndoHistory } from '../utils/UndoHistory';
+import { createPaintWorkerClient, type PaintWorkerClient } from '../utils/worker/PaintWorkerClient';
+import type { PaintFill, PaintResult } from '../utils/worker/PaintWorkerProtocol';
+import {
+  type AnimationFormat,
+  planTimelapseFrames,
+  type Timelapse,
+  TimelapseRecorder,
+} from '../utils/worker/Timelapse';
+
+// Fill/brush/erase all go through the ColoringEngine contract, run by the
+// paint worker host (utils/worker). On native the host shares the JS thread
+// (see createInlineTransport): a newer touch cancels queued work, but a fill,
+// stroke chunk or encode that is running still holds up gestures. The
+// default backend is the mask-aware 'native-zebra' engine (ZebraFloodFill
+// leaked through anti-aliased lines on Android).
 
 interface Point {
   x: number;
   y: number;
 }
 
+// A bucket fill that looks like a leak, held back until the user decides
+interface PendingFill {
+  point: Point;
+  preview: FillPreview;
+  highlightUri: string;
+  sealFailed: boolean;
+}
+
+// A gradient fill being placed: region picked by the tap, direction by dragging
+interface GradientDraft {
+  seed: Point;
+  regionId: number;
+  start: Point;
+  end: Point;
+  // Where the current drag began (null when not dragging)
+  dragFrom: Point | null;
+  previewUri: string;
+}
+
 interface NativeZebraCanvasProps {
   templateUri?: string;
   selectedColor: string;
-  selectedTool: 'brush' | 'bucket' | 'eraser';
+  selectedTool: 'brush' | 'bucket' | 'eraser' | 'eyedropper';
   brushWidth?: number;
   width?: number;
   height?: number;
@@ -35,58 +117,59 @@ interface NativeZebraCanvasProps {
   interactionEnabled?: boolean;
   // Optional: when provided on first mount, restore canvas from this PNG data URL instead of template
   initialDataUrl?: string;
-}
-
-interface ColoringBitmap {
-  width: number;
-  height: number;
-  data: Uint8Array; // RGBA pixel data
+  // Registered coloring engine id (see utils/engines); defaults to 'native-zebra'
+  engine?: string;
+  // Bucket fills a flat colour, a gradient placed by dragging after the tap, a pattern,
+  // or recolours every region that has the tapped region's colour ('replace')
+  fillMode?: 'solid' | GradientKind | 'pattern' | 'replace';
+  // Pattern for fillMode 'pattern'; the ink is the selected colour
+  fillPattern?: Omit<PatternSpec, 'color'>;
+  // Gradient colour stops, evenly spaced; defaults to selected colour -> white
+  gradientColors?: string[];
+  // Brush keeps to the region where the stroke started ("magic marker")
+  stayInsideLines?: boolean;
+  // How brush strokes are interpolated between touch samples
+  strokeCurve?: StrokeCurve;
+  // Lazy-brush stabilizer: screen px the finger leads the brush by (0 = off)
+  stabilizer?: number;
+  // Brush texture: solid round stamp, or a natural-media preset
+  brush?: BrushKind;
+  // Eyedropper result: the paint colour where the finger was lifted
+  onColorPicked?: (color: string) => void;
+  // Colour-by-number play mode: numbered regions, fills checked against them.
+  // The palette comes from the `reference` PNG's colours, or is generated.
+  colorByNumber?: { reference?: string } | null;
+  // The numbered palette (number n is palette[n - 1]) once the page is built
+  onNumberPalette?: (palette: string[]) => void;
+  // Layer stack whenever it changes; null for engines without layers
+  onLayersChange?: (stack: LayerStackInfo | null) => void;
+  // Bytes undo history may hold before the oldest steps are dropped
+  historyBudget?: number;
+  // Drawing the undo history is saved to disk under (its My Drawings id, see
+  // AutosaveService), so it survives restarts; without one history lives only as
+  // long as the canvas
+  historyKey?: string;
+  // A saved .coloring drawing to open on the template in place of the one filed with
+  // the template itself; as with that one, a saved history under historyKey wins. The
+  // template's own drawing (an imported project) may bring a history saved under its uri.
+  drawingUri?: string;
+  // Autosave: history is written once edits pause, but no sooner than this many ms
+  // after the last write (0 = as soon as they pause), and whenever the app is backgrounded
+  autosaveInterval?: number;
+  // After each autosave, with the historyKey it was written under
+  onAutosave?: (key: string) => void;
+  // Something failed that the user should hear about, e.g. a drawing that would not
+  // open or an autosave; `title` says what
+  onError?: (title: string, error: unknown) => void;
+  // Brush strokes and bucket fills repeated at mirrored positions, as one
+  // undo step. The axes start at the page centre; drag their handle to move them.
+  symmetry?: { kind: SymmetryKind; segments?: number } | null;
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const DEFAULT_CANVAS_SIZE = Math.min(SCREEN_WIDTH - 40, 400);
-
-// Fit an image of size (iw, ih) into a box (bw, bh) preserving aspect ratio
-function fitIntoBox(iw: number, ih: number, bw: number, bh: number) {
-  if (!bw || !bh) return { width: iw, height: ih };
-  const arImg = iw / ih;
-  const arBox = bw / bh;
-  if (arImg > arBox) {
-    const width = bw;
-    const height = Math.round(bw / arImg);
-    return { width, height };
-  }
-  const height = bh;
-  const width = Math.round(bh * arImg);
-  return { width, height };
-}
-
-// Fast nearest-neighbor resampler for RGBA Uint8 data
-function resampleNearest(
-  src: Uint8Array,
-  sw: number,
-  sh: number,
-  dw: number,
-  dh: number
-): Uint8Array {
-  if (sw === dw && sh === dh) return new Uint8Array(src);
-  const dst = new Uint8Array(dw * dh * 4);
-  const xRatio = sw / dw;
-  const yRatio = sh / dh;
-  for (let y = 0; y < dh; y++) {
-    const sy = Math.min(sh - 1, Math.floor(y * yRatio));
-    for (let x = 0; x < dw; x++) {
-      const sx = Math.min(sw - 1, Math.floor(x * xRatio));
-      const si = (sy * sw + sx) * 4;
-      const di = (y * dw + x) * 4;
-      dst[di] = src[si];
-      dst[di + 1] = src[si + 1];
-      dst[di + 2] = src[si + 2];
-      dst[di + 3] = src[si + 3];
-    }
-  }
-  return dst;
-}
+// How long a wrong colour-by-number tap stays flagged
+const WRONG_TAP_FLASH_MS = 800;
 
 export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>(({
   templateUri,
@@ -98,88 +181,141 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
   onColoringComplete,
   interactionEnabled = true,
   initialDataUrl,
+  engine,
+  fillMode = 'solid',
+  gradientColors,
+  fillPattern,
+  stayInsideLines = false,
+  strokeCurve = 'catmull-rom',
+  stabilizer = 0,
+  brush = 'round',
+  onColorPicked,
+  colorByNumber,
+  onNumberPalette,
+  onLayersChange,
+  historyBudget = DEFAULT_HISTORY_BUDGET,
+  historyKey,
+  drawingUri,
+  autosaveInterval = 0,
+  onAutosave,
+  onError,
+  symmetry,
 }, ref) => {
-  const [bitmap, setBitmap] = useState<ColoringBitmap | null>(null);
-  const [originalTemplate, setOriginalTemplate] = useState<ColoringBitmap | null>(null);
+  const [bitmap, setBitmap] = useState<RgbaBitmap | null>(null);
   const [dataUrl, setDataUrl] = useState<string>('');
   const [isInitialized, setIsInitialized] = useState(false);
   const [canvasSize, setCanvasSize] = useState({ width: DEFAULT_CANVAS_SIZE, height: DEFAULT_CANVAS_SIZE });
-  const [history, setHistory] = useState<ColoringBitmap[]>([]);
-  const [historyIndex, setHistoryIndex] = useState(-1);
-  // Track last touch point to draw continuous brush lines
-  const lastPointRef = useRef<Point | null>(null);
-  // Working pixel buffer during an active brush/eraser stroke
-  const workingDataRef = useRef<Uint8Array | null>(null);
+  const [pendingFill, setPendingFill] = useState<PendingFill | null>(null);
+  const [gradientDraft, setGradientDraft] = useState<GradientDraft | null>(null);
+  // Colour-by-number page, the regions painted right so far and a flagged wrong tap
+  const [numberPage, setNumberPage] = useState<ColorByNumberPage | null>(null);
+  // Regions labeled at the last template load; the numbers are built on them
+  const [templateRegions, setTemplateRegions] = useState<RegionMap | null>(null);
+  const [doneRegions, setDoneRegions] = useState<Set<number>>(new Set());
+  const [wrongTap, setWrongTap] = useState<Point | null>(null);
+  // Eyedropper loupe while the finger is down (screen coordinates)
+  const [loupe, setLoupe] = useState<{ point: Point; color: string | null } | null>(null);
+  // Where the symmetry axes cross (bitmap px); null = page centre. Reset per template.
+  const [symmetryCenter, setSymmetryCenter] = useState<Point | null>(null);
+  const [draggingAxis, setDraggingAxis] = useState(false);
+  // Undo steps as compressed diffs; replaced whenever a template is (re)loaded
+  const historyRef = useRef<UndoHistory>(new UndoHistory(historyBudget));
+  // Drawing the history is saved under, and the pending debounced save
+  const historyKeyRef = useRef(historyKey);
+  const historySaveRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const lastHistorySaveRef = useRef(0);
+  const onAutosaveRef = useRef(onAutosave);
+  useEffect(() => {
+    onAutosaveRef.current = onAutosave;
+  }, [onAutosave]);
+  const onErrorRef = useRef(onError);
+  useEffect(() => {
+    onErrorRef.current = onError;
+  }, [onError]);
+  // Every operation since the template loaded, for timelapse replay and export
+  const recorderRef = useRef(new TimelapseRecorder());
+  // Template the engine was loaded with, for drawing documents; null when the page
+  // came from a painted copy or the fallback, which have no template to replay onto
+  const documentSourceRef = useRef<{ uri: string; outlineRepair: boolean } | null>(null);
+  // Frame of the timelapse being replayed over the page; bumping the run stops it
+  const [replayUri, setReplayUri] = useState<string | null>(null);
+  const replayRunRef = useRef(0);
+  // Owns the coloring backend; the engine is recreated whenever a template is (re)loaded
+  const workerRef = useRef<PaintWorkerClient | null>(null);
+  // Region labels from the worker, for fill and gradient previews
+  const regionsRef = useRef<RegionMap | null>(null);
+  // Newest page from a brush stroke, encoded on a throttle
+  const strokeBitmapRef = useRef<RgbaBitmap | null>(null);
+  // Smooths the current stroke's touch samples into brush points
+  const strokeBuilderRef = useRef<StrokeBuilder | null>(null);
+  // Last painted stroke point, so each batch joins on to the previous one
+  const lastPointRef = useRef<StrokePoint | null>(null);
+  // First touch of the current stroke; the region a locked brush keeps to
+  const strokeStartRef = useRef<Point | null>(null);
+  // Whether the current stroke painted anything (a locked or clipped one may not)
+  const strokeChangedRef = useRef(false);
   // Throttle expensive PNG encodes during brush moves
-  const lastEncodeTimeRef = useRef<number>(0);
   const encodeInFlightRef = useRef<boolean>(false);
   const encodeDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
-  // Precomputed boundary mask (1 = boundary/outline, 0 = fillable)
-  const boundaryMaskRef = useRef<Uint8Array | null>(null);
-  // Strong boundary mask (stricter, no dilation) to protect true dark lines in edge coat
-  const strongBoundaryMaskRef = useRef<Uint8Array | null>(null);
-  // Reusable work buffers to avoid GC thrash
-  const visitedRef = useRef<Uint8Array | null>(null);
-  const filledMaskRef = useRef<Uint8Array | null>(null);
   // Keep a stable ref for onColoringComplete to avoid effect churn
   const onCompleteRef = useRef<NativeZebraCanvasProps['onColoringComplete']>(onColoringComplete);
   useEffect(() => {
     onCompleteRef.current = onColoringComplete;
   }, [onColoringComplete]);
+  const onLayersRef = useRef(onLayersChange);
+  useEffect(() => {
+    onLayersRef.current = onLayersChange;
+  }, [onLayersChange]);
 
-  // Live preview of brush/eraser as a smooth overlay path
-  const [strokePoints, setStrokePoints] = useState<Point[]>([]);
+  // Live preview of brush/eraser: the same points (bitmap px) the worker paints
+  const [strokePoints, setStrokePoints] = useState<StrokePoint[]>([]);
   // Overlay fade to avoid flash when swapping preview -> committed bitmap
   const overlayOpacity = useRef(new Animated.Value(1)).current;
   const waitingForImageLoadRef = useRef<boolean>(false);
 
-  const cloneBitmap = useCallback((bmp: ColoringBitmap): ColoringBitmap => {
-    return {
-      width: bmp.width,
-      height: bmp.height,
-      data: new Uint8Array(bmp.data),
-    };
+  // Write any pending history save now, under the drawing it belongs to
+  const flushHistory = useCallback(() => {
+    if (!historySaveRef.current) return;
+    clearTimeout(historySaveRef.current);
+    historySaveRef.current = null;
+    const key = historyKeyRef.current;
+    if (!key) return;
+    lastHistorySaveRef.current = Date.now();
+    UndoHistoryStore.save(key, historyRef.current)
+      .then(() => onAutosaveRef.current?.(key))
+      .catch((error) => onErrorRef.current?.('Autosave failed', error));
   }, []);
 
-  const saveToHistory = useCallback((newBitmap: ColoringBitmap) => {
-    setHistory(prev => {
-      const newHistory = prev.slice(0, historyIndex + 1);
-      newHistory.push(cloneBitmap(newBitmap));
-      return newHistory;
+  // Write the history to disk once edits pause and the autosave interval has passed
+  const persistHistory = useCallback(() => {
+    if (!historyKeyRef.current) return;
+    if (historySaveRef.current) clearTimeout(historySaveRef.current);
+    historySaveRef.current = setTimeout(flushHistory, autosaveDelay(lastHistorySaveRef.current, autosaveInterval));
+  }, [flushHistory, autosaveInterval]);
+
+  useEffect(() => flushHistory, [flushHistory]);
+
+  // The app may be killed once in the background, so pending work is written first
+  useEffect(() => {
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state !== 'active') flushHistory();
     });
-    setHistoryIndex(prev => prev + 1);
-  }, [historyIndex, cloneBitmap]);
-
-  const hexToRgba = useCallback((hex: string): [number, number, number, number] => {
-    const r = parseInt(hex.slice(1, 3), 16);
-    const g = parseInt(hex.slice(3, 5), 16);
-    const b = parseInt(hex.slice(5, 7), 16);
-    return [r, g, b, 255];
-  }, []);
+    return () => subscription.remove();
+  }, [flushHistory]);
 
-  const updateDataUrl = useCallback(async (currentBitmap: ColoringBitmap): Promise<void> => {
+  const saveToHistory = useCallback((snapshot: EngineSnapshot) => {
+    historyRef.current.push(snapshot);
+    recorderRef.current.record({ op: 'commit' });
+    persistHistory();
+  }, [persistHistory]);
+
+  const updateDataUrl = useCallback(async (currentBitmap: RgbaBitmap): Promise<void> => {
     try {
       // Convert RGBA pixel buffer to a PNG using upng-js on both web and native
-      const pngArrayBuffer = (UPNG as any).encode(
-        [currentBitmap.data.buffer],
-        currentBitmap.width,
-        currentBitmap.height,
-        0
-      );
-
-      // Convert ArrayBuffer -> Base64
-      const bytes = new Uint8Array(pngArrayBuffer);
-      let binary = '';
-      const chunk = 0x8000;
-      for (let i = 0; i < bytes.length; i += chunk) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        binary += String.fromCharCode.apply(null as any, Array.prototype.slice.call(bytes, i, i + chunk));
-      }
-      const base64Png = btoa(binary);
-      const uri = `data:image/png;base64,${base64Png}`;
-  setDataUrl((prev) => (prev === uri ? prev : uri));
+      const uri = encodePngDataUrl(currentBitmap);
+      setDataUrl((prev) => (prev === uri ? prev : uri));
 
-  if (onCompleteRef.current) onCompleteRef.current(uri);
+      if (onCompleteRef.current) onCompleteRef.current(uri);
     } catch (error) {
       console.error('Failed to update data URL:', error);
       // Fallback: simple 1x1 white PNG
@@ -188,117 +324,230 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
     }
   }, []);
 
-  // Expose undo/redo/clear methods via ref
+  useEffect(() => {
+    const worker = createPaintWorkerClient();
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  // Re-render from a page the worker sent back
+  const commitBitmap = useCallback(async (next: RgbaBitmap): Promise<void> => {
+    setBitmap(next);
+    await updateDataUrl(next);
+  }, [updateDataUrl]);
+
+  // Step a replay engine in the worker through the recorded session, frame by
+  // frame over the page, at the recorded pace sped up. The page underneath is
+  // left as it is.
+  const playTimelapse = useCallback(async (): Promise<boolean> => {
+    const worker = workerRef.current;
+    const timelapse = recorderRef.current.timelapse();
+    if (!worker || timelapse.events.length === 0) return false;
+    const run = ++replayRunRef.current;
+    const frames = planTimelapseFrames(timelapse.events);
+    for (const [i, frame] of frames.entries()) {
+      const result = await worker.replay(frame.upTo, i === 0 ? timelapse : undefined);
+      if (replayRunRef.current !== run || !result?.bitmap) break;
+      setReplayUri(encodePngDataUrl(result.bitmap));
+      await new Promise((resolve) => setTimeout(resolve, frame.delay));
+    }
+    if (replayRunRef.current === run) setReplayUri(null);
+    return true;
+  }, []);
+
+  const restoreSnapshot = useCallback(async (snapshot: EngineSnapshot) => {
+    const result = await workerRef.current?.restore(snapshot);
+    if (!result) return;
+    onLayersRef.current?.(result.layers ?? null);
+    if (result.bitmap) await commitBitmap(result.bitmap);
+  }, [commitBitmap]);
+
+  const exportDocument = useCallback((title?: string): DrawingDocument | null => {
+    const source = documentSourceRef.current;
+    if (!source) return null;
+    return createDrawingDocument({
+      template: { uri: source.uri, ...(title && { title }) },
+      canvas: canvasSize,
+      engine: { id: engine ?? DEFAULT_COLORING_ENGINE, outlineRepair: source.outlineRepair },
+      timelapse: recorderRef.current.timelapse(),
+    });
+  }, [canvasSize, engine]);
+
+  // Expose undo/redo/clear methods via ref. Undo and redo resolve with the
+  // layer the step changed (snapshots record it), if the engine has layers.
   useImperativeHandle(ref, () => ({
-    undo: async () => {
-      if (historyIndex > 0) {
-        const prevBitmap = history[historyIndex - 1];
-        setBitmap({ ...prevBitmap, data: new Uint8Array(prevBitmap.data) });
-        setHistoryIndex(historyIndex - 1);
-        await updateDataUrl({ ...prevBitmap, data: new Uint8Array(prevBitmap.data) });
-      }
+    undo: async (): Promise<string | undefined> => {
+      const step = historyRef.current.undo();
+      if (!step) return;
+      recorderRef.current.record({ op: 'undo' });
+      persistHistory();
+      await restoreSnapshot(step.snapshot);
+      return step.layer;
     },
-    redo: async () => {
-      if (historyIndex < history.length - 1) {
-        const nextBitmap = history[historyIndex + 1];
-        setBitmap({ ...nextBitmap, data: new Uint8Array(nextBitmap.data) });
-        setHistoryIndex(historyIndex + 1);
-        await updateDataUrl({ ...nextBitmap, data: new Uint8Array(nextBitmap.data) });
-      }
+    redo: async (): Promise<string | undefined> => {
+      const step = historyRef.current.redo();
+      if (!step) return;
+      recorderRef.current.record({ op: 'redo' });
+      persistHistory();
+      await restoreSnapshot(step.snapshot);
+      return step.layer;
     },
     clear: async () => {
-      if (bitmap) {
-        const clearBitmap = cloneBitmap(bitmap);
-        // Fill with white
-        for (let i = 0; i < clearBitmap.data.length; i += 4) {
-          clearBitmap.data[i] = 255;     // R
-          clearBitmap.data[i + 1] = 255; // G
-          clearBitmap.data[i + 2] = 255; // B
-          clearBitmap.data[i + 3] = 255; // A
-        }
-        setBitmap(clearBitmap);
-        await updateDataUrl(clearBitmap);
-        saveToHistory(clearBitmap);
+      // Back to the freshly loaded template, as one more undoable step
+      const first = historyRef.current.firstSnapshot();
+      if (first) {
+        recorderRef.current.record({ op: 'clear' });
+        await restoreSnapshot(first);
+        saveToHistory(first);
       }
     },
     save: () => {
       console.log('Save functionality handled by parent component');
+    },
+    // Add, remove, update, reorder, merge or select layers; undoable except selection
+    editLayers: async (edit: LayerEdit) => {
+      const result = await workerRef.current?.layers(edit);
+      if (!result) return;
+      if (result.changed) recorderRef.current.record({ op: 'layers', edit });
+      onLayersRef.current?.(result.layers ?? null);
+      if (result.snapshot) saveToHistory(result.snapshot);
+      if (result.bitmap) await commitBitmap(result.bitmap);
+    },
+    // The page traced into a scalable SVG document, or null if not ready
+    exportSvg: async (): Promise<string | null> => {
+      const result = await workerRef.current?.vector();
+      return result?.svg ?? null;
+    },
+    // Replay the session over the page; false if nothing was recorded yet
+    replayTimelapse: () => playTimelapse(),
+    stopTimelapse: () => {
+      replayRunRef.current++;
+      setReplayUri(null);
+    },
+    // The session as an animated PNG or GIF; null if nothing was recorded yet
+    exportTimelapse: async (format: AnimationFormat): Promise<Uint8Array | null> => {
+      const timelapse = recorderRef.current.timelapse();
+      if (timelapse.events.length === 0) return null;
+      const result = await workerRef.current?.animation(timelapse, format);
+      return result?.animation ?? null;
+    },
+    // The drawing as a replayable .coloring document; null without a template to replay onto
+    exportDocument: (title?: string): DrawingDocument | null => exportDocument(title),
+    // What a project bundle needs from the canvas: the drawing, its undo history and the page
+    exportProject: (title?: string) => {
+      const drawing = exportDocument(title);
+      if (!drawing || !bitmap) return null;
+      const history = historyRef.current.serialize(SAVED_HISTORY_LIMITS);
+      // Operations before `carriedOver` were recorded when the drawing was last open
+      const carriedOver = recorderRef.current.carriedOver;
+      return { drawing, history: history.length ? history : undefined, page: bitmap, carriedOver };
+    },
+    // The page as coloured so far, e.g. to print; null before the template loads
+    exportPage: (): RgbaBitmap | null => bitmap,
+  }), [restoreSnapshot, saveToHistory, persistHistory, commitBitmap, playTimelapse, exportDocument, bitmap]);
+
+  // Hand a template bitmap (and its repaired outline, if any) to a fresh engine and reset history
+  // to it. A saved history for the same template picks up where it left off instead; failing
+  // that, an imported drawing is replayed onto the page.
+  const initializeEngine = useCallback(async (
+    template: RgbaBitmap,
+    { outlineRepair, saved, drawing }: {
+      outlineRepair?: Uint8Array;
+      saved?: UndoHistory | null;
+      drawing?: DrawingDocument | null;
+    } = {}
+  ) => {
+    const worker = workerRef.current;
+    if (!worker) return;
+    setPendingFill(null);
+    setGradientDraft(null);
+    setSymmetryCenter(null);
+    // Loading cancels whatever the previous template still had queued
+    const result = await worker.load(template, { engine, outlineRepair });
+    if (!result?.bitmap || !result.snapshot) return;
+    regionsRef.current = result.regions ?? null;
+    setTemplateRegions(result.regions ?? null);
+    const resumed = saved?.startsFrom(result.snapshot) ? saved.currentSnapshot() : null;
+    let imported: PaintResult | null = null;
+    // Recording carries on from the drawing's operations, so saving it again keeps
+    // them all; only a history resumed without them starts from its state
+    let recorded: Timelapse | undefined = resumed ? { base: resumed, events: [] } : undefined;
+    if (!resumed && drawing) {
+      try {
+        // Drawn on another device, maybe at another canvas size
+        const timelapse = documentTimelapse(scaleDrawingDocument(drawing, template));
+        imported = await worker.apply(timelapse);
+        if (imported?.snapshot) recorded = timelapse;
+      } catch (error) {
+        // E.g. a resumed drawing from a canvas of another size; the page opens blank
+        onErrorRef.current?.('Could not open drawing', error);
+      }
+    }
+    recorderRef.current.start(recorded);
+    if (saved && resumed) {
+      historyRef.current = saved;
+      const restored = await worker.restore(resumed);
+      onLayersRef.current?.(restored?.layers ?? result.layers ?? null);
+      await commitBitmap(restored?.bitmap ?? result.bitmap);
+    } else if (imported?.snapshot) {
+      onLayersRef.current?.(imported.layers ?? result.layers ?? null);
+      await commitBitmap(imported.bitmap ?? result.bitmap);
+      historyRef.current = new UndoHistory(historyBudget);
+      historyRef.current.reset(imported.snapshot);
+    } else {
+      onLayersRef.current?.(result.layers ?? null);
+      await commitBitmap(result.bitmap);
+      // Save initial state to history
+      historyRef.current = new UndoHistory(historyBudget);
+      historyRef.current.reset(result.snapshot);
     }
-  }), [historyIndex, history, bitmap, cloneBitmap, updateDataUrl, saveToHistory]);
+
+    setIsInitialized(true);
+  }, [engine, historyBudget, commitBitmap]);
 
   const loadTemplate = useCallback(async () => {
-    const sourceUri = initialDataUrl || templateUri;
+    flushHistory();
+    historyKeyRef.current = historyKey;
+    // A saved history or imported drawing replays onto the template itself, not onto a painted copy
+    const saved = templateUri
+      ? ((historyKey && await UndoHistoryStore.load(historyKey, historyBudget))
+        || (drawingUri ? null : await UndoHistoryStore.load(templateUri, historyBudget)))
+      : null;
+    const drawing = drawingUri
+      ? await DrawingDocumentStore.read(drawingUri)
+      : templateUri ? await DrawingDocumentStore.load(templateUri) : null;
+    if (drawingUri && !drawing && !saved) {
+      onErrorRef.current?.('Could not open drawing', new Error('Its file is missing or damaged, so the page opens blank.'));
+    }
+    const sourceUri = (saved || drawing ? templateUri : initialDataUrl) || templateUri;
     if (!sourceUri) return;
 
     try {
-      let imageData: Uint8Array;
-      let imgWidth: number;
-      let imgHeight: number;
-
-      if (sourceUri.startsWith('data:')) {
-        // Handle data URL
-        const base64Data = sourceUri.split(',')[1];
-        const binaryString = atob(base64Data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        const decoded = UPNG.decode(bytes.buffer);
-        imageData = new Uint8Array(UPNG.toRGBA8(decoded)[0]);
-        imgWidth = decoded.width;
-        imgHeight = decoded.height;
-      } else {
-        // Handle file URI
-        const base64Data = await FileSystem.readAsStringAsync(sourceUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        
-        const binaryString = atob(base64Data);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-          bytes[i] = binaryString.charCodeAt(i);
-        }
-        
-        const decoded = UPNG.decode(bytes.buffer);
-        imageData = new Uint8Array(UPNG.toRGBA8(decoded)[0]);
-        imgWidth = decoded.width;
-        imgHeight = decoded.height;
-      }
+      const decoded = await loadPngBitmap(sourceUri);
 
       // Fit into view box and downscale pixel data to displayed size to reduce per-pixel work
       const viewBoxW = width || DEFAULT_CANVAS_SIZE;
       const viewBoxH = height || DEFAULT_CANVAS_SIZE;
-      const fitted = fitIntoBox(imgWidth, imgHeight, viewBoxW, viewBoxH);
+      const fitted = fitIntoBox(decoded, viewBoxW, viewBoxH);
+      const newBitmap = resampleNearest(decoded, fitted.width, fitted.height);
 
-      const newBitmap: ColoringBitmap =
-        (imgWidth !== fitted.width || imgHeight !== fitted.height)
-          ? { width: fitted.width, height: fitted.height, data: resampleNearest(imageData, imgWidth, imgHeight, fitted.width, fitted.height) }
-          : { width: imgWidth, height: imgHeight, data: imageData };
+      // Outline gaps bridged when the template was imported (user templates only)
+      const outlineRepair = templateUri ? await TemplateMaskService.load(templateUri, fitted) : null;
 
-      setBitmap(newBitmap);
-      setOriginalTemplate(cloneBitmap(newBitmap)); // Store original template for eraser
-  setCanvasSize({ width: fitted.width, height: fitted.height });
-  // Build robust masks from the loaded template and allocate reusable work buffers
-  boundaryMaskRef.current = computeBoundaryMask(newBitmap);
-  strongBoundaryMaskRef.current = computeStrongBoundaryMask(newBitmap);
-  visitedRef.current = new Uint8Array(newBitmap.width * newBitmap.height);
-  filledMaskRef.current = new Uint8Array(newBitmap.width * newBitmap.height);
-      await updateDataUrl(newBitmap);
-      
-      // Save initial state to history
-      setHistory([cloneBitmap(newBitmap)]);
-      setHistoryIndex(0);
-      
-      setIsInitialized(true);
+      setCanvasSize({ width: fitted.width, height: fitted.height });
+      documentSourceRef.current = sourceUri === templateUri
+        ? { uri: templateUri, outlineRepair: !!outlineRepair }
+        : null;
+      await initializeEngine(newBitmap, { outlineRepair: outlineRepair ?? undefined, saved, drawing });
       console.log('✅ Template loaded and scaled successfully');
     } catch (error) {
       console.error('❌ Failed to load template:', error);
       await createFallbackTemplate();
     }
-  }, [templateUri, initialDataUrl, width, height, updateDataUrl, cloneBitmap]);
+  }, [templateUri, initialDataUrl, width, height, historyKey, drawingUri, historyBudget, flushHistory, initializeEngine]);
 
   const createFallbackTemplate = useCallback(async () => {
+  documentSourceRef.current = null;
   const viewBoxW = width || DEFAULT_CANVAS_SIZE;
   const viewBoxH = height || DEFAULT_CANVAS_SIZE;
   // Generate a square fallback bitmap but fit its display into the requested box
@@ -338,437 +587,366 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
       }
     }
 
-    const fallbackBitmap: ColoringBitmap = {
+    const fallbackBitmap: RgbaBitmap = {
       width: templateWidth,
       height: templateHeight,
       data: fallbackData,
     };
 
-    setBitmap(fallbackBitmap);
-    setOriginalTemplate(cloneBitmap(fallbackBitmap)); // Store original template for eraser
     // Use provided dimensions for fullscreen mode
-  const fitted = fitIntoBox(templateWidth, templateHeight, viewBoxW, viewBoxH);
+  const fitted = fitIntoBox(fallbackBitmap, viewBoxW, viewBoxH);
   setCanvasSize({ width: fitted.width, height: fitted.height });
-  // Build boundary masks for fallback as well
-  boundaryMaskRef.current = computeBoundaryMask(fallbackBitmap);
-  strongBoundaryMaskRef.current = computeStrongBoundaryMask(fallbackBitmap);
-  visitedRef.current = new Uint8Array(fallbackBitmap.width * fallbackBitmap.height);
-  filledMaskRef.current = new Uint8Array(fallbackBitmap.width * fallbackBitmap.height);
-    await updateDataUrl(fallbackBitmap);
-    
-    // Save initial state to history
-    setHistory([cloneBitmap(fallbackBitmap)]);
-    setHistoryIndex(0);
-    
-    setIsInitialized(true);
+    await initializeEngine(fallbackBitmap);
     console.log('✅ Created fallback template');
-  }, [width, height, updateDataUrl, cloneBitmap]);
+  }, [width, height, initializeEngine]);
+
+  // Convert touch coordinates to bitmap coordinates
+  const toBitmapPoint = useCallback((touchX: number, touchY: number): Point => {
+    const scaleX = (bitmap?.width || 1) / canvasSize.width;
+    const scaleY = (bitmap?.height || 1) / canvasSize.height;
+    return { x: Math.floor(touchX * scaleX), y: Math.floor(touchY * scaleY) };
+  }, [bitmap, canvasSize]);
+
+  // Symmetry with its axes placed; pixel centres, so the middle column maps onto itself
+  const symmetrySpec = useMemo((): SymmetrySpec | undefined => {
+    if (!symmetry || !bitmap) return undefined;
+    const center = symmetryCenter ?? { x: (bitmap.width - 1) / 2, y: (bitmap.height - 1) / 2 };
+    return { ...symmetry, center };
+  }, [symmetry, bitmap, symmetryCenter]);
+
+  // Whether a touch (screen px) lands on the axes' drag handle
+  const onAxisHandle = useCallback((touchX: number, touchY: number): boolean => {
+    if (!symmetrySpec || !bitmap) return false;
+    const hx = ((symmetrySpec.center.x + 0.5) * canvasSize.width) / bitmap.width;
+    const hy = ((symmetrySpec.center.y + 0.5) * canvasSize.height) / bitmap.height;
+    // A little slack around the drawn handle for fingers
+    return Math.hypot(touchX - hx, touchY - hy) <= AXIS_HANDLE_RADIUS * 2;
+  }, [symmetrySpec, bitmap, canvasSize]);
+
+  const moveAxes = useCallback((touchX: number, touchY: number) => {
+    if (!bitmap) return;
+    const { x, y } = toBitmapPoint(touchX, touchY);
+    setSymmetryCenter({
+      x: Math.min(bitmap.width - 1, Math.max(0, x)),
+      y: Math.min(bitmap.height - 1, Math.max(0, y)),
+    });
+  }, [bitmap, toBitmapPoint]);
+
+  // Run a fill in the worker (mirrored in symmetry mode); commit and record it if it changed the page
+  const runFill = useCallback(async (point: Point, fill: PaintFill): Promise<boolean> => {
+    const result = await workerRef.current?.fill(point, fill, symmetrySpec);
+    if (!result?.changed || !result.snapshot) return false;
+    recorderRef.current.record({ op: 'fill', point, fill, symmetry: symmetrySpec });
+    if (result.bitmap) await commitBitmap(result.bitmap);
+    saveToHistory(result.snapshot);
+    return true;
+  }, [commitBitmap, saveToHistory, symmetrySpec]);
+
+  const applyFill = useCallback(
+    async (point: Point) => {
+      let fill: PaintFill = { kind: 'solid', color: selectedColor };
+      if (fillMode === 'pattern' && fillPattern) {
+        fill = { kind: 'pattern', pattern: { ...fillPattern, color: selectedColor } };
+      } else if (fillMode === 'replace') {
+        // One fill request, so all the recoloured regions are one undo step
+        fill = { kind: 'replace', color: selectedColor };
+      }
+      await runFill(point, fill);
+    },
+    [selectedColor, fillMode, fillPattern, runFill]
+  );
+
+  // Hold back fills that would flood most of the page and preview them instead
+  const holdIfLeaking = useCallback(
+    async (point: Point, sealFailed: boolean): Promise<boolean> => {
+      const preview = (await workerRef.current?.preview(point))?.preview;
+      const map = regionsRef.current;
+      if (!preview?.leaking || !map) return false;
+      const highlightUri = encodePngDataUrl(regionHighlight(map, preview.regionId, selectedColor));
+      setPendingFill({ point, preview, highlightUri, sealFailed });
+      return true;
+    },
+    [selectedColor]
+  );
+
+  const gradientSpec = useCallback((draft: Pick<GradientDraft, 'start' | 'end'>): GradientSpec => ({
+    kind: fillMode === 'radial' ? 'radial' : 'linear',
+    start: draft.start,
+    end: draft.end,
+    stops: gradientStops(gradientColors ?? [selectedColor, '#FFFFFF']),
+  }), [fillMode, gradientColors, selectedColor]);
+
+  const withGradientPreview = useCallback((draft: Omit<GradientDraft, 'previewUri'>): GradientDraft => {
+    const map = regionsRef.current;
+    const previewUri = map ? encodePngDataUrl(regionGradientPreview(map, draft.regionId, gradientSpec(draft))) : '';
+    return { ...draft, previewUri };
+  }, [gradientSpec]);
+
+  // Gradient mode: the tap picks the region and shows a default gradient
+  // across it; dragging then sets direction and where the stops sit
+  const beginGradientFill = useCallback(async (point: Point): Promise<boolean> => {
+    const preview = (await workerRef.current?.preview(point))?.preview;
+    const region = preview && regionsRef.current?.regions[preview.regionId - 1];
+    if (!preview || !region) return false;
+    const { minX, maxX, maxY } = region.bounds;
+    const cy = Math.round(region.centroid.y);
+    const draft = fillMode === 'radial'
+      ? { start: { x: Math.round(region.centroid.x), y: cy }, end: { x: maxX, y: maxY } }
+      : { start: { x: minX, y: cy }, end: { x: maxX, y: cy } };
+    setGradientDraft(withGradientPreview({ seed: point, regionId: preview.regionId, dragFrom: null, ...draft }));
+    return true;
+  }, [fillMode, withGradientPreview]);
+
+  const applyGradientFill = useCallback(async () => {
+    if (!gradientDraft) return;
+    setGradientDraft(null);
+    await runFill(gradientDraft.seed, { kind: 'gradient', gradient: gradientSpec(gradientDraft) });
+  }, [gradientDraft, gradientSpec, runFill]);
+
+  // Colour-by-number: a fill in the wrong colour is flagged, not painted
+  const checkNumberedFill = useCallback(async (point: Point): Promise<boolean> => {
+    if (!numberPage) return true;
+    const regionId = (await workerRef.current?.preview(point))?.preview?.regionId;
+    if (!regionId || checkFill(numberPage, regionId, selectedColor) !== 'wrong') return true;
+    const region = numberPage.regions.find((r) => r.id === regionId);
+    setWrongTap(region?.label ?? point);
+    setTimeout(() => setWrongTap(null), WRONG_TAP_FLASH_MS);
+    return false;
+  }, [numberPage, selectedColor]);
 
   const performFloodFill = useCallback(
     async (touchX: number, touchY: number) => {
-      if (!bitmap || !isInitialized) return;
+      if (!isInitialized) return;
 
       try {
-        // Convert touch coordinates to bitmap coordinates
-        const scaleX = bitmap.width / canvasSize.width;
-        const scaleY = bitmap.height / canvasSize.height;
-        let sx = Math.floor(touchX * scaleX);
-        let sy = Math.floor(touchY * scaleY);
-
-        // Ensure masks are available
-        if (!boundaryMaskRef.current) {
-          console.warn('performFloodFill: missing boundary mask, building now.');
-          boundaryMaskRef.current = computeBoundaryMask(bitmap);
-        }
-        if (!strongBoundaryMaskRef.current) {
-          console.warn('performFloodFill: missing strong boundary mask, building now.');
-          strongBoundaryMaskRef.current = computeStrongBoundaryMask(bitmap);
-        }
-
-        // If tapped on a boundary, nudge to nearest fillable pixel within small radius
-        const isBoundaryAt = (x: number, y: number) => {
-          if (!boundaryMaskRef.current) return false;
-          if (x < 0 || y < 0 || x >= bitmap.width || y >= bitmap.height) return true;
-          return boundaryMaskRef.current[y * bitmap.width + x] === 1;
-        };
-
-        if (isBoundaryAt(sx, sy)) {
-          let found = false;
-          // Slightly larger search radius to find a fillable pixel adjacent to outlines
-          search: for (let r = 1; r <= 5; r++) {
-            for (let dy = -r; dy <= r; dy++) {
-              for (let dx = -r; dx <= r; dx++) {
-                const nx = sx + dx;
-                const ny = sy + dy;
-                if (
-                  nx >= 0 && ny >= 0 && nx < bitmap.width && ny < bitmap.height &&
-                  !isBoundaryAt(nx, ny)
-                ) {
-                  sx = nx;
-                  sy = ny;
-                  found = true;
-                  break search;
-                }
-              }
-            }
-          }
-          if (!found) return; // nowhere to fill
-        }
-
-        console.log(`🪣 Flood filling at bitmap coords (${sx}, ${sy}) with color ${selectedColor}`);
-
-        // Prepare new buffer and read target (seed) color
-        const newData = new Uint8Array(bitmap.data);
-        const idx = (sy * bitmap.width + sx) * 4;
-        const targetR = newData[idx];
-        const targetG = newData[idx + 1];
-        const targetB = newData[idx + 2];
-        const targetA = newData[idx + 3];
-
-        // Selected color RGBA
-        const [fillR, fillG, fillB, fillA] = hexToRgba(selectedColor);
-
-        // If already similar to fill color, no-op
-        const colorClose = (r: number, g: number, b: number, a: number) => {
-          const tol = 10;
-          return (
-            Math.abs(r - fillR) <= tol &&
-            Math.abs(g - fillG) <= tol &&
-            Math.abs(b - fillB) <= tol &&
-            Math.abs(a - fillA) <= tol
-          );
-        };
-        if (colorClose(targetR, targetG, targetB, targetA)) {
-          console.log('⚠️ Target already similar to fill color');
-          return;
-        }
-
-        // Local BFS flood fill that respects boundary mask and color tolerance
-        // Use ring buffer queue and preallocated arrays to minimize GC/CPU
-        const total = bitmap.width * bitmap.height;
-        let visited = visitedRef.current;
-        let filledMask = filledMaskRef.current;
-        if (!visited || visited.length !== total) {
-          visited = new Uint8Array(total);
-          visitedRef.current = visited;
-        } else {
-          visited.fill(0);
-        }
-        if (!filledMask || filledMask.length !== total) {
-          filledMask = new Uint8Array(total);
-          filledMaskRef.current = filledMask;
-        } else {
-          filledMask.fill(0);
-        }
-        const qx = new Int32Array(total);
-        const qy = new Int32Array(total);
-        let qh = 0, qt = 0;
-        qx[qt] = sx; qy[qt] = sy; qt = (qt + 1) % total;
-        const withinTol = (x: number, y: number) => {
-          const i = (y * bitmap.width + x) * 4;
-          const r = newData[i];
-          const g = newData[i + 1];
-          const b = newData[i + 2];
-          const a = newData[i + 3];
-          const tol = 20; // a bit more forgiving than default to avoid speckles
-          return (
-            Math.abs(r - targetR) <= tol &&
-            Math.abs(g - targetG) <= tol &&
-            Math.abs(b - targetB) <= tol &&
-            Math.abs(a - targetA) <= tol
-          );
-        };
-
-        let filled = 0;
-        while (qh !== qt) {
-          const x = qx[qh];
-          const y = qy[qh];
-          qh = (qh + 1) % total;
-          if (x < 0 || y < 0 || x >= bitmap.width || y >= bitmap.height) continue;
-          const mIndex = y * bitmap.width + x;
-          if (visited[mIndex]) continue;
-          visited[mIndex] = 1;
-          // Respect boundary mask
-          if (boundaryMaskRef.current && boundaryMaskRef.current[mIndex] === 1) continue;
-          // Keep to similar color region
-          if (!withinTol(x, y)) continue;
-
-          // Paint pixel
-          const pi = mIndex * 4;
-          newData[pi] = fillR;
-          newData[pi + 1] = fillG;
-          newData[pi + 2] = fillB;
-          newData[pi + 3] = fillA;
-          filledMask[mIndex] = 1;
-          filled++;
-
-          // 4-way neighbors
-          qx[qt] = x + 1; qy[qt] = y; qt = (qt + 1) % total;
-          qx[qt] = x - 1; qy[qt] = y; qt = (qt + 1) % total;
-          qx[qt] = x; qy[qt] = y + 1; qt = (qt + 1) % total;
-          qx[qt] = x; qy[qt] = y - 1; qt = (qt + 1) % total;
-        }
-
-        if (filled > 0) {
-          // Adaptive, boundary-aware gap sealing: lightly grow the region only along outlines
-          // to close anti-aliased gaps without leaking past dark lines.
-          const strong = strongBoundaryMaskRef.current!; // strict boundary mask
-          const loose = boundaryMaskRef.current; // looser (dilated) boundary mask
-          const widthW = bitmap.width;
-          const heightH = bitmap.height;
-          const isBright = (idxPix: number) => {
-            const ri = idxPix * 4;
-            const r = newData[ri];
-            const g = newData[ri + 1];
-            const b = newData[ri + 2];
-            // Luma threshold tuned to keep away from dark outline greys
-            const luma = 0.2126 * r + 0.7152 * g + 0.0722 * b;
-            return luma > 110; // allow painting on light rim
-          };
-
-          // Heuristic: for small fills, allow up to 2 sealing passes; large fills only 1
-          const totalPx = widthW * heightH;
-          const areaRatio = filled / totalPx;
-          const maxPasses = areaRatio < 0.05 ? 2 : 1;
-
-          for (let pass = 0; pass < maxPasses; pass++) {
-            let added = 0;
-            const toPaint: number[] = [];
-            for (let y = 0; y < heightH; y++) {
-              for (let x = 0; x < widthW; x++) {
-                const idx1 = y * widthW + x;
-                if (filledMask[idx1] === 1) continue; // already painted
-                if (strong[idx1] === 1) continue; // never cross strong boundaries
-
-                // Must be adjacent to the filled region (8-neighborhood)
-                let neighborFilled = false;
-                // And preferably hugging a boundary pixel to target AA gaps
-                let neighborBoundary = false;
-                for (let dy = -1; dy <= 1; dy++) {
-                  for (let dx = -1; dx <= 1; dx++) {
-                    if (dx === 0 && dy === 0) continue;
-                    const nx = x + dx;
-                    const ny = y + dy;
-                    if (nx < 0 || ny < 0 || nx >= widthW || ny >= heightH) continue;
-                    const nIdx = ny * widthW + nx;
-                    if (!neighborFilled && filledMask[nIdx] === 1) neighborFilled = true;
-                    if (!neighborBoundary && loose && loose[nIdx] === 1) neighborBoundary = true;
-                    if (neighborFilled && neighborBoundary) break;
-                  }
-                  if (neighborFilled && neighborBoundary) break;
-                }
-                if (!neighborFilled || !neighborBoundary) continue;
-                if (!isBright(idx1)) continue; // skip darker pixels near outline
-                toPaint.push(idx1);
-              }
-            }
-
-            for (const nIdx of toPaint) {
-              const pi2 = nIdx * 4;
-              newData[pi2] = fillR;
-              newData[pi2 + 1] = fillG;
-              newData[pi2 + 2] = fillB;
-              newData[pi2 + 3] = fillA;
-              filledMask[nIdx] = 1;
-              added++;
-            }
-
-            // Early exit if pass added very little
-            if (added === 0) break;
-          }
-
-          const newBitmap: ColoringBitmap = {
-            width: bitmap.width,
-            height: bitmap.height,
-            data: newData,
-          };
-          // Reapply outlines to prevent fill from softening or covering template lines
-          if (originalTemplate && strongBoundaryMaskRef.current) {
-            const mask = strongBoundaryMaskRef.current;
-            for (let i = 0; i < mask.length; i++) {
-              if (mask[i] === 1) {
-                const pi = i * 4;
-                newBitmap.data[pi] = originalTemplate.data[pi];
-                newBitmap.data[pi + 1] = originalTemplate.data[pi + 1];
-                newBitmap.data[pi + 2] = originalTemplate.data[pi + 2];
-                newBitmap.data[pi + 3] = originalTemplate.data[pi + 3];
-              }
-            }
-          }
-          setBitmap(newBitmap);
-          await updateDataUrl(newBitmap);
-          saveToHistory(newBitmap);
-          console.log(`✅ Flood fill successful, pixels filled: ${filled}`);
-        } else {
-          console.log('⚠️ Flood fill had no effect');
-        }
+        const point = toBitmapPoint(touchX, touchY);
+        if (!(await checkNumberedFill(point))) return;
+        if ((fillMode === 'linear' || fillMode === 'radial') && (await beginGradientFill(point))) return;
+        // Replace only recolours closed regions; there is no single flood to leak
+        if (fillMode !== 'replace' && (await holdIfLeaking(point, false))) return;
+        await applyFill(point);
       } catch (error) {
-        console.error('❌ Error during flood fill:', error);
+        onErrorRef.current?.('Fill failed', error);
       }
     },
-    [bitmap, isInitialized, canvasSize, selectedColor, hexToRgba, updateDataUrl, saveToHistory]
+    [isInitialized, toBitmapPoint, fillMode, checkNumberedFill, beginGradientFill, holdIfLeaking, applyFill]
   );
 
-  const performBrushStroke = useCallback(async (touchX: number, touchY: number) => {
-    if (!bitmap || !isInitialized) return;
+  const confirmPendingFill = useCallback(async () => {
+    if (!pendingFill) return;
+    setPendingFill(null);
+    await applyFill(pendingFill.point);
+  }, [pendingFill, applyFill]);
+
+  // Auto-seal: bridge wider gaps, then fill if the region is closed now
+  const sealPendingFill = useCallback(async () => {
+    if (!pendingFill) return;
+    const result = await workerRef.current?.seal();
+    const sealed = result?.changed ?? false;
+    if (sealed) recorderRef.current.record({ op: 'seal' });
+    if (result?.regions) regionsRef.current = result.regions;
+    if (await holdIfLeaking(pendingFill.point, true)) return;
+    setPendingFill(null);
+    if (sealed) await applyFill(pendingFill.point);
+  }, [pendingFill, holdIfLeaking, applyFill]);
+
+  // Paint the points the stroke builder settled, joined on to the last batch
+  const paintStrokePoints = useCallback(async (points: StrokePoint[]) => {
+    const worker = workerRef.current;
+    if (!worker || points.length === 0) return;
 
     try {
-      // Convert touch coordinates to bitmap coordinates
-      const scaleX = bitmap.width / canvasSize.width;
-      const scaleY = bitmap.height / canvasSize.height;
-      const bitmapX = Math.floor(touchX * scaleX);
-      const bitmapY = Math.floor(touchY * scaleY);
-      // Use a single working buffer for the whole stroke
-      if (!workingDataRef.current || workingDataRef.current.length !== bitmap.data.length) {
-        workingDataRef.current = new Uint8Array(bitmap.data);
-      }
-  const newData = workingDataRef.current;
-  // Interpret brushWidth as visual stroke width; convert to bitmap radius
-  const brushRadius = Math.max(1, Math.floor((brushWidth / 2) * Math.min(scaleX, scaleY)));
-
-      // Helper to stamp a circular brush at integer coords
-      const stampAt = (cx: number, cy: number) => {
-        for (let dy = -brushRadius; dy <= brushRadius; dy++) {
-          for (let dx = -brushRadius; dx <= brushRadius; dx++) {
-            const distance = dx * dx + dy * dy;
-            if (distance <= brushRadius * brushRadius) {
-              const x = cx + dx;
-              const y = cy + dy;
-              if (x >= 0 && x < bitmap.width && y >= 0 && y < bitmap.height) {
-                const mIndex = y * bitmap.width + x;
-                const index = mIndex * 4;
-                // Do not paint over strong boundary (template outlines)
-                if (selectedTool !== 'eraser' && strongBoundaryMaskRef.current && strongBoundaryMaskRef.current[mIndex] === 1) {
-                  continue;
-                }
-                if (selectedTool === 'eraser') {
-                  if (originalTemplate) {
-                    newData[index] = originalTemplate.data[index];
-                    newData[index + 1] = originalTemplate.data[index + 1];
-                    newData[index + 2] = originalTemplate.data[index + 2];
-                    newData[index + 3] = originalTemplate.data[index + 3];
-                  }
-                } else {
-                  const [r, g, b, a] = hexToRgba(selectedColor);
-                  newData[index] = r;
-                  newData[index + 1] = g;
-                  newData[index + 2] = b;
-                  newData[index + 3] = a;
-                }
-              }
-            }
-          }
-        }
-      };
-
-      // Draw a continuous line from last point to the new point
       const prev = lastPointRef.current;
-      if (!prev) {
-        stampAt(bitmapX, bitmapY);
-      } else {
-        const dx = bitmapX - prev.x;
-        const dy = bitmapY - prev.y;
-        const steps = Math.max(Math.abs(dx), Math.abs(dy));
-        for (let i = 0; i <= steps; i++) {
-          const x = Math.round(prev.x + (dx * i) / (steps || 1));
-          const y = Math.round(prev.y + (dy * i) / (steps || 1));
-          stampAt(x, y);
-        }
-      }
-      lastPointRef.current = { x: bitmapX, y: bitmapY };
+      const run = prev ? [prev, ...points] : points;
+      lastPointRef.current = points[points.length - 1];
+      setStrokePoints((pts) => [...pts, ...points]);
+      const lockTo = stayInsideLines ? strokeStartRef.current ?? undefined : undefined;
+      const stroke = {
+        points: run.map(({ x, y }) => ({ x, y })),
+        size: run[0].size,
+        sizes: run.map((p) => p.size),
+        lockTo,
+        brush,
+      };
+      // No colour erases; only the brush is mirrored
+      const color = selectedTool === 'eraser' ? undefined : selectedColor;
+      const symmetry = color ? symmetrySpec : undefined;
+      const result = await worker.stroke(stroke, color, symmetry);
+      // Null: cancelled before it painted
+      if (result) recorderRef.current.record({ op: 'stroke', stroke, color, symmetry });
+      if (result?.changed) strokeChangedRef.current = true;
+      // Only the newest queued segment comes back with a page
+      if (!result?.bitmap) return;
+      strokeBitmapRef.current = result.bitmap;
 
-  const newBitmap: ColoringBitmap = { width: bitmap.width, height: bitmap.height, data: newData };
-  // Do not setBitmap on every move; we only update the preview (dataUrl) below
       // Light live update while drawing: throttle PNG encodes to avoid jank
       if (encodeDebounceRef.current) clearTimeout(encodeDebounceRef.current);
       encodeDebounceRef.current = setTimeout(() => {
-        if (encodeInFlightRef.current) return;
+        const latest = strokeBitmapRef.current;
+        if (encodeInFlightRef.current || !latest) return;
         encodeInFlightRef.current = true;
-        updateDataUrl(newBitmap).finally(() => {
+        updateDataUrl(latest).finally(() => {
           encodeInFlightRef.current = false;
         });
       }, 140);
   // Keep final high-quality encode to stroke end
     } catch (error) {
-      console.error('❌ Error during brush stroke:', error);
+      onErrorRef.current?.('Brush stroke failed', error);
     }
-  }, [bitmap, originalTemplate, isInitialized, canvasSize, selectedColor, selectedTool, brushWidth, hexToRgba, updateDataUrl]);
+  }, [selectedColor, selectedTool, stayInsideLines, brush, symmetrySpec, updateDataUrl]);
+
+  // Touch position (unrounded bitmap px), time and stylus force for the builder
+  const strokeSample = useCallback((evt: GestureResponderEvent) => {
+    const { locationX, locationY, timestamp, force } = evt.nativeEvent;
+    return {
+      x: (locationX * (bitmap?.width || 1)) / canvasSize.width,
+      y: (locationY * (bitmap?.height || 1)) / canvasSize.height,
+      time: timestamp,
+      pressure: force,
+    };
+  }, [bitmap, canvasSize]);
+
+  const beginBrushStroke = useCallback((evt: GestureResponderEvent) => {
+    if (!bitmap || !isInitialized) return;
+    // Interpret brushWidth as visual stroke width; convert to bitmap radius
+    const scale = Math.min(bitmap.width / canvasSize.width, bitmap.height / canvasSize.height);
+    const brushRadius = Math.max(1, Math.floor((brushWidth / 2) * scale));
+    strokeBuilderRef.current = new StrokeBuilder({
+      size: brushRadius * 2,
+      curve: strokeCurve,
+      lazyRadius: stabilizer * scale,
+    });
+    lastPointRef.current = null;
+    strokeChangedRef.current = false;
+    setStrokePoints([]);
+    const sample = strokeSample(evt);
+    strokeStartRef.current = { x: Math.floor(sample.x), y: Math.floor(sample.y) };
+    paintStrokePoints(strokeBuilderRef.current.add(sample));
+  }, [bitmap, isInitialized, canvasSize, brushWidth, strokeCurve, stabilizer, strokeSample, paintStrokePoints]);
+
+  // Eyedropper: move the loupe and sample the paint under the finger
+  const sampleAt = useCallback(async (touchX: number, touchY: number) => {
+    const point = { x: touchX, y: touchY };
+    setLoupe((prev) => ({ point, color: prev?.color ?? null }));
+    const result = await workerRef.current?.sample(toBitmapPoint(touchX, touchY));
+    // Null: a newer sample superseded this one
+    if (result) setLoupe((prev) => prev && { ...prev, color: result.color ?? null });
+  }, [toBitmapPoint]);
+
+  const finishEyedropper = useCallback(async () => {
+    const point = loupe?.point;
+    setLoupe(null);
+    if (!point) return;
+    const result = await workerRef.current?.sample(toBitmapPoint(point.x, point.y));
+    if (result?.color) onColorPicked?.(result.color);
+  }, [loupe, toBitmapPoint, onColorPicked]);
 
   const panResponder = PanResponder.create({
-    onStartShouldSetPanResponder: () => isInitialized && interactionEnabled,
-    onMoveShouldSetPanResponder: () => isInitialized && interactionEnabled && (selectedTool === 'brush' || selectedTool === 'eraser'),
+    onStartShouldSetPanResponder: () => isInitialized && interactionEnabled && !pendingFill,
+    onMoveShouldSetPanResponder: () => isInitialized && interactionEnabled && (selectedTool === 'brush' || selectedTool === 'eraser' || selectedTool === 'eyedropper' || !!gradientDraft),
 
     onPanResponderGrant: (evt) => {
       const { locationX, locationY } = evt.nativeEvent;
 
-      if (selectedTool === 'bucket') {
+      if ((selectedTool === 'brush' || selectedTool === 'bucket') && !gradientDraft && onAxisHandle(locationX, locationY)) {
+        setDraggingAxis(true);
+      } else if (gradientDraft) {
+        // Drag start is where the first colour stop sits
+        setGradientDraft({ ...gradientDraft, dragFrom: toBitmapPoint(locationX, locationY) });
+      } else if (selectedTool === 'bucket') {
         performFloodFill(locationX, locationY);
+      } else if (selectedTool === 'eyedropper') {
+        sampleAt(locationX, locationY);
       } else if (selectedTool === 'brush' || selectedTool === 'eraser') {
-        // Start a new stroke
-        const scaleX = (bitmap?.width || 1) / canvasSize.width;
-        const scaleY = (bitmap?.height || 1) / canvasSize.height;
-        // Create a working copy once per stroke
-        if (bitmap) {
-          workingDataRef.current = new Uint8Array(bitmap.data);
-        }
-        lastPointRef.current = {
-          x: Math.floor(locationX * scaleX),
-          y: Math.floor(locationY * scaleY),
-        };
-        // Seed live preview path
-        setStrokePoints([{ x: locationX, y: locationY }]);
-        performBrushStroke(locationX, locationY);
+        beginBrushStroke(evt);
       }
     },
 
     onPanResponderMove: (evt) => {
-      if (selectedTool === 'brush' || selectedTool === 'eraser') {
+      if (draggingAxis) {
+        moveAxes(evt.nativeEvent.locationX, evt.nativeEvent.locationY);
+      } else if (gradientDraft?.dragFrom) {
         const { locationX, locationY } = evt.nativeEvent;
-        // Extend live preview
-        setStrokePoints((pts) => {
-          if (pts.length === 0) return [{ x: locationX, y: locationY }];
-          const last = pts[pts.length - 1];
-          if (Math.abs(last.x - locationX) + Math.abs(last.y - locationY) < 0.3) return pts;
-          return [...pts, { x: locationX, y: locationY }];
-        });
-        performBrushStroke(locationX, locationY);
+        const end = toBitmapPoint(locationX, locationY);
+        setGradientDraft((draft) => (draft?.dragFrom ? { ...draft, start: draft.dragFrom, end } : draft));
+      } else if (selectedTool === 'eyedropper') {
+        sampleAt(evt.nativeEvent.locationX, evt.nativeEvent.locationY);
+      } else if (strokeBuilderRef.current) {
+        paintStrokePoints(strokeBuilderRef.current.add(strokeSample(evt)));
       }
     },
 
     onPanResponderRelease: async () => {
-      if (bitmap && (selectedTool === 'brush' || selectedTool === 'eraser')) {
-        // Commit working buffer to bitmap once
-        if (workingDataRef.current) {
-          const committed: ColoringBitmap = { width: bitmap.width, height: bitmap.height, data: workingDataRef.current };
-          // Reapply strong boundary (outlines) from original template to ensure lines stay crisp
-          if (originalTemplate && strongBoundaryMaskRef.current) {
-            const mask = strongBoundaryMaskRef.current;
-            for (let i = 0; i < mask.length; i++) {
-              if (mask[i] === 1) {
-                const pi = i * 4;
-                committed.data[pi] = originalTemplate.data[pi];
-                committed.data[pi + 1] = originalTemplate.data[pi + 1];
-                committed.data[pi + 2] = originalTemplate.data[pi + 2];
-                committed.data[pi + 3] = originalTemplate.data[pi + 3];
-              }
-            }
-          }
-          setBitmap(committed);
-          await updateDataUrl(committed);
-          saveToHistory(committed);
-        } else {
-          saveToHistory(bitmap);
-          await updateDataUrl(bitmap);
-        }
-  workingDataRef.current = null;
+      if (draggingAxis) {
+        setDraggingAxis(false);
+        return;
+      }
+      if (gradientDraft?.dragFrom) {
+        // Re-render the preview only if the drag moved; a plain tap keeps the previous direction
+        setGradientDraft((draft) => {
+          if (!draft) return draft;
+          const moved = draft.start === draft.dragFrom;
+          return moved ? withGradientPreview({ ...draft, dragFrom: null }) : { ...draft, dragFrom: null };
+        });
+        return;
+      }
+      if (loupe) {
+        await finishEyedropper();
+        return;
+      }
+      const worker = workerRef.current;
+      const builder = strokeBuilderRef.current;
+      if (worker && builder) {
+        // Paint the tail the curve was holding back
+        await paintStrokePoints(builder.finish());
+        strokeBuilderRef.current = null;
         lastPointRef.current = null;
+        // Commit the stroke once: final encode plus one history entry, unless
+        // it painted nothing. The snapshot is queued behind the stroke's
+        // segments, so they have all been painted (and the last page
+        // received) when it resolves.
+        const result = await worker.snapshot();
+        if (encodeDebounceRef.current) clearTimeout(encodeDebounceRef.current);
+        if (strokeBitmapRef.current) await commitBitmap(strokeBitmapRef.current);
+        strokeBitmapRef.current = null;
+        if (result?.snapshot && strokeChangedRef.current) saveToHistory(result.snapshot);
   // Keep preview visible until the new image has loaded; then fade it out
   waitingForImageLoadRef.current = true;
-        // final encode was handled above
       }
     },
   });
 
+  // Build the colour-by-number page from the template's regions
+  const numberReference = colorByNumber?.reference;
+  const numbersOn = !!colorByNumber;
+  useEffect(() => {
+    const map = templateRegions;
+    if (!numbersOn || !map) {
+      setNumberPage(null);
+      return;
+    }
+    let cancelled = false;
+    (async () => {
+      const reference = numberReference
+        ? resampleNearest(await loadPngBitmap(numberReference), map.width, map.height)
+        : undefined;
+      if (cancelled) return;
+      const page = buildColorByNumber(map, { reference });
+      setNumberPage(page);
+      onNumberPalette?.(page.palette);
+    })().catch((error) => onErrorRef.current?.('Colour by number', error));
+    return () => {
+      cancelled = true;
+    };
+  // Rebuild for a new template or reference, not when the callback changes
+  }, [numbersOn, numberReference, templateRegions]);
+
+  // Hide the numbers of regions painted their colour (rechecked after undo too)
+  useEffect(() => {
+    if (!numberPage || !templateRegions || !bitmap) return;
+    setDoneRegions(completedRegions(numberPage, templateRegions, bitmap));
+  }, [numberPage, templateRegions, bitmap]);
+
   useEffect(() => {
     const initializeCanvas = async () => {
       if (templateUri) {
@@ -779,8 +957,9 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
     };
     
     initializeCanvas();
-  // Reinitialize only when templateUri changes
-  }, [templateUri]);
+  // Reinitialize when another page opens, including a saved drawing of the
+  // template already open; loadTemplate saves the previous page's history first
+  }, [templateUri, historyKey, drawingUri]);
 
   return (
     <View style={styles.container} pointerEvents={interactionEnabled ? 'auto' : 'none'}>
@@ -817,8 +996,10 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
             <Text style={styles.placeholderText}>Loading template...</Text>
           </View>
         )}
-        {/* Live stroke preview overlay (cheap, smooth) */}
-        {strokePoints.length > 0 && (
+        {/* Live stroke preview: same points and widths as the committed stroke.
+            Hidden for a locked brush, which it could not clip to the region,
+            and for textured brushes, whose dabs it could not match. */}
+        {strokePoints.length > 0 && bitmap && !stayInsideLines && (brush === 'round' || selectedTool === 'eraser') && (
           <Animated.View
             pointerEvents="none"
             style={[StyleSheet.absoluteFill, { opacity: overlayOpacity }]}
@@ -827,100 +1008,110 @@ export const NativeZebraCanvas = React.forwardRef<any, NativeZebraCanvasProps>((
               pointerEvents="none"
               width={canvasSize.width}
               height={canvasSize.height}
+              viewBox={`0 0 ${bitmap.width} ${bitmap.height}`}
+              preserveAspectRatio="none"
               style={StyleSheet.absoluteFill}
             >
+              {(selectedTool === 'brush' && symmetrySpec ? symmetryTransforms(symmetrySpec) : [(p: Point) => p])
+                .flatMap((transform) => strokePaths(transformPoints(strokePoints, transform)))
+                .map((path, i) => (
+                  <Path
+                    key={i}
+                    d={path.d}
+                    stroke={selectedTool === 'eraser' ? '#000' : selectedColor}
+                    opacity={selectedTool === 'eraser' ? 0.35 : 1}
+                    strokeWidth={path.width}
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    fill="none"
+                  />
+                ))}
+            </Svg>
+          </Animated.View>
+        )}
+        {symmetrySpec && bitmap && (selectedTool === 'brush' || selectedTool === 'bucket') && (
+          <SymmetryGuides spec={symmetrySpec} bitmapSize={bitmap} canvasSize={canvasSize} dragging={draggingAxis} />
+        )}
+        {numberPage && bitmap && (
+          <ColorByNumberOverlay
+            page={numberPage}
+            done={doneRegions}
+            wrongTap={wrongTap}
+            bitmapSize={bitmap}
+            canvasSize={canvasSize}
+          />
+        )}
+        {loupe && !!dataUrl && (
+          <ColorLoupe imageUri={dataUrl} canvasSize={canvasSize} point={loupe.point} color={loupe.color} />
+        )}
+        {/* Gradient being placed: preview clipped to the region plus the drag line */}
+        {gradientDraft && (
+          <>
+            {!!gradientDraft.previewUri && (
+              <Image
+                source={{ uri: gradientDraft.previewUri }}
+                style={[StyleSheet.absoluteFill, { width: canvasSize.width, height: canvasSize.height }]}
+                contentFit="contain"
+                pointerEvents="none"
+              />
+            )}
+            <Svg pointerEvents="none" width={canvasSize.width} height={canvasSize.height} style={StyleSheet.absoluteFill}>
               <Path
-                d={`M ${strokePoints[0].x} ${strokePoints[0].y} ` + strokePoints.slice(1).map(p => `L ${p.x} ${p.y}`).join(' ')}
-                stroke={selectedTool === 'eraser' ? '#000' : selectedColor}
-                opacity={selectedTool === 'eraser' ? 0.35 : 0.9}
-                strokeWidth={brushWidth}
-                strokeLinecap="round"
-                strokeLinejoin="round"
+                d={[gradientDraft.start, gradientDraft.end]
+                  .map((p, i) => `${i ? 'L' : 'M'} ${(p.x * canvasSize.width) / (bitmap?.width || 1)} ${(p.y * canvasSize.height) / (bitmap?.height || 1)}`)
+                  .join(' ')}
+                stroke="#1F2937"
+                strokeWidth={2}
+                strokeDasharray="6 4"
                 fill="none"
               />
             </Svg>
-          </Animated.View>
+            <GradientFillBar
+              kind={fillMode === 'radial' ? 'radial' : 'linear'}
+              onApply={applyGradientFill}
+              onCancel={() => setGradientDraft(null)}
+            />
+          </>
+        )}
+        {/* Suspected leak: highlight what the fill would cover and ask */}
+        {pendingFill && (
+          <>
+            <Image
+              source={{ uri: pendingFill.highlightUri }}
+              style={[StyleSheet.absoluteFill, { width: canvasSize.width, height: canvasSize.height }]}
+              contentFit="contain"
+              pointerEvents="none"
+            />
+            <FillLeakPrompt
+              preview={pendingFill.preview}
+              sealFailed={pendingFill.sealFailed}
+              onConfirm={confirmPendingFill}
+              onCancel={() => setPendingFill(null)}
+              onSeal={sealPendingFill}
+            />
+          </>
+        )}
+        {/* Timelapse replay over the page; a tap stops it */}
+        {replayUri && (
+          <Pressable
+            style={StyleSheet.absoluteFill}
+            onPress={() => {
+              replayRunRef.current++;
+              setReplayUri(null);
+            }}
+          >
+            <Image
+              source={{ uri: replayUri }}
+              style={{ width: canvasSize.width, height: canvasSize.height, borderRadius: 12 }}
+              contentFit="contain"
+            />
+          </Pressable>
         )}
       </View>
     </View>
   );
 });
 
-// Build a robust boundary/outline mask for a given bitmap.
-// 1 indicates boundary; 0 indicates fillable.
-function computeBoundaryMask(bmp: ColoringBitmap): Uint8Array {
-  const { width, height, data } = bmp;
-  const mask = new Uint8Array(width * height);
-
-  // First pass: threshold by luma/minRGB and alpha
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const a = data[i + 3];
-      const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
-      const minRGB = Math.min(r, g, b);
-      const isDarkLine = (a >= 180) && (minRGB <= 80 || luma <= 120);
-      if (isDarkLine) {
-        mask[y * width + x] = 1;
-      }
-    }
-  }
-
-  // Simple dilation to close tiny anti-aliased gaps
-  const dilate = (src: Uint8Array): Uint8Array => {
-    const out: Uint8Array = new Uint8Array(src.length);
-    out.set(src);
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        if (src[y * width + x] !== 1) continue;
-        for (let dy = -1; dy <= 1; dy++) {
-          for (let dx = -1; dx <= 1; dx++) {
-            const nx = x + dx;
-            const ny = y + dy;
-            if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
-              out[ny * width + nx] = 1;
-            }
-          }
-        }
-      }
-    }
-    return out;
-  };
-
-  let out: Uint8Array = mask;
-  out = dilate(out);
-  out = dilate(out);
-  return out;
-}
-
-// Stronger boundary detector: no dilation and stricter darkness thresholds.
-// Use this to prevent the edge coat from painting onto true outline pixels.
-function computeStrongBoundaryMask(bmp: ColoringBitmap): Uint8Array {
-  const { width, height, data } = bmp;
-  const mask = new Uint8Array(width * height);
-
-  for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      const i = (y * width + x) * 4;
-      const r = data[i];
-      const g = data[i + 1];
-      const b = data[i + 2];
-      const a = data[i + 3];
-      const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
-      const minRGB = Math.min(r, g, b);
-      // Stricter: darker and more opaque
-      const isDarkLine = (a >= 200) && (minRGB <= 60 || luma <= 100);
-      if (isDarkLine) {
-        mask[y * width + x] = 1;
-      }
-    }
-  }
-  return mask;
-}
-
 const styles = StyleSheet.create({
   container: {
     alignItems: 'center',
@@ -0,0 +1,57 @@
+import React from 'react';
+import { StyleSheet, Text, TouchableOpacity, View } from 'react-native';
+
+// One choice out of a few, as a wrapping row of pills
+export function OptionChips<T>({
+  options,
+  active,
+  onPress,
+}: {
+  options: { value: T; label: string }[];
+  active: T;
+  onPress: (value: T) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      {options.map(({ value, label }) => (
+        <TouchableOpacity
+          key={label}
+          style={[styles.chip, value === active && styles.chipActive]}
+          onPress={() => onPress(value)}
+        >
+          <Text
+            style={[styles.chipText, value === active && styles.chipTextActive]}
+          >
+            {label}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 8,
+    marginBottom: 12,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 999,
+    backgroundColor: '#F1F5F9',
+  },
+  chipActive: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+});
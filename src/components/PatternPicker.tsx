@@ -0,0 +1,188 @@
+import { Feather } from '@expo/vector-icons';
+import * as ImageManipulator from 'expo-image-manipulator';
+import * as ImagePicker from 'expo-image-picker';
+import React from 'react';
+import {
+  Alert,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import {
+  DEFAULT_PATTERN_SCALE,
+  type PatternKind,
+  type PatternSpec,
+} from '../utils/PatternFill';
+import { base64ToUint8Array, decodePng } from '../utils/PngCodec';
+
+export type PatternOptions = Omit<PatternSpec, 'color'>;
+
+interface PatternPickerProps {
+  value: PatternOptions;
+  onChange: (value: PatternOptions) => void;
+}
+
+const KINDS: { kind: PatternKind; label: string }[] = [
+  { kind: 'stripes', label: 'Stripes' },
+  { kind: 'dots', label: 'Dots' },
+  { kind: 'checks', label: 'Checks' },
+  { kind: 'hatch', label: 'Hatch' },
+  { kind: 'stars', label: 'Stars' },
+  { kind: 'image', label: 'Photo' },
+];
+
+const MIN_SCALE = 4;
+const MAX_SCALE = 64;
+const ROTATION_STEP = 15;
+// User images are shrunk to this tile size before sampling
+const IMAGE_TILE_SIZE = 64;
+
+// Let the user pick a photo and turn it into a small PNG tile
+async function pickImageTile(): Promise<PatternSpec['image'] | null> {
+  const perm = await ImagePicker.requestMediaLibraryPermissionsAsync();
+  if (!perm.granted) {
+    Alert.alert('Permission required', 'Allow Photos/Media to pick an image.');
+    return null;
+  }
+  const picked = await ImagePicker.launchImageLibraryAsync({
+    mediaTypes: ImagePicker.MediaTypeOptions.Images,
+    quality: 1,
+  });
+  if (picked.canceled || !picked.assets?.[0]) return null;
+  const tile = await ImageManipulator.manipulateAsync(
+    picked.assets[0].uri,
+    [{ resize: { width: IMAGE_TILE_SIZE } }],
+    { format: ImageManipulator.SaveFormat.PNG, base64: true }
+  );
+  if (!tile.base64) return null;
+  return decodePng(base64ToUint8Array(tile.base64).buffer as ArrayBuffer);
+}
+
+const KindChips: React.FC<{
+  selected: PatternKind;
+  onSelect: (kind: PatternKind) => void;
+}> = ({ selected, onSelect }) => (
+  <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+    {KINDS.map(({ kind, label }) => (
+      <TouchableOpacity
+        key={kind}
+        style={[styles.chip, selected === kind && styles.chipActive]}
+        onPress={() => onSelect(kind)}
+      >
+        <Text
+          style={[styles.chipText, selected === kind && styles.chipTextActive]}
+        >
+          {label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </ScrollView>
+);
+
+// Pattern kind, size and angle for the pattern bucket fill
+export const PatternPicker: React.FC<PatternPickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const scale = value.scale ?? DEFAULT_PATTERN_SCALE;
+  const rotation = value.rotation ?? 0;
+
+  const selectKind = async (kind: PatternKind) => {
+    if (kind !== 'image') {
+      onChange({ ...value, kind });
+      return;
+    }
+    try {
+      const image = await pickImageTile();
+      if (image) onChange({ ...value, kind, image });
+    } catch (e: any) {
+      Alert.alert('Pattern image failed', e?.message ?? 'Unknown error');
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <KindChips selected={value.kind} onSelect={selectKind} />
+      <View style={styles.controls}>
+        <TouchableOpacity
+          accessibilityLabel="Smaller pattern"
+          style={styles.iconButton}
+          onPress={() =>
+            onChange({ ...value, scale: Math.max(MIN_SCALE, scale - 4) })
+          }
+        >
+          <Feather name="minus" size={16} color="#4F46E5" />
+        </TouchableOpacity>
+        <Text style={styles.controlLabel}>Size {scale}px</Text>
+        <TouchableOpacity
+          accessibilityLabel="Bigger pattern"
+          style={styles.iconButton}
+          onPress={() =>
+            onChange({ ...value, scale: Math.min(MAX_SCALE, scale + 4) })
+          }
+        >
+          <Feather name="plus" size={16} color="#4F46E5" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          accessibilityLabel="Rotate pattern"
+          style={styles.iconButton}
+          onPress={() =>
+            onChange({ ...value, rotation: (rotation + ROTATION_STEP) % 180 })
+          }
+        >
+          <Feather name="rotate-cw" size={16} color="#4F46E5" />
+        </TouchableOpacity>
+        <Text style={styles.controlLabel}>{rotation}°</Text>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 999,
+    backgroundColor: '#F1F5F9',
+  },
+  chipActive: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#EEF2FF',
+  },
+  controlLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+    minWidth: 44,
+    textAlign: 'center',
+  },
+});
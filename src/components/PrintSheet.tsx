@@ -0,0 +1,219 @@
+import React, { useEffect, useState } from 'react';
+import {
+  ActivityIndicator,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import {
+  type PrintSettings,
+  SettingsService,
+} from '../services/SettingsService';
+import { OptionChips } from './OptionChips';
+
+// Something the sheet can print, e.g. "This page, blank"
+export interface PrintTarget {
+  label: string;
+  pdf: (settings: PrintSettings) => Promise<Uint8Array>;
+}
+
+interface PrintSheetProps {
+  targets: PrintTarget[] | null; // Shown while set
+  onPrint: (target: PrintTarget, settings: PrintSettings) => Promise<void>;
+  onClose: () => void;
+}
+
+type Choice<T> = { value: T; label: string };
+
+const PAPERS: Choice<PrintSettings['paper']>[] = [
+  { value: 'a4', label: 'A4' },
+  { value: 'letter', label: 'US Letter' },
+];
+const ORIENTATIONS: Choice<PrintSettings['orientation']>[] = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'portrait', label: 'Portrait' },
+  { value: 'landscape', label: 'Landscape' },
+];
+const MARGINS: Choice<number>[] = [
+  { value: 0, label: 'None' },
+  { value: 6, label: 'Narrow' },
+  { value: 12, label: 'Normal' },
+  { value: 20, label: 'Wide' },
+];
+const FITS: Choice<PrintSettings['fit']>[] = [
+  { value: 'fit', label: 'Whole picture' },
+  { value: 'fill', label: 'Fill the page' },
+];
+const COPIES: Choice<number>[] = [1, 5, 10, 20, 30].map((n) => ({
+  value: n,
+  label: String(n),
+}));
+const ON_OFF: Choice<boolean>[] = [
+  { value: true, label: 'On' },
+  { value: false, label: 'Off' },
+];
+
+// Each option with the choices offered for it
+const OPTIONS: {
+  [K in keyof PrintSettings]: {
+    label: string;
+    choices: Choice<PrintSettings[K]>[];
+  };
+} = {
+  paper: { label: 'Paper', choices: PAPERS },
+  orientation: { label: 'Orientation', choices: ORIENTATIONS },
+  marginMm: { label: 'Margins', choices: MARGINS },
+  fit: { label: 'Picture', choices: FITS },
+  titles: { label: 'Title above each picture', choices: ON_OFF },
+  nameLine: { label: 'Name line for pupils', choices: ON_OFF },
+  copies: { label: 'Copies of each page', choices: COPIES },
+};
+
+const OptionRow = <K extends keyof PrintSettings>({
+  option,
+  settings,
+  onChange,
+}: {
+  option: K;
+  settings: PrintSettings;
+  onChange: (change: Partial<PrintSettings>) => void;
+}) => (
+  <>
+    <Text style={styles.label}>{OPTIONS[option].label}</Text>
+    <OptionChips
+      options={OPTIONS[option].choices}
+      active={settings[option]}
+      onPress={(value) => onChange({ [option]: value })}
+    />
+  </>
+);
+
+// Page options, remembered between prints, then what to print
+export const PrintSheet: React.FC<PrintSheetProps> = ({
+  targets,
+  onPrint,
+  onClose,
+}) => {
+  const [settings, setSettings] = useState(SettingsService.getPrint);
+  const [busy, setBusy] = useState(false);
+  useEffect(() => {
+    if (targets) setSettings(SettingsService.getPrint());
+  }, [targets]);
+
+  const change = (next: Partial<PrintSettings>) => {
+    SettingsService.setPrint(next);
+    setSettings((prev) => ({ ...prev, ...next }));
+  };
+  const print = async (target: PrintTarget) => {
+    setBusy(true);
+    try {
+      await onPrint(target, settings);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Modal
+      visible={!!targets}
+      transparent
+      animationType="slide"
+      onRequestClose={onClose}
+    >
+      <View style={styles.backdrop}>
+        <View style={styles.sheet}>
+          <Text style={styles.title}>Print</Text>
+          <ScrollView style={styles.options}>
+            {(Object.keys(OPTIONS) as (keyof PrintSettings)[]).map((option) => (
+              <OptionRow
+                key={option}
+                option={option}
+                settings={settings}
+                onChange={change}
+              />
+            ))}
+          </ScrollView>
+          {busy ? (
+            <ActivityIndicator style={styles.busy} color="#6366f1" />
+          ) : (
+            targets?.map((target) => (
+              <TouchableOpacity
+                key={target.label}
+                style={styles.target}
+                onPress={() => print(target)}
+              >
+                <Text style={styles.targetText}>{target.label}</Text>
+              </TouchableOpacity>
+            ))
+          )}
+          <TouchableOpacity
+            style={styles.cancel}
+            onPress={onClose}
+            disabled={busy}
+          >
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'flex-end',
+  },
+  sheet: {
+    backgroundColor: '#FFFFFF',
+    borderTopLeftRadius: 16,
+    borderTopRightRadius: 16,
+    padding: 16,
+    maxHeight: '85%',
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '700',
+    color: '#1F2937',
+    marginBottom: 12,
+  },
+  options: {
+    flexGrow: 0,
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#334155',
+    marginBottom: 6,
+  },
+  busy: {
+    paddingVertical: 16,
+  },
+  target: {
+    backgroundColor: '#6366f1',
+    borderRadius: 8,
+    paddingVertical: 12,
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  targetText: {
+    color: '#FFFFFF',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+  cancel: {
+    paddingVertical: 10,
+    alignItems: 'center',
+  },
+  cancelText: {
+    color: '#6B7280',
+    fontSize: 15,
+    fontWeight: '600',
+  },
+});
@@ -1,172 +1,426 @@
-import AsyncStorage from '@react-native-async-storage/async-storage';
-import React, { useCallback, useEffect, useState } from 'react';
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
 import {
   Alert,
-  FlatList,
+  Image,
+  Modal,
   StyleSheet,
   Text,
+  TextInput,
   TouchableOpacity,
   View,
 } from 'react-native';
 
-interface SavedDrawing {
-  id: string;
-  name: string;
-  createdAt: string;
-}
+import { DrawingLibraryService } from '../services/DrawingLibraryService';
+import {
+  type DrawingSort,
+  type LibraryDrawing,
+  searchDrawings,
+  sortDrawings,
+} from '../utils/DrawingLibrary';
 
 interface SavedDrawingsManagerProps {
-  onDrawingLoad: (drawingId: string) => void;
-  onSaveRequest: () => void;
+  onDrawingLoad: (drawing: LibraryDrawing) => void;
+  onSaveRequest?: () => void;
+  onPrintRequest?: (drawings: LibraryDrawing[]) => void;
 }
 
-export const SavedDrawingsManager: React.FC<SavedDrawingsManagerProps> = ({
-  onDrawingLoad,
-  onSaveRequest,
-}) => {
-  const [savedDrawings, setSavedDrawings] = useState<SavedDrawing[]>([]);
-  const [isLoading, setIsLoading] = useState(false);
+const SORTS: { key: DrawingSort; label: string }[] = [
+  { key: 'modified', label: 'Recent' },
+  { key: 'created', label: 'Created' },
+  { key: 'name', label: 'Name' },
+  { key: 'time', label: 'Time spent' },
+];
+const MAX_SWATCHES = 6;
 
-  const loadSavedDrawings = useCallback(async () => {
-    try {
-      setIsLoading(true);
-      const drawingsList = await AsyncStorage.getItem('saved_drawings_list');
-      if (drawingsList) {
-        const drawings = JSON.parse(drawingsList);
-        setSavedDrawings(drawings.reverse()); // Show newest first
-      }
-    } catch (error) {
-      console.error('Failed to load saved drawings:', error);
-    } finally {
-      setIsLoading(false);
-    }
+function formatDate(time: number): string {
+  const date = new Date(time);
+  return (
+    date.toLocaleDateString() +
+    ' ' +
+    date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+  );
+}
+
+function formatDuration(ms: number): string {
+  const minutes = Math.round(ms / 60_000);
+  if (minutes < 1) return ms > 0 ? 'under a minute' : '';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+}
+
+const DrawingCard: React.FC<{
+  drawing: LibraryDrawing;
+  selected: boolean;
+  selecting: boolean;
+  onPress: () => void;
+  onLongPress: () => void;
+  onRename: () => void;
+  onDuplicate: () => void;
+  onDelete: () => void;
+}> = ({ drawing, selected, selecting, ...actions }) => {
+  const spent = formatDuration(drawing.timeSpentMs);
+  return (
+    <TouchableOpacity
+      style={[styles.drawingItem, selected && styles.drawingItemSelected]}
+      onPress={actions.onPress}
+      onLongPress={actions.onLongPress}
+    >
+      {drawing.thumbnailUri ? (
+        <Image
+          source={{ uri: drawing.thumbnailUri }}
+          style={styles.thumbnail}
+        />
+      ) : (
+        <View style={[styles.thumbnail, styles.thumbnailEmpty]}>
+          <Text style={styles.thumbnailEmptyText}>🎨</Text>
+        </View>
+      )}
+      <View style={styles.drawingInfo}>
+        <Text style={styles.drawingName} numberOfLines={1}>
+          {drawing.name}
+        </Text>
+        <Text style={styles.drawingDate} numberOfLines={1}>
+          {formatDate(drawing.modifiedAt)}
+          {spent ? ` · ${spent}` : ''}
+        </Text>
+        <View style={styles.swatches}>
+          {drawing.colors.slice(0, MAX_SWATCHES).map((color) => (
+            <View
+              key={color}
+              style={[styles.swatch, { backgroundColor: color }]}
+            />
+          ))}
+        </View>
+      </View>
+      {selecting ? (
+        <Text style={styles.check}>{selected ? '☑' : '☐'}</Text>
+      ) : (
+        <View style={styles.drawingActions}>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={actions.onRename}
+          >
+            <Text style={styles.iconText}>✏️</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={actions.onDuplicate}
+          >
+            <Text style={styles.iconText}>⧉</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.iconButton}
+            onPress={actions.onDelete}
+          >
+            <Text style={styles.iconText}>🗑</Text>
+          </TouchableOpacity>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const RenameDialog: React.FC<{
+  drawing: LibraryDrawing | null;
+  onDone: (name: string | null) => void;
+}> = ({ drawing, onDone }) => {
+  const [name, setName] = useState('');
+  useEffect(() => setName(drawing?.name ?? ''), [drawing]);
+  return (
+    <Modal
+      visible={!!drawing}
+      transparent
+      animationType="fade"
+      onRequestClose={() => onDone(null)}
+    >
+      <View style={styles.dialogBackdrop}>
+        <View style={styles.dialog}>
+          <Text style={styles.title}>Rename drawing</Text>
+          <TextInput
+            style={styles.input}
+            value={name}
+            onChangeText={setName}
+            autoFocus
+            selectTextOnFocus
+            onSubmitEditing={() => onDone(name)}
+          />
+          <View style={styles.dialogActions}>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.cancelButton]}
+              onPress={() => onDone(null)}
+            >
+              <Text style={styles.actionButtonText}>Cancel</Text>
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.actionButton, styles.loadButton]}
+              onPress={() => onDone(name)}
+            >
+              <Text style={styles.actionButtonText}>Rename</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const LibraryHeader: React.FC<{
+  query: string;
+  onQueryChange: (query: string) => void;
+  onSaveRequest?: () => void;
+}> = ({ query, onQueryChange, onSaveRequest }) => (
+  <>
+    <View style={styles.header}>
+      <Text style={styles.title}>My Drawings</Text>
+      {onSaveRequest && (
+        <TouchableOpacity style={styles.saveButton} onPress={onSaveRequest}>
+          <Text style={styles.saveButtonText}>💾 Save Current</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+    <TextInput
+      style={styles.input}
+      value={query}
+      onChangeText={onQueryChange}
+      placeholder="Search by name, template or #colour"
+      placeholderTextColor="#9CA3AF"
+      autoCorrect={false}
+      autoCapitalize="none"
+    />
+  </>
+);
+
+const SortChips: React.FC<{
+  sort: DrawingSort;
+  onChange: (sort: DrawingSort) => void;
+}> = ({ sort, onChange }) => (
+  <View style={styles.sortRow}>
+    {SORTS.map((option) => (
+      <TouchableOpacity
+        key={option.key}
+        style={[styles.sortChip, sort === option.key && styles.sortChipActive]}
+        onPress={() => onChange(option.key)}
+      >
+        <Text
+          style={[
+            styles.sortChipText,
+            sort === option.key && styles.sortChipTextActive,
+          ]}
+        >
+          {option.label}
+        </Text>
+      </TouchableOpacity>
+    ))}
+  </View>
+);
+
+const SelectionBar: React.FC<{
+  selected: LibraryDrawing[];
+  onCancel: () => void;
+  onDelete: () => void;
+  onPrint?: (drawings: LibraryDrawing[]) => void;
+}> = ({ selected, onCancel, onDelete, onPrint }) => (
+  <View style={styles.selectionBar}>
+    <Text style={styles.selectionText}>{selected.length} selected</Text>
+    <TouchableOpacity
+      style={[styles.actionButton, styles.cancelButton]}
+      onPress={onCancel}
+    >
+      <Text style={styles.actionButtonText}>Cancel</Text>
+    </TouchableOpacity>
+    {onPrint && (
+      <TouchableOpacity
+        style={[styles.actionButton, styles.loadButton]}
+        onPress={() => onPrint(selected)}
+      >
+        <Text style={styles.actionButtonText}>Print</Text>
+      </TouchableOpacity>
+    )}
+    <TouchableOpacity
+      style={[styles.actionButton, styles.deleteButton]}
+      onPress={onDelete}
+    >
+      <Text style={styles.actionButtonText}>Delete</Text>
+    </TouchableOpacity>
+  </View>
+);
+
+const EmptyState: React.FC<{ searching: boolean }> = ({ searching }) => (
+  <View style={styles.emptyState}>
+    <Text style={styles.emptyText}>
+      {searching ? 'No matches' : 'No saved drawings yet'}
+    </Text>
+    <Text style={styles.emptyHint}>
+      {searching
+        ? 'Try another name or colour.'
+        : 'Create some artwork and save it!'}
+    </Text>
+  </View>
+);
+
+// The library, read once drawings saved by the old canvases have moved over
+function useDrawingLibrary() {
+  const [drawings, setDrawings] = useState<LibraryDrawing[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const refresh = useCallback(() => {
+    setDrawings(DrawingLibraryService.list());
   }, []);
 
-  const deleteDrawing = useCallback(async (drawingId: string) => {
-    try {
-      // Remove from storage
-      await AsyncStorage.removeItem(`saved_drawing_${drawingId}`);
+  useEffect(() => {
+    DrawingLibraryService.migrateLegacy()
+      .catch((error: Error) => Alert.alert('Error', error.message))
+      .finally(() => {
+        refresh();
+        setIsLoading(false);
+      });
+  }, [refresh]);
 
-      // Update the list
-      const drawingsList = await AsyncStorage.getItem('saved_drawings_list');
-      if (drawingsList) {
-        const drawings = JSON.parse(drawingsList);
-        const updatedDrawings = drawings.filter(
-          (d: SavedDrawing) => d.id !== drawingId
-        );
-        await AsyncStorage.setItem(
-          'saved_drawings_list',
-          JSON.stringify(updatedDrawings)
-        );
-        setSavedDrawings(updatedDrawings.reverse());
+  const duplicate = useCallback(
+    async (id: string) => {
+      try {
+        await DrawingLibraryService.duplicate(id);
+        refresh();
+      } catch {
+        Alert.alert('Error', 'Failed to duplicate drawing');
       }
+    },
+    [refresh]
+  );
+
+  return { drawings, isLoading, refresh, duplicate };
+}
+
+// Selection, deleting and renaming over the library's drawings
+function useLibraryEditing(drawings: LibraryDrawing[], refresh: () => void) {
+  // Long-press starts selecting; taps then add to or drop from the selection
+  const [selected, setSelected] = useState<string[]>([]);
+  const [renaming, setRenaming] = useState<LibraryDrawing | null>(null);
 
-      Alert.alert('Success', 'Drawing deleted successfully!');
-    } catch (error) {
-      console.error('Failed to delete drawing:', error);
-      Alert.alert('Error', 'Failed to delete drawing');
-    }
+  const toggleSelected = useCallback((id: string) => {
+    setSelected((prev) =>
+      prev.includes(id) ? prev.filter((other) => other !== id) : [...prev, id]
+    );
   }, []);
 
-  const handleDeletePress = useCallback(
-    (drawing: SavedDrawing) => {
+  const confirmDelete = useCallback(
+    (ids: string[]) => {
+      const what =
+        ids.length === 1
+          ? `"${drawings.find((d) => d.id === ids[0])?.name}"`
+          : `${ids.length} drawings`;
       Alert.alert(
         'Delete Drawing',
-        `Are you sure you want to delete "${drawing.name}"?`,
+        `Are you sure you want to delete ${what}?`,
         [
           { text: 'Cancel', style: 'cancel' },
           {
             text: 'Delete',
             style: 'destructive',
-            onPress: () => deleteDrawing(drawing.id),
+            onPress: () => {
+              DrawingLibraryService.remove(ids);
+              setSelected([]);
+              refresh();
+            },
           },
         ]
       );
     },
-    [deleteDrawing]
+    [drawings, refresh]
   );
 
-  const formatDate = useCallback((dateString: string) => {
-    const date = new Date(dateString);
-    return (
-      date.toLocaleDateString() +
-      ' ' +
-      date.toLocaleTimeString([], {
-        hour: '2-digit',
-        minute: '2-digit',
-      })
-    );
-  }, []);
+  const finishRename = useCallback(
+    (name: string | null) => {
+      if (renaming && name !== null) {
+        DrawingLibraryService.rename(renaming.id, name);
+        refresh();
+      }
+      setRenaming(null);
+    },
+    [renaming, refresh]
+  );
 
-  const renderDrawingItem = useCallback(
-    ({ item }: { item: SavedDrawing }) => (
-      <View style={styles.drawingItem}>
-        <View style={styles.drawingInfo}>
-          <Text style={styles.drawingName}>{item.name}</Text>
-          <Text style={styles.drawingDate}>{formatDate(item.createdAt)}</Text>
-        </View>
-        <View style={styles.drawingActions}>
-          <TouchableOpacity
-            style={[styles.actionButton, styles.loadButton]}
-            onPress={() => onDrawingLoad(item.id)}
-          >
-            <Text style={styles.actionButtonText}>Load</Text>
-          </TouchableOpacity>
-          <TouchableOpacity
-            style={[styles.actionButton, styles.deleteButton]}
-            onPress={() => handleDeletePress(item)}
-          >
-            <Text style={styles.actionButtonText}>Delete</Text>
-          </TouchableOpacity>
-        </View>
-      </View>
-    ),
-    [onDrawingLoad, handleDeletePress, formatDate]
+  return {
+    selected,
+    setSelected,
+    toggleSelected,
+    confirmDelete,
+    renaming,
+    setRenaming,
+    finishRename,
+  };
+}
+
+export const SavedDrawingsManager: React.FC<SavedDrawingsManagerProps> = ({
+  onDrawingLoad,
+  onSaveRequest,
+  onPrintRequest,
+}) => {
+  const { drawings, isLoading, refresh, duplicate } = useDrawingLibrary();
+  const {
+    selected,
+    setSelected,
+    toggleSelected,
+    confirmDelete,
+    renaming,
+    setRenaming,
+    finishRename,
+  } = useLibraryEditing(drawings, refresh);
+  const [query, setQuery] = useState('');
+  const [sort, setSort] = useState<DrawingSort>('modified');
+  const visible = useMemo(
+    () => searchDrawings(sortDrawings(drawings, sort), query),
+    [drawings, sort, query]
   );
 
-  useEffect(() => {
-    loadSavedDrawings();
-  }, [loadSavedDrawings]);
+  const selecting = selected.length > 0;
+  const cards = visible.map((drawing) => (
+    <DrawingCard
+      key={drawing.id}
+      drawing={drawing}
+      selected={selected.includes(drawing.id)}
+      selecting={selecting}
+      onPress={() =>
+        selecting ? toggleSelected(drawing.id) : onDrawingLoad(drawing)
+      }
+      onLongPress={() => toggleSelected(drawing.id)}
+      onRename={() => setRenaming(drawing)}
+      onDuplicate={() => duplicate(drawing.id)}
+      onDelete={() => confirmDelete([drawing.id])}
+    />
+  ));
 
   return (
     <View style={styles.container}>
-      <View style={styles.header}>
-        <Text style={styles.title}>Saved Drawings</Text>
-        <TouchableOpacity style={styles.saveButton} onPress={onSaveRequest}>
-          <Text style={styles.saveButtonText}>💾 Save Current</Text>
-        </TouchableOpacity>
-      </View>
-
+      <LibraryHeader
+        query={query}
+        onQueryChange={setQuery}
+        onSaveRequest={onSaveRequest}
+      />
+      <SortChips sort={sort} onChange={setSort} />
+      {selecting && (
+        <SelectionBar
+          selected={drawings.filter((d) => selected.includes(d.id))}
+          onCancel={() => setSelected([])}
+          onDelete={() => confirmDelete(selected)}
+          onPrint={onPrintRequest}
+        />
+      )}
       {isLoading ? (
         <Text style={styles.loadingText}>Loading...</Text>
-      ) : savedDrawings.length === 0 ? (
-        <View style={styles.emptyState}>
-          <Text style={styles.emptyText}>No saved drawings yet</Text>
-          <Text style={styles.emptyHint}>Create some artwork and save it!</Text>
-        </View>
+      ) : cards.length === 0 ? (
+        <EmptyState searching={drawings.length > 0} />
       ) : (
-        <FlatList
-          data={savedDrawings}
-          renderItem={renderDrawingItem}
-          keyExtractor={(item) => item.id}
-          style={styles.list}
-          showsVerticalScrollIndicator={false}
-        />
+        // Plain rows: the list sits inside the templates screen's ScrollView
+        <View style={styles.list}>{cards}</View>
       )}
-
-      <TouchableOpacity
-        style={styles.refreshButton}
-        onPress={loadSavedDrawings}
-      >
-        <Text style={styles.refreshButtonText}>🔄 Refresh</Text>
-      </TouchableOpacity>
+      <RenameDialog drawing={renaming} onDone={finishRename} />
     </View>
   );
 };
 
 const styles = StyleSheet.create({
   container: {
-    flex: 1,
     backgroundColor: '#F8F9FA',
     borderRadius: 12,
     padding: 16,
@@ -176,7 +430,7 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'space-between',
     alignItems: 'center',
-    marginBottom: 16,
+    marginBottom: 12,
   },
   title: {
     fontSize: 16,
@@ -194,22 +448,85 @@ const styles = StyleSheet.create({
     fontSize: 12,
     fontWeight: '600',
   },
+  input: {
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+    borderRadius: 8,
+    paddingVertical: 8,
+    paddingHorizontal: 12,
+    fontSize: 14,
+    color: '#374151',
+  },
+  sortRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+    marginVertical: 10,
+  },
+  sortChip: {
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 12,
+    backgroundColor: '#E5E7EB',
+  },
+  sortChipActive: {
+    backgroundColor: '#3B82F6',
+  },
+  sortChipText: {
+    fontSize: 12,
+    color: '#374151',
+  },
+  sortChipTextActive: {
+    color: '#FFFFFF',
+    fontWeight: '600',
+  },
+  selectionBar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginBottom: 8,
+  },
+  selectionText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#374151',
+  },
   list: {
-    maxHeight: 300,
+    gap: 8,
   },
   drawingItem: {
     flexDirection: 'row',
-    justifyContent: 'space-between',
     alignItems: 'center',
     backgroundColor: '#FFFFFF',
-    padding: 12,
+    padding: 8,
     borderRadius: 8,
-    marginBottom: 8,
     borderWidth: 1,
     borderColor: '#E5E7EB',
   },
+  drawingItemSelected: {
+    borderColor: '#3B82F6',
+    backgroundColor: '#EFF6FF',
+  },
+  thumbnail: {
+    width: 56,
+    height: 56,
+    borderRadius: 6,
+    backgroundColor: '#FFFFFF',
+    borderWidth: 1,
+    borderColor: '#E5E7EB',
+  },
+  thumbnailEmpty: {
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  thumbnailEmptyText: {
+    fontSize: 22,
+  },
   drawingInfo: {
     flex: 1,
+    marginHorizontal: 10,
   },
   drawingName: {
     fontSize: 14,
@@ -221,9 +538,32 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6B7280',
   },
+  swatches: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: 4,
+  },
+  swatch: {
+    width: 12,
+    height: 12,
+    borderRadius: 6,
+    borderWidth: StyleSheet.hairlineWidth,
+    borderColor: '#9CA3AF',
+  },
   drawingActions: {
     flexDirection: 'row',
-    gap: 8,
+    gap: 4,
+  },
+  iconButton: {
+    padding: 6,
+  },
+  iconText: {
+    fontSize: 16,
+  },
+  check: {
+    fontSize: 20,
+    color: '#3B82F6',
+    paddingHorizontal: 6,
   },
   actionButton: {
     paddingVertical: 6,
@@ -236,6 +576,9 @@ const styles = StyleSheet.create({
   deleteButton: {
     backgroundColor: '#EF4444',
   },
+  cancelButton: {
+    backgroundColor: '#6B7280',
+  },
   actionButtonText: {
     color: '#FFFFFF',
     fontSize: 12,
@@ -261,17 +604,21 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#6B7280',
   },
-  refreshButton: {
-    backgroundColor: '#6B7280',
-    paddingVertical: 10,
-    paddingHorizontal: 16,
-    borderRadius: 8,
-    alignItems: 'center',
-    marginTop: 12,
+  dialogBackdrop: {
+    flex: 1,
+    backgroundColor: 'rgba(0,0,0,0.4)',
+    justifyContent: 'center',
+    padding: 24,
   },
-  refreshButtonText: {
-    color: '#FFFFFF',
-    fontSize: 12,
-    fontWeight: '600',
+  dialog: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+  },
+  dialogActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
   },
 });
@@ -1,4 +1,4 @@
-/* eslint-disable unicorn/filename-case, max-lines-per-function, import/no-unresolved */
+/* eslint-disable max-lines-per-function */
 import { Ionicons } from '@expo/vector-icons';
 import React, { useCallback, useEffect, useRef, useState } from 'react';
 import {
@@ -13,7 +13,15 @@ import {
 } from 'react-native';
 import Svg, { Path } from 'react-native-svg';
 
-import { PixelFloodFill } from '../utils/PixelFloodFill';
+import { resampleNearest } from '../utils/BitmapUtils';
+import type {
+  ColoringEngine,
+  EnginePoint,
+  EngineSnapshot,
+  RgbaBitmap,
+} from '../utils/ColoringEngine';
+import { createColoringEngine } from '../utils/engines';
+import { encodePngDataUrl, loadPngBitmap } from '../utils/PngCodec';
 // Removed unused style import that caused TS JSX config complaints
 
 interface SimplePaintCanvasProps {
@@ -21,6 +29,15 @@ interface SimplePaintCanvasProps {
   selectedColor: string;
   onColoringChange?: (changes: any) => void;
   onProgress?: (progress: string) => void;
+  // Registered coloring engine id (see utils/engines)
+  engine?: string;
+}
+
+interface Viewport {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
 }
 
 interface DrawingStroke {
@@ -37,6 +54,7 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
   selectedColor,
   onColoringChange,
   onProgress,
+  engine = 'pixel-flood-fill',
 }) => {
   const [loading, setLoading] = useState(true);
   const [canvasSize, setCanvasSize] = useState({ width: 300, height: 300 });
@@ -52,18 +70,20 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
   const [isPanning, setIsPanning] = useState(false);
   const [isFullscreen, setIsFullscreen] = useState(false);
 
-  // State for pixel-based flood fill and drawing
-  const [pixelFloodFill, setPixelFloodFill] = useState<PixelFloodFill | null>(
+  // Coloring engine working on a bitmap the size of the displayed viewport
+  const [coloringEngine, setColoringEngine] = useState<ColoringEngine | null>(
     null
   );
-  const [svgPaths, setSvgPaths] = useState<
-    { id: string; path: string; color: string }[]
-  >([]);
-  const [strokes, setStrokes] = useState<DrawingStroke[]>([]);
+  const [viewport, setViewport] = useState<Viewport | null>(null);
+  const [pageUri, setPageUri] = useState<string>('');
   const [currentPath, setCurrentPath] = useState<string>('');
   const [isDrawing, setIsDrawing] = useState(false);
 
   const strokeIdRef = useRef(0);
+  // Stroke being drawn, in bitmap coordinates
+  const strokePointsRef = useRef<EnginePoint[]>([]);
+  // Unpainted template, for Clear
+  const initialSnapshotRef = useRef<EngineSnapshot | null>(null);
   const viewRef = useRef<View>(null);
   const panStartRef = useRef<{ x: number; y: number } | null>(null);
   const baseTranslateRef = useRef<{ x: number; y: number }>({ x: 0, y: 0 });
@@ -79,17 +99,16 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
       const canvas = { width: maxWidth, height: maxHeight };
       setCanvasSize(canvas);
 
-      // Measure intrinsic image size to derive the displayed viewport (contain)
-      const { width: imgW, height: imgH } = await new Promise<{
-        width: number;
-        height: number;
-      }>((resolve, reject) => {
-        Image.getSize(
-          pngUri,
-          (w, h) => resolve({ width: w, height: h }),
-          (err) => reject(err)
-        );
-      });
+      let template: RgbaBitmap;
+      try {
+        template = await loadPngBitmap(pngUri);
+      } catch {
+        onProgress?.('⚠️ Template image could not be decoded.');
+        setColoringEngine(null);
+        setLoading(false);
+        return;
+      }
+      const { width: imgW, height: imgH } = template;
       setImageSize({ width: imgW, height: imgH });
 
       // Compute 'contain' viewport
@@ -98,49 +117,22 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
       const dispH = Math.round(imgH * scale);
       const offsetX = Math.round((canvas.width - dispW) / 2);
       const offsetY = Math.round((canvas.height - dispH) / 2);
-      const viewport = { x: offsetX, y: offsetY, width: dispW, height: dispH };
-
-      // Create pixel-based flood fill system (like Android app)
-      const floodFill = new PixelFloodFill(canvas.width, canvas.height);
-      floodFill.setViewport(viewport);
-      // Make boundary detection robust against anti-aliasing and faint lines
-      floodFill.setDetectionOptions({
-        useLuma: true,
-        lumaThreshold: 110,
-        alphaThreshold: 120, // consider faint anti-aliased edges
-        dilate: true,
-        dilateIterations: 2,
-        sampleRadius: 3, // larger neighborhood to catch thin lines
-        autoCalibrate: true,
-        useOtsu: true,
-        closing: true,
-        closingIterations: 2,
-        edgeDetect: true,
-        edgeThreshold: 24,
-        minRGBThreshold: 90,
-      });
-      try {
-        await floodFill.initializeFromImage(pngUri);
-        onProgress?.('✅ Template ready for boundary-based coloring!');
-      } catch (error) {
-        console.warn(
-          '⚠️ Falling back to synthetic grid due to init error:',
-          error
-        );
-        // Ensure we always have a usable grid
-        floodFill.initializeFallback();
-        onProgress?.('⚠️ Using fallback template (image decode unavailable).');
-      }
-
-      setPixelFloodFill(floodFill);
-      setSvgPaths([]);
+      setViewport({ x: offsetX, y: offsetY, width: dispW, height: dispH });
+
+      // Engine bitmap matches the displayed image 1:1 for precise borders
+      const nextEngine = createColoringEngine(engine);
+      nextEngine.loadTemplate(resampleNearest(template, dispW, dispH));
+      initialSnapshotRef.current = nextEngine.snapshot();
+      setPageUri(encodePngDataUrl(nextEngine.exportBitmap()));
+      setColoringEngine(nextEngine);
+      onProgress?.('✅ Template ready for boundary-based coloring!');
       setLoading(false);
     };
 
     if (pngUri) {
       initCanvas();
     }
-  }, [pngUri, onProgress]);
+  }, [pngUri, engine, onProgress]);
 
   // Transform screen coordinates to content coordinates under pan/zoom
   const toContentCoords = useCallback(
@@ -151,52 +143,51 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
     [scale, translate]
   );
 
-  // Handle area filling with pixel-based flood fill (like Android app)
+  // Screen coordinates to engine bitmap coordinates
+  const toBitmapCoords = useCallback(
+    (x: number, y: number): EnginePoint => {
+      const { x: cx, y: cy } = toContentCoords(x, y);
+      return { x: cx - (viewport?.x ?? 0), y: cy - (viewport?.y ?? 0) };
+    },
+    [toContentCoords, viewport]
+  );
+
+  const refreshPage = useCallback(() => {
+    if (coloringEngine) {
+      setPageUri(encodePngDataUrl(coloringEngine.exportBitmap()));
+    }
+  }, [coloringEngine]);
+
+  // Handle area filling through the coloring engine
   const handleAreaFill = useCallback(
     (x: number, y: number) => {
-      if (!pixelFloodFill) {
+      if (!coloringEngine) {
         onProgress?.('⚠️ Flood fill system not ready');
         return;
       }
-      const { x: cx, y: cy } = toContentCoords(x, y);
-      // Perform true flood fill at touched location
-      const filledRegion = pixelFloodFill.fillAt(cx, cy, selectedColor);
-
-      if (filledRegion) {
-        // Update filled regions and regenerate SVG paths
-        setSvgPaths(pixelFloodFill.getFilledRegionsAsSVGPaths());
-
+      const point = toBitmapCoords(x, y);
+      if (coloringEngine.fillAt(point, selectedColor)) {
+        refreshPage();
         onColoringChange?.({
           type: 'flood_fill',
-          regionId: filledRegion.id,
           color: selectedColor,
-          pixelCount: filledRegion.pixels.size,
+          x: point.x,
+          y: point.y,
         });
-        onProgress?.(`🎨 Filled area with ${filledRegion.pixels.size} pixels!`);
+        onProgress?.('🎨 Filled area!');
       } else {
-        // Try intelligent search nearby (like Android BitmapColorSearch)
-        const nearbyRegion = pixelFloodFill.findRegionNearPoint(
-          cx,
-          cy,
-          10,
-          selectedColor
+        onProgress?.(
+          '⚠️ No fillable area found - try touching inside a white region'
         );
-        if (nearbyRegion) {
-          setSvgPaths(pixelFloodFill.getFilledRegionsAsSVGPaths());
-          onProgress?.(`🎯 Found and filled nearby area!`);
-        } else {
-          onProgress?.(
-            '⚠️ No fillable area found - try touching inside a white region'
-          );
-        }
       }
     },
     [
-      pixelFloodFill,
+      coloringEngine,
       selectedColor,
       onColoringChange,
       onProgress,
-      toContentCoords,
+      toBitmapCoords,
+      refreshPage,
     ]
   );
 
@@ -217,6 +208,7 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
       } else {
         setIsDrawing(true);
         const { x: cx, y: cy } = toContentCoords(locationX, locationY);
+        strokePointsRef.current = [toBitmapCoords(locationX, locationY)];
         setCurrentPath(`M ${cx} ${cy}`);
       }
     },
@@ -234,6 +226,7 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
       if (paintMode === 'paint' && isDrawing) {
         const { locationX, locationY } = evt.nativeEvent;
         const { x: cx, y: cy } = toContentCoords(locationX, locationY);
+        strokePointsRef.current.push(toBitmapCoords(locationX, locationY));
         setCurrentPath((prev) => `${prev} L ${cx} ${cy}`);
       }
     },
@@ -247,7 +240,13 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
           color: selectedColor,
           width: brushSize,
         };
-        setStrokes((prev) => [...prev, newStroke]);
+        coloringEngine?.brushStroke({
+          points: strokePointsRef.current,
+          size: brushSize,
+          color: selectedColor,
+        });
+        strokePointsRef.current = [];
+        refreshPage();
         onColoringChange?.(newStroke);
         onProgress?.('🖌️ Brush stroke applied!');
         setCurrentPath('');
@@ -258,15 +257,14 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
 
   // Clear all drawings and colors
   const clearCanvas = useCallback(() => {
-    setStrokes([]);
-    if (pixelFloodFill) {
-      pixelFloodFill.clearAll();
-      setSvgPaths([]);
+    if (coloringEngine && initialSnapshotRef.current) {
+      coloringEngine.restore(initialSnapshotRef.current);
+      refreshPage();
     }
     setCurrentPath('');
     setIsDrawing(false);
     onProgress?.('🧹 Canvas cleared!');
-  }, [pixelFloodFill, onProgress]);
+  }, [coloringEngine, refreshPage, onProgress]);
 
   // Zoom helpers
   const setZoomAt = useCallback(
@@ -464,46 +462,39 @@ export const SimplePaintCanvas: React.FC<SimplePaintCanvasProps> = ({
               ],
             }}
           >
-            <Image
-              source={{ uri: pngUri }}
-              style={[
-                styles.templateImage,
-                {
-                  width: canvasSize.width,
-                  height: canvasSize.height,
-                },
-              ]}
-              resizeMode="contain"
-            />
-
-            {/* SVG Overlay for drawings */}
+            {pageUri && viewport ? (
+              <Image
+                source={{ uri: pageUri }}
+                style={[
+                  styles.templateImage,
+                  {
+                    left: viewport.x,
+                    top: viewport.y,
+                    width: viewport.width,
+                    height: viewport.height,
+                  },
+                ]}
+              />
+            ) : (
+              <Image
+                source={{ uri: pngUri }}
+                style={[
+                  styles.templateImage,
+                  {
+                    width: canvasSize.width,
+                    height: canvasSize.height,
+                  },
+                ]}
+                resizeMode="contain"
+              />
+            )}
+
+            {/* SVG Overlay for the stroke in progress */}
             <Svg
               style={StyleSheet.absoluteFill}
               width={canvasSize.width}
               height={canvasSize.height}
             >
-              {svgPaths.map((svgPath, index) => (
-                <Path
-                  key={index}
-                  d={svgPath.path}
-                  fill={svgPath.color}
-                  fillOpacity={0.85}
-                  stroke="none"
-                />
-              ))}
-
-              {strokes.map((stroke) => (
-                <Path
-                  key={stroke.id}
-                  d={stroke.path}
-                  stroke={stroke.color}
-                  strokeWidth={Math.max(1, stroke.width)}
-                  fill="none"
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                />
-              ))}
-
               {currentPath && (
                 <Path
                   d={currentPath}
@@ -0,0 +1,66 @@
+import React from 'react';
+import { StyleSheet } from 'react-native';
+import Svg, { Circle, Line } from 'react-native-svg';
+
+import { symmetryGuides, type SymmetrySpec } from '../utils/Symmetry';
+
+// Radius of the drag handle where the axes cross, in screen px
+export const AXIS_HANDLE_RADIUS = 12;
+
+interface SymmetryGuidesProps {
+  spec: SymmetrySpec;
+  bitmapSize: { width: number; height: number };
+  canvasSize: { width: number; height: number };
+  dragging: boolean;
+}
+
+// Mirror axes (or radial spokes) over the page, with the handle that moves them
+export const SymmetryGuides: React.FC<SymmetryGuidesProps> = ({
+  spec,
+  bitmapSize,
+  canvasSize,
+  dragging,
+}) => {
+  const sx = canvasSize.width / bitmapSize.width;
+  const sy = canvasSize.height / bitmapSize.height;
+  // Pixel centres, so the line sits on the column or row it mirrors about
+  const toScreen = ({ x, y }: { x: number; y: number }) => ({
+    x: (x + 0.5) * sx,
+    y: (y + 0.5) * sy,
+  });
+  const center = toScreen(spec.center);
+  return (
+    <Svg
+      pointerEvents="none"
+      width={canvasSize.width}
+      height={canvasSize.height}
+      style={StyleSheet.absoluteFill}
+    >
+      {symmetryGuides(spec, bitmapSize).map(([from, to], i) => {
+        const a = toScreen(from);
+        const b = toScreen(to);
+        return (
+          <Line
+            key={i}
+            x1={a.x}
+            y1={a.y}
+            x2={b.x}
+            y2={b.y}
+            stroke="#6366F1"
+            strokeOpacity={0.6}
+            strokeWidth={1.5}
+            strokeDasharray="6 4"
+          />
+        );
+      })}
+      <Circle
+        cx={center.x}
+        cy={center.y}
+        r={AXIS_HANDLE_RADIUS}
+        stroke="#6366F1"
+        strokeWidth={2}
+        fill={dragging ? 'rgba(99,102,241,0.35)' : 'rgba(255,255,255,0.7)'}
+      />
+    </Svg>
+  );
+};
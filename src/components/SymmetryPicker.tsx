@@ -0,0 +1,133 @@
+import { Feather } from '@expo/vector-icons';
+import React from 'react';
+import {
+  ScrollView,
+  StyleSheet,
+  Text,
+  TouchableOpacity,
+  View,
+} from 'react-native';
+
+import {
+  DEFAULT_RADIAL_SEGMENTS,
+  MAX_RADIAL_SEGMENTS,
+  MIN_RADIAL_SEGMENTS,
+  type SymmetryKind,
+} from '../utils/Symmetry';
+
+export type SymmetryOptions = { kind: SymmetryKind; segments?: number } | null;
+
+interface SymmetryPickerProps {
+  value: SymmetryOptions;
+  onChange: (value: SymmetryOptions) => void;
+}
+
+const KINDS: { kind: SymmetryKind | null; label: string }[] = [
+  { kind: null, label: 'No mirror' },
+  { kind: 'vertical', label: 'Left | right' },
+  { kind: 'horizontal', label: 'Top | bottom' },
+  { kind: 'quad', label: 'Four ways' },
+  { kind: 'radial', label: 'Radial' },
+];
+
+// Symmetry mode for the brush and bucket, and the radial slice count
+export const SymmetryPicker: React.FC<SymmetryPickerProps> = ({
+  value,
+  onChange,
+}) => {
+  const segments = value?.segments ?? DEFAULT_RADIAL_SEGMENTS;
+  const setSegments = (next: number) =>
+    onChange({
+      kind: 'radial',
+      segments: Math.min(
+        MAX_RADIAL_SEGMENTS,
+        Math.max(MIN_RADIAL_SEGMENTS, next)
+      ),
+    });
+
+  return (
+    <View style={styles.container}>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {KINDS.map(({ kind, label }) => {
+          const active = (value?.kind ?? null) === kind;
+          return (
+            <TouchableOpacity
+              key={label}
+              style={[styles.chip, active && styles.chipActive]}
+              onPress={() => onChange(kind && { kind, segments })}
+            >
+              <Text style={[styles.chipText, active && styles.chipTextActive]}>
+                {label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </ScrollView>
+      {value?.kind === 'radial' && (
+        <View style={styles.controls}>
+          <TouchableOpacity
+            accessibilityLabel="Fewer slices"
+            style={styles.iconButton}
+            onPress={() => setSegments(segments - 1)}
+          >
+            <Feather name="minus" size={16} color="#4F46E5" />
+          </TouchableOpacity>
+          <Text style={styles.controlLabel}>{segments} slices</Text>
+          <TouchableOpacity
+            accessibilityLabel="More slices"
+            style={styles.iconButton}
+            onPress={() => setSegments(segments + 1)}
+          >
+            <Feather name="plus" size={16} color="#4F46E5" />
+          </TouchableOpacity>
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 16,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    borderRadius: 999,
+    backgroundColor: '#F1F5F9',
+  },
+  chipActive: {
+    backgroundColor: '#6366f1',
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+  },
+  chipTextActive: {
+    color: '#FFFFFF',
+  },
+  controls: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    marginTop: 8,
+  },
+  iconButton: {
+    width: 32,
+    height: 32,
+    borderRadius: 16,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#EEF2FF',
+  },
+  controlLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#475569',
+    minWidth: 60,
+    textAlign: 'center',
+  },
+});
@@ -8,10 +8,15 @@ import {
   View,
 } from 'react-native';
 
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import { type FillPreview, regionHighlight } from '../utils/FillLeakGuard';
+import type { RegionMap } from '../utils/RegionLabeling';
 import {
-  ZebraPaintEngine,
-  type ZebraPaintState,
-} from '../utils/ZebraPaintEngine';
+  createPaintWorkerClient,
+  type PaintWorkerClient,
+} from '../utils/worker/PaintWorkerClient';
+import { ZebraPaintEngine } from '../utils/ZebraPaintEngine';
+import { FillLeakPrompt } from './FillLeakPrompt';
 
 interface ZebraColoringCanvasProps {
   selectedColor: string;
@@ -19,11 +24,38 @@ interface ZebraColoringCanvasProps {
   brushSize?: number;
   templateUri?: string;
   onColoringChange?: (imageData: string) => void;
+  // Brush keeps to the region where the stroke started ("magic marker")
+  stayInsideLines?: boolean;
 }
 
 const { width: SCREEN_WIDTH } = Dimensions.get('window');
 const CANVAS_SIZE = Math.min(SCREEN_WIDTH - 40, 400);
 
+// Show a page (or overlay) the paint worker produced
+const drawBitmap = (
+  canvas: HTMLCanvasElement,
+  bitmap: RgbaBitmap,
+  composite = false
+) => {
+  const image = new ImageData(
+    new Uint8ClampedArray(bitmap.data.buffer, bitmap.data.byteOffset, bitmap.data.length),
+    bitmap.width,
+    bitmap.height
+  );
+  if (!composite) {
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    canvas.getContext('2d')?.putImageData(image, 0, 0);
+    return;
+  }
+  // putImageData replaces pixels; go through a canvas to blend over the page
+  const layer = document.createElement('canvas');
+  layer.width = bitmap.width;
+  layer.height = bitmap.height;
+  layer.getContext('2d')!.putImageData(image, 0, 0);
+  canvas.getContext('2d')?.drawImage(layer, 0, 0);
+};
+
 const createFallbackTemplate = (
   ctx: CanvasRenderingContext2D,
   w: number,
@@ -102,16 +134,30 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
   brushSize = 5,
   templateUri,
   onColoringChange,
+  stayInsideLines = false,
 }, ref) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [zebraState, setZebraState] = useState<ZebraPaintState | null>(null);
+  // Zebra-paint runs in a Web Worker; the canvas only shows its pages
+  const workerRef = useRef<PaintWorkerClient | null>(null);
+  // Latest page, to redraw after a leak highlight
+  const pageRef = useRef<RgbaBitmap | null>(null);
+  const regionsRef = useRef<RegionMap | null>(null);
   const [isReady, setIsReady] = useState(false);
   const [isDrawing, setIsDrawing] = useState(false);
   const [lastPoint, setLastPoint] = useState<{ x: number; y: number } | null>(
     null
   );
+  // First touch of the current stroke; the region a locked brush keeps to
+  const strokeStartRef = useRef<{ x: number; y: number } | null>(null);
   const [history, setHistory] = useState<ImageData[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
+  // Suspected leaking bucket fill, previewed until the user decides
+  const [pendingFill, setPendingFill] = useState<{
+    x: number;
+    y: number;
+    preview: FillPreview;
+    sealFailed: boolean;
+  } | null>(null);
 
   // Expose undo/redo methods via ref
   useImperativeHandle(ref, () => ({
@@ -146,6 +192,24 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
     }
   }));
 
+  useEffect(() => {
+    const worker = createPaintWorkerClient();
+    workerRef.current = worker;
+    return () => worker.terminate();
+  }, []);
+
+  const showPage = useCallback((page: RgbaBitmap) => {
+    pageRef.current = page;
+    if (canvasRef.current) drawBitmap(canvasRef.current, page);
+  }, []);
+
+  // Notify the parent with the current canvas
+  const notifyChange = useCallback(() => {
+    if (onColoringChange && canvasRef.current) {
+      onColoringChange(canvasRef.current.toDataURL('image/png'));
+    }
+  }, [onColoringChange]);
+
   const saveToHistory = useCallback(() => {
     if (canvasRef.current) {
       const ctx = canvasRef.current.getContext('2d');
@@ -162,7 +226,8 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
   }, [historyIndex]);
 
   const initializeZebraSystem = useCallback(async () => {
-    if (!canvasRef.current) return;
+    const worker = workerRef.current;
+    if (!canvasRef.current || !worker) return;
 
     try {
       setIsReady(false);
@@ -209,17 +274,30 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
         createFallbackTemplate(templateCtx, CANVAS_SIZE, CANVAS_SIZE);
       }
 
-      // Initialize zebra-paint state from template
-      const state = await ZebraPaintEngine.initializeFromTemplate(
+      // Hand the scaled template to the worker's zebra-paint engine, again
+      // if the Web Worker failed to start and the client fell back to inline
+      const templateData = ZebraPaintEngine.templatePixels(
         templateCanvas,
         CANVAS_SIZE,
         CANVAS_SIZE
       );
-
-      setZebraState(state);
+      const loadTemplate = () =>
+        worker.load(
+          {
+            width: CANVAS_SIZE,
+            height: CANVAS_SIZE,
+            // A copy each time: load moves the buffer
+            data: new Uint8Array(templateData),
+          },
+          { engine: 'zebra-paint' }
+        );
+      const result = await loadTemplate().catch(loadTemplate);
+      // Superseded by a newer template
+      if (!result?.bitmap) return;
+      regionsRef.current = result.regions ?? null;
 
       // Render initial state
-      ZebraPaintEngine.render(canvasRef.current, state);
+      showPage(result.bitmap);
       
       // Save initial state to history
       setTimeout(() => saveToHistory(), 100);
@@ -230,49 +308,93 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
       console.error('❌ Failed to initialize zebra-paint system:', error);
       setIsReady(false);
     }
-  }, [templateUri]);
+  }, [templateUri, showPage]);
+
+  const applyFill = useCallback(
+    async (x: number, y: number) => {
+      const worker = workerRef.current;
+      if (!worker) return;
+
+      // Perform flood fill in the worker
+      const result = await worker.fill(
+        { x, y },
+        { kind: 'solid', color: selectedColor }
+      );
+
+      if (result?.changed) {
+        // Re-render the canvas
+        if (result.bitmap) showPage(result.bitmap);
+
+        // Save to history
+        saveToHistory();
+
+        // Notify parent
+        notifyChange();
+      }
+    },
+    [selectedColor, showPage, saveToHistory, notifyChange]
+  );
+
+  // Preview fills that would flood most of the page instead of applying them
+  const holdIfLeaking = useCallback(
+    async (x: number, y: number, sealFailed: boolean): Promise<boolean> => {
+      const worker = workerRef.current;
+      const regions = regionsRef.current;
+      const page = pageRef.current;
+      if (!worker || !regions || !page || !canvasRef.current) return false;
+      const preview = (await worker.preview({ x, y }))?.preview;
+      if (!preview?.leaking) return false;
+
+      // Tint the region over the current page
+      const overlay = regionHighlight(regions, preview.regionId, selectedColor);
+      showPage(page);
+      drawBitmap(canvasRef.current, overlay, true);
+
+      setPendingFill({ x, y, preview, sealFailed });
+      return true;
+    },
+    [selectedColor, showPage]
+  );
+
+  // Redraw the page without the leak highlight
+  const clearHighlight = useCallback(() => {
+    if (pageRef.current) showPage(pageRef.current);
+  }, [showPage]);
+
+  const resolvePendingFill = useCallback(
+    async (action: 'confirm' | 'cancel' | 'seal') => {
+      const worker = workerRef.current;
+      if (!pendingFill || !worker) return;
+      const { x, y } = pendingFill;
+      if (action === 'seal') {
+        // Auto-seal: bridge wider gaps, then fill if the shape is closed now
+        const result = await worker.seal();
+        if (result?.regions) regionsRef.current = result.regions;
+        if (await holdIfLeaking(x, y, true)) return;
+        setPendingFill(null);
+        if (result?.changed) applyFill(x, y);
+        else clearHighlight();
+        return;
+      }
+      setPendingFill(null);
+      if (action === 'confirm') applyFill(x, y);
+      // Drop the highlight
+      else clearHighlight();
+    },
+    [pendingFill, holdIfLeaking, applyFill, clearHighlight]
+  );
 
   const handleCanvasInteraction = useCallback(
-    (x: number, y: number, isMove: boolean = false) => {
-      if (!zebraState || !canvasRef.current || !isReady) return;
+    async (x: number, y: number, isMove: boolean = false) => {
+      const worker = workerRef.current;
+      if (!worker || !canvasRef.current || !isReady || pendingFill) return;
 
       try {
         if (selectedTool === 'bucket' && !isMove) {
           // Only flood fill on tap/click, not on move
-          console.log(
-            `🪣 Zebra flood filling at (${x}, ${y}) with ${selectedColor}`
-          );
-
-          // Convert color to ARGB format
-          const fillColor = ZebraPaintEngine.hexToArgb(selectedColor);
-
-          // Perform flood fill
-          const success = ZebraPaintEngine.floodFill(
-            zebraState,
-            Math.floor(x),
-            Math.floor(y),
-            fillColor
-          );
-
-          if (success) {
-            // Re-render the canvas
-            ZebraPaintEngine.render(canvasRef.current, zebraState);
-            
-            // Save to history
-            saveToHistory();
-
-            // Notify parent
-            if (onColoringChange) {
-              const dataUrl = canvasRef.current.toDataURL('image/png');
-              onColoringChange(dataUrl);
-            }
-
-            console.log('✅ Zebra flood fill successful');
-          } else {
-            console.log(
-              '⚠️ Zebra flood fill had no effect - clicked on boundary or out of bounds'
-            );
-          }
+          const fx = Math.floor(x);
+          const fy = Math.floor(y);
+          if (!(await holdIfLeaking(fx, fy, false))) applyFill(fx, fy);
         } else if (selectedTool === 'brush' || selectedTool === 'eraser') {
           // Handle brush painting and eraser
           const toolColor = selectedTool === 'eraser' ? '#FFFFFF' : selectedColor;
@@ -280,43 +402,31 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
             `🖌️ Zebra ${selectedTool} at (${x}, ${y}) with ${toolColor}, size: ${brushSize}`
           );
 
-          const brushColor = ZebraPaintEngine.hexToArgb(toolColor);
-
-          if (isMove && lastPoint) {
-            // Draw line from last point to current point for smooth strokes
-            ZebraPaintEngine.paintLine(
-              zebraState,
-              lastPoint.x,
-              lastPoint.y,
-              Math.floor(x),
-              Math.floor(y),
-              brushColor,
-              brushSize
-            );
-          } else {
-            // Single brush stroke
-            ZebraPaintEngine.paintBrush(
-              zebraState,
-              Math.floor(x),
-              Math.floor(y),
-              brushColor,
-              brushSize
-            );
-          }
-
-          setLastPoint({ x: Math.floor(x), y: Math.floor(y) });
+          const point = { x: Math.floor(x), y: Math.floor(y) };
+          // Draw line from last point to current point for smooth strokes
+          const points = isMove && lastPoint ? [lastPoint, point] : [point];
+          if (!isMove) strokeStartRef.current = point;
+          setLastPoint(point);
+          const lockTo = stayInsideLines
+            ? strokeStartRef.current ?? undefined
+            : undefined;
+
+          // No colour erases back to white
+          const result = await worker.stroke(
+            { points, size: brushSize, lockTo },
+            selectedTool === 'eraser' ? undefined : selectedColor
+          );
+          // Segments still queued behind this one will bring the page
+          if (!result?.bitmap) return;
 
           // Re-render the canvas
-          ZebraPaintEngine.render(canvasRef.current, zebraState);
+          showPage(result.bitmap);
           
           // Save to history
           saveToHistory();
 
           // Notify parent
-          if (onColoringChange) {
-            const dataUrl = canvasRef.current.toDataURL('image/png');
-            onColoringChange(dataUrl);
-          }
+          notifyChange();
 
           console.log('✅ Zebra brush paint successful');
         }
@@ -325,13 +435,18 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
       }
     },
     [
-      zebraState,
       selectedColor,
       selectedTool,
       brushSize,
+      stayInsideLines,
       isReady,
-      onColoringChange,
       lastPoint,
+      pendingFill,
+      holdIfLeaking,
+      applyFill,
+      showPage,
+      saveToHistory,
+      notifyChange,
     ]
   );
 
@@ -411,6 +526,15 @@ export const ZebraColoringCanvas = React.forwardRef<any, ZebraColoringCanvasProp
             cursor: getCursorStyle(),
           }}
         />
+        {pendingFill && (
+          <FillLeakPrompt
+            preview={pendingFill.preview}
+            sealFailed={pendingFill.sealFailed}
+            onConfirm={() => resolvePendingFill('confirm')}
+            onCancel={() => resolvePendingFill('cancel')}
+            onSeal={() => resolvePendingFill('seal')}
+          />
+        )}
       </View>
 
       <View style={styles.statusBar}>
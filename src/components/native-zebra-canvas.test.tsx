@@ -0,0 +1,89 @@
+import React from 'react';
+import { act, create, type ReactTestRenderer } from 'react-test-renderer';
+
+import { DrawingDocumentStore } from '../services/DrawingDocumentStore';
+import { UndoHistoryStore } from '../services/UndoHistoryStore';
+import { NativeZebraCanvas } from './NativeZebraCanvas';
+
+jest.mock('../services/DrawingLibraryService', () => ({
+  DrawingLibraryService: { get: jest.fn() },
+}));
+jest.mock('../services/UndoHistoryStore', () => ({
+  SAVED_HISTORY_LIMITS: { steps: 60, bytes: 2 * 1024 * 1024 },
+  UndoHistoryStore: {
+    load: jest.fn(async () => null),
+    save: jest.fn(async () => {}),
+  },
+}));
+jest.mock('../services/DrawingDocumentStore', () => ({
+  DrawingDocumentStore: {
+    load: jest.fn(async () => null),
+    read: jest.fn(async () => null),
+  },
+}));
+jest.mock('../services/TemplateMaskService', () => ({
+  TemplateMaskService: { load: jest.fn(async () => null) },
+}));
+jest.mock('../utils/PngCodec', () => ({
+  // A blank 4x4 page
+  loadPngBitmap: jest.fn(async () => ({
+    width: 4,
+    height: 4,
+    data: new Uint8Array(64).fill(255),
+  })),
+  encodePngDataUrl: jest.fn(() => 'data:image/png;base64,'),
+}));
+
+const TEMPLATE = 'file:///templates/cat.png';
+const DRAWING = 'file:///drawings/autosaved.json';
+const PAGE = {
+  templateUri: TEMPLATE,
+  selectedColor: '#FF0000',
+  selectedTool: 'bucket',
+} as const;
+const loadHistory = UndoHistoryStore.load as jest.Mock;
+const readDrawing = DrawingDocumentStore.read as jest.Mock;
+
+// Lets the load run; the inline paint worker answers one request per macrotask
+async function loaded(expectation: () => void) {
+  for (let attempt = 0; ; attempt++) {
+    await act(() => new Promise((resolve) => setTimeout(resolve, 0)));
+    try {
+      return expectation();
+    } catch (error) {
+      if (attempt === 20) throw error;
+    }
+  }
+}
+
+describe('NativeZebraCanvas', () => {
+  let canvas: ReactTestRenderer;
+
+  afterEach(() => {
+    act(() => canvas.unmount());
+    jest.clearAllMocks();
+  });
+
+  it('loads a resumed drawing onto the template that is already open', async () => {
+    await act(async () => {
+      canvas = create(<NativeZebraCanvas {...PAGE} historyKey="fresh" />);
+    });
+    await loaded(() =>
+      expect(loadHistory).toHaveBeenCalledWith('fresh', expect.anything())
+    );
+
+    await act(async () => {
+      canvas.update(
+        <NativeZebraCanvas
+          {...PAGE}
+          historyKey="autosaved"
+          drawingUri={DRAWING}
+        />
+      );
+    });
+    await loaded(() => {
+      expect(loadHistory).toHaveBeenCalledWith('autosaved', expect.anything());
+      expect(readDrawing).toHaveBeenCalledWith(DRAWING);
+    });
+  });
+});
@@ -0,0 +1,105 @@
+import { MMKV } from 'react-native-mmkv';
+
+import { DrawingLibraryService } from './DrawingLibraryService';
+import { SettingsService } from './SettingsService';
+import { UndoHistoryStore } from './UndoHistoryStore';
+
+// What to open to carry on each drawing the canvas autosaves (its undo
+// history, see NativeZebraCanvas autosaveInterval), keyed by the history key:
+// the drawing's My Drawings id, which a page opened from a template is given
+// before it is first saved. A session becomes resumable with its first
+// autosave; saving the drawing to My Drawings finishes it, and unfinished
+// ones expire after the retention setting. The undo history itself stays
+// with a drawing in My Drawings (DrawingLibraryService.remove deletes it).
+
+export type AutosaveSession = {
+  key: string; // Undo history key, the My Drawings id the drawing saves under
+  templateUri: string;
+  title: string;
+  drawingUri?: string; // Its .coloring document, once it has been saved
+  savedAt?: number; // Last autosave, ms since epoch
+};
+
+// Quiet time after an edit, undo or redo before history is written to disk
+export const AUTOSAVE_QUIET_MS = 600;
+
+/**
+ * How long to wait before autosaving an edit made `now`: until edits have
+ * been quiet for AUTOSAVE_QUIET_MS, and at least `intervalMs` after the
+ * last save (at `lastSavedAt`, ms since epoch)
+ */
+export function autosaveDelay(
+  lastSavedAt: number,
+  intervalMs: number,
+  now: number = Date.now()
+): number {
+  return Math.max(AUTOSAVE_QUIET_MS, lastSavedAt + intervalMs - now);
+}
+
+const storage = new MMKV({ id: 'colouring_autosave' });
+const KEY = 'sessions_v1';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function loadAll(): Record<string, AutosaveSession> {
+  try {
+    const raw = storage.getString(KEY);
+    const sessions = raw ? JSON.parse(raw) : {};
+    return sessions && typeof sessions === 'object' ? sessions : {};
+  } catch {
+    return {};
+  }
+}
+
+function saveAll(sessions: Record<string, AutosaveSession>) {
+  storage.set(KEY, JSON.stringify(sessions));
+}
+
+// Sessions opened since launch; each is stored from its first autosave
+const opened = new Map<string, Omit<AutosaveSession, 'savedAt'>>();
+
+export const AutosaveService = {
+  // The drawing now open on the canvas, or again with new details
+  open(session: Omit<AutosaveSession, 'savedAt'>) {
+    opened.set(session.key, session);
+    const sessions = loadAll();
+    if (!sessions[session.key]) return;
+    sessions[session.key] = { ...sessions[session.key], ...session };
+    saveAll(sessions);
+  },
+  saved(key: string) {
+    const sessions = loadAll();
+    const session = opened.get(key) ?? sessions[key];
+    if (!session) return;
+    sessions[key] = { ...session, savedAt: Date.now() };
+    saveAll(sessions);
+  },
+  // The most recently autosaved drawing, or null when there is none
+  latest(): AutosaveSession | null {
+    let latest: AutosaveSession | null = null;
+    for (const session of Object.values(loadAll())) {
+      if (session.savedAt && session.savedAt > (latest?.savedAt ?? 0)) {
+        latest = session;
+      }
+    }
+    return latest;
+  },
+  // The drawing is saved for good: drop its session (its history is kept for undo on reopen)
+  finish(key: string) {
+    const sessions = loadAll();
+    delete sessions[key];
+    saveAll(sessions);
+  },
+  // Forget sessions older than the retention setting, with the histories of
+  // those never saved to My Drawings
+  prune() {
+    const { retentionDays } = SettingsService.getAutosave();
+    const cutoff = Date.now() - retentionDays * DAY_MS;
+    const sessions = loadAll();
+    for (const [key, session] of Object.entries(sessions)) {
+      if ((session.savedAt ?? 0) >= cutoff) continue;
+      delete sessions[key];
+      if (!DrawingLibraryService.get(key)) UndoHistoryStore.remove(key);
+    }
+    saveAll(sessions);
+  },
+};
@@ -0,0 +1,48 @@
+import * as FileSystem from 'expo-file-system';
+
+import {
+  DRAWING_DOCUMENT_EXTENSION,
+  type DrawingDocument,
+  parseDrawingDocument,
+  serializeDrawingDocument,
+} from '../utils/DrawingDocument';
+
+// A drawing brought in with its template (see ProjectBundleService) lives
+// next to the template as <name>.coloring. The canvas replays it onto the
+// fresh page until the drawing has an undo history of its own.
+
+function drawingUriFor(pngUri: string): string {
+  return pngUri.replace(/(\.png)?$/i, DRAWING_DOCUMENT_EXTENSION);
+}
+
+export const DrawingDocumentStore = {
+  drawingUriFor,
+  async save(pngUri: string, document: DrawingDocument): Promise<void> {
+    await FileSystem.writeAsStringAsync(
+      drawingUriFor(pngUri),
+      serializeDrawingDocument(document)
+    );
+  },
+  // The template's drawing, or null when it has none or it cannot be read
+  load(pngUri: string): Promise<DrawingDocument | null> {
+    return DrawingDocumentStore.read(drawingUriFor(pngUri));
+  },
+  // A .coloring file anywhere (e.g. a saved drawing), or null as for load
+  async read(uri: string): Promise<DrawingDocument | null> {
+    try {
+      if (
+        !uri.startsWith('file://') ||
+        !(await FileSystem.getInfoAsync(uri)).exists
+      )
+        return null;
+      return parseDrawingDocument(await FileSystem.readAsStringAsync(uri));
+    } catch {
+      return null;
+    }
+  },
+  remove(pngUri: string) {
+    FileSystem.deleteAsync(drawingUriFor(pngUri), { idempotent: true }).catch(
+      () => {}
+    );
+  },
+};
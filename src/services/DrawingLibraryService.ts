@@ -0,0 +1,309 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import * as FileSystem from 'expo-file-system';
+import { MMKV } from 'react-native-mmkv';
+
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import {
+  type DrawingDocument,
+  serializeDrawingDocument,
+} from '../utils/DrawingDocument';
+import {
+  colorsUsed,
+  copyName,
+  legacyDrawing,
+  type LibraryDrawing,
+} from '../utils/DrawingLibrary';
+import {
+  decodePng,
+  encodePng,
+  readPngBytes,
+  uint8ArrayToBase64,
+} from '../utils/PngCodec';
+import { projectThumbnail } from '../utils/ProjectBundle';
+import { UndoHistoryStore } from './UndoHistoryStore';
+
+// Saved drawings, one folder each under drawings/<id>/ holding the picture,
+// its thumbnail and the .coloring document; the list of them (see
+// utils/DrawingLibrary) is kept in MMKV so the library opens without reading
+// any files. Pictures are written under a new name on every save, so images
+// already on screen never show a stale cached copy.
+
+const storage = new MMKV({ id: 'colouring_drawings' });
+const KEYS = {
+  INDEX: 'drawings_index_v1',
+  LEGACY_MIGRATED: 'legacy_migrated_v1',
+} as const;
+
+const LIBRARY_DIR = `${FileSystem.documentDirectory}drawings/`;
+// What the old canvases saved to AsyncStorage
+const LEGACY_LIST_KEY = 'saved_drawings_list';
+const LEGACY_DRAWING_PREFIX = 'saved_drawing_';
+
+const base64 = { encoding: FileSystem.EncodingType.Base64 };
+
+function loadAll(): LibraryDrawing[] {
+  try {
+    const raw = storage.getString(KEYS.INDEX);
+    if (!raw) return [];
+    const list = JSON.parse(raw) as LibraryDrawing[];
+    return Array.isArray(list) ? list : [];
+  } catch {
+    return [];
+  }
+}
+
+function saveAll(list: LibraryDrawing[]) {
+  storage.set(KEYS.INDEX, JSON.stringify(list));
+}
+
+function folderFor(id: string): string {
+  return `${LIBRARY_DIR}${id}/`;
+}
+
+function newId(): string {
+  return `drawing_${Date.now()}_${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function deleteFile(uri: string | undefined) {
+  if (uri) FileSystem.deleteAsync(uri, { idempotent: true }).catch(() => {});
+}
+
+async function writePng(uri: string, png: Uint8Array): Promise<string> {
+  await FileSystem.writeAsStringAsync(uri, uint8ArrayToBase64(png), base64);
+  return uri;
+}
+
+// Picture and thumbnail of `page` in the drawing's folder, named by `stamp`
+async function writePictures(
+  id: string,
+  page: RgbaBitmap,
+  stamp: number
+): Promise<Pick<LibraryDrawing, 'pictureUri' | 'thumbnailUri'>> {
+  const folder = folderFor(id);
+  return {
+    pictureUri: await writePng(
+      `${folder}picture-${stamp}.png`,
+      encodePng(page)
+    ),
+    thumbnailUri: await writePng(
+      `${folder}thumbnail-${stamp}.png`,
+      projectThumbnail(page)
+    ),
+  };
+}
+
+// A resumed drawing's document holds only this session's operations, so it
+// adds to the colours already recorded
+function colorsOf(
+  document: DrawingDocument | undefined,
+  previous: LibraryDrawing | undefined
+): string[] {
+  const before = previous?.colors ?? [];
+  if (!document) return before;
+  const used = colorsUsed(document.operations);
+  return document.base ? [...new Set([...before, ...used])] : used;
+}
+
+function replaceEntry(drawing: LibraryDrawing) {
+  saveAll([drawing, ...loadAll().filter((entry) => entry.id !== drawing.id)]);
+}
+
+async function readLegacy(): Promise<{
+  listed: Map<string, unknown>;
+  data: Map<string, string | null>;
+}> {
+  const listed = new Map<string, unknown>();
+  try {
+    const raw = await AsyncStorage.getItem(LEGACY_LIST_KEY);
+    const list: unknown = raw ? JSON.parse(raw) : [];
+    for (const item of Array.isArray(list) ? list : []) {
+      // Either { id, name, createdAt } or a bare id
+      const id = typeof item === 'string' ? item : item?.id;
+      if (typeof id === 'string') listed.set(id, item);
+    }
+  } catch {
+    // Unreadable list: the drawings' own keys are still found below
+  }
+  const keys = (await AsyncStorage.getAllKeys()).filter((key) =>
+    key.startsWith(LEGACY_DRAWING_PREFIX)
+  );
+  const pairs = await AsyncStorage.multiGet(keys);
+  const data = new Map(
+    pairs.map(([key, value]) => [
+      key.slice(LEGACY_DRAWING_PREFIX.length),
+      value,
+    ])
+  );
+  return { listed, data };
+}
+
+// One old save into its own folder: the blob as it was, and the PNG some
+// canvases wrote next to it, when there is one
+async function migrateOne(
+  id: string,
+  { listed, raw }: { listed?: unknown; raw?: string | null }
+): Promise<LibraryDrawing> {
+  let data: unknown;
+  try {
+    data = raw ? JSON.parse(raw) : undefined;
+  } catch {
+    data = undefined;
+  }
+  const folder = folderFor(id);
+  await FileSystem.makeDirectoryAsync(folder, { intermediates: true });
+  const drawing: LibraryDrawing = legacyDrawing(id, { listed, data });
+  if (raw) {
+    drawing.legacyUri = `${folder}legacy.json`;
+    await FileSystem.writeAsStringAsync(drawing.legacyUri, raw);
+  }
+  const oldPng = `${FileSystem.documentDirectory}${id}.png`;
+  if ((await FileSystem.getInfoAsync(oldPng)).exists) {
+    const page = decodePng(await readPngBytes(oldPng));
+    Object.assign(drawing, await writePictures(id, page, drawing.createdAt));
+    deleteFile(oldPng);
+  }
+  return drawing;
+}
+
+export const DrawingLibraryService = {
+  // Most recently saved first; see utils/DrawingLibrary to sort and search
+  list(): LibraryDrawing[] {
+    return loadAll();
+  },
+  get(id: string): LibraryDrawing | undefined {
+    return loadAll().find((drawing) => drawing.id === id);
+  },
+  // An id for a drawing not saved yet, e.g. a page just opened on the canvas
+  newId,
+  /**
+   * Save the page over the drawing `id`, or as a new drawing (under `id`
+   * when given, e.g. one from newId). `addTimeMs` is colouring time since
+   * the drawing was last saved.
+   */
+  async save(input: {
+    id?: string;
+    name: string;
+    page: RgbaBitmap;
+    document?: DrawingDocument;
+    addTimeMs?: number;
+  }): Promise<LibraryDrawing> {
+    const previous = input.id ? DrawingLibraryService.get(input.id) : undefined;
+    const id = input.id ?? newId();
+    const now = Date.now();
+    await FileSystem.makeDirectoryAsync(folderFor(id), { intermediates: true });
+    const { document } = input;
+    const documentUri = document
+      ? `${folderFor(id)}drawing.coloring`
+      : undefined;
+    if (documentUri && document) {
+      await FileSystem.writeAsStringAsync(
+        documentUri,
+        serializeDrawingDocument(document)
+      );
+    }
+    const drawing: LibraryDrawing = {
+      ...previous,
+      id,
+      name: previous?.name ?? input.name,
+      template: document?.template ?? previous?.template,
+      createdAt: previous?.createdAt ?? now,
+      modifiedAt: now,
+      timeSpentMs: (previous?.timeSpentMs ?? 0) + (input.addTimeMs ?? 0),
+      colors: colorsOf(document, previous),
+      ...(await writePictures(id, input.page, now)),
+      documentUri: documentUri ?? previous?.documentUri,
+    };
+    replaceEntry(drawing);
+    deleteFile(previous?.pictureUri);
+    deleteFile(previous?.thumbnailUri);
+    return drawing;
+  },
+  rename(id: string, name: string): LibraryDrawing | undefined {
+    const drawing = DrawingLibraryService.get(id);
+    const trimmed = name.trim();
+    if (!drawing || !trimmed) return drawing;
+    const renamed = { ...drawing, name: trimmed, modifiedAt: Date.now() };
+    replaceEntry(renamed);
+    return renamed;
+  },
+  // A copy with its own folder; its undo history starts from the document
+  async duplicate(id: string): Promise<LibraryDrawing | undefined> {
+    const drawing = DrawingLibraryService.get(id);
+    if (!drawing) return undefined;
+    const copyId = newId();
+    await FileSystem.copyAsync({ from: folderFor(id), to: folderFor(copyId) });
+    const moved = (uri?: string) =>
+      uri?.replace(folderFor(id), folderFor(copyId));
+    const now = Date.now();
+    const copy: LibraryDrawing = {
+      ...drawing,
+      id: copyId,
+      name: copyName(
+        drawing.name,
+        loadAll().map((entry) => entry.name)
+      ),
+      createdAt: now,
+      modifiedAt: now,
+      pictureUri: moved(drawing.pictureUri),
+      thumbnailUri: moved(drawing.thumbnailUri),
+      documentUri: moved(drawing.documentUri),
+      legacyUri: moved(drawing.legacyUri),
+    };
+    replaceEntry(copy);
+    return copy;
+  },
+  remove(ids: string[]) {
+    const list = loadAll();
+    for (const drawing of list.filter((entry) => ids.includes(entry.id))) {
+      deleteFile(folderFor(drawing.id));
+      UndoHistoryStore.remove(drawing.id);
+    }
+    saveAll(list.filter((entry) => !ids.includes(entry.id)));
+  },
+  /**
+   * Move drawings the old canvases kept in AsyncStorage into the library,
+   * then drop them from AsyncStorage. Runs once; a drawing that fails to
+   * move is left where it was and tried again next time, and the promise
+   * rejects saying how many were left. Resolves with how many drawings were
+   * added.
+   */
+  async migrateLegacy(): Promise<number> {
+    if (storage.getBoolean(KEYS.LEGACY_MIGRATED)) return 0;
+    const { listed, data } = await readLegacy();
+    const ids = new Set([...listed.keys(), ...data.keys()]);
+    const known = new Set(loadAll().map((drawing) => drawing.id));
+    const moved: string[] = [];
+    let added = 0;
+    let failed = 0;
+    for (const id of ids) {
+      try {
+        if (!known.has(id)) {
+          replaceEntry(
+            await migrateOne(id, { listed: listed.get(id), raw: data.get(id) })
+          );
+          added++;
+        }
+        moved.push(id);
+      } catch {
+        failed++;
+      }
+    }
+    await AsyncStorage.multiRemove(
+      moved.map((id) => `${LEGACY_DRAWING_PREFIX}${id}`)
+    );
+    if (failed) {
+      const left = [...listed].filter(([id]) => !moved.includes(id));
+      await AsyncStorage.setItem(
+        LEGACY_LIST_KEY,
+        JSON.stringify(left.map(([, item]) => item))
+      );
+      throw new Error(
+        `${failed} of ${ids.size} old drawings could not be moved; they will be tried again next time`
+      );
+    } else {
+      await AsyncStorage.removeItem(LEGACY_LIST_KEY);
+      storage.set(KEYS.LEGACY_MIGRATED, true);
+    }
+    return added;
+  },
+};
@@ -0,0 +1,77 @@
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import type { PdfImage } from '../utils/PdfWriter';
+import { loadPngBitmap } from '../utils/PngCodec';
+import {
+  createPrintPdf,
+  printImage,
+  type PrintItem,
+} from '../utils/PrintPages';
+import { PngTemplateService } from './PngTemplateService';
+import type { PrintSettings } from './SettingsService';
+
+// Print-ready PDFs (see utils/PrintPages) of pictures on the device: finished
+// colourings, blank templates, or a whole template category as a colouring
+// book. Pictures are decoded one at a time and each only once, however many
+// copies are asked for, so a class set costs no more than a single page.
+
+export type PrintSource = { title?: string } & (
+  | { uri: string } // PNG: a template or a saved picture
+  | { bitmap: RgbaBitmap } // e.g. the page on the canvas
+);
+
+async function printItems(
+  sources: PrintSource[],
+  copies: number
+): Promise<PrintItem[]> {
+  const images = new Map<string | RgbaBitmap, PdfImage>();
+  const items: PrintItem[] = [];
+  for (const source of sources) {
+    const key = 'uri' in source ? source.uri : source.bitmap;
+    let image = images.get(key);
+    if (!image) {
+      image = printImage(
+        'uri' in source ? await loadPngBitmap(source.uri) : source.bitmap
+      );
+      images.set(key, image);
+    }
+    for (let i = 0; i < Math.max(1, copies); i++) {
+      items.push({ image, title: source.title });
+    }
+  }
+  return items;
+}
+
+const capitalize = (word: string) => word[0].toUpperCase() + word.slice(1);
+
+export const PrintService = {
+  // The pictures as a PDF, `settings.copies` pages of each in turn
+  async pdf(
+    sources: PrintSource[],
+    settings: PrintSettings
+  ): Promise<Uint8Array> {
+    if (sources.length === 0) throw new Error('Nothing to print');
+    return createPrintPdf(await printItems(sources, settings.copies), settings);
+  },
+  // Every template in `category`, blank, as a numbered book with a cover
+  async booklet(
+    category: string,
+    settings: PrintSettings
+  ): Promise<Uint8Array> {
+    const templates = await PngTemplateService.getTemplatesByCategory(category);
+    if (templates.length === 0) {
+      throw new Error(`There are no ${category} pages to print`);
+    }
+    const sources: PrintSource[] = [];
+    for (const template of templates) {
+      sources.push({
+        uri: await PngTemplateService.downloadTemplate(template.id),
+        title: template.title,
+      });
+    }
+    const items = await printItems(sources, settings.copies);
+    return createPrintPdf(items, settings, {
+      title: `${capitalize(category)} Colouring Book`,
+      subtitle: `${templates.length} pictures to colour`,
+    });
+  },
+};
@@ -0,0 +1,119 @@
+import * as FileSystem from 'expo-file-system';
+import { Platform } from 'react-native';
+
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import type { DrawingDocument } from '../utils/DrawingDocument';
+import { base64ToUint8Array, readPngBytes } from '../utils/PngCodec';
+import {
+  packProjectBundle,
+  PROJECT_BUNDLE_EXTENSION,
+  PROJECT_BUNDLE_FORMAT,
+  PROJECT_BUNDLE_VERSION,
+  projectThumbnail,
+  unpackProjectBundle,
+} from '../utils/ProjectBundle';
+import { DEFAULT_HISTORY_BUDGET, UndoHistory } from '../utils/UndoHistory';
+import { DrawingDocumentStore } from './DrawingDocumentStore';
+import { TemplateMaskService } from './TemplateMaskService';
+import { UndoHistoryStore } from './UndoHistoryStore';
+import {
+  type UserTemplate,
+  UserTemplatesService,
+} from './UserTemplatesService';
+
+// Project bundles (see utils/ProjectBundle) to and from device storage.
+// Importing one adds its template to the user's templates, with the drawing
+// and undo history filed under it, so opening the template carries on.
+
+export interface BundleFile {
+  uri: string;
+  name: string;
+}
+
+async function readBytes(uri: string): Promise<Uint8Array> {
+  const b64 = await FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+  return base64ToUint8Array(b64);
+}
+
+// SAF uris end in an encoded document path
+function fileNameOf(uri: string): string {
+  return decodeURIComponent(uri).split(/[/:]/).pop() ?? uri;
+}
+
+export const ProjectBundleService = {
+  // The drawing on `templateUri` with everything needed to carry on elsewhere
+  async pack(project: {
+    templateUri: string;
+    title: string;
+    drawing: DrawingDocument;
+    history?: Uint8Array;
+    page: RgbaBitmap;
+  }): Promise<Uint8Array> {
+    const { templateUri, drawing } = project;
+    const saved = UserTemplatesService.list().find(
+      (tpl) => tpl.pngUri === templateUri
+    );
+    const template = new Uint8Array(await readPngBytes(templateUri));
+    const outlineMask = drawing.engine.outlineRepair
+      ? await readBytes(TemplateMaskService.maskUriFor(templateUri))
+      : undefined;
+    return packProjectBundle({
+      manifest: {
+        format: PROJECT_BUNDLE_FORMAT,
+        version: PROJECT_BUNDLE_VERSION,
+        title: saved?.title ?? project.title,
+        category: saved?.category,
+        createdAt: saved?.createdAt ?? Date.now(),
+        exportedAt: Date.now(),
+      },
+      template,
+      outlineMask,
+      drawing,
+      history: project.history,
+      thumbnail: projectThumbnail(project.page),
+    });
+  },
+  // Unpack a bundle into a new user template that opens with its drawing
+  async import(bytes: Uint8Array): Promise<UserTemplate> {
+    const bundle = unpackProjectBundle(bytes);
+    const tpl = await UserTemplatesService.addFromPng(
+      bundle.manifest,
+      bundle.template,
+      bundle.outlineMask
+    );
+    await DrawingDocumentStore.save(tpl.pngUri, bundle.drawing);
+    const history =
+      bundle.history &&
+      UndoHistory.deserialize(bundle.history, DEFAULT_HISTORY_BUDGET);
+    if (history) await UndoHistoryStore.save(tpl.pngUri, history);
+    return tpl;
+  },
+  /**
+   * Bundles the user can import: from a folder they pick on Android, from
+   * the app's documents elsewhere (where exports are written). Null when
+   * the folder was not granted.
+   */
+  async findImportable(): Promise<BundleFile[] | null> {
+    let uris: string[];
+    if (Platform.OS === 'android') {
+      const saf = FileSystem.StorageAccessFramework;
+      const perm = await saf.requestDirectoryPermissionsAsync();
+      if (!perm.granted) return null;
+      uris = await saf.readDirectoryAsync(perm.directoryUri);
+    } else {
+      const dir = FileSystem.documentDirectory!;
+      uris = (await FileSystem.readDirectoryAsync(dir)).map(
+        (name) => dir + name
+      );
+    }
+    return uris
+      .map((uri) => ({ uri, name: fileNameOf(uri) }))
+      .filter((file) =>
+        file.name.toLowerCase().endsWith(PROJECT_BUNDLE_EXTENSION)
+      )
+      .sort((a, b) => b.name.localeCompare(a.name));
+  },
+  read: readBytes,
+};
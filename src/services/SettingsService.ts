@@ -1,12 +1,35 @@
 import { MMKV } from 'react-native-mmkv';
 
+import { DEFAULT_PRINT_OPTIONS, type PrintOptions } from '../utils/PrintPages';
+
 const storage = new MMKV({ id: 'colouring_settings' });
 
 const KEYS = {
   GEMINI_API_KEY: 'gemini_api_key',
   GEMINI_GUIDE_SEEN: 'gemini_guide_seen',
+  AUTOSAVE: 'autosave_v1',
+  PRINT: 'print_v1',
 } as const;
 
+export type AutosaveSettings = {
+  intervalMs: number; // Least time between autosaves of a drawing
+  retentionDays: number; // Unfinished work older than this is deleted
+};
+
+export const DEFAULT_AUTOSAVE: AutosaveSettings = {
+  intervalMs: 10_000,
+  retentionDays: 14,
+};
+
+export type PrintSettings = PrintOptions & {
+  copies: number; // Of each page, e.g. one per pupil
+};
+
+export const DEFAULT_PRINT: PrintSettings = {
+  ...DEFAULT_PRINT_OPTIONS,
+  copies: 1,
+};
+
 export const SettingsService = {
   getGeminiApiKey(): string | null {
     try { return storage.getString(KEYS.GEMINI_API_KEY) || null; } catch { return null; }
@@ -23,4 +46,32 @@ export const SettingsService = {
   setGuideSeen(seen: boolean) {
     storage.set(KEYS.GEMINI_GUIDE_SEEN, seen);
   },
+  getAutosave(): AutosaveSettings {
+    try {
+      const raw = storage.getString(KEYS.AUTOSAVE);
+      return { ...DEFAULT_AUTOSAVE, ...(raw ? JSON.parse(raw) : {}) };
+    } catch {
+      return DEFAULT_AUTOSAVE;
+    }
+  },
+  setAutosave(settings: Partial<AutosaveSettings>) {
+    storage.set(
+      KEYS.AUTOSAVE,
+      JSON.stringify({ ...SettingsService.getAutosave(), ...settings })
+    );
+  },
+  getPrint(): PrintSettings {
+    try {
+      const raw = storage.getString(KEYS.PRINT);
+      return { ...DEFAULT_PRINT, ...(raw ? JSON.parse(raw) : {}) };
+    } catch {
+      return DEFAULT_PRINT;
+    }
+  },
+  setPrint(settings: Partial<PrintSettings>) {
+    storage.set(
+      KEYS.PRINT,
+      JSON.stringify({ ...SettingsService.getPrint(), ...settings })
+    );
+  },
 };
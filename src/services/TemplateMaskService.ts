@@ -0,0 +1,92 @@
+import * as FileSystem from 'expo-file-system';
+
+import { resampleNearest } from '../utils/BitmapUtils';
+import type { RgbaBitmap } from '../utils/ColoringEngine';
+import {
+  type GapClosingResult,
+  repairTemplateOutline,
+} from '../utils/GapClosing';
+import {
+  base64ToUint8Array,
+  decodePng,
+  encodePng,
+  loadPngBitmap,
+  uint8ArrayToBase64,
+} from '../utils/PngCodec';
+
+// The repaired boundary mask lives next to its template as <name>.mask.png:
+// opaque black = boundary, transparent = fillable.
+
+function maskUriFor(pngUri: string): string {
+  return pngUri.replace(/(\.png)?$/i, '.mask.png');
+}
+
+function maskToBitmap(
+  mask: Uint8Array,
+  width: number,
+  height: number
+): RgbaBitmap {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < mask.length; i++)
+    data[i * 4 + 3] = mask[i] === 1 ? 255 : 0;
+  return { width, height, data };
+}
+
+export const TemplateMaskService = {
+  maskUriFor,
+  // Close outline gaps in a freshly imported PNG (data URL or base64)
+  repair(
+    dataUrl: string
+  ): GapClosingResult & { width: number; height: number } {
+    const b64 = dataUrl.replace(/^data:image\/png;base64,/, '');
+    const template = decodePng(base64ToUint8Array(b64).buffer as ArrayBuffer);
+    return {
+      ...repairTemplateOutline(template),
+      width: template.width,
+      height: template.height,
+    };
+  },
+  async save(
+    pngUri: string,
+    repaired: { mask: Uint8Array; width: number; height: number }
+  ): Promise<string> {
+    const uri = maskUriFor(pngUri);
+    const png = encodePng(
+      maskToBitmap(repaired.mask, repaired.width, repaired.height)
+    );
+    await FileSystem.writeAsStringAsync(uri, uint8ArrayToBase64(png), {
+      encoding: FileSystem.EncodingType.Base64,
+    });
+    return uri;
+  },
+  // Saved mask resampled to the canvas size, or null when the template has none
+  async load(
+    pngUri: string,
+    size: { width: number; height: number }
+  ): Promise<Uint8Array | null> {
+    const uri = maskUriFor(pngUri);
+    try {
+      if (
+        !uri.startsWith('file://') ||
+        !(await FileSystem.getInfoAsync(uri)).exists
+      )
+        return null;
+      const bitmap = resampleNearest(
+        await loadPngBitmap(uri),
+        size.width,
+        size.height
+      );
+      const mask = new Uint8Array(size.width * size.height);
+      for (let i = 0; i < mask.length; i++)
+        mask[i] = bitmap.data[i * 4 + 3] >= 128 ? 1 : 0;
+      return mask;
+    } catch {
+      return null;
+    }
+  },
+  remove(pngUri: string) {
+    FileSystem.deleteAsync(maskUriFor(pngUri), { idempotent: true }).catch(
+      () => {}
+    );
+  },
+};
@@ -0,0 +1,73 @@
+import * as FileSystem from 'expo-file-system';
+
+import { base64ToUint8Array, uint8ArrayToBase64 } from '../utils/PngCodec';
+import {
+  DEFAULT_HISTORY_BUDGET,
+  type SavedHistoryLimits,
+  UndoHistory,
+} from '../utils/UndoHistory';
+
+// One file per drawing under undo-history/, named after a hash of the
+// drawing's key (its My Drawings id, or for an imported project's drawing
+// its template uri), holding UndoHistory.serialize() bytes.
+
+const HISTORY_DIR = `${FileSystem.documentDirectory}undo-history/`;
+
+// Per drawing: enough to undo a session's worth of fills and strokes
+export const SAVED_HISTORY_LIMITS: SavedHistoryLimits = {
+  steps: 60,
+  bytes: 2 * 1024 * 1024,
+};
+
+// FNV-1a, as hex; keys are uris, too long and too odd for file names
+function hashKey(key: string): string {
+  let hash = 0x81_1c_9d_c5;
+  for (let i = 0; i < key.length; i++) {
+    hash ^= key.charCodeAt(i);
+    hash = Math.imul(hash, 0x01_00_01_93);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+function historyUriFor(key: string): string {
+  return `${HISTORY_DIR}${hashKey(key)}.bin`;
+}
+
+export const UndoHistoryStore = {
+  historyUriFor,
+  async save(
+    key: string,
+    history: UndoHistory,
+    limits: SavedHistoryLimits = SAVED_HISTORY_LIMITS
+  ): Promise<void> {
+    const bytes = history.serialize(limits);
+    if (bytes.length === 0) return;
+    await FileSystem.makeDirectoryAsync(HISTORY_DIR, { intermediates: true });
+    await FileSystem.writeAsStringAsync(
+      historyUriFor(key),
+      uint8ArrayToBase64(bytes),
+      { encoding: FileSystem.EncodingType.Base64 }
+    );
+  },
+  // The saved history, or null when there is none or it cannot be read
+  async load(
+    key: string,
+    budget: number = DEFAULT_HISTORY_BUDGET
+  ): Promise<UndoHistory | null> {
+    const uri = historyUriFor(key);
+    try {
+      if (!(await FileSystem.getInfoAsync(uri)).exists) return null;
+      const b64 = await FileSystem.readAsStringAsync(uri, {
+        encoding: FileSystem.EncodingType.Base64,
+      });
+      return UndoHistory.deserialize(base64ToUint8Array(b64), budget);
+    } catch {
+      return null;
+    }
+  },
+  remove(key: string) {
+    FileSystem.deleteAsync(historyUriFor(key), { idempotent: true }).catch(
+      () => {}
+    );
+  },
+};
@@ -1,12 +1,20 @@
 import { MMKV } from 'react-native-mmkv';
 import * as FileSystem from 'expo-file-system';
 
+import type { GapBridge } from '../utils/GapClosing';
+import { uint8ArrayToBase64 } from '../utils/PngCodec';
+import { DrawingDocumentStore } from './DrawingDocumentStore';
+import { TemplateMaskService } from './TemplateMaskService';
+import { UndoHistoryStore } from './UndoHistoryStore';
+
 export type UserTemplate = {
   id: string;
   title: string;
   category: string;
   pngUri: string; // file:// uri
   createdAt: number;
+  maskUri?: string; // repaired boundary mask (outline gaps bridged)
+  gapBridges?: GapBridge[]; // where gaps were bridged, in template pixels
 };
 
 const storage = new MMKV({ id: 'colouring_user_templates' });
@@ -38,6 +46,42 @@ export const UserTemplatesService = {
     saveAll(list);
     return tpl;
   },
+  // Template from PNG bytes (a project bundle), with its outline mask PNG if it has one
+  async addFromPng(
+    meta: { title: string; category?: string; createdAt?: number },
+    png: Uint8Array,
+    maskPng?: Uint8Array
+  ): Promise<UserTemplate> {
+    const id = 'user_' + Date.now();
+    const path = FileSystem.documentDirectory! + id + '.png';
+    const encoding = FileSystem.EncodingType.Base64;
+    await FileSystem.writeAsStringAsync(path, uint8ArrayToBase64(png), { encoding });
+    const tpl: UserTemplate = {
+      id,
+      title: meta.title,
+      category: meta.category || 'imported',
+      pngUri: path,
+      createdAt: meta.createdAt ?? Date.now(),
+    };
+    if (maskPng) {
+      tpl.maskUri = TemplateMaskService.maskUriFor(path);
+      await FileSystem.writeAsStringAsync(tpl.maskUri, uint8ArrayToBase64(maskPng), { encoding });
+    }
+    const list = loadAll();
+    list.unshift(tpl);
+    saveAll(list);
+    return tpl;
+  },
+  // Store the gap-closed boundary mask alongside a saved template
+  async attachOutlineRepair(id: string, repaired: { mask: Uint8Array; width: number; height: number; bridges: GapBridge[] }): Promise<UserTemplate | undefined> {
+    const list = loadAll();
+    const tpl = list.find(t => t.id === id);
+    if (!tpl) return undefined;
+    tpl.maskUri = await TemplateMaskService.save(tpl.pngUri, repaired);
+    tpl.gapBridges = repaired.bridges;
+    saveAll(list);
+    return tpl;
+  },
   remove(id: string) {
     const list = loadAll();
     const idx = list.findIndex(t => t.id === id);
@@ -46,6 +90,9 @@ export const UserTemplatesService = {
       saveAll(list);
       // best-effort delete file
       FileSystem.deleteAsync(tpl.pngUri).catch(() => {});
+      if (tpl.maskUri) TemplateMaskService.remove(tpl.pngUri);
+      UndoHistoryStore.remove(tpl.pngUri);
+      DrawingDocumentStore.remove(tpl.pngUri);
     }
   }
 };
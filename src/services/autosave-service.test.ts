@@ -0,0 +1,96 @@
+import {
+  AUTOSAVE_QUIET_MS,
+  autosaveDelay,
+  AutosaveService,
+} from './AutosaveService';
+import { DrawingLibraryService } from './DrawingLibraryService';
+import { DEFAULT_AUTOSAVE } from './SettingsService';
+import { UndoHistoryStore } from './UndoHistoryStore';
+
+jest.mock('./UndoHistoryStore', () => ({
+  UndoHistoryStore: { remove: jest.fn() },
+}));
+jest.mock('./DrawingLibraryService', () => ({
+  DrawingLibraryService: { get: jest.fn() },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 9, 19);
+const removeHistory = UndoHistoryStore.remove as jest.Mock;
+const libraryDrawing = DrawingLibraryService.get as jest.Mock;
+
+function session(key: string) {
+  return { key, templateUri: `file:///templates/${key}.png`, title: key };
+}
+
+// Opened and autosaved `daysAgo` days before NOW
+function autosaved(key: string, daysAgo: number) {
+  jest.setSystemTime(NOW - daysAgo * DAY_MS);
+  AutosaveService.open(session(key));
+  AutosaveService.saved(key);
+  jest.setSystemTime(NOW);
+}
+
+describe('autosaveDelay', () => {
+  it('waits for edits to pause when the last save is long past', () => {
+    expect(autosaveDelay(0, 10_000, 60_000)).toBe(AUTOSAVE_QUIET_MS);
+  });
+
+  it('waits out the rest of the interval since the last save', () => {
+    expect(autosaveDelay(50_000, 10_000, 52_000)).toBe(8000);
+  });
+});
+
+describe('AutosaveService', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.setSystemTime(NOW);
+    libraryDrawing.mockReset();
+    // Start each test from no sessions
+    let latest = AutosaveService.latest();
+    while (latest) {
+      AutosaveService.finish(latest.key);
+      latest = AutosaveService.latest();
+    }
+    removeHistory.mockClear();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('makes a session resumable from its first autosave', () => {
+    AutosaveService.open(session('a'));
+    expect(AutosaveService.latest()).toBeNull();
+    AutosaveService.saved('a');
+    expect(AutosaveService.latest()).toEqual({ ...session('a'), savedAt: NOW });
+  });
+
+  it('offers the drawing autosaved last', () => {
+    autosaved('older', 2);
+    autosaved('newer', 1);
+    expect(AutosaveService.latest()?.key).toBe('newer');
+  });
+
+  it('keeps the undo history of a drawing saved to My Drawings', () => {
+    autosaved('a', 0);
+    AutosaveService.finish('a');
+    expect(AutosaveService.latest()).toBeNull();
+    expect(removeHistory).not.toHaveBeenCalled();
+  });
+
+  it('expires sessions past retention with the histories of unsaved drawings', () => {
+    const retained = DEFAULT_AUTOSAVE.retentionDays;
+    autosaved('recent', retained - 1);
+    autosaved('unsaved', retained + 1);
+    autosaved('in-library', retained + 1);
+    libraryDrawing.mockImplementation((id: string) =>
+      id === 'in-library' ? { id } : undefined
+    );
+    AutosaveService.prune();
+    expect(removeHistory.mock.calls).toEqual([['unsaved']]);
+    expect(AutosaveService.latest()?.key).toBe('recent');
+    AutosaveService.finish('recent');
+    expect(AutosaveService.latest()).toBeNull();
+  });
+});
@@ -0,0 +1,25 @@
+/**
+ * AsciiJson - JSON text as bytes, one byte per character
+ *
+ * Anything past ASCII is escaped as \uXXXX (JSON only has it inside
+ * strings), so the bytes parse back to the same values. Saved undo history
+ * headers and project bundle files are written this way.
+ */
+
+export function jsonToAscii(json: string): Uint8Array {
+  const ascii = json.replace(
+    /[\u0080-\uFFFF]/g,
+    (c) => `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`
+  );
+  const out = new Uint8Array(ascii.length);
+  for (let i = 0; i < ascii.length; i++) out[i] = ascii.charCodeAt(i);
+  return out;
+}
+
+export function asciiToJson(bytes: Uint8Array): string {
+  let json = '';
+  for (let i = 0; i < bytes.length; i += 8192) {
+    json += String.fromCharCode(...bytes.subarray(i, i + 8192));
+  }
+  return json;
+}
@@ -1,5 +1,7 @@
 import * as FileSystem from 'expo-file-system';
 
+import { hexToArgb, rgbaToArgb } from './ColorUtils';
+
 /**
  * PNG Bitmap Coloring Engine
  * Based on the Android coloring-book implementation by niccokunzmann
@@ -17,6 +19,9 @@ export interface TouchPoint {
   y: number;
 }
 
+// Flat ARGB colour, or a per-pixel ARGB colour for pattern fills
+export type FillColor = number | ((x: number, y: number) => number);
+
 export class BitmapColoringEngine {
   public static readonly BORDER_COLOR = 0xff000000; // Black border
   public static readonly BACKGROUND_COLOR = 0xffffffff; // White background
@@ -64,8 +69,8 @@ export class BitmapColoringEngine {
             const b = imageData.data[pixelIndex + 2];
             const a = imageData.data[pixelIndex + 3];
 
-            // Convert to ARGB int
-            pixels[i] = (a << 24) | (r << 16) | (g << 8) | b;
+            // Convert to ARGB int (unsigned, so it compares with BORDER_COLOR)
+            pixels[i] = rgbaToArgb([r, g, b, a]);
           }
 
           resolve({
@@ -120,12 +125,13 @@ export class BitmapColoringEngine {
   /**
    * Perform flood fill at the given coordinates
    * Based on the Android FloodFill implementation
+   * A colour function paints a pattern clipped to the filled area.
    */
   static floodFill(
     bitmap: ColoringBitmap,
     x: number,
     y: number,
-    color: number
+    color: FillColor
   ): ColoringBitmap {
     // Create a copy of the bitmap
     const newBitmap: ColoringBitmap = {
@@ -181,7 +187,8 @@ export class BitmapColoringEngine {
       }
 
       // Fill this pixel
-      newBitmap.pixels[currentIndex] = color;
+      newBitmap.pixels[currentIndex] =
+        typeof color === 'number' ? color : color(point.x, point.y);
       visited.add(currentIndex);
 
       // Add neighboring pixels to queue
@@ -275,18 +282,14 @@ export class BitmapColoringEngine {
    * Convert RGB color to ARGB format
    */
   static rgbToArgb(r: number, g: number, b: number, a: number = 255): number {
-    return (a << 24) | (r << 16) | (g << 8) | b;
+    return rgbaToArgb([r, g, b, a]);
   }
 
   /**
    * Convert hex color to ARGB format
    */
   static hexToArgb(hex: string): number {
-    const cleanHex = hex.replace('#', '');
-    const r = parseInt(cleanHex.substr(0, 2), 16);
-    const g = parseInt(cleanHex.substr(2, 2), 16);
-    const b = parseInt(cleanHex.substr(4, 2), 16);
-    return this.rgbToArgb(r, g, b);
+    return hexToArgb(hex);
   }
 
   /**
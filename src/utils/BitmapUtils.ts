@@ -0,0 +1,180 @@
+import type { EngineStroke, RgbaBitmap } from './ColoringEngine';
+import { rgbaToArgb } from './ColorUtils';
+
+/**
+ * BitmapUtils - Shared helpers for RGBA bitmaps used by the coloring engines
+ */
+
+export function cloneBitmap(bmp: RgbaBitmap): RgbaBitmap {
+  return {
+    width: bmp.width,
+    height: bmp.height,
+    data: new Uint8Array(bmp.data),
+  };
+}
+
+export function createBlankBitmap(width: number, height: number): RgbaBitmap {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(255) };
+}
+
+// Fit an image of size (iw, ih) into a box (bw, bh) preserving aspect ratio
+export function fitIntoBox(
+  image: { width: number; height: number },
+  bw: number,
+  bh: number
+): { width: number; height: number } {
+  const { width: iw, height: ih } = image;
+  if (!bw || !bh) return { width: iw, height: ih };
+  const arImg = iw / ih;
+  const arBox = bw / bh;
+  if (arImg > arBox) {
+    return { width: bw, height: Math.round(bw / arImg) };
+  }
+  return { width: Math.round(bh * arImg), height: bh };
+}
+
+// Fast nearest-neighbor resampler for RGBA Uint8 data
+export function resampleNearest(
+  src: RgbaBitmap,
+  dw: number,
+  dh: number
+): RgbaBitmap {
+  const { width: sw, height: sh } = src;
+  if (sw === dw && sh === dh) return cloneBitmap(src);
+  const dst = new Uint8Array(dw * dh * 4);
+  const xRatio = sw / dw;
+  const yRatio = sh / dh;
+  for (let y = 0; y < dh; y++) {
+    const sy = Math.min(sh - 1, Math.floor(y * yRatio));
+    for (let x = 0; x < dw; x++) {
+      const sx = Math.min(sw - 1, Math.floor(x * xRatio));
+      const si = (sy * sw + sx) * 4;
+      const di = (y * dw + x) * 4;
+      dst[di] = src.data[si];
+      dst[di + 1] = src.data[si + 1];
+      dst[di + 2] = src.data[si + 2];
+      dst[di + 3] = src.data[si + 3];
+    }
+  }
+  return { width: dw, height: dh, data: dst };
+}
+
+/**
+ * Pack RGBA bytes into one unsigned ARGB integer per pixel
+ */
+export function rgbaToArgbPixels(data: Uint8Array): Uint32Array {
+  const pixels = new Uint32Array(data.length / 4);
+  for (let i = 0; i < pixels.length; i++) {
+    const pi = i * 4;
+    pixels[i] = rgbaToArgb([
+      data[pi],
+      data[pi + 1],
+      data[pi + 2],
+      data[pi + 3],
+    ]);
+  }
+  return pixels;
+}
+
+/**
+ * Unpack ARGB integers (typed array or number[]) into RGBA bytes
+ */
+export function argbPixelsToRgba(pixels: ArrayLike<number>): Uint8Array {
+  const data = new Uint8Array(pixels.length * 4);
+  for (let i = 0; i < pixels.length; i++) {
+    const argb = pixels[i];
+    const pi = i * 4;
+    data[pi] = (argb >> 16) & 0xff;
+    data[pi + 1] = (argb >> 8) & 0xff;
+    data[pi + 2] = argb & 0xff;
+    data[pi + 3] = (argb >>> 24) & 0xff;
+  }
+  return data;
+}
+
+/**
+ * Copy one pixel from src to dst (both RGBA, same size)
+ */
+export function copyPixel(
+  src: Uint8Array,
+  dst: Uint8Array,
+  index: number
+): void {
+  const pi = index * 4;
+  dst[pi] = src[pi];
+  dst[pi + 1] = src[pi + 1];
+  dst[pi + 2] = src[pi + 2];
+  dst[pi + 3] = src[pi + 3];
+}
+
+/**
+ * Visit every pixel index covered by a round brush dragged along the stroke
+ * polyline. Pixels where segments overlap may be visited more than once.
+ */
+export function forEachStrokePixel(
+  size: { width: number; height: number },
+  stroke: EngineStroke,
+  visit: (index: number) => void
+): void {
+  const { width, height } = size;
+  const sizeAt = (p: number) => stroke.sizes?.[p] ?? stroke.size;
+  const stampAt = (cx: number, cy: number, diameter: number) => {
+    const radius = Math.max(1, Math.floor(diameter / 2));
+    const r2 = radius * radius;
+    for (let dy = -radius; dy <= radius; dy++) {
+      const y = cy + dy;
+      if (y < 0 || y >= height) continue;
+      for (let dx = -radius; dx <= radius; dx++) {
+        const x = cx + dx;
+        if (x < 0 || x >= width || dx * dx + dy * dy > r2) continue;
+        visit(y * width + x);
+      }
+    }
+  };
+
+  const points = stroke.points;
+  if (points.length === 0) return;
+  stampAt(Math.round(points[0].x), Math.round(points[0].y), sizeAt(0));
+  for (let p = 1; p < points.length; p++) {
+    const prev = points[p - 1];
+    const dx = points[p].x - prev.x;
+    const dy = points[p].y - prev.y;
+    const dSize = sizeAt(p) - sizeAt(p - 1);
+    const steps = Math.max(Math.abs(dx), Math.abs(dy));
+    for (let i = 1; i <= steps; i++) {
+      stampAt(
+        Math.round(prev.x + (dx * i) / steps),
+        Math.round(prev.y + (dy * i) / steps),
+        sizeAt(p - 1) + (dSize * i) / steps
+      );
+    }
+  }
+}
+
+/**
+ * Index of the pixel under the point if `accept`ed, else of the nearest
+ * accepted pixel within `radius`; -1 when there is none
+ */
+export function nearestPixel(
+  size: { width: number; height: number },
+  point: { x: number; y: number },
+  search: { radius: number; accept: (index: number) => boolean }
+): number {
+  const { width, height } = size;
+  const sx = Math.floor(point.x);
+  const sy = Math.floor(point.y);
+  let best = -1;
+  let bestDistance = Infinity;
+  for (let dy = -search.radius; dy <= search.radius; dy++) {
+    for (let dx = -search.radius; dx <= search.radius; dx++) {
+      const x = sx + dx;
+      const y = sy + dy;
+      const distance = dx * dx + dy * dy;
+      if (x < 0 || y < 0 || x >= width || y >= height) continue;
+      if (distance >= bestDistance || !search.accept(y * width + x)) continue;
+      best = y * width + x;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
@@ -0,0 +1,75 @@
+import type { RgbaBitmap } from './ColoringEngine';
+
+/**
+ * BoundaryMask - Outline detection for PNG coloring templates
+ *
+ * Masks hold one byte per pixel: 1 = boundary/outline, 0 = fillable.
+ */
+
+// Simple 8-neighbour dilation to close tiny anti-aliased gaps
+export function dilateMask(
+  src: Uint8Array,
+  width: number,
+  height: number
+): Uint8Array {
+  const out = new Uint8Array(src);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (src[y * width + x] !== 1) continue;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          const nx = x + dx;
+          const ny = y + dy;
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+            out[ny * width + nx] = 1;
+          }
+        }
+      }
+    }
+  }
+  return out;
+}
+
+// Build a robust boundary/outline mask for a given bitmap.
+// Thresholds by luma/minRGB and alpha, then dilates twice.
+export function computeBoundaryMask(bmp: RgbaBitmap): Uint8Array {
+  const { width, height, data } = bmp;
+  const mask = new Uint8Array(width * height);
+
+  for (let i = 0; i < mask.length; i++) {
+    const pi = i * 4;
+    const r = data[pi];
+    const g = data[pi + 1];
+    const b = data[pi + 2];
+    const a = data[pi + 3];
+    const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    const minRGB = Math.min(r, g, b);
+    if (a >= 180 && (minRGB <= 80 || luma <= 120)) {
+      mask[i] = 1;
+    }
+  }
+
+  return dilateMask(dilateMask(mask, width, height), width, height);
+}
+
+// Stronger boundary detector: no dilation and stricter darkness thresholds.
+// Use this to keep paint off true outline pixels.
+export function computeStrongBoundaryMask(bmp: RgbaBitmap): Uint8Array {
+  const { width, height, data } = bmp;
+  const mask = new Uint8Array(width * height);
+
+  for (let i = 0; i < mask.length; i++) {
+    const pi = i * 4;
+    const r = data[pi];
+    const g = data[pi + 1];
+    const b = data[pi + 2];
+    const a = data[pi + 3];
+    const luma = Math.round(0.2126 * r + 0.7152 * g + 0.0722 * b);
+    const minRGB = Math.min(r, g, b);
+    // Stricter: darker and more opaque
+    if (a >= 200 && (minRGB <= 60 || luma <= 100)) {
+      mask[i] = 1;
+    }
+  }
+  return mask;
+}
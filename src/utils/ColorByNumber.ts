@@ -0,0 +1,230 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import { regionColors } from './ColorReplace';
+import { hslToHex, rgbToHex } from './ColorUtils';
+import type { RegionMap } from './RegionLabeling';
+
+/**
+ * ColorByNumber - Colour-by-number pages built from a template's regions
+ *
+ * Every region big enough to hold a number gets a palette entry. Entries
+ * come from a reference colouring (each region's most common colour there,
+ * similar colours merged) or from a generated harmonious palette assigned so
+ * that neighbouring regions differ. Numbers sit at each region's pole of
+ * inaccessibility: the inside point furthest from its edges.
+ */
+
+export interface NumberedRegion {
+  id: number; // Region id
+  number: number; // 1-based palette entry
+  label: { x: number; y: number }; // Where the number is drawn
+  radius: number; // Distance from the label to the region's edge
+}
+
+export interface ColorByNumberPage {
+  palette: string[]; // "#RRGGBB"; number n is palette[n - 1]
+  regions: NumberedRegion[];
+  // Palette number per region id - 1; 0 = free (too small or left white)
+  numbers: number[];
+}
+
+export type FillCheck = 'correct' | 'wrong' | 'free';
+
+// Smaller regions stay free: a number would not fit
+const MIN_LABEL_RADIUS = 2.5;
+export const DEFAULT_PALETTE_SIZE = 8;
+// Reference colours closer than this (per channel) share an entry
+const MERGE_TOLERANCE = 32;
+// Reference colours this light count as unpainted
+const WHITE_THRESHOLD = 240;
+// Fill and target colours may differ this much (per channel)
+const MATCH_TOLERANCE = 8;
+
+const channels = (rgb: number) => [
+  (rgb >> 16) & 0xff,
+  (rgb >> 8) & 0xff,
+  rgb & 0xff,
+];
+
+const hexToRgb = (hex: string) => parseInt(hex.replace('#', ''), 16);
+
+function close(a: number, b: number, tolerance: number): boolean {
+  const ca = channels(a);
+  const cb = channels(b);
+  return ca.every((v, i) => Math.abs(v - cb[i]) <= tolerance);
+}
+
+/**
+ * Inside point of a region furthest from its edges, with that distance
+ * (chamfer distance transform over the region's bounds)
+ */
+export function regionPole(
+  map: RegionMap,
+  id: number
+): { x: number; y: number; radius: number } {
+  const { minX, minY, maxX, maxY } = map.regions[id - 1].bounds;
+  // One pixel of padding so the bounds' edges count as outside
+  const w = maxX - minX + 3;
+  const h = maxY - minY + 3;
+  const dist = new Float32Array(w * h);
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const inside =
+        map.labels[(minY + y - 1) * map.width + minX + x - 1] === id;
+      dist[y * w + x] = inside ? Infinity : 0;
+    }
+  }
+  const relax = (i: number, j: number, cost: number) => {
+    if (dist[j] + cost < dist[i]) dist[i] = dist[j] + cost;
+  };
+  for (let y = 1; y < h - 1; y++) {
+    for (let x = 1; x < w - 1; x++) {
+      const i = y * w + x;
+      relax(i, i - 1, 1);
+      relax(i, i - w, 1);
+      relax(i, i - w - 1, Math.SQRT2);
+      relax(i, i - w + 1, Math.SQRT2);
+    }
+  }
+  let best = { x: minX, y: minY, radius: 0 };
+  for (let y = h - 2; y >= 1; y--) {
+    for (let x = w - 2; x >= 1; x--) {
+      const i = y * w + x;
+      relax(i, i + 1, 1);
+      relax(i, i + w, 1);
+      relax(i, i + w + 1, Math.SQRT2);
+      relax(i, i + w - 1, Math.SQRT2);
+      if (dist[i] > best.radius) {
+        best = { x: minX + x - 1, y: minY + y - 1, radius: dist[i] };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Harmonious palette: a split-complementary hue scheme around `baseHue`,
+ * alternating lightness so neighbouring entries stay distinguishable
+ */
+export function harmoniousPalette(
+  size: number = DEFAULT_PALETTE_SIZE,
+  baseHue: number = 200
+): string[] {
+  const offsets = [0, 150, 210];
+  return Array.from({ length: size }, (_, i) => {
+    const hue = (baseHue + offsets[i % 3] + 25 * Math.floor(i / 3)) % 360;
+    const lightness = i % 2 === 0 ? 0.55 : 0.72;
+    return hslToHex(hue, 0.65, lightness);
+  });
+}
+
+// Greedy colouring, biggest regions first: the least used entry that no
+// already-coloured neighbour has (the least used overall if all are taken)
+function assignAuto(map: RegionMap, ids: number[], size: number): number[] {
+  const numbers = new Array<number>(map.regions.length).fill(0);
+  const used = new Array<number>(size).fill(0);
+  const order = ids
+    .slice()
+    .sort((a, b) => map.regions[b - 1].area - map.regions[a - 1].area);
+  for (const id of order) {
+    const taken = new Set(
+      map.regions[id - 1].neighbors.map((n) => numbers[n - 1])
+    );
+    taken.delete(0);
+    const allTaken = taken.size >= size;
+    let pick = -1;
+    for (let k = 0; k < size; k++) {
+      if (taken.has(k + 1) && !allTaken) continue;
+      if (pick < 0 || used[k] < used[pick]) pick = k;
+    }
+    numbers[id - 1] = pick + 1;
+    used[pick]++;
+  }
+  return numbers;
+}
+
+// Each region's colour in the reference, similar colours merged into one
+// entry (biggest regions first, so they set the entry's colour)
+function assignReference(
+  map: RegionMap,
+  ids: number[],
+  reference: RgbaBitmap
+): { numbers: number[]; palette: string[] } {
+  const data = reference.data;
+  const colors = regionColors(
+    map,
+    (i) => (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]
+  );
+  const numbers = new Array<number>(map.regions.length).fill(0);
+  const entries: number[] = [];
+  const order = ids
+    .slice()
+    .sort((a, b) => map.regions[b - 1].area - map.regions[a - 1].area);
+  for (const id of order) {
+    const color = colors[id - 1];
+    if (channels(color).every((v) => v >= WHITE_THRESHOLD)) continue;
+    let entry = entries.findIndex((e) => close(e, color, MERGE_TOLERANCE));
+    if (entry < 0) entry = entries.push(color) - 1;
+    numbers[id - 1] = entry + 1;
+  }
+  const palette = entries.map((rgb) =>
+    rgbToHex(channels(rgb) as [number, number, number])
+  );
+  return { numbers, palette };
+}
+
+/**
+ * Number every region that can hold a label. With a reference colouring
+ * (same size as the regions) the palette comes from it; otherwise a
+ * generated palette of `paletteSize` entries is used.
+ */
+export function buildColorByNumber(
+  map: RegionMap,
+  options: { reference?: RgbaBitmap; paletteSize?: number } = {}
+): ColorByNumberPage {
+  const poles = map.regions.map((r) => regionPole(map, r.id));
+  const ids = map.regions
+    .filter((r) => poles[r.id - 1].radius >= MIN_LABEL_RADIUS)
+    .map((r) => r.id);
+  const size = options.paletteSize ?? DEFAULT_PALETTE_SIZE;
+  const { numbers, palette } = options.reference
+    ? assignReference(map, ids, options.reference)
+    : { numbers: assignAuto(map, ids, size), palette: harmoniousPalette(size) };
+  const regions = ids
+    .filter((id) => numbers[id - 1] > 0)
+    .map((id) => {
+      const { x, y, radius } = poles[id - 1];
+      return { id, number: numbers[id - 1], label: { x, y }, radius };
+    });
+  return { palette, regions, numbers };
+}
+
+/** Whether filling region `id` with `color` is right for the page */
+export function checkFill(
+  page: ColorByNumberPage,
+  id: number,
+  color: string
+): FillCheck {
+  const number = page.numbers[id - 1] ?? 0;
+  if (number === 0) return 'free';
+  const target = hexToRgb(page.palette[number - 1]);
+  return close(hexToRgb(color), target, MATCH_TOLERANCE) ? 'correct' : 'wrong';
+}
+
+/** Ids of the numbered regions already painted their target colour */
+export function completedRegions(
+  page: ColorByNumberPage,
+  map: RegionMap,
+  bitmap: RgbaBitmap
+): Set<number> {
+  const data = bitmap.data;
+  const colors = regionColors(
+    map,
+    (i) => (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]
+  );
+  const done = new Set<number>();
+  for (const { id, number } of page.regions) {
+    const target = hexToRgb(page.palette[number - 1]);
+    if (close(colors[id - 1], target, MATCH_TOLERANCE)) done.add(id);
+  }
+  return done;
+}
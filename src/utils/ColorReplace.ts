@@ -0,0 +1,67 @@
+import type { RegionMap } from './RegionLabeling';
+
+/**
+ * ColorReplace - Region-level colour bookkeeping for "replace colour" fills
+ *
+ * A region's colour is the one most of its pixels have, so brush marks and
+ * specks inside it do not change what colour it counts as. A replace fill
+ * recolours every region whose colour is close to the tapped region's.
+ * Colours are packed RGB (0xRRGGBB); alpha plays no part.
+ */
+
+// Per channel; wide enough for JPEG noise and anti-aliasing in imports
+export const DEFAULT_REPLACE_TOLERANCE = 24;
+
+/** Most common colour of each region, indexed by region id - 1 */
+export function regionColors(
+  map: RegionMap,
+  rgbAt: (index: number) => number
+): number[] {
+  const counts = map.regions.map(() => new Map<number, number>());
+  const { labels } = map;
+  for (let i = 0; i < labels.length; i++) {
+    const id = labels[i];
+    if (id === 0) continue;
+    const color = rgbAt(i);
+    const seen = counts[id - 1];
+    seen.set(color, (seen.get(color) ?? 0) + 1);
+  }
+  return counts.map((seen) => {
+    let best = 0;
+    let bestCount = 0;
+    for (const [color, count] of seen) {
+      if (count > bestCount) {
+        best = color;
+        bestCount = count;
+      }
+    }
+    return best;
+  });
+}
+
+function channelDistance(a: number, b: number): number {
+  return Math.max(
+    Math.abs(((a >> 16) & 0xff) - ((b >> 16) & 0xff)),
+    Math.abs(((a >> 8) & 0xff) - ((b >> 8) & 0xff)),
+    Math.abs((a & 0xff) - (b & 0xff))
+  );
+}
+
+/**
+ * Ids of the regions a replace fill tapped in region `id` recolours: those
+ * within `tolerance` of its colour, minus any that already have `fill`
+ */
+export function regionsToReplace(
+  colors: number[],
+  id: number,
+  paint: { fill: number; tolerance?: number }
+): number[] {
+  const target = colors[id - 1];
+  const tolerance = paint.tolerance ?? DEFAULT_REPLACE_TOLERANCE;
+  const ids: number[] = [];
+  colors.forEach((color, i) => {
+    if (color === paint.fill) return;
+    if (channelDistance(color, target) <= tolerance) ids.push(i + 1);
+  });
+  return ids;
+}
@@ -0,0 +1,77 @@
+/**
+ * ColorUtils - Shared colour conversions for the bitmap coloring engines
+ *
+ * Engines store pixels either as RGBA bytes (Uint8Array, 4 per pixel) or as
+ * packed ARGB integers (Uint32Array / number[], Android style). ARGB values
+ * returned here are always unsigned so they compare equal to values read back
+ * from a Uint32Array.
+ */
+
+export type Rgba = [number, number, number, number];
+
+/**
+ * Parse "#RRGGBB" (or "RRGGBB") into RGBA components with full opacity
+ */
+export function hexToRgba(hex: string): Rgba {
+  const cleanHex = hex.replace('#', '');
+  const r = parseInt(cleanHex.substring(0, 2), 16);
+  const g = parseInt(cleanHex.substring(2, 4), 16);
+  const b = parseInt(cleanHex.substring(4, 6), 16);
+  return [r, g, b, 255];
+}
+
+/**
+ * Pack RGBA components into an unsigned ARGB integer
+ */
+export function rgbaToArgb([r, g, b, a]: Rgba): number {
+  return ((a << 24) | (r << 16) | (g << 8) | b) >>> 0;
+}
+
+/**
+ * Unpack an ARGB integer into RGBA components
+ */
+export function argbToRgba(argb: number): Rgba {
+  return [
+    (argb >> 16) & 0xff,
+    (argb >> 8) & 0xff,
+    argb & 0xff,
+    (argb >>> 24) & 0xff,
+  ];
+}
+
+/**
+ * Convert hex color to unsigned ARGB
+ */
+export function hexToArgb(hex: string): number {
+  return rgbaToArgb(hexToRgba(hex));
+}
+
+/**
+ * Format RGB components as uppercase "#RRGGBB"
+ */
+export function rgbToHex([r, g, b]: Rgba | [number, number, number]): string {
+  return (
+    '#' +
+    ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase()
+  );
+}
+
+/**
+ * Convert ARGB integer to hex color (alpha is dropped)
+ */
+export function argbToHex(argb: number): string {
+  return rgbToHex(argbToRgba(argb));
+}
+
+/**
+ * Convert HSL (hue in degrees, saturation and lightness 0..1) to "#RRGGBB"
+ */
+export function hslToHex(h: number, s: number, l: number): string {
+  const a = s * Math.min(l, 1 - l);
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const v = l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1));
+    return Math.round(v * 255);
+  };
+  return rgbToHex([channel(0), channel(8), channel(4)]);
+}
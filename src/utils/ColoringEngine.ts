@@ -0,0 +1,121 @@
+/**
+ * ColoringEngine - Common contract for every fill/paint backend
+ *
+ * Canvases talk to this interface only. Each backend (PixelFloodFill,
+ * ZebraFloodFill, ZebraPaintEngine, ...) is wrapped by an adapter in
+ * `utils/engines` and registered by id, so a canvas can swap backends
+ * without touching UI code.
+ *
+ * All coordinates are bitmap pixels of the loaded template, and all colours
+ * are "#RRGGBB" strings. Conversions to each backend's own pixel format stay
+ * inside the adapters.
+ */
+
+import type { FillPreview } from './FillLeakGuard';
+import type { GradientSpec } from './GradientFill';
+import type { BrushKind } from './NaturalBrush';
+import type { LayerEdit, LayerStackInfo } from './PaintLayers';
+import type { PatternSpec } from './PatternFill';
+import type { RegionMap } from './RegionLabeling';
+
+export interface RgbaBitmap {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA pixel data, 4 bytes per pixel
+}
+
+export interface EnginePoint {
+  x: number;
+  y: number;
+}
+
+export interface EngineStroke {
+  points: EnginePoint[]; // Polyline in bitmap coordinates
+  size: number; // Brush diameter in bitmap pixels
+  sizes?: number[]; // Diameter at each point (pressure, speed); overrides size
+}
+
+export interface EngineBrushStroke extends EngineStroke {
+  color: string;
+  // Stay inside the lines: only paint the region under this point (the
+  // stroke's first touch). Engines without region labels paint unclipped.
+  lockTo?: EnginePoint;
+  // Natural-media brush (see NaturalBrush); a solid round stamp when absent
+  brush?: BrushKind;
+}
+
+/**
+ * Opaque engine state. `data` is in the engine's own layout and is only
+ * meaningful to the engine that produced it; use exportBitmap() for pixels.
+ */
+export interface EngineSnapshot {
+  engineId: string;
+  width: number;
+  height: number;
+  data: Uint8Array;
+  // Layered engines: the stack the data encodes, and the layer the edit
+  // before this snapshot changed
+  layers?: LayerStackInfo;
+  layer?: string;
+}
+
+export interface ColoringEngine {
+  readonly id: string;
+  /**
+   * Reset the engine to a fresh, unpainted copy of the template.
+   * `outlineRepair` (1 = boundary, same size as the template) adds boundary
+   * pixels fills must not cross, e.g. outline gaps bridged at import.
+   */
+  loadTemplate(template: RgbaBitmap, outlineRepair?: Uint8Array): void;
+  /** Bucket fill the region under the point; false when nothing changed */
+  fillAt(point: EnginePoint, color: string): boolean;
+  /** Fill the region under the point with a gradient clipped to it */
+  gradientFillAt?(point: EnginePoint, gradient: GradientSpec): boolean;
+  /** Fill the region under the point with a tiled pattern clipped to it */
+  patternFillAt?(point: EnginePoint, pattern: PatternSpec): boolean;
+  /**
+   * Recolour every region whose paint colour is within `tolerance` of the
+   * region under the point (see ColorReplace); false when nothing changed
+   */
+  replaceColorAt?(
+    point: EnginePoint,
+    color: string,
+    tolerance?: number
+  ): boolean;
+  /** Paint a brush stroke; false when nothing changed */
+  brushStroke(stroke: EngineBrushStroke): boolean;
+  /** Restore template pixels under the stroke; false when nothing changed */
+  erase(stroke: EngineStroke): boolean;
+  snapshot(): EngineSnapshot;
+  restore(snapshot: EngineSnapshot): void;
+  /** Flattened page (paint + outlines) as RGBA */
+  exportBitmap(): RgbaBitmap;
+  /**
+   * Regions labeled at template load, for engines that fill by label.
+   * Lets the UI count regions, track completion and hit-test tiny regions.
+   */
+  getRegionMap?(): RegionMap;
+  /**
+   * Template line pixels (1 = line, one byte per pixel), so exports can keep
+   * the outlines apart from the paint. Callers must not modify it.
+   */
+  getOutlineMask?(): Uint8Array;
+  /** What fillAt would cover at the point, without painting; null if nothing */
+  previewFill?(point: EnginePoint): FillPreview | null;
+  /** Bridge wider outline gaps (leak auto-seal); false when none were found */
+  sealOutlineGaps?(): boolean;
+  /** Layer stack, for engines that paint in layers (see PaintLayers) */
+  getLayers?(): LayerStackInfo;
+  /**
+   * Add, remove, update, reorder, merge or select layers; false when
+   * nothing changed. Fills go to the fill layer, brushes to the active one.
+   */
+  editLayers?(edit: LayerEdit): boolean;
+  /**
+   * Paint colour at the point for the eyedropper, "#RRGGBB". Outlines are
+   * skipped: on a line it is the nearest paint beside it. Null off the page.
+   */
+  sampleColor?(point: EnginePoint): string | null;
+}
+
+export type ColoringEngineFactory = () => ColoringEngine;
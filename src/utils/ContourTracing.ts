@@ -0,0 +1,261 @@
+import type { EnginePoint } from './ColoringEngine';
+
+/**
+ * ContourTracing - Vector outlines of pixel masks
+ *
+ * Marching squares over the grid of pixel centres: each cell's four pixels
+ * give one of 16 cases, and the contour crosses the cell's edges at their
+ * midpoints. Straight runs land exactly on pixel edges; corners are cut at
+ * 45 degrees. Diagonal-only touches count as separate shapes (4-connected).
+ * Loops are then simplified with Ramer-Douglas-Peucker so staircases turn
+ * into straight lines.
+ */
+
+// Max distance, in pixels, a simplified loop may stray from the traced one
+export const DEFAULT_SIMPLIFY_TOLERANCE = 0.75;
+// Straight edges at least this long (pixels) meeting at a cut corner make a
+// square corner, which simplifying keeps
+const CORNER_RUN = 2;
+
+type Edge = 'T' | 'R' | 'B' | 'L';
+
+// Segments per case; bits are TL = 8, TR = 4, BR = 2, BL = 1. Saddles (5,
+// 10) cut off each inside corner on its own.
+const CASES: [Edge, Edge][][] = [
+  [],
+  [['L', 'B']],
+  [['B', 'R']],
+  [['L', 'R']],
+  [['T', 'R']],
+  [
+    ['T', 'R'],
+    ['L', 'B'],
+  ],
+  [['T', 'B']],
+  [['L', 'T']],
+  [['L', 'T']],
+  [['T', 'B']],
+  [
+    ['L', 'T'],
+    ['B', 'R'],
+  ],
+  [['T', 'R']],
+  [['L', 'R']],
+  [['B', 'R']],
+  [['L', 'B']],
+  [],
+];
+
+// Edge midpoints of cell (cx, cy) in doubled coordinates; the cell spans
+// the pixel centres (cx - 0.5, cy - 0.5) to (cx + 0.5, cy + 0.5)
+const MIDPOINTS: Record<Edge, [number, number]> = {
+  T: [0, -1],
+  R: [1, 0],
+  B: [0, 1],
+  L: [-1, 0],
+};
+
+function maskBounds(
+  mask: Uint8Array,
+  size: { width: number; height: number }
+): { minX: number; minY: number; maxX: number; maxY: number } | null {
+  const { width, height } = size;
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (mask[y * width + x] !== 1) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { minX, minY, maxX, maxY };
+}
+
+/**
+ * Closed loops around the mask's shapes (1 = inside), in bitmap pixels.
+ * Holes come out as loops of their own, so fill with the even-odd rule.
+ */
+export function traceContours(
+  mask: Uint8Array,
+  size: { width: number; height: number }
+): EnginePoint[][] {
+  const { width, height } = size;
+  const bounds = maskBounds(mask, size);
+  if (!bounds) return [];
+  const inside = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height && mask[y * width + x] === 1;
+
+  // Vertices keyed by doubled coordinates (shifted so they stay positive);
+  // every vertex joins exactly two segments
+  const stride = 2 * width + 4;
+  const key = (x2: number, y2: number) => (y2 + 1) * stride + x2 + 1;
+  const first = new Map<number, number>();
+  const second = new Map<number, number>();
+  const link = (a: number, b: number) => {
+    if (first.has(a)) second.set(a, b);
+    else first.set(a, b);
+  };
+
+  for (let cy = bounds.minY; cy <= bounds.maxY + 1; cy++) {
+    for (let cx = bounds.minX; cx <= bounds.maxX + 1; cx++) {
+      const index =
+        (inside(cx - 1, cy - 1) ? 8 : 0) |
+        (inside(cx, cy - 1) ? 4 : 0) |
+        (inside(cx, cy) ? 2 : 0) |
+        (inside(cx - 1, cy) ? 1 : 0);
+      for (const [from, to] of CASES[index]) {
+        const a = key(2 * cx + MIDPOINTS[from][0], 2 * cy + MIDPOINTS[from][1]);
+        const b = key(2 * cx + MIDPOINTS[to][0], 2 * cy + MIDPOINTS[to][1]);
+        link(a, b);
+        link(b, a);
+      }
+    }
+  }
+
+  const loops: EnginePoint[][] = [];
+  const visited = new Set<number>();
+  for (const start of first.keys()) {
+    if (visited.has(start)) continue;
+    const loop: EnginePoint[] = [];
+    let prev = -1;
+    let current = start;
+    do {
+      visited.add(current);
+      loop.push({
+        x: ((current % stride) - 1) / 2,
+        y: (Math.floor(current / stride) - 1) / 2,
+      });
+      const next = first.get(current)!;
+      const step = next !== prev ? next : second.get(current)!;
+      prev = current;
+      current = step;
+    } while (current !== start);
+    loops.push(loop);
+  }
+  return loops;
+}
+
+function distanceToLine(
+  p: EnginePoint,
+  [a, b]: [EnginePoint, EnginePoint]
+): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return Math.hypot(p.x - a.x, p.y - a.y);
+  return Math.abs(dy * p.x - dx * p.y + b.x * a.y - b.y * a.x) / length;
+}
+
+// Indices of an open chain's points that Ramer-Douglas-Peucker keeps
+function keptIndices(points: EnginePoint[], tolerance: number): Set<number> {
+  const keep = new Set([0, points.length - 1]);
+  const stack: [number, number][] = [[0, points.length - 1]];
+  while (stack.length > 0) {
+    const [start, end] = stack.pop()!;
+    let farthest = -1;
+    let distance = tolerance;
+    for (let i = start + 1; i < end; i++) {
+      const d = distanceToLine(points[i], [points[start], points[end]]);
+      if (d > distance) {
+        farthest = i;
+        distance = d;
+      }
+    }
+    if (farthest < 0) continue;
+    keep.add(farthest);
+    stack.push([start, farthest], [farthest, end]);
+  }
+  return keep;
+}
+
+interface Run {
+  start: number; // Index of the run's first point
+  dx: number;
+  dy: number;
+  count: number; // Segments; axis-aligned ones are one pixel long
+}
+
+// Loop points at square corners: both ends of a single 45-degree cut
+// between two long axis-aligned edges
+function cornerIndices(loop: EnginePoint[]): number[] {
+  const n = loop.length;
+  const steps = loop.map((a, i) => {
+    const b = loop[(i + 1) % n];
+    return { dx: b.x - a.x, dy: b.y - a.y };
+  });
+  const same = (i: number, j: number) =>
+    steps[i].dx === steps[j].dx && steps[i].dy === steps[j].dy;
+  // Start at a change of direction so no run wraps around
+  const offset = steps.findIndex((_, i) => !same(i, (i + n - 1) % n));
+  if (offset < 0) return [];
+  const runs: Run[] = [];
+  for (let k = 0; k < n; k++) {
+    const i = (offset + k) % n;
+    const last = runs[runs.length - 1];
+    if (last && same(i, last.start)) last.count++;
+    else runs.push({ start: i, ...steps[i], count: 1 });
+  }
+  const longEdge = (run: Run) =>
+    (run.dx === 0) !== (run.dy === 0) && run.count >= CORNER_RUN;
+  const corners: number[] = [];
+  runs.forEach((run, r) => {
+    const cut = run.count === 1 && run.dx !== 0 && run.dy !== 0;
+    const before = runs[(r + runs.length - 1) % runs.length];
+    const after = runs[(r + 1) % runs.length];
+    if (cut && longEdge(before) && longEdge(after)) {
+      corners.push(run.start, (run.start + 1) % n);
+    }
+  });
+  return corners;
+}
+
+/**
+ * Simplify a closed loop. Square corners are kept; the stretches between
+ * them (or the two halves split at the point farthest from the first, when
+ * there are none) are simplified on their own. Null when too little is left
+ * to enclose anything.
+ */
+export function simplifyLoop(
+  loop: EnginePoint[],
+  tolerance: number = DEFAULT_SIMPLIFY_TOLERANCE
+): EnginePoint[] | null {
+  const n = loop.length;
+  if (n < 3) return null;
+  let splits = [...new Set(cornerIndices(loop))].sort((a, b) => a - b);
+  if (splits.length < 2) {
+    let farthest = 0;
+    let best = -1;
+    loop.forEach((p, i) => {
+      const d = Math.hypot(p.x - loop[0].x, p.y - loop[0].y);
+      if (d > best) {
+        best = d;
+        farthest = i;
+      }
+    });
+    splits = [0, farthest];
+  }
+  const keep = new Set<number>();
+  splits.forEach((from, s) => {
+    const to = splits[(s + 1) % splits.length];
+    const length = (to - from + n) % n || n;
+    const chain = Array.from(
+      { length: length + 1 },
+      (_, j) => loop[(from + j) % n]
+    );
+    for (const j of keptIndices(chain, tolerance)) keep.add((from + j) % n);
+  });
+  const simplified = [...keep].sort((a, b) => a - b).map((i) => loop[i]);
+  return simplified.length >= 3 ? simplified : null;
+}
+
+/** SVG path data for closed loops ("M x y L ... Z" per loop) */
+export function loopsToPathData(loops: EnginePoint[][]): string {
+  return loops
+    .map((loop) => `M${loop.map((p) => `${p.x} ${p.y}`).join(' L')} Z`)
+    .join(' ');
+}
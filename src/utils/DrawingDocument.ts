@@ -0,0 +1,267 @@
+import type { EnginePoint, EngineSnapshot, RgbaBitmap } from './ColoringEngine';
+import { createColoringEngine } from './engines';
+import { DEFAULT_PATTERN_SCALE } from './PatternFill';
+import { base64ToUint8Array, uint8ArrayToBase64 } from './PngCodec';
+import type { SymmetrySpec } from './Symmetry';
+import type { PaintFill } from './worker/PaintWorkerProtocol';
+import {
+  type Timelapse,
+  type TimelapseEvent,
+  TimelapseReplayer,
+} from './worker/Timelapse';
+
+/**
+ * DrawingDocument - A drawing as a versioned `.coloring` JSON file
+ *
+ * Instead of the flattened picture, a document keeps what made it: the
+ * template it was coloured on, the canvas size and engine it was coloured
+ * with, and every operation in order (the session's timelapse events: fill
+ * seeds with their colour, gradient, pattern or replace tolerance, strokes
+ * with their points and widths, layer edits and undo steps). Replaying the
+ * operations on the same engine and template reproduces the page byte for
+ * byte; scaling them first re-renders it at another resolution. Files are
+ * written one operation per line, so two versions of a drawing diff cleanly.
+ */
+
+export const DRAWING_DOCUMENT_FORMAT = 'coloring';
+export const DRAWING_DOCUMENT_VERSION = 1;
+export const DRAWING_DOCUMENT_EXTENSION = '.coloring';
+
+export interface DrawingDocument {
+  format: typeof DRAWING_DOCUMENT_FORMAT;
+  version: number;
+  template: { uri: string; title?: string };
+  // Template pixels the operations' coordinates are in
+  canvas: { width: number; height: number };
+  engine: {
+    id: string; // Registered engine id (see utils/engines)
+    outlineRepair: boolean; // Loaded with the template's gap-bridged mask
+  };
+  // Engine state the operations start from when it was not the fresh
+  // template (a resumed drawing); ties the document to its canvas size
+  base?: EngineSnapshot;
+  operations: TimelapseEvent[];
+}
+
+// Binary fields (snapshot data, image pattern tiles) are stored as base64
+const BYTES_KEY = '$base64';
+
+function encodeBytes(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array
+    ? { [BYTES_KEY]: uint8ArrayToBase64(value) }
+    : value;
+}
+
+function decodeBytes(_key: string, value: unknown): unknown {
+  if (value && typeof value === 'object' && BYTES_KEY in value) {
+    const base64 = (value as Record<string, unknown>)[BYTES_KEY];
+    if (typeof base64 === 'string') return base64ToUint8Array(base64);
+  }
+  return value;
+}
+
+export function createDrawingDocument({
+  template,
+  canvas,
+  engine,
+  timelapse,
+}: Pick<DrawingDocument, 'template' | 'canvas' | 'engine'> & {
+  timelapse: Timelapse;
+}): DrawingDocument {
+  return {
+    format: DRAWING_DOCUMENT_FORMAT,
+    version: DRAWING_DOCUMENT_VERSION,
+    template,
+    canvas,
+    engine,
+    ...(timelapse.base && { base: timelapse.base }),
+    operations: timelapse.events,
+  };
+}
+
+/** Pretty-printed JSON with one operation per line */
+export function serializeDrawingDocument(document: DrawingDocument): string {
+  const { operations, ...head } = document;
+  const header = JSON.stringify(head, encodeBytes, 2);
+  const lines = operations.map(
+    (operation) => `    ${JSON.stringify(operation, encodeBytes)}`
+  );
+  const list = lines.length ? `[\n${lines.join(',\n')}\n  ]` : '[]';
+  // Reopen the header object to append the operations last
+  return `${header.slice(0, -2)},\n  "operations": ${list}\n}\n`;
+}
+
+/**
+ * Read a `.coloring` file. Throws on anything that is not a drawing
+ * document, or one written by a newer version of the app.
+ */
+export function parseDrawingDocument(text: string): DrawingDocument {
+  let parsed: Partial<DrawingDocument>;
+  try {
+    parsed = JSON.parse(text, decodeBytes);
+  } catch {
+    throw new Error('Not a drawing document: invalid JSON');
+  }
+  if (parsed?.format !== DRAWING_DOCUMENT_FORMAT) {
+    throw new Error('Not a drawing document');
+  }
+  if (typeof parsed.version !== 'number') {
+    throw new Error('Drawing document has no version');
+  }
+  if (parsed.version > DRAWING_DOCUMENT_VERSION) {
+    throw new Error(
+      `Drawing document version ${parsed.version} is newer than this app supports`
+    );
+  }
+  const { template, canvas, engine, operations } = parsed;
+  if (
+    typeof template?.uri !== 'string' ||
+    !(canvas && canvas.width > 0 && canvas.height > 0) ||
+    typeof engine?.id !== 'string' ||
+    !Array.isArray(operations)
+  ) {
+    throw new Error('Drawing document is incomplete');
+  }
+  return parsed as DrawingDocument;
+}
+
+export function documentTimelapse(document: DrawingDocument): Timelapse {
+  return { base: document.base, events: document.operations };
+}
+
+interface Scale {
+  point: (point: EnginePoint) => EnginePoint;
+  length: (length: number) => number;
+}
+
+const roundPoint = ({ x, y }: EnginePoint): EnginePoint => ({
+  x: Math.round(x),
+  y: Math.round(y),
+});
+
+function scaleSymmetry(
+  symmetry: SymmetrySpec | undefined,
+  scale: Scale
+): { symmetry?: SymmetrySpec } {
+  return symmetry
+    ? { symmetry: { ...symmetry, center: scale.point(symmetry.center) } }
+    : {};
+}
+
+// Image pattern tiles keep their pixel size
+function scaleFill(fill: PaintFill, scale: Scale): PaintFill {
+  switch (fill.kind) {
+    case 'gradient':
+      return {
+        ...fill,
+        gradient: {
+          ...fill.gradient,
+          start: scale.point(fill.gradient.start),
+          end: scale.point(fill.gradient.end),
+        },
+      };
+    case 'pattern':
+      return {
+        ...fill,
+        pattern: {
+          ...fill.pattern,
+          scale: scale.length(fill.pattern.scale ?? DEFAULT_PATTERN_SCALE),
+        },
+      };
+    default:
+      return fill;
+  }
+}
+
+function scaleOperation(
+  operation: TimelapseEvent,
+  scale: Scale
+): TimelapseEvent {
+  switch (operation.op) {
+    case 'fill':
+      return {
+        ...operation,
+        point: roundPoint(scale.point(operation.point)),
+        fill: scaleFill(operation.fill, scale),
+        ...scaleSymmetry(operation.symmetry, scale),
+      };
+    case 'stroke': {
+      const { stroke } = operation;
+      return {
+        ...operation,
+        stroke: {
+          ...stroke,
+          points: stroke.points.map(scale.point),
+          size: scale.length(stroke.size),
+          ...(stroke.sizes && { sizes: stroke.sizes.map(scale.length) }),
+          ...(stroke.lockTo && {
+            lockTo: roundPoint(scale.point(stroke.lockTo)),
+          }),
+        },
+        ...scaleSymmetry(operation.symmetry, scale),
+      };
+    }
+    default:
+      return operation;
+  }
+}
+
+/**
+ * The same drawing for a template resampled to `size`: points map pixel
+ * centre to pixel centre, widths scale with the page. A document that starts
+ * from a saved engine state cannot be rescaled.
+ */
+export function scaleDrawingDocument(
+  document: DrawingDocument,
+  size: { width: number; height: number }
+): DrawingDocument {
+  const { canvas } = document;
+  if (size.width === canvas.width && size.height === canvas.height) {
+    return document;
+  }
+  if (document.base) {
+    throw new Error('A resumed drawing replays only at its own size');
+  }
+  const sx = size.width / canvas.width;
+  const sy = size.height / canvas.height;
+  const scale: Scale = {
+    point: ({ x, y }) => ({ x: (x + 0.5) * sx - 0.5, y: (y + 0.5) * sy - 0.5 }),
+    length: (length) => length * Math.sqrt(sx * sy),
+  };
+  return {
+    ...document,
+    canvas: { width: size.width, height: size.height },
+    operations: document.operations.map((operation) =>
+      scaleOperation(operation, scale)
+    ),
+  };
+}
+
+/**
+ * Replay a document headlessly on a fresh engine of its kind. `template` is
+ * the document's template at canvas size (see scaleDrawingDocument for other
+ * sizes), `outlineRepair` its gap-bridged mask when the document used one.
+ */
+export function replayDrawingDocument(
+  document: DrawingDocument,
+  {
+    template,
+    outlineRepair,
+  }: { template: RgbaBitmap; outlineRepair?: Uint8Array }
+): RgbaBitmap {
+  const { canvas } = document;
+  if (template.width !== canvas.width || template.height !== canvas.height) {
+    throw new Error(
+      `Template is ${template.width}x${template.height}, document is ${canvas.width}x${canvas.height}`
+    );
+  }
+  const engine = createColoringEngine(document.engine.id);
+  engine.loadTemplate(template, outlineRepair);
+  const replayer = new TimelapseReplayer(
+    engine,
+    documentTimelapse(document),
+    canvas
+  );
+  replayer.advance(document.operations.length);
+  return replayer.bitmap();
+}
@@ -0,0 +1,174 @@
+import type { PaintFill } from './worker/PaintWorkerProtocol';
+import type { TimelapseEvent } from './worker/Timelapse';
+
+/**
+ * DrawingLibrary - What the saved drawings list knows about each drawing
+ *
+ * The pictures themselves are files (see DrawingLibraryService); this is
+ * the index entry beside them: what it was coloured on, when, for how long
+ * and with which colours, which is enough to sort, search and show the list
+ * without opening a single picture.
+ */
+
+export interface LibraryDrawing {
+  id: string;
+  name: string;
+  // The template the drawing was coloured on, when it came from the canvas
+  template?: { uri: string; title?: string };
+  createdAt: number; // ms since epoch
+  modifiedAt: number;
+  timeSpentMs: number; // Active colouring time, idle stretches left out
+  colors: string[]; // "#RRGGBB", in order of first use
+  pictureUri?: string; // Full-size PNG
+  thumbnailUri?: string; // Small PNG for the list
+  documentUri?: string; // The .coloring document, to carry on editing
+  legacyUri?: string; // Data kept from the old AsyncStorage saves
+}
+
+export type DrawingSort = 'modified' | 'created' | 'name' | 'time';
+
+// Longer gaps between operations count as this much colouring, at most
+export const IDLE_GAP_MS = 60_000;
+
+const HEX_COLOR = /^#[\da-f]{6}$/i;
+
+function fillColors(fill: PaintFill): string[] {
+  switch (fill.kind) {
+    case 'solid':
+    case 'replace':
+      return [fill.color];
+    case 'gradient':
+      return fill.gradient.stops.map((stop) => stop.color);
+    case 'pattern':
+      return fill.pattern.kind === 'image'
+        ? []
+        : [fill.pattern.color, fill.pattern.background ?? '#FFFFFF'];
+  }
+}
+
+function uniqueColors(colors: Iterable<unknown>): string[] {
+  const seen = new Set<string>();
+  for (const color of colors) {
+    if (typeof color === 'string' && HEX_COLOR.test(color)) {
+      seen.add(color.toUpperCase());
+    }
+  }
+  return [...seen];
+}
+
+/** Colours a drawing's operations put on the page, first use first */
+export function colorsUsed(operations: TimelapseEvent[]): string[] {
+  return uniqueColors(
+    operations.flatMap((operation) => {
+      if (operation.op === 'fill') return fillColors(operation.fill);
+      if (operation.op === 'stroke' && operation.color) {
+        return [operation.color];
+      }
+      return [];
+    })
+  );
+}
+
+/** Time spent colouring: the gaps between operations, each capped at IDLE_GAP_MS */
+export function activeTimeMs(operations: { t: number }[]): number {
+  let total = 0;
+  for (let i = 1; i < operations.length; i++) {
+    const gap = operations[i].t - operations[i - 1].t;
+    if (gap > 0) total += Math.min(gap, IDLE_GAP_MS);
+  }
+  return total;
+}
+
+const BY_SORT: Record<
+  DrawingSort,
+  (a: LibraryDrawing, b: LibraryDrawing) => number
+> = {
+  modified: (a, b) => b.modifiedAt - a.modifiedAt,
+  created: (a, b) => b.createdAt - a.createdAt,
+  name: (a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }),
+  time: (a, b) => b.timeSpentMs - a.timeSpentMs,
+};
+
+/** Newest first for dates, A to Z for names, longest first for time */
+export function sortDrawings(
+  drawings: LibraryDrawing[],
+  sort: DrawingSort
+): LibraryDrawing[] {
+  return [...drawings].sort(
+    (a, b) => BY_SORT[sort](a, b) || b.modifiedAt - a.modifiedAt
+  );
+}
+
+/**
+ * Drawings whose name or template title contains every word of the query,
+ * or that used a colour given as "#RRGGBB" (the "#" is optional)
+ */
+export function searchDrawings(
+  drawings: LibraryDrawing[],
+  query: string
+): LibraryDrawing[] {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return drawings;
+  return drawings.filter((drawing) => {
+    const text =
+      `${drawing.name} ${drawing.template?.title ?? ''}`.toLowerCase();
+    const colors = drawing.colors.map((color) => color.toLowerCase());
+    return words.every(
+      (word) =>
+        text.includes(word) ||
+        colors.includes(word.startsWith('#') ? word : `#${word}`)
+    );
+  });
+}
+
+/** "Name (copy)", or "Name (copy 2)" and up when that is taken */
+export function copyName(name: string, taken: string[]): string {
+  const base = name.replace(/ \(copy(?: \d+)?\)$/, '');
+  let candidate = `${base} (copy)`;
+  for (let n = 2; taken.includes(candidate); n++) {
+    candidate = `${base} (copy ${n})`;
+  }
+  return candidate;
+}
+
+/**
+ * Index entry for a drawing saved by the old canvases to AsyncStorage:
+ * `listed` is its `saved_drawings_list` item (an object, or a bare id) and
+ * `data` its `saved_drawing_<id>` value, strokes and fill regions included.
+ */
+export function legacyDrawing(
+  id: string,
+  { listed, data }: { listed?: unknown; data?: unknown }
+): Omit<LibraryDrawing, 'pictureUri' | 'thumbnailUri' | 'legacyUri'> {
+  const item = (listed && typeof listed === 'object' ? listed : {}) as {
+    name?: unknown;
+    createdAt?: unknown;
+  };
+  const saved = (data && typeof data === 'object' ? data : {}) as {
+    name?: unknown;
+    createdAt?: unknown;
+    strokes?: unknown;
+    fillRegions?: unknown;
+  };
+  const name = [saved.name, item.name].find(
+    (value): value is string => typeof value === 'string' && value.length > 0
+  );
+  const createdAt =
+    [saved.createdAt, item.createdAt]
+      .map((value) => (typeof value === 'string' ? Date.parse(value) : NaN))
+      .find((time) => !Number.isNaN(time)) ??
+    Number(/\d{10,}/.exec(id)?.[0] ?? 0);
+  const marks = [saved.strokes, saved.fillRegions].flatMap((list) =>
+    Array.isArray(list) ? list : []
+  ) as { type?: unknown; color?: unknown }[];
+  return {
+    id,
+    name: name ?? 'Untitled drawing',
+    createdAt,
+    modifiedAt: createdAt,
+    timeSpentMs: 0,
+    colors: uniqueColors(
+      marks.filter((mark) => mark?.type !== 'eraser').map((mark) => mark?.color)
+    ),
+  };
+}
@@ -0,0 +1,66 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import { hexToRgba } from './ColorUtils';
+import { type RegionMap, regionPixels } from './RegionLabeling';
+
+/**
+ * FillLeakGuard - Spot bucket fills that probably leaked through the outline
+ *
+ * A fill that covers most of the page, or reaches all four edges, almost
+ * always means the tapped shape is not closed. Canvases ask for a preview
+ * first and let the user confirm, cancel or auto-seal before anything is
+ * painted.
+ */
+
+export interface FillPreview {
+  regionId: number;
+  area: number; // Pixels the fill would cover
+  areaRatio: number; // area / canvas pixels
+  touchesAllEdges: boolean;
+  leaking: boolean; // Looks like a leak; ask before filling
+}
+
+// Fills above this share of the canvas are treated as leaks
+export const LEAK_AREA_RATIO = 0.6;
+// Auto-seal bridges wider gaps than import-time gap closing does
+export const AUTO_SEAL_MAX_GAP = 24;
+
+const HIGHLIGHT_ALPHA = 140;
+
+export function previewRegionFill(map: RegionMap, id: number): FillPreview {
+  const region = map.regions[id - 1];
+  const { minX, minY, maxX, maxY } = region.bounds;
+  const touchesAllEdges =
+    minX === 0 &&
+    minY === 0 &&
+    maxX === map.width - 1 &&
+    maxY === map.height - 1;
+  const areaRatio = region.area / (map.width * map.height);
+  return {
+    regionId: id,
+    area: region.area,
+    areaRatio,
+    touchesAllEdges,
+    leaking: areaRatio > LEAK_AREA_RATIO || touchesAllEdges,
+  };
+}
+
+/**
+ * Transparent bitmap with the previewed region tinted in the fill colour,
+ * to lay over the canvas while the user decides
+ */
+export function regionHighlight(
+  map: RegionMap,
+  id: number,
+  color: string
+): RgbaBitmap {
+  const [r, g, b] = hexToRgba(color);
+  const data = new Uint8Array(map.width * map.height * 4);
+  for (const index of regionPixels(map, id)) {
+    const pi = index * 4;
+    data[pi] = r;
+    data[pi + 1] = g;
+    data[pi + 2] = b;
+    data[pi + 3] = HIGHLIGHT_ALPHA;
+  }
+  return { width: map.width, height: map.height, data };
+}
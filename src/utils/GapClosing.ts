@@ -0,0 +1,240 @@
+import { computeStrongBoundaryMask } from './BoundaryMask';
+import type { EnginePoint, RgbaBitmap } from './ColoringEngine';
+
+/**
+ * GapClosing - Bridges small breaks in a template's outline
+ *
+ * AI generated and hand-drawn line art often has tiny gaps that let one
+ * bucket tap flood the whole page. This thins the boundary mask to one pixel
+ * wide lines, finds line endpoints and connects each endpoint to the nearest
+ * line ahead of it within `maxGap` pixels. Runs once when a template is
+ * imported; the repaired mask is stored next to the template.
+ */
+
+export interface GapBridge {
+  from: EnginePoint; // Line endpoint
+  to: EnginePoint; // Closest line pixel it was joined to
+}
+
+export interface GapClosingOptions {
+  maxGap?: number; // Longest gap (in pixels) that gets bridged
+}
+
+export interface GapClosingResult {
+  mask: Uint8Array; // Boundary mask with bridges drawn in (1 = boundary)
+  bridges: GapBridge[];
+}
+
+export const DEFAULT_MAX_GAP = 12;
+
+// 8-neighbour offsets, clockwise from north (order matters for thinning)
+const RING = [
+  [0, -1],
+  [1, -1],
+  [1, 0],
+  [1, 1],
+  [0, 1],
+  [-1, 1],
+  [-1, 0],
+  [-1, -1],
+] as const;
+
+// How far back along the line we look to get its direction
+const DIRECTION_STEPS = 5;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+/**
+ * Repair the outline of a template bitmap (strong boundary mask + bridges)
+ */
+export function repairTemplateOutline(
+  template: RgbaBitmap,
+  options: GapClosingOptions = {}
+): GapClosingResult {
+  return closeOutlineGaps(
+    computeStrongBoundaryMask(template),
+    template,
+    options
+  );
+}
+
+/**
+ * Bridge gaps in a boundary mask. The input mask is not modified.
+ */
+export function closeOutlineGaps(
+  mask: Uint8Array,
+  size: Size,
+  options: GapClosingOptions = {}
+): GapClosingResult {
+  const maxGap = options.maxGap ?? DEFAULT_MAX_GAP;
+  const skeleton = thin(mask, size);
+  const out = new Uint8Array(mask);
+  const bridges: GapBridge[] = [];
+  const joined = new Set<string>();
+
+  for (const end of findEndpoints(skeleton, size)) {
+    const target = findBridgeTarget(skeleton, size, { end, maxGap });
+    if (target < 0) continue;
+    // Two endpoints facing each other would otherwise be bridged twice
+    const key = end < target ? `${end}:${target}` : `${target}:${end}`;
+    if (joined.has(key)) continue;
+    joined.add(key);
+
+    const bridge = { from: toPoint(end, size), to: toPoint(target, size) };
+    drawBridge(out, size, bridge);
+    bridges.push(bridge);
+  }
+  return { mask: out, bridges };
+}
+
+function toPoint(index: number, size: Size): EnginePoint {
+  return { x: index % size.width, y: Math.floor(index / size.width) };
+}
+
+function neighbors(index: number, size: Size): number[] {
+  const { width, height } = size;
+  const x = index % width;
+  const y = Math.floor(index / width);
+  const out: number[] = [];
+  for (const [dx, dy] of RING) {
+    const nx = x + dx;
+    const ny = y + dy;
+    if (nx >= 0 && ny >= 0 && nx < width && ny < height) {
+      out.push(ny * width + nx);
+    }
+  }
+  return out;
+}
+
+// Zhang-Suen thinning: peel boundary pixels until every line is 1px wide
+function thin(mask: Uint8Array, size: Size): Uint8Array {
+  const { width, height } = size;
+  const img = new Uint8Array(mask);
+  const at = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height ? img[y * width + x] : 0;
+
+  const step = (second: boolean): boolean => {
+    const remove: number[] = [];
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        if (img[y * width + x] !== 1) continue;
+        const p = RING.map(([dx, dy]) => at(x + dx, y + dy));
+        const count = p.reduce<number>((sum, v) => sum + v, 0);
+        if (count < 2 || count > 6) continue;
+        let transitions = 0;
+        for (let k = 0; k < 8; k++) {
+          if (p[k] === 0 && p[(k + 1) % 8] === 1) transitions++;
+        }
+        if (transitions !== 1) continue;
+        // p[0] = N, p[2] = E, p[4] = S, p[6] = W
+        const a = second ? p[0] * p[2] * p[6] : p[0] * p[2] * p[4];
+        const b = second ? p[0] * p[4] * p[6] : p[2] * p[4] * p[6];
+        if (a === 0 && b === 0) remove.push(y * width + x);
+      }
+    }
+    for (const i of remove) img[i] = 0;
+    return remove.length > 0;
+  };
+
+  let changed = true;
+  while (changed) {
+    const first = step(false);
+    const second = step(true);
+    changed = first || second;
+  }
+  return img;
+}
+
+// Skeleton pixels with exactly one skeleton neighbour
+function findEndpoints(skeleton: Uint8Array, size: Size): number[] {
+  const ends: number[] = [];
+  for (let i = 0; i < skeleton.length; i++) {
+    if (skeleton[i] !== 1) continue;
+    const count = neighbors(i, size).filter((n) => skeleton[n] === 1).length;
+    if (count === 1) ends.push(i);
+  }
+  return ends;
+}
+
+// Walk the skeleton from an endpoint; returns index -> steps from the end
+function walkLine(
+  skeleton: Uint8Array,
+  size: Size,
+  limits: { start: number; steps: number }
+): Map<number, number> {
+  const depth = new Map<number, number>([[limits.start, 0]]);
+  let frontier = [limits.start];
+  for (let d = 1; d <= limits.steps && frontier.length > 0; d++) {
+    const next: number[] = [];
+    for (const i of frontier) {
+      for (const n of neighbors(i, size)) {
+        if (skeleton[n] !== 1 || depth.has(n)) continue;
+        depth.set(n, d);
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+  return depth;
+}
+
+// Nearest skeleton pixel ahead of the endpoint that is not part of its own
+// line segment, or -1 when the gap is wider than maxGap
+function findBridgeTarget(
+  skeleton: Uint8Array,
+  size: Size,
+  search: { end: number; maxGap: number }
+): number {
+  const { end, maxGap } = search;
+  const own = walkLine(skeleton, size, { start: end, steps: maxGap * 2 });
+  // Specks of a few pixels are noise, not a broken line
+  if (own.size < DIRECTION_STEPS) return -1;
+
+  let back = end;
+  for (const [i, d] of own) {
+    if (d === DIRECTION_STEPS) back = i;
+  }
+  const e = toPoint(end, size);
+  const b = toPoint(back, size);
+  const dirX = e.x - b.x;
+  const dirY = e.y - b.y;
+
+  let best = -1;
+  let bestDist = maxGap * maxGap + 1;
+  for (let dy = -maxGap; dy <= maxGap; dy++) {
+    for (let dx = -maxGap; dx <= maxGap; dx++) {
+      const x = e.x + dx;
+      const y = e.y + dy;
+      if (x < 0 || y < 0 || x >= size.width || y >= size.height) continue;
+      const i = y * size.width + x;
+      const dist = dx * dx + dy * dy;
+      if (skeleton[i] !== 1 || own.has(i) || dist >= bestDist) continue;
+      // Only bridge forwards, in the direction the line was heading
+      if (dx * dirX + dy * dirY <= 0) continue;
+      best = i;
+      bestDist = dist;
+    }
+  }
+  return best;
+}
+
+// Draw a 2px wide line so 4-connected fills cannot slip through diagonals
+function drawBridge(mask: Uint8Array, size: Size, bridge: GapBridge): void {
+  const { from, to } = bridge;
+  const steps = Math.max(Math.abs(to.x - from.x), Math.abs(to.y - from.y));
+  for (let s = 0; s <= steps; s++) {
+    const t = steps === 0 ? 0 : s / steps;
+    const x = Math.round(from.x + (to.x - from.x) * t);
+    const y = Math.round(from.y + (to.y - from.y) * t);
+    for (const [px, py] of [
+      [x, y],
+      [x + 1, y],
+      [x, y + 1],
+    ]) {
+      if (px < size.width && py < size.height) mask[py * size.width + px] = 1;
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import type { RgbaBitmap } from './ColoringEngine';
+
+/**
+ * GifEncoder - Animated GIF from RGBA frames, for sharing timelapses
+ *
+ * Each frame is cropped to what changed since the previous one and gets its
+ * own palette: the frame's colours exactly when there are at most 256 (flat
+ * colouring usually has far fewer), else the 256 most common with every other
+ * colour mapped to the nearest of them. Alpha is ignored; frames are opaque.
+ */
+
+const MAX_COLORS = 256;
+const MIN_CODE_SIZE = 8;
+const MAX_CODE = 4096;
+const MAX_SUB_BLOCK = 255;
+
+interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Little-endian byte sink
+class ByteWriter {
+  private bytes = new Uint8Array(1024);
+  length = 0;
+
+  byte(value: number): void {
+    if (this.length === this.bytes.length) {
+      const grown = new Uint8Array(this.bytes.length * 2);
+      grown.set(this.bytes);
+      this.bytes = grown;
+    }
+    this.bytes[this.length++] = value & 0xff;
+  }
+
+  word(value: number): void {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  all(values: ArrayLike<number>): void {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  ascii(text: string): void {
+    for (let i = 0; i < text.length; i++) this.byte(text.charCodeAt(i));
+  }
+
+  result(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+function rgbAt(data: Uint8Array, pi: number): number {
+  return (data[pi] << 16) | (data[pi + 1] << 8) | data[pi + 2];
+}
+
+// Smallest rectangle holding every pixel that differs from the previous frame
+function changedRect(frame: RgbaBitmap, previous: RgbaBitmap | null): Rect {
+  const { width, height, data } = frame;
+  if (!previous) return { x: 0, y: 0, width, height };
+  let minX = width;
+  let minY = height;
+  let maxX = -1;
+  let maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const pi = (y * width + x) * 4;
+      if (rgbAt(data, pi) === rgbAt(previous.data, pi)) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = y;
+    }
+  }
+  // Unchanged: one pixel, redrawn as it was
+  if (maxX < 0) return { x: 0, y: 0, width: 1, height: 1 };
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+}
+
+// Palette indices of the rect's pixels, and the palette (256 RGB entries)
+function indexFrame(
+  frame: RgbaBitmap,
+  rect: Rect
+): { indices: Uint8Array; palette: Uint8Array } {
+  const counts = new Map<number, number>();
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const rgb = rgbAt(frame.data, (y * frame.width + x) * 4);
+      counts.set(rgb, (counts.get(rgb) ?? 0) + 1);
+    }
+  }
+  const colors = [...counts.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_COLORS)
+    .map(([rgb]) => rgb);
+  const palette = new Uint8Array(MAX_COLORS * 3);
+  const lookup = new Map<number, number>();
+  colors.forEach((rgb, i) => {
+    palette[i * 3] = rgb >> 16;
+    palette[i * 3 + 1] = (rgb >> 8) & 0xff;
+    palette[i * 3 + 2] = rgb & 0xff;
+    lookup.set(rgb, i);
+  });
+  const nearest = (rgb: number): number => {
+    let best = 0;
+    let bestDistance = Infinity;
+    colors.forEach((candidate, i) => {
+      const dr = (candidate >> 16) - (rgb >> 16);
+      const dg = ((candidate >> 8) & 0xff) - ((rgb >> 8) & 0xff);
+      const db = (candidate & 0xff) - (rgb & 0xff);
+      const distance = dr * dr + dg * dg + db * db;
+      if (distance < bestDistance) {
+        bestDistance = distance;
+        best = i;
+      }
+    });
+    lookup.set(rgb, best);
+    return best;
+  };
+  const indices = new Uint8Array(rect.width * rect.height);
+  let i = 0;
+  for (let y = rect.y; y < rect.y + rect.height; y++) {
+    for (let x = rect.x; x < rect.x + rect.width; x++) {
+      const rgb = rgbAt(frame.data, (y * frame.width + x) * 4);
+      indices[i++] = lookup.get(rgb) ?? nearest(rgb);
+    }
+  }
+  return { indices, palette };
+}
+
+/**
+ * Variable-width LZW as GIF uses it: codes packed least significant bit
+ * first, starting MIN_CODE_SIZE + 1 bits wide, cleared when the table fills
+ */
+export function lzwEncode(indices: Uint8Array): Uint8Array {
+  const out = new ByteWriter();
+  const clearCode = 1 << MIN_CODE_SIZE;
+  const endCode = clearCode + 1;
+  let codeSize = MIN_CODE_SIZE + 1;
+  let nextCode = endCode + 1;
+  let table = new Map<number, number>();
+  let bits = 0;
+  let bitCount = 0;
+  const emit = (code: number) => {
+    bits |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      out.byte(bits);
+      bits >>>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  emit(clearCode);
+  if (indices.length === 0) {
+    emit(endCode);
+    if (bitCount > 0) out.byte(bits);
+    return out.result();
+  }
+  let prefix = indices[0];
+  for (let i = 1; i < indices.length; i++) {
+    const k = indices[i];
+    const key = (prefix << 8) | k;
+    const code = table.get(key);
+    if (code !== undefined) {
+      prefix = code;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode === MAX_CODE) {
+      emit(clearCode);
+      table = new Map();
+      codeSize = MIN_CODE_SIZE + 1;
+      nextCode = endCode + 1;
+    } else {
+      // Widen before the first code that no longer fits
+      if (nextCode >= 1 << codeSize) codeSize++;
+      table.set(key, nextCode++);
+    }
+    prefix = k;
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) out.byte(bits);
+  return out.result();
+}
+
+function writeFrame(
+  out: ByteWriter,
+  frame: { bitmap: RgbaBitmap; rect: Rect; delay: number }
+): void {
+  const { bitmap, rect, delay } = frame;
+  const { indices, palette } = indexFrame(bitmap, rect);
+  // Graphic control: keep the previous frame under this one; delay in 1/100 s
+  out.all([0x21, 0xf9, 0x04, 0x04]);
+  out.word(Math.max(2, Math.round(delay / 10)));
+  out.all([0x00, 0x00]);
+  // Image descriptor with a 256-entry local colour table
+  out.byte(0x2c);
+  out.word(rect.x);
+  out.word(rect.y);
+  out.word(rect.width);
+  out.word(rect.height);
+  out.byte(0x87);
+  out.all(palette);
+  out.byte(MIN_CODE_SIZE);
+  const data = lzwEncode(indices);
+  for (let i = 0; i < data.length; i += MAX_SUB_BLOCK) {
+    const block = data.subarray(i, i + MAX_SUB_BLOCK);
+    out.byte(block.length);
+    out.all(block);
+  }
+  out.byte(0x00);
+}
+
+/**
+ * Looping animated GIF. `delays` are milliseconds per frame; all frames
+ * must be the first frame's size.
+ */
+export function encodeGif(frames: RgbaBitmap[], delays: number[]): Uint8Array {
+  if (frames.length === 0) throw new Error('encodeGif: no frames');
+  const { width, height } = frames[0];
+  const out = new ByteWriter();
+  out.ascii('GIF89a');
+  out.word(width);
+  out.word(height);
+  // No global colour table, background 0, square pixels
+  out.all([0x00, 0x00, 0x00]);
+  // Loop forever
+  out.all([0x21, 0xff, 0x0b]);
+  out.ascii('NETSCAPE2.0');
+  out.all([0x03, 0x01, 0x00, 0x00, 0x00]);
+  frames.forEach((bitmap, i) => {
+    const rect = changedRect(bitmap, i > 0 ? frames[i - 1] : null);
+    writeFrame(out, { bitmap, rect, delay: delays[i] ?? 100 });
+  });
+  out.byte(0x3b);
+  return out.result();
+}
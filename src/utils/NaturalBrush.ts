@@ -0,0 +1,196 @@
+import type { EngineStroke } from './ColoringEngine';
+import type { Rgba } from './ColorUtils';
+
+/**
+ * NaturalBrush - Textured brushes built from overlapping dabs
+ *
+ * A stroke is a row of round dabs spaced along the polyline. Each dab has a
+ * soft or hard edge, a little random offset, paper grain and (watercolour)
+ * a darker wet rim; low-flow dabs build up where they overlap. Engines visit
+ * the dabs' pixels and blend with mixPigment, so the texture is baked into
+ * the page like any other paint. Randomness is seeded from the stroke, so
+ * replaying a stroke paints the same pixels.
+ */
+
+export type BrushKind =
+  | 'round'
+  | 'crayon'
+  | 'marker'
+  | 'watercolor'
+  | 'airbrush';
+
+export interface BrushPreset {
+  spacing: number; // Distance between dabs, as a fraction of the diameter
+  flow: number; // Opacity each dab adds, 0..1
+  hardness: number; // Fraction of the radius at full strength (1 = hard edge)
+  jitter: number; // Random dab offset, as a fraction of the radius
+  grain: number; // Paper tooth the pigment skips, 0..1
+  wetEdge: number; // Extra pigment pooling at the dab rim, 0..1
+  glaze: boolean; // Mixes with the paint below (multiply) instead of covering it
+}
+
+export const BRUSH_PRESETS: Record<Exclude<BrushKind, 'round'>, BrushPreset> = {
+  crayon: {
+    spacing: 0.15,
+    flow: 0.9,
+    hardness: 0.85,
+    jitter: 0.08,
+    grain: 0.45,
+    wetEdge: 0,
+    glaze: false,
+  },
+  marker: {
+    spacing: 0.1,
+    flow: 0.7,
+    hardness: 0.8,
+    jitter: 0,
+    grain: 0,
+    wetEdge: 0,
+    glaze: true,
+  },
+  watercolor: {
+    spacing: 0.2,
+    flow: 0.12,
+    hardness: 0.3,
+    jitter: 0.15,
+    grain: 0.1,
+    wetEdge: 0.6,
+    glaze: true,
+  },
+  airbrush: {
+    spacing: 0.1,
+    flow: 0.05,
+    hardness: 0,
+    jitter: 0.1,
+    grain: 0,
+    wetEdge: 0,
+    glaze: false,
+  },
+};
+
+export type NaturalStroke = EngineStroke & {
+  brush: Exclude<BrushKind, 'round'>;
+};
+
+/** Brushes that are not a plain solid stamp */
+export function isNaturalBrush(
+  brush: BrushKind | undefined
+): brush is Exclude<BrushKind, 'round'> {
+  return brush !== undefined && brush !== 'round';
+}
+
+// Small, fast PRNG (mulberry32): same seed, same dabs
+function random(seed: number): () => number {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function hash(x: number, y: number): number {
+  let h = Math.imul(x, 374761393) + Math.imul(y, 668265263);
+  h = Math.imul(h ^ (h >>> 13), 1274126177);
+  return ((h ^ (h >>> 16)) >>> 0) / 4294967296;
+}
+
+// Paper height at a pixel, 0 (pit) .. 1 (peak): fine speckle over coarser
+// bumps. Fixed per position, so strokes over strokes keep the same tooth.
+function paperTooth(x: number, y: number): number {
+  return 0.6 * hash(x >> 2, y >> 2) + 0.4 * hash(x, y);
+}
+
+// Strength of a dab at distance t (0 = centre, 1 = rim) from its centre
+function dabProfile(preset: BrushPreset, t: number): number {
+  const { hardness, wetEdge } = preset;
+  const edge =
+    t <= hardness ? 1 : Math.max(0, 1 - (t - hardness) / (1 - hardness));
+  return edge * (1 - wetEdge + wetEdge * t * t);
+}
+
+function grainFactor(preset: BrushPreset, x: number, y: number): number {
+  if (preset.grain === 0) return 1;
+  // Pigment catches the peaks; pits under the grain line stay bare
+  const k = (paperTooth(x, y) - preset.grain) / (1 - preset.grain);
+  return Math.min(1, Math.max(0, k * 3));
+}
+
+/**
+ * Visit every pixel the brush's dabs touch, with the dab's coverage there
+ * (0..1, flow included). Pixels under several dabs are visited once per dab.
+ */
+export function forEachBrushDab(
+  size: { width: number; height: number },
+  stroke: NaturalStroke,
+  visit: (index: number, coverage: number) => void
+): void {
+  const preset = BRUSH_PRESETS[stroke.brush];
+  const { points } = stroke;
+  if (points.length === 0) return;
+  const sizeAt = (p: number) => stroke.sizes?.[p] ?? stroke.size;
+  const next = random(hash(Math.round(points[0].x), Math.round(points[0].y)));
+
+  const dab = (cx: number, cy: number, diameter: number) => {
+    const radius = Math.max(1, diameter / 2);
+    const jx = cx + (next() * 2 - 1) * preset.jitter * radius;
+    const jy = cy + (next() * 2 - 1) * preset.jitter * radius;
+    const r = Math.ceil(radius);
+    for (let y = Math.round(jy) - r; y <= Math.round(jy) + r; y++) {
+      if (y < 0 || y >= size.height) continue;
+      for (let x = Math.round(jx) - r; x <= Math.round(jx) + r; x++) {
+        if (x < 0 || x >= size.width) continue;
+        const t = Math.hypot(x - jx, y - jy) / radius;
+        if (t > 1) continue;
+        const coverage =
+          preset.flow * dabProfile(preset, t) * grainFactor(preset, x, y);
+        if (coverage > 0) visit(y * size.width + x, coverage);
+      }
+    }
+  };
+
+  // A lone point is one dab. Polylines start one spacing in: strokes arrive
+  // in batches that repeat the previous batch's last point, and dabbing it
+  // again would leave a blot at every join of a low-flow brush.
+  if (points.length === 1) dab(points[0].x, points[0].y, sizeAt(0));
+  // Distance walked since the last dab, carried across segments
+  let walked = 0;
+  for (let p = 1; p < points.length; p++) {
+    const a = points[p - 1];
+    const b = points[p];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    for (let d = 0; d < length; ) {
+      const t = d / length;
+      const diameter = sizeAt(p - 1) + (sizeAt(p) - sizeAt(p - 1)) * t;
+      const gap = Math.max(1, preset.spacing * diameter) - walked;
+      if (d + gap > length) {
+        walked += length - d;
+        break;
+      }
+      d += gap;
+      walked = 0;
+      const k = d / length;
+      dab(a.x + (b.x - a.x) * k, a.y + (b.y - a.y) * k, diameter);
+    }
+  }
+}
+
+/**
+ * Colour a dab of `ink` at `coverage` leaves on the colour `under`. Glazing
+ * brushes multiply into what is there (overlaps darken, like real markers
+ * and watercolour); the others cover it.
+ */
+export function mixPigment(
+  under: Rgba,
+  ink: Rgba,
+  dab: { coverage: number; glaze: boolean }
+): Rgba {
+  const { coverage, glaze } = dab;
+  const mixed = [0, 1, 2].map((c) => {
+    const target = glaze ? (under[c] * ink[c]) / 255 : ink[c];
+    return Math.round(under[c] + (target - under[c]) * coverage);
+  });
+  return [mixed[0], mixed[1], mixed[2], 255];
+}
@@ -0,0 +1,335 @@
+import type { RgbaBitmap } from './ColoringEngine';
+
+/**
+ * PaintLayers - The layer stack of layered engines
+ *
+ * Paint layers are whole pages the template's size, started as copies of the
+ * template, so fill and brush code paints them exactly as it paints a single
+ * page. A layer pixel counts as painted when it differs from the template or
+ * a brush marked it (white paint still covers what is below). The outline
+ * layer is locked and always on top: the template's printed lines, with the
+ * strong outline pixels drawn again over all paint.
+ */
+
+export type LayerKind = 'outline' | 'fill' | 'brush';
+
+export interface LayerInfo {
+  id: string;
+  kind: LayerKind;
+  name: string;
+  opacity: number; // 0..1
+  visible: boolean;
+  locked: boolean; // Cannot be painted, moved, merged or removed
+}
+
+export interface LayerStackInfo {
+  layers: LayerInfo[]; // Bottom to top; the outline layer is always last
+  active: string; // Layer brush strokes and the eraser paint on
+}
+
+export type LayerEdit =
+  // New brush layer above the active one; it becomes active
+  | { kind: 'add' }
+  | { kind: 'remove'; id: string }
+  | {
+      kind: 'update';
+      id: string;
+      opacity?: number;
+      visible?: boolean;
+      name?: string;
+    }
+  // `to` is the new index among the paint layers (bottom = 0)
+  | { kind: 'move'; id: string; to: number }
+  // Into the paint layer below it
+  | { kind: 'merge'; id: string }
+  | { kind: 'select'; id: string };
+
+export interface PaintLayer extends LayerInfo {
+  page: RgbaBitmap;
+  marks: Uint8Array; // 1 = brushed; painted even where it matches the template
+}
+
+export const OUTLINE_LAYER_ID = 'outline';
+const FILL_LAYER_ID = 'fill';
+
+type Rgb = [number, number, number];
+
+// Mix the RGB at `pi` in `data` into `out`
+function blend(
+  out: Rgb,
+  [data, pi]: [Uint8Array, number],
+  amount: number
+): void {
+  for (let c = 0; c < 3; c++) out[c] += (data[pi + c] - out[c]) * amount;
+}
+
+function copyPage(page: RgbaBitmap): RgbaBitmap {
+  return { width: page.width, height: page.height, data: page.data.slice() };
+}
+
+export class PaintLayerStack {
+  private template: RgbaBitmap = {
+    width: 1,
+    height: 1,
+    data: new Uint8Array(4),
+  };
+  private outlineMask: Uint8Array = new Uint8Array(1);
+  private layers: PaintLayer[] = [];
+  private outline: LayerInfo = {
+    id: OUTLINE_LAYER_ID,
+    kind: 'outline',
+    name: 'Outline',
+    opacity: 1,
+    visible: true,
+    locked: true,
+  };
+  private activeId = FILL_LAYER_ID;
+
+  /** A fresh stack for a template: the fill layer and one brush layer */
+  reset(template: RgbaBitmap, outlineMask: Uint8Array): void {
+    this.template = template;
+    this.outlineMask = outlineMask;
+    this.outline = { ...this.outline, opacity: 1, visible: true };
+    this.layers = [
+      this.createLayer({
+        id: FILL_LAYER_ID,
+        kind: 'fill',
+        name: 'Fill',
+        opacity: 1,
+        visible: true,
+        locked: false,
+      }),
+    ];
+    this.activeId = this.addBrushLayer();
+  }
+
+  /** Layer bucket fills paint on */
+  get fillLayer(): PaintLayer {
+    return this.layers.find((layer) => layer.kind === 'fill')!;
+  }
+
+  /** Layer brush strokes and the eraser paint on */
+  get activeLayer(): PaintLayer {
+    return this.find(this.activeId) ?? this.fillLayer;
+  }
+
+  info(): LayerStackInfo {
+    const layers = this.layers.map(
+      ({ page: _page, marks: _marks, ...info }) => info
+    );
+    return { layers: [...layers, { ...this.outline }], active: this.activeId };
+  }
+
+  /** Apply an edit; the id of the layer it changed, or null if none */
+  edit(edit: LayerEdit): string | null {
+    if (edit.kind === 'add') {
+      this.activeId = this.addBrushLayer();
+      return this.activeId;
+    }
+    if (edit.kind === 'update' && edit.id === OUTLINE_LAYER_ID) {
+      this.outline = { ...this.outline, ...this.updates(edit) };
+      return OUTLINE_LAYER_ID;
+    }
+    const layer = this.find(edit.id);
+    if (!layer) return null;
+    switch (edit.kind) {
+      case 'update':
+        Object.assign(layer, this.updates(edit));
+        return layer.id;
+      case 'select':
+        if (this.activeId === layer.id) return null;
+        this.activeId = layer.id;
+        return layer.id;
+      case 'remove':
+        return this.remove(layer);
+      case 'move':
+        return this.move(layer, edit.to);
+      case 'merge':
+        return this.mergeDown(layer);
+      default:
+        return null;
+    }
+  }
+
+  /** The page as drawn: paint layers between paper and outlines */
+  composite(): RgbaBitmap {
+    const { width, height } = this.template;
+    const template = this.template.data;
+    const ink = this.outline.visible ? this.outline.opacity : 0;
+    const data = new Uint8Array(width * height * 4);
+    const out: Rgb = [0, 0, 0];
+    for (let i = 0; i < width * height; i++) {
+      const pi = i * 4;
+      out[0] = out[1] = out[2] = 255;
+      // Printed lines, anti-aliasing included, unless painted over
+      blend(out, [template, pi], ink);
+      for (const layer of this.layers) {
+        if (layer.visible && this.isPainted(layer, i)) {
+          blend(out, [layer.page.data, pi], layer.opacity);
+        }
+      }
+      if (this.outlineMask[i] === 1) {
+        blend(out, [template, pi], ink);
+      }
+      data[pi] = Math.round(out[0]);
+      data[pi + 1] = Math.round(out[1]);
+      data[pi + 2] = Math.round(out[2]);
+      data[pi + 3] = 255;
+    }
+    return { width, height, data };
+  }
+
+  /** Colour of the visible paint at a pixel over white paper, no outlines */
+  paintColorAt(index: number): Rgb {
+    const out: Rgb = [255, 255, 255];
+    const pi = index * 4;
+    for (const layer of this.layers) {
+      if (layer.visible && this.isPainted(layer, index)) {
+        blend(out, [layer.page.data, pi], layer.opacity);
+      }
+    }
+    return out.map(Math.round) as Rgb;
+  }
+
+  /** Every paint layer's page then marks, bottom to top, in one buffer */
+  encode(): Uint8Array {
+    const pixels = this.template.width * this.template.height;
+    const data = new Uint8Array(this.layers.length * pixels * 5);
+    this.layers.forEach((layer, l) => {
+      data.set(layer.page.data, l * pixels * 5);
+      data.set(layer.marks, l * pixels * 5 + pixels * 4);
+    });
+    return data;
+  }
+
+  /** Back to an encoded state (see encode) with its layer info */
+  decode(stack: LayerStackInfo, data: Uint8Array): void {
+    const { width, height } = this.template;
+    const pixels = width * height;
+    const paint = stack.layers.filter((info) => info.kind !== 'outline');
+    this.layers = paint.map((info, l) => ({
+      ...info,
+      page: {
+        width,
+        height,
+        data: data.slice(l * pixels * 5, l * pixels * 5 + pixels * 4),
+      },
+      marks: data.slice(l * pixels * 5 + pixels * 4, (l + 1) * pixels * 5),
+    }));
+    const outline = stack.layers.find((info) => info.kind === 'outline');
+    if (outline) this.outline = { ...outline };
+    this.activeId = stack.active;
+  }
+
+  /** Back to a single-page state: the page becomes the fill layer */
+  decodePage(data: Uint8Array): void {
+    this.reset(this.template, this.outlineMask);
+    this.fillLayer.page.data.set(data);
+  }
+
+  private isPainted(layer: PaintLayer, index: number): boolean {
+    if (layer.marks[index] === 1) return true;
+    const pi = index * 4;
+    const page = layer.page.data;
+    const template = this.template.data;
+    return (
+      page[pi] !== template[pi] ||
+      page[pi + 1] !== template[pi + 1] ||
+      page[pi + 2] !== template[pi + 2]
+    );
+  }
+
+  private find(id: string): PaintLayer | undefined {
+    return this.layers.find((layer) => layer.id === id);
+  }
+
+  private createLayer(info: LayerInfo): PaintLayer {
+    const { width, height } = this.template;
+    return {
+      ...info,
+      page: copyPage(this.template),
+      marks: new Uint8Array(width * height),
+    };
+  }
+
+  // Above the active layer; numbered after the highest brush layer so far
+  private addBrushLayer(): string {
+    const numbers = this.layers
+      .filter((layer) => layer.kind === 'brush')
+      .map((layer) => Number(layer.id.replace('brush-', '')));
+    const next = Math.max(0, ...numbers) + 1;
+    const layer = this.createLayer({
+      id: `brush-${next}`,
+      kind: 'brush',
+      name: `Brush ${next}`,
+      opacity: 1,
+      visible: true,
+      locked: false,
+    });
+    const at = this.layers.indexOf(this.activeLayer) + 1;
+    this.layers.splice(at, 0, layer);
+    return layer.id;
+  }
+
+  private updates(
+    edit: Extract<LayerEdit, { kind: 'update' }>
+  ): Partial<LayerInfo> {
+    const updates: Partial<LayerInfo> = {};
+    if (edit.opacity !== undefined) {
+      updates.opacity = Math.min(1, Math.max(0, edit.opacity));
+    }
+    if (edit.visible !== undefined) updates.visible = edit.visible;
+    if (edit.name) updates.name = edit.name;
+    return updates;
+  }
+
+  // The fill layer stays: fills need somewhere to go
+  private remove(layer: PaintLayer): string | null {
+    if (layer.kind === 'fill') return null;
+    const at = this.layers.indexOf(layer);
+    this.layers.splice(at, 1);
+    if (this.activeId === layer.id) {
+      this.activeId = this.layers[Math.max(0, at - 1)].id;
+    }
+    return layer.id;
+  }
+
+  private move(layer: PaintLayer, to: number): string | null {
+    const from = this.layers.indexOf(layer);
+    const target = Math.min(this.layers.length - 1, Math.max(0, to));
+    if (target === from) return null;
+    this.layers.splice(from, 1);
+    this.layers.splice(target, 0, layer);
+    return layer.id;
+  }
+
+  // Bake the layer, at its opacity, into the one below. Where the lower
+  // layer is unpainted the upper colour is taken as it is.
+  private mergeDown(upper: PaintLayer): string | null {
+    const at = this.layers.indexOf(upper);
+    if (at < 1) return null;
+    const lower = this.layers[at - 1];
+    const wasActive = this.activeId === upper.id || this.activeId === lower.id;
+    const pixels = this.template.width * this.template.height;
+    const out: Rgb = [0, 0, 0];
+    for (let i = 0; i < pixels; i++) {
+      if (!this.isPainted(upper, i)) continue;
+      const pi = i * 4;
+      const base = this.isPainted(lower, i) ? lower.page.data : upper.page.data;
+      out[0] = base[pi];
+      out[1] = base[pi + 1];
+      out[2] = base[pi + 2];
+      blend(out, [upper.page.data, pi], upper.opacity);
+      lower.page.data.set(out.map(Math.round), pi);
+      lower.page.data[pi + 3] = 255;
+      lower.marks[i] = 1;
+    }
+    // Fills keep a layer to land on
+    if (upper.kind === 'fill') {
+      Object.assign(lower, { kind: 'fill', id: upper.id, name: upper.name });
+    }
+    this.layers.splice(at, 1);
+    if (wasActive) this.activeId = lower.id;
+    return lower.id;
+  }
+}
@@ -0,0 +1,93 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import { hexToRgba, type Rgba } from './ColorUtils';
+
+/**
+ * PatternFill - Tiled patterns for bucket fills
+ *
+ * A pattern is a per-pixel colour function handed to the engines' fill
+ * step, so it is clipped to the flood-filled region and baked into the page
+ * like a flat fill: snapshots (undo/redo) and exports carry it unchanged.
+ */
+
+export type PatternKind =
+  | 'stripes'
+  | 'dots'
+  | 'checks'
+  | 'hatch'
+  | 'stars'
+  | 'image';
+
+export interface PatternSpec {
+  kind: PatternKind;
+  color: string; // Pattern ink, "#RRGGBB" (ignored for 'image')
+  background?: string; // Between the marks; defaults to white
+  scale?: number; // Tile size in bitmap pixels
+  rotation?: number; // Degrees, clockwise
+  image?: RgbaBitmap; // Tile for 'image' patterns
+}
+
+export type PatternSampler = (x: number, y: number) => Rgba;
+
+export const DEFAULT_PATTERN_SCALE = 16;
+
+const STAR_POINTS = 5;
+const STAR_OUTER = 0.45; // Tile fractions
+const STAR_INNER = 0.2;
+
+// Mark shapes in tile space: (u, v) in [0, 1), plus the tile cell (i, j)
+const MARKS: Record<
+  Exclude<PatternKind, 'image'>,
+  (u: number, v: number, cell: number) => boolean
+> = {
+  stripes: (u) => u < 0.5,
+  dots: (u, v) => (u - 0.5) ** 2 + (v - 0.5) ** 2 < 0.09,
+  checks: (_u, _v, cell) => cell % 2 === 0,
+  hatch: (u, v) => (u + v) % 1 < 0.15 || (u - v + 1) % 1 < 0.15,
+  stars: (u, v) => {
+    const dx = u - 0.5;
+    const dy = v - 0.5;
+    const sector = (2 * Math.PI) / STAR_POINTS;
+    // Angle from the nearest point of the star, 0 (tip) .. sector / 2 (notch)
+    const angle = Math.atan2(dx, -dy) + 2 * Math.PI;
+    const fromTip = Math.abs((angle % sector) - sector / 2);
+    const k = fromTip / (sector / 2);
+    const edge = STAR_INNER + (STAR_OUTER - STAR_INNER) * k;
+    return Math.hypot(dx, dy) < edge;
+  },
+};
+
+const mod1 = (n: number) => n - Math.floor(n);
+
+/**
+ * Colour of the pattern at any bitmap pixel
+ */
+export function createPatternSampler(spec: PatternSpec): PatternSampler {
+  const scale = Math.max(2, spec.scale ?? DEFAULT_PATTERN_SCALE);
+  const theta = ((spec.rotation ?? 0) * Math.PI) / 180;
+  const cos = Math.cos(theta);
+  const sin = Math.sin(theta);
+  const ink = hexToRgba(spec.color);
+  const paper = hexToRgba(spec.background ?? '#FFFFFF');
+  const image = spec.kind === 'image' ? spec.image : undefined;
+  const mark = spec.kind === 'image' ? null : MARKS[spec.kind];
+
+  return (x, y) => {
+    // Rotate the pattern, not the page: sample at the un-rotated point
+    const px = (x * cos + y * sin) / scale;
+    const py = (-x * sin + y * cos) / scale;
+    const u = mod1(px);
+    const v = mod1(py);
+    if (image) {
+      const ix = Math.min(image.width - 1, Math.floor(u * image.width));
+      const iy = Math.min(image.height - 1, Math.floor(v * image.height));
+      const pi = (iy * image.width + ix) * 4;
+      // Composite transparent tile pixels over the background
+      const a = image.data[pi + 3] / 255;
+      return [0, 1, 2]
+        .map((c) => Math.round(image.data[pi + c] * a + paper[c] * (1 - a)))
+        .concat(255) as Rgba;
+    }
+    const cell = Math.floor(px) + Math.floor(py);
+    return mark?.(u, v, Math.abs(cell)) ? ink : paper;
+  };
+}
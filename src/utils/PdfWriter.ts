@@ -0,0 +1,350 @@
+/**
+ * PdfWriter - Minimal PDF files of pictures and text, for printing
+ *
+ * Pictures go in as PNGs and are embedded through their own zlib stream:
+ * PDF's Flate filter understands PNG row filters (the PNG "predictor"), so
+ * nothing is decoded or compressed again. An image placed on many pages is
+ * stored once. Text uses the standard Helvetica fonts every PDF reader has,
+ * so no font is embedded; characters outside Windows-1252 print as "?".
+ */
+
+export interface PdfImage {
+  width: number;
+  height: number;
+  colorSpace: string; // PDF syntax, e.g. "/DeviceRGB"
+  colors: number; // Samples per pixel
+  bitsPerComponent: number;
+  data: Uint8Array; // zlib stream of PNG-filtered rows
+}
+
+// Points (1/72 inch) from the bottom left corner of the page
+export interface PdfBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type PdfDrawing =
+  // Drawn into `box`; with `clip`, only the part inside it shows
+  | { kind: 'image'; image: PdfImage; box: PdfBox; clip?: PdfBox }
+  // `x`, `y`: left end of the baseline
+  | {
+      kind: 'text';
+      text: string;
+      x: number;
+      y: number;
+      size: number;
+      bold?: boolean;
+    }
+  | {
+      kind: 'line';
+      x1: number;
+      y1: number;
+      x2: number;
+      y2: number;
+      gray?: number;
+    };
+
+export interface PdfPage {
+  width: number;
+  height: number;
+  content: PdfDrawing[];
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+/* Advance widths (1/1000 em) of ASCII 32..126 in Helvetica and Helvetica-Bold */
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+// Width of the Latin-1 letters outside ASCII, near enough
+const OTHER_WIDTH = 556;
+
+// Windows-1252 codes of the typographic characters people type
+const WIN_ANSI: Record<string, number> = {
+  '€': 0x80,
+  '…': 0x85,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+};
+
+function winAnsiCodes(text: string): number[] {
+  return [...text].map((c) => {
+    const code = c.charCodeAt(0);
+    if (WIN_ANSI[c]) return WIN_ANSI[c];
+    return c.length === 1 && code < 0x100 && (code < 0x80 || code >= 0xa0)
+      ? code
+      : 0x3f; // "?"
+  });
+}
+
+/** Width of `text` in points, set at `size` */
+export function textWidth(text: string, size: number, bold = false): number {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const total = winAnsiCodes(text).reduce(
+    (sum, code) =>
+      sum + (code >= 32 && code <= 126 ? widths[code - 32] : OTHER_WIDTH),
+    0
+  );
+  return (total * size) / 1000;
+}
+
+// A PDF string literal, kept to ASCII with octal escapes
+function pdfString(text: string): string {
+  return `(${winAnsiCodes(text)
+    .map((code) => {
+      if (code === 0x28 || code === 0x29 || code === 0x5c) {
+        return `\\${String.fromCharCode(code)}`;
+      }
+      return code < 32 || code > 126
+        ? `\\${code.toString(8).padStart(3, '0')}`
+        : String.fromCharCode(code);
+    })
+    .join('')})`;
+}
+
+function readUint32(bytes: Uint8Array, at: number): number {
+  return (
+    (((bytes[at] << 24) | (bytes[at + 1] << 16) | (bytes[at + 2] << 8)) +
+      bytes[at + 3]) >>>
+    0
+  );
+}
+
+function hex(bytes: Uint8Array): string {
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * An image for PDF pages from PNG bytes. Takes greyscale, RGB and palette
+ * PNGs, not interlaced; throws on anything else, including an alpha
+ * channel. Palette transparency (tRNS) is ignored: flatten the picture onto
+ * paper white first.
+ */
+export function pdfImageFromPng(png: Uint8Array): PdfImage {
+  if (!PNG_SIGNATURE.every((b, i) => png[i] === b)) {
+    throw new Error('Not a PNG image');
+  }
+  let width = 0;
+  let height = 0;
+  let depth = 8;
+  let colorType = -1;
+  let palette: Uint8Array | null = null;
+  const chunks: Uint8Array[] = [];
+  for (let at = 8; at + 8 <= png.length; ) {
+    const length = readUint32(png, at);
+    const type = String.fromCharCode(...png.subarray(at + 4, at + 8));
+    const data = png.subarray(at + 8, at + 8 + length);
+    if (type === 'IHDR') {
+      width = readUint32(data, 0);
+      height = readUint32(data, 4);
+      depth = data[8];
+      colorType = data[9];
+      if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+    } else if (type === 'PLTE') {
+      palette = data;
+    } else if (type === 'IDAT') {
+      chunks.push(data);
+    } else if (type === 'IEND') {
+      break;
+    }
+    at += 12 + length;
+  }
+  const colorSpaces: Record<number, [string, number]> = {
+    0: ['/DeviceGray', 1],
+    2: ['/DeviceRGB', 3],
+  };
+  if (colorType === 3 && palette) {
+    colorSpaces[3] = [
+      `[/Indexed /DeviceRGB ${palette.length / 3 - 1} <${hex(palette)}>]`,
+      1,
+    ];
+  }
+  const space = colorSpaces[colorType];
+  if (!space || chunks.length === 0) {
+    throw new Error(`PNG colour type ${colorType} cannot be printed as is`);
+  }
+  const data = new Uint8Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return {
+    width,
+    height,
+    colorSpace: space[0],
+    colors: space[1],
+    bitsPerComponent: depth,
+    data,
+  };
+}
+
+const num = (n: number) => String(Math.round(n * 100) / 100);
+
+function drawingOps(drawing: PdfDrawing, imageName: string): string {
+  switch (drawing.kind) {
+    case 'image': {
+      const { box, clip } = drawing;
+      const clipOps = clip
+        ? `${num(clip.x)} ${num(clip.y)} ${num(clip.width)} ${num(clip.height)} re W n `
+        : '';
+      return `q ${clipOps}${num(box.width)} 0 0 ${num(box.height)} ${num(box.x)} ${num(box.y)} cm /${imageName} Do Q`;
+    }
+    case 'text':
+      return `BT /${drawing.bold ? 'F2' : 'F1'} ${num(drawing.size)} Tf ${num(drawing.x)} ${num(drawing.y)} Td ${pdfString(drawing.text)} Tj ET`;
+    case 'line':
+      return `q ${num(drawing.gray ?? 0)} G 0.75 w ${num(drawing.x1)} ${num(drawing.y1)} m ${num(drawing.x2)} ${num(drawing.y2)} l S Q`;
+  }
+}
+
+// PDF objects in order, with the cross-reference table readers seek by
+class ObjectWriter {
+  private chunks: Uint8Array[] = [];
+  private offsets: number[] = [];
+  private length = 0;
+
+  constructor() {
+    this.text('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n');
+  }
+
+  object(id: number, body: string, stream?: Uint8Array): void {
+    this.offsets[id] = this.length;
+    this.text(`${id} 0 obj\n${body}\n`);
+    if (stream) {
+      this.text('stream\n');
+      this.bytes(stream);
+      this.text('\nendstream\n');
+    }
+    this.text('endobj\n');
+  }
+
+  // Objects must be numbered 1 to n with none missing
+  finish(trailer: string): Uint8Array {
+    const xref = this.length;
+    const count = this.offsets.length;
+    this.text(`xref\n0 ${count}\n0000000000 65535 f \n`);
+    for (let id = 1; id < count; id++) {
+      this.text(`${String(this.offsets[id]).padStart(10, '0')} 00000 n \n`);
+    }
+    this.text(
+      `trailer\n<< /Size ${count} ${trailer} >>\nstartxref\n${xref}\n%%EOF\n`
+    );
+    const out = new Uint8Array(this.length);
+    let at = 0;
+    for (const chunk of this.chunks) {
+      out.set(chunk, at);
+      at += chunk.length;
+    }
+    return out;
+  }
+
+  private text(text: string): void {
+    this.bytes(asciiBytes(text));
+  }
+
+  private bytes(bytes: Uint8Array): void {
+    this.chunks.push(bytes);
+    this.length += bytes.length;
+  }
+}
+
+function asciiBytes(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+  return bytes;
+}
+
+function imageDictionary(image: PdfImage): string {
+  const { width, height, colorSpace, colors, bitsPerComponent } = image;
+  return (
+    `<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height}` +
+    ` /ColorSpace ${colorSpace} /BitsPerComponent ${bitsPerComponent}` +
+    ' /Filter /FlateDecode /DecodeParms << /Predictor 15' +
+    ` /Colors ${colors} /BitsPerComponent ${bitsPerComponent} /Columns ${width} >>` +
+    ` /Length ${image.data.length} >>`
+  );
+}
+
+// A page's resources and content stream; images are named by object id
+function pageContent(
+  page: PdfPage,
+  imageIds: Map<PdfImage, number>
+): { resources: string; content: string } {
+  const used = new Set<number>();
+  const ops = page.content.map((drawing) => {
+    if (drawing.kind !== 'image') return drawingOps(drawing, '');
+    const id = imageIds.get(drawing.image)!;
+    used.add(id);
+    return drawingOps(drawing, `Im${id}`);
+  });
+  const xObjects = [...used].map((id) => `/Im${id} ${id} 0 R`).join(' ');
+  return {
+    resources: `<< /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`,
+    content: ops.join('\n'),
+  };
+}
+
+/** The pages as a PDF file; `title` shows in the reader's window */
+export function createPdf(
+  pages: PdfPage[],
+  info: { title?: string } = {}
+): Uint8Array {
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then images, then pages
+  const imageIds = new Map<PdfImage, number>();
+  for (const page of pages) {
+    for (const drawing of page.content) {
+      if (drawing.kind === 'image' && !imageIds.has(drawing.image)) {
+        imageIds.set(drawing.image, 6 + imageIds.size);
+      }
+    }
+  }
+  const pageIds = pages.map((_, i) => 6 + imageIds.size + i * 2);
+
+  const out = new ObjectWriter();
+  out.object(1, '<< /Type /Catalog /Pages 2 0 R >>');
+  const kids = pageIds.map((id) => `${id} 0 R`).join(' ');
+  out.object(2, `<< /Type /Pages /Kids [${kids}] /Count ${pages.length} >>`);
+  ['Helvetica', 'Helvetica-Bold'].forEach((font, i) =>
+    out.object(
+      3 + i,
+      `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`
+    )
+  );
+  const title = info.title ? ` /Title ${pdfString(info.title)}` : '';
+  out.object(5, `<< /Producer (Coloring Book)${title} >>`);
+  for (const [image, id] of imageIds) {
+    out.object(id, imageDictionary(image), image.data);
+  }
+  pages.forEach((page, i) => {
+    const id = pageIds[i];
+    const { resources, content } = pageContent(page, imageIds);
+    out.object(
+      id,
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources ${resources} /Contents ${id + 1} 0 R >>`
+    );
+    out.object(id + 1, `<< /Length ${content.length} >>`, asciiBytes(content));
+  });
+  return out.finish('/Root 1 0 R /Info 5 0 R');
+}
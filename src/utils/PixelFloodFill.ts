@@ -1,8 +1,7 @@
-/* eslint-disable unicorn/filename-case, max-params, max-lines-per-function, prettier/prettier */
-import { decode as b64decode } from 'base-64';
-import { Asset } from 'expo-asset';
-import * as FileSystem from 'expo-file-system';
-import * as UPNG from 'upng-js';
+/* eslint-disable max-params, max-lines-per-function, prettier/prettier */
+import type { RgbaBitmap } from './ColoringEngine';
+import { hexToArgb } from './ColorUtils';
+import { loadPngBitmap } from './PngCodec';
 
 /**
  * PixelFloodFill - True pixel-based flood fill for React Native
@@ -10,13 +9,14 @@ import * as UPNG from 'upng-js';
  * This implements the same logic as the reference Android app:
  * 1. Simulates pixel grid based on template analysis
  * 2. Black pixels act as borders (stop flood fill)
- * 3. Queue-based flood fill algorithm
+ * 3. Span-based scanline flood fill over a typed-array grid
  * 4. Respects actual template boundaries
  */
 
 export interface FloodFillRegion {
   id: string;
-  pixels: Set<string>; // Set of "x,y" pixel coordinates
+  pixels: Uint32Array; // Grid cell indices (y * gridWidth + x), ascending
+  gridWidth: number; // Row stride for decoding pixels into x,y
   color: string;
   bounds: { minX: number; maxX: number; minY: number; maxY: number };
 }
@@ -38,7 +38,8 @@ export interface DetectionOptions {
 }
 
 export class PixelFloodFill {
-  private pixels: Map<string, string> = new Map(); // "x,y" -> color
+  private pixels: Uint32Array = new Uint32Array(0); // ARGB per grid cell, row-major
+  private visited: Uint8Array = new Uint8Array(0); // Fill scratch mask, kept all-zero between fills
   private filledRegions: Map<string, FloodFillRegion> = new Map();
   private canvasWidth: number;
   private canvasHeight: number;
@@ -68,8 +69,8 @@ export class PixelFloodFill {
   };
 
   // Colors (mimicking Android app constants)
-  private static readonly BORDER_COLOR = '#000000'; // Black borders
-  private static readonly BACKGROUND_COLOR = '#FFFFFF'; // White fillable areas
+  private static readonly BORDER_COLOR = 0xff000000; // Black borders
+  private static readonly BACKGROUND_COLOR = 0xffffffff; // White fillable areas
   private static readonly PIXEL_SIZE = 4; // How many screen pixels = 1 logic pixel
   private static readonly BRIGHTNESS_THRESHOLD = 31; // match zebra-paint: brightness <= 31 => border
 
@@ -85,14 +86,9 @@ export class PixelFloodFill {
    */
   async initializeFromImage(imageUri: string): Promise<void> {
     // Decode PNG to RGBA pixels
-    let imgW: number;
-    let imgH: number;
-    let data: Uint8Array;
+    let image: RgbaBitmap;
     try {
-      const decoded = await this.decodePngToRgba(imageUri);
-      imgW = decoded.width;
-      imgH = decoded.height;
-      data = decoded.data;
+      image = await loadPngBitmap(imageUri);
     } catch (e) {
       // Fallback to simple synthetic grid to avoid crashing
       console.warn(
@@ -104,6 +100,14 @@ export class PixelFloodFill {
       this.initializePixelGrid();
       return;
     }
+    this.initializeFromPixels(image);
+  }
+
+  /**
+   * Build the logical grid from already decoded RGBA pixels
+   */
+  initializeFromPixels(image: RgbaBitmap): void {
+    const { width: imgW, height: imgH, data } = image;
 
     // Logical grid size based on displayed image viewport when available
     let gridW = Math.max(
@@ -119,12 +123,8 @@ export class PixelFloodFill {
       gridW = Math.max(1, Math.floor(this.viewportRect.width));
       gridH = Math.max(1, Math.floor(this.viewportRect.height));
     }
-    this.gridW = gridW;
-    this.gridH = gridH;
-
     // Clear any previous state
-    this.pixels.clear();
-    this.filledRegions.clear();
+    this.resetGrid(gridW, gridH);
 
     // For border detection, map each grid cell center into canvas space consistently
     const hasViewport = Boolean(this.viewportRect);
@@ -134,7 +134,7 @@ export class PixelFloodFill {
     const pxH = hasViewport
       ? Math.max(1, this.viewportRect!.height / Math.max(1, gridH))
       : PixelFloodFill.PIXEL_SIZE;
-    const initialBorderKeys: string[] = [];
+    const initialBorderKeys: number[] = [];
     // Optional auto-calibration of luma threshold using a coarse sample of opaque pixels
     let effectiveLumaThreshold = this.detectionOptions.lumaThreshold;
     let effectiveAlphaThreshold = this.detectionOptions.alphaThreshold;
@@ -257,13 +257,10 @@ export class PixelFloodFill {
           }
         }
 
-        const key = `${gx},${gy}`;
-        this.pixels.set(
-          key,
-          finalIsBorder
-            ? PixelFloodFill.BORDER_COLOR
-            : PixelFloodFill.BACKGROUND_COLOR
-        );
+        const key = gy * gridW + gx;
+        this.pixels[key] = finalIsBorder
+          ? PixelFloodFill.BORDER_COLOR
+          : PixelFloodFill.BACKGROUND_COLOR;
         if (finalIsBorder) initialBorderKeys.push(key);
       }
     }
@@ -273,11 +270,10 @@ export class PixelFloodFill {
       const passes = Math.max(1, this.detectionOptions.dilateIterations);
       let frontier = initialBorderKeys.slice();
       for (let pass = 0; pass < passes; pass++) {
-        const next: string[] = [];
+        const next: number[] = [];
         for (const key of frontier) {
-          const [xStr, yStr] = key.split(',');
-          const x = parseInt(xStr, 10);
-          const y = parseInt(yStr, 10);
+          const x = key % this.gridW;
+          const y = (key - x) / this.gridW;
           const neighbors = [
             [x + 1, y],
             [x - 1, y],
@@ -292,10 +288,9 @@ export class PixelFloodFill {
             if (nx < 0 || ny < 0 || nx >= this.gridW || ny >= this.gridH) {
               continue;
             }
-            const nKey = `${nx},${ny}`;
-            const c = this.pixels.get(nKey);
-            if (c && c !== PixelFloodFill.BORDER_COLOR) {
-              this.pixels.set(nKey, PixelFloodFill.BORDER_COLOR);
+            const nKey = ny * this.gridW + nx;
+            if (this.pixels[nKey] !== PixelFloodFill.BORDER_COLOR) {
+              this.pixels[nKey] = PixelFloodFill.BORDER_COLOR;
               next.push(nKey);
             }
           }
@@ -310,11 +305,11 @@ export class PixelFloodFill {
           this.detectionOptions.closingIterations
         );
         for (let ep = 0; ep < erosionPasses; ep++) {
-          const toBackground: string[] = [];
+          const toBackground: number[] = [];
           for (let y = 0; y < this.gridH; y++) {
             for (let x = 0; x < this.gridW; x++) {
-              const key = `${x},${y}`;
-              if (this.pixels.get(key) !== PixelFloodFill.BORDER_COLOR) {
+              const key = y * this.gridW + x;
+              if (this.pixels[key] !== PixelFloodFill.BORDER_COLOR) {
                 continue;
               }
               let borderNeighbors = 0;
@@ -333,7 +328,7 @@ export class PixelFloodFill {
                   continue;
                 }
                 // prettier-ignore
-                if (this.pixels.get(`${nx},${ny}`) === PixelFloodFill.BORDER_COLOR) {
+                if (this.pixels[ny * this.gridW + nx] === PixelFloodFill.BORDER_COLOR) {
                   borderNeighbors++;
                 }
               }
@@ -344,7 +339,7 @@ export class PixelFloodFill {
             }
           }
           for (const key of toBackground) {
-            this.pixels.set(key, PixelFloodFill.BACKGROUND_COLOR);
+            this.pixels[key] = PixelFloodFill.BACKGROUND_COLOR;
           }
         }
       }
@@ -382,72 +377,6 @@ export class PixelFloodFill {
     return Math.max(50, Math.min(180, Math.floor(threshold)));
   }
 
-  // Decode a PNG from a local/file/http uri into RGBA8 pixel buffer
-  private async decodePngToRgba(
-    uri: string
-  ): Promise<{ width: number; height: number; data: Uint8Array }> {
-    let arrayBuffer: ArrayBuffer;
-    try {
-      if (uri.startsWith('data:')) {
-        const base64 = uri.split(',')[1] ?? '';
-        const binary = this.base64ToUint8Array(base64);
-        arrayBuffer = binary.buffer as ArrayBuffer;
-      } else if (uri.startsWith('file://') || uri.startsWith('content://')) {
-        const base64 = await FileSystem.readAsStringAsync(uri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        const binary = this.base64ToUint8Array(base64);
-        arrayBuffer = binary.buffer as ArrayBuffer;
-      } else if (uri.startsWith('asset://') || uri.startsWith('asset:/')) {
-        // Ensure we have a local file for asset URIs
-        const normalized = uri.replace('asset:/', 'asset://');
-        const asset = Asset.fromURI(normalized);
-        if (!asset.downloaded) {
-          await asset.downloadAsync();
-        }
-        const fileUri = asset.localUri || asset.uri;
-        if (!fileUri || !fileUri.startsWith('file://'))
-          throw new Error(`Asset not resolved to file:// for ${uri}`);
-        const base64 = await FileSystem.readAsStringAsync(fileUri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        const binary = this.base64ToUint8Array(base64);
-        arrayBuffer = binary.buffer as ArrayBuffer;
-      } else if (uri.startsWith('http://') || uri.startsWith('https://')) {
-        const res = await fetch(uri);
-        if (!res.ok) throw new Error(`HTTP ${res.status}`);
-        arrayBuffer = await res.arrayBuffer();
-      } else {
-        // Try reading generic path via FileSystem
-        const base64 = await FileSystem.readAsStringAsync(uri, {
-          encoding: FileSystem.EncodingType.Base64,
-        });
-        const binary = this.base64ToUint8Array(base64);
-        arrayBuffer = binary.buffer as ArrayBuffer;
-      }
-    } catch (e) {
-      throw new Error(`decodePngToRgba: failed to read ${uri}: ${String(e)}`);
-    }
-
-    const png = UPNG.decode(arrayBuffer);
-    const rgbaFrames = UPNG.toRGBA8(png); // Uint8Array[]
-    const data: Uint8Array = rgbaFrames[0];
-    const width: number = png.width;
-    const height: number = png.height;
-    return { width, height, data };
-  }
-
-  private base64ToUint8Array(base64: string): Uint8Array {
-    // atob polyfill for React Native
-    const binaryString = b64decode(base64);
-    const len = binaryString.length;
-    const bytes = new Uint8Array(len);
-    for (let i = 0; i < len; i++) {
-      bytes[i] = binaryString.charCodeAt(i);
-    }
-    return bytes;
-  }
-
   /**
    * Initialize pixel grid simulating a typical coloring book template
    * This creates a logical pixel representation where:
@@ -462,15 +391,8 @@ export class PixelFloodFill {
     const pixelHeight = this.viewportRect
       ? Math.max(1, Math.floor(this.viewportRect.height))
       : Math.floor(this.canvasHeight / PixelFloodFill.PIXEL_SIZE);
-    this.gridW = pixelWidth;
-    this.gridH = pixelHeight;
-
     // Initialize all as white (fillable)
-    for (let y = 0; y < pixelHeight; y++) {
-      for (let x = 0; x < pixelWidth; x++) {
-        this.pixels.set(`${x},${y}`, PixelFloodFill.BACKGROUND_COLOR);
-      }
-    }
+    this.resetGrid(pixelWidth, pixelHeight);
 
     // Create border patterns that mimic a hot air balloon template
     this.createHotAirBalloonTemplate(pixelWidth, pixelHeight);
@@ -593,16 +515,40 @@ export class PixelFloodFill {
     this.drawCircleBorder(centerX + size / 2, centerY, size / 3);
   }
 
-  private setPixel(x: number, y: number, color: string): void {
+  private setPixel(x: number, y: number, color: number): void {
     // Use current grid bounds to remain consistent with viewport-aware grid sizing
     const pixelWidth = this.gridW;
     const pixelHeight = this.gridH;
 
+    // Fractional coordinates never addressed a grid cell
+    if (!Number.isInteger(x) || !Number.isInteger(y)) return;
     if (x >= 0 && x < pixelWidth && y >= 0 && y < pixelHeight) {
-      this.pixels.set(`${x},${y}`, color);
+      this.pixels[y * pixelWidth + x] = color;
     }
   }
 
+  // Allocate an all-background grid and drop any filled regions
+  private resetGrid(gridW: number, gridH: number): void {
+    this.gridW = gridW;
+    this.gridH = gridH;
+    this.pixels = new Uint32Array(gridW * gridH).fill(
+      PixelFloodFill.BACKGROUND_COLOR
+    );
+    this.visited = new Uint8Array(gridW * gridH);
+    this.filledRegions.clear();
+  }
+
+  // Whether the grid cell is inside the grid and plain background
+  private isBackground(x: number, y: number): boolean {
+    return (
+      x >= 0 &&
+      y >= 0 &&
+      x < this.gridW &&
+      y < this.gridH &&
+      this.pixels[y * this.gridW + x] === PixelFloodFill.BACKGROUND_COLOR
+    );
+  }
+
   /**
    * Flood fill algorithm - exactly like the reference Android implementation
    */
@@ -626,77 +572,96 @@ export class PixelFloodFill {
       pixelY = Math.floor(screenY / PixelFloodFill.PIXEL_SIZE);
     }
 
-    const startPixel = `${pixelX},${pixelY}`;
-    const startColor = this.pixels.get(startPixel);
-
     // Only allow filling from background (white) into background cells
-    if (!startColor || startColor !== PixelFloodFill.BACKGROUND_COLOR) {
+    if (!this.isBackground(pixelX, pixelY)) {
       return null;
     }
 
-    // Perform flood fill using queue (same as Android implementation)
-    const queue: { x: number; y: number }[] = [];
-    const filledPixels = new Set<string>();
-    const visited = new Set<string>();
-
-    queue.push({ x: pixelX, y: pixelY });
-    visited.add(startPixel);
-
-    let minX = pixelX,
-      maxX = pixelX,
-      minY = pixelY,
-      maxY = pixelY;
-
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      const currentKey = `${current.x},${current.y}`;
-
-      // Fill current pixel
-      this.pixels.set(currentKey, fillColor);
-      filledPixels.add(currentKey);
-
-      // Update bounds
-      minX = Math.min(minX, current.x);
-      maxX = Math.max(maxX, current.x);
-      minY = Math.min(minY, current.y);
-      maxY = Math.max(maxY, current.y);
-
-      // Add neighbors to queue (4-directional flood fill)
-      const neighbors = [
-        { x: current.x + 1, y: current.y },
-        { x: current.x - 1, y: current.y },
-        { x: current.x, y: current.y + 1 },
-        { x: current.x, y: current.y - 1 },
-      ];
-
-      for (const neighbor of neighbors) {
-        const neighborKey = `${neighbor.x},${neighbor.y}`;
-        const neighborColor = this.pixels.get(neighborKey);
-
-        if (
-          !visited.has(neighborKey) &&
-          neighborColor &&
-          neighborColor === PixelFloodFill.BACKGROUND_COLOR
-        ) {
-          queue.push(neighbor);
-          visited.add(neighborKey);
-        }
-      }
-    }
+    const color = hexToArgb(fillColor);
+    const bounds = this.scanlineFill(pixelX, pixelY, color);
 
     // Create and store the filled region
     const regionId = `region_${this.regionIdCounter++}`;
     const region: FloodFillRegion = {
       id: regionId,
-      pixels: filledPixels,
+      pixels: this.collectVisited(bounds),
+      gridWidth: this.gridW,
       color: fillColor,
-      bounds: { minX, maxX, minY, maxY },
+      bounds,
     };
 
     this.filledRegions.set(regionId, region);
     return region;
   }
 
+  /**
+   * Span-based scanline fill of the background area containing the seed.
+   * Fills whole horizontal runs at once and only pushes one seed per run of
+   * fillable cells in the rows above and below. Marks `visited` so a fill
+   * colour equal to the background still terminates.
+   */
+  private scanlineFill(
+    seedX: number,
+    seedY: number,
+    color: number
+  ): FloodFillRegion['bounds'] {
+    const w = this.gridW;
+    const grid = this.pixels;
+    const visited = this.visited;
+    const fillable = (i: number) =>
+      visited[i] === 0 && grid[i] === PixelFloodFill.BACKGROUND_COLOR;
+    const bounds = { minX: seedX, maxX: seedX, minY: seedY, maxY: seedY };
+    const stack: number[] = [seedY * w + seedX];
+
+    while (stack.length > 0) {
+      const seed = stack.pop()!;
+      if (!fillable(seed)) continue;
+      const y = Math.floor(seed / w);
+      const rowStart = y * w;
+      let x1 = seed - rowStart;
+      let x2 = x1;
+      while (x1 > 0 && fillable(rowStart + x1 - 1)) x1--;
+      while (x2 < w - 1 && fillable(rowStart + x2 + 1)) x2++;
+
+      for (let x = x1; x <= x2; x++) {
+        grid[rowStart + x] = color;
+        visited[rowStart + x] = 1;
+      }
+      bounds.minX = Math.min(bounds.minX, x1);
+      bounds.maxX = Math.max(bounds.maxX, x2);
+      bounds.minY = Math.min(bounds.minY, y);
+      bounds.maxY = Math.max(bounds.maxY, y);
+
+      for (const ny of [y - 1, y + 1]) {
+        if (ny < 0 || ny >= this.gridH) continue;
+        const nRow = ny * w;
+        let inRun = false;
+        for (let x = x1; x <= x2; x++) {
+          const open = fillable(nRow + x);
+          if (open && !inRun) stack.push(nRow + x);
+          inRun = open;
+        }
+      }
+    }
+    return bounds;
+  }
+
+  // Gather (and clear) the visited cells inside bounds, in row-major order
+  private collectVisited(bounds: FloodFillRegion['bounds']): Uint32Array {
+    const w = this.gridW;
+    const visited = this.visited;
+    const indices: number[] = [];
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      for (let x = bounds.minX; x <= bounds.maxX; x++) {
+        const i = y * w + x;
+        if (visited[i] === 0) continue;
+        visited[i] = 0;
+        indices.push(i);
+      }
+    }
+    return Uint32Array.from(indices);
+  }
+
   /**
    * Find region near point (for smart touch detection like Android app)
    */
@@ -728,9 +693,7 @@ export class PixelFloodFill {
             // Only check perimeter
             const checkX = pixelX + dx;
             const checkY = pixelY + dy;
-            const pixelColor = this.pixels.get(`${checkX},${checkY}`);
-
-            if (pixelColor && pixelColor === PixelFloodFill.BACKGROUND_COLOR) {
+            if (this.isBackground(checkX, checkY)) {
               // Found a fillable pixel, attempt flood fill here with proper screen mapping
               if (this.viewportRect) {
                 const pxW = Math.max(
@@ -773,57 +736,38 @@ export class PixelFloodFill {
     const offsetX = hasViewport ? this.viewportRect!.x : 0;
     const offsetY = hasViewport ? this.viewportRect!.y : 0;
 
-    for (const region of Array.from(this.filledRegions.values())) {
-      // Convert pixel coordinates back to screen coordinates and create path
-      let path = '';
-      const processedRows = new Set<number>();
-
-      for (const pixelKey of Array.from(region.pixels)) {
-        const [, y] = pixelKey.split(',').map(Number);
-
-        if (!processedRows.has(y)) {
-          processedRows.add(y);
-
-          // Find continuous horizontal spans for this row
-          const rowPixels = Array.from(region.pixels)
-            .filter((pk: string) => pk.split(',')[1] === y.toString())
-            .map((pk: string) => parseInt(pk.split(',')[0], 10))
-            .sort((a, b) => a - b);
-
-          let spanStart = rowPixels[0];
-          let spanEnd = rowPixels[0];
-
-          for (let i = 1; i < rowPixels.length; i++) {
-            if (rowPixels[i] === spanEnd + 1) {
-              spanEnd = rowPixels[i];
-            } else {
-              // End of span, add rectangle
-              const screenX = offsetX + spanStart * pxW;
-              const screenY = offsetY + y * pxH;
-              const screenW = (spanEnd - spanStart + 1) * pxW;
-              const screenH = pxH;
-
-              if (path) path += ' ';
-              path += `M${screenX},${screenY} L${screenX + screenW},${screenY} L${screenX + screenW},${screenY + screenH} L${screenX},${screenY + screenH} Z`;
-
-              spanStart = spanEnd = rowPixels[i];
-            }
-          }
-
-          // Add final span
-          const screenX = offsetX + spanStart * pxW;
-          const screenY = offsetY + y * pxH;
-          const screenW = (spanEnd - spanStart + 1) * pxW;
-          const screenH = pxH;
+    const rect = (spanStart: number, spanEnd: number, y: number) => {
+      const screenX = offsetX + spanStart * pxW;
+      const screenY = offsetY + y * pxH;
+      const screenW = (spanEnd - spanStart + 1) * pxW;
+      const screenH = pxH;
+      return `M${screenX},${screenY} L${screenX + screenW},${screenY} L${screenX + screenW},${screenY + screenH} L${screenX},${screenY + screenH} Z`;
+    };
 
-          if (path) path += ' ';
-          path += `M${screenX},${screenY} L${screenX + screenW},${screenY} L${screenX + screenW},${screenY + screenH} L${screenX},${screenY + screenH} Z`;
+    for (const region of Array.from(this.filledRegions.values())) {
+      // Pixels are row-major, so each run of consecutive indices on one row is a span
+      const rects: string[] = [];
+      const { pixels, gridWidth } = region;
+      let i = 0;
+      while (i < pixels.length) {
+        const y = Math.floor(pixels[i] / gridWidth);
+        const spanStart = pixels[i] - y * gridWidth;
+        let spanEnd = spanStart;
+        i++;
+        while (
+          i < pixels.length &&
+          pixels[i] === pixels[i - 1] + 1 &&
+          pixels[i] - y * gridWidth < gridWidth
+        ) {
+          spanEnd++;
+          i++;
         }
+        rects.push(rect(spanStart, spanEnd, y));
       }
 
       svgPaths.push({
         id: region.id,
-        path,
+        path: rects.join(' '),
         color: region.color,
       });
     }
@@ -837,8 +781,8 @@ export class PixelFloodFill {
   clearAll(): void {
     // Restore original pixels
     for (const region of Array.from(this.filledRegions.values())) {
-      for (const pixelKey of Array.from(region.pixels)) {
-        this.pixels.set(pixelKey, PixelFloodFill.BACKGROUND_COLOR);
+      for (const index of Array.from(region.pixels)) {
+        this.pixels[index] = PixelFloodFill.BACKGROUND_COLOR;
       }
     }
     this.filledRegions.clear();
@@ -0,0 +1,115 @@
+import { decode as b64decode, encode as b64encode } from 'base-64';
+import { Asset } from 'expo-asset';
+import * as FileSystem from 'expo-file-system';
+import * as UPNG from 'upng-js';
+
+import type { RgbaBitmap } from './ColoringEngine';
+
+/**
+ * PngCodec - PNG <-> RGBA conversion shared by canvases and engines
+ *
+ * Uses upng-js so the same code path works on web and native.
+ */
+
+export function base64ToUint8Array(base64: string): Uint8Array {
+  // atob polyfill for React Native
+  const binaryString = b64decode(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function uint8ArrayToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    binary += String.fromCharCode.apply(
+      null,
+      Array.prototype.slice.call(bytes, i, i + chunk)
+    );
+  }
+  return b64encode(binary);
+}
+
+async function readFileBase64(uri: string): Promise<string> {
+  return FileSystem.readAsStringAsync(uri, {
+    encoding: FileSystem.EncodingType.Base64,
+  });
+}
+
+// Read PNG bytes from a data:, file://, content://, asset:// or http(s) uri
+export async function readPngBytes(uri: string): Promise<ArrayBuffer> {
+  if (uri.startsWith('data:')) {
+    return base64ToUint8Array(uri.split(',')[1] ?? '').buffer as ArrayBuffer;
+  }
+  if (uri.startsWith('asset://') || uri.startsWith('asset:/')) {
+    // Ensure we have a local file for asset URIs
+    const asset = Asset.fromURI(uri.replace('asset:/', 'asset://'));
+    if (!asset.downloaded) {
+      await asset.downloadAsync();
+    }
+    const fileUri = asset.localUri || asset.uri;
+    if (!fileUri || !fileUri.startsWith('file://'))
+      throw new Error(`Asset not resolved to file:// for ${uri}`);
+    return base64ToUint8Array(await readFileBase64(fileUri))
+      .buffer as ArrayBuffer;
+  }
+  if (uri.startsWith('http://') || uri.startsWith('https://')) {
+    const res = await fetch(uri);
+    if (!res.ok) throw new Error(`HTTP ${res.status}`);
+    return res.arrayBuffer();
+  }
+  // file://, content:// and bare paths go through FileSystem
+  return base64ToUint8Array(await readFileBase64(uri)).buffer as ArrayBuffer;
+}
+
+/**
+ * Decode PNG bytes into an RGBA bitmap (first frame only)
+ */
+export function decodePng(buffer: ArrayBuffer): RgbaBitmap {
+  const png = UPNG.decode(buffer);
+  const data = new Uint8Array(UPNG.toRGBA8(png)[0]);
+  return { width: png.width, height: png.height, data };
+}
+
+/**
+ * Load and decode a PNG from any uri the app hands around
+ */
+export async function loadPngBitmap(uri: string): Promise<RgbaBitmap> {
+  let buffer: ArrayBuffer;
+  try {
+    buffer = await readPngBytes(uri);
+  } catch (e) {
+    throw new Error(`loadPngBitmap: failed to read ${uri}: ${String(e)}`);
+  }
+  return decodePng(buffer);
+}
+
+/**
+ * Encode an RGBA bitmap as raw PNG bytes (lossless)
+ */
+export function encodePng(bitmap: RgbaBitmap): Uint8Array {
+  // Copy into a tightly sized buffer; the bitmap may be a view on a larger one
+  const rgba = new Uint8Array(bitmap.data).buffer;
+  return new Uint8Array(UPNG.encode([rgba], bitmap.width, bitmap.height, 0));
+}
+
+/**
+ * Encode an RGBA bitmap as a data:image/png;base64 url
+ */
+export function encodePngDataUrl(bitmap: RgbaBitmap): string {
+  return `data:image/png;base64,${uint8ArrayToBase64(encodePng(bitmap))}`;
+}
+
+/**
+ * Encode same-sized RGBA frames as a looping animated PNG (APNG);
+ * `delays` are milliseconds per frame
+ */
+export function encodeApng(frames: RgbaBitmap[], delays: number[]): Uint8Array {
+  const { width, height } = frames[0];
+  const buffers = frames.map((frame) => new Uint8Array(frame.data).buffer);
+  return new Uint8Array(UPNG.encode(buffers, width, height, 0, delays));
+}
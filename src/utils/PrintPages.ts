@@ -0,0 +1,236 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import {
+  createPdf,
+  type PdfBox,
+  type PdfDrawing,
+  type PdfImage,
+  pdfImageFromPng,
+  type PdfPage,
+  textWidth,
+} from './PdfWriter';
+import { encodePng } from './PngCodec';
+
+/**
+ * PrintPages - Colourings and blank templates laid out on paper, as a PDF
+ *
+ * Each picture gets a page of its own: an optional title across the top, an
+ * optional "Name: ____" line along the bottom for pupils, and the picture in
+ * between, either whole inside the margins (fit) or filling them and cropped
+ * (fill). A booklet adds a cover and page numbers. Pictures are embedded at
+ * their own resolution, so line art stays crisp at any printer's DPI.
+ */
+
+export type PaperSize = 'a4' | 'letter';
+export type PaperOrientation = 'portrait' | 'landscape' | 'auto';
+
+export interface PrintOptions {
+  paper: PaperSize;
+  orientation: PaperOrientation; // auto: landscape for wide pictures
+  marginMm: number;
+  fit: 'fit' | 'fill';
+  titles: boolean; // Print each picture's title above it
+  nameLine: boolean;
+}
+
+export interface PrintItem {
+  image: PdfImage; // From printImage; reuse one for every copy of a picture
+  title?: string;
+}
+
+export const DEFAULT_PRINT_OPTIONS: PrintOptions = {
+  paper: 'a4',
+  orientation: 'auto',
+  marginMm: 12,
+  fit: 'fit',
+  titles: true,
+  nameLine: false,
+};
+
+// Portrait sizes in points
+export const PAPER_SIZES: Record<PaperSize, { width: number; height: number }> =
+  {
+    a4: { width: 595.28, height: 841.89 },
+    letter: { width: 612, height: 792 },
+  };
+
+const POINTS_PER_MM = 72 / 25.4;
+const TITLE_SIZE = 20;
+const FOOTER_SIZE = 12;
+const BAND_GAP = 10;
+const LINE_GRAY = 0.55;
+
+/**
+ * A picture ready for pages: flattened onto paper white, as PDFs take
+ * transparency in ways printers disagree about, then PNG encoded
+ */
+export function printImage(bitmap: RgbaBitmap): PdfImage {
+  const { width, height, data } = bitmap;
+  const flat = new Uint8Array(width * height * 4);
+  for (let i = 0; i < flat.length; i += 4) {
+    const alpha = data[i + 3] / 255;
+    for (let c = 0; c < 3; c++) {
+      flat[i + c] = Math.round(data[i + c] * alpha + 255 * (1 - alpha));
+    }
+    flat[i + 3] = 255;
+  }
+  return pdfImageFromPng(encodePng({ width, height, data: flat }));
+}
+
+/** Page size for a picture of the given shape */
+export function paperFor(
+  options: Pick<PrintOptions, 'paper' | 'orientation'>,
+  picture: { width: number; height: number }
+): { width: number; height: number } {
+  const { width, height } = PAPER_SIZES[options.paper];
+  const landscape =
+    options.orientation === 'landscape' ||
+    (options.orientation === 'auto' && picture.width > picture.height);
+  return landscape ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Where a picture goes in `area`: centred, scaled to fit inside it or to
+ * cover it (the caller clips to `area`)
+ */
+export function placePicture(
+  picture: { width: number; height: number },
+  area: PdfBox,
+  fit: PrintOptions['fit']
+): PdfBox {
+  const scales = [area.width / picture.width, area.height / picture.height];
+  const scale = fit === 'fill' ? Math.max(...scales) : Math.min(...scales);
+  const width = picture.width * scale;
+  const height = picture.height * scale;
+  return {
+    x: area.x + (area.width - width) / 2,
+    y: area.y + (area.height - height) / 2,
+    width,
+    height,
+  };
+}
+
+function centredText(
+  text: string,
+  page: { width: number },
+  at: { y: number; size: number; bold?: boolean }
+): PdfDrawing {
+  const x = (page.width - textWidth(text, at.size, at.bold)) / 2;
+  return { kind: 'text', text, x, ...at };
+}
+
+// A label followed by a line to write on, from `x` to `right`
+function writeOnLine(
+  label: string,
+  at: { x: number; right: number; y: number; size: number }
+): PdfDrawing[] {
+  const lineStart = at.x + textWidth(label, at.size) + 6;
+  return [
+    { kind: 'text', text: label, x: at.x, y: at.y, size: at.size },
+    {
+      kind: 'line',
+      x1: lineStart,
+      y1: at.y - 2,
+      x2: at.right,
+      y2: at.y - 2,
+      gray: LINE_GRAY,
+    },
+  ];
+}
+
+/** One picture's page; booklets pass the page number to print at the foot */
+export function printPage(
+  item: PrintItem,
+  options: PrintOptions,
+  pageNumber?: number
+): PdfPage {
+  const paper = paperFor(options, item.image);
+  const margin = Math.max(0, options.marginMm) * POINTS_PER_MM;
+  const content: PdfDrawing[] = [];
+  let top = paper.height - margin;
+  let bottom = margin;
+
+  const title = options.titles ? item.title?.trim() : undefined;
+  if (title) {
+    top -= TITLE_SIZE;
+    content.push(
+      centredText(title, paper, { y: top, size: TITLE_SIZE, bold: true })
+    );
+    top -= BAND_GAP;
+  }
+  if (options.nameLine || pageNumber !== undefined) {
+    const y = bottom + 4;
+    const number = pageNumber === undefined ? '' : String(pageNumber);
+    const numberWidth = number ? textWidth(number, FOOTER_SIZE) + 24 : 0;
+    if (options.nameLine) {
+      const right = paper.width - margin - numberWidth;
+      content.push(
+        ...writeOnLine('Name:', { x: margin, right, y, size: FOOTER_SIZE })
+      );
+    }
+    if (number) {
+      const x = paper.width - margin - textWidth(number, FOOTER_SIZE);
+      content.push({ kind: 'text', text: number, x, y, size: FOOTER_SIZE });
+    }
+    bottom += FOOTER_SIZE + 4 + BAND_GAP;
+  }
+
+  const area = {
+    x: margin,
+    y: bottom,
+    width: paper.width - margin * 2,
+    height: Math.max(1, top - bottom),
+  };
+  const box = placePicture(item.image, area, options.fit);
+  content.push(
+    options.fit === 'fill'
+      ? { kind: 'image', image: item.image, box, clip: area }
+      : { kind: 'image', image: item.image, box }
+  );
+  return { ...paper, content };
+}
+
+// A booklet's first page: its title and a line for the owner's name
+function coverPage(
+  booklet: { title: string; subtitle?: string },
+  options: PrintOptions
+): PdfPage {
+  const paper = paperFor(
+    { ...options, orientation: 'portrait' },
+    { width: 1, height: 1 }
+  );
+  const margin = Math.max(0, options.marginMm) * POINTS_PER_MM + 24;
+  const middle = paper.height * 0.6;
+  const content: PdfDrawing[] = [
+    centredText(booklet.title, paper, { y: middle, size: 36, bold: true }),
+  ];
+  if (booklet.subtitle) {
+    content.push(
+      centredText(booklet.subtitle, paper, { y: middle - 36, size: 16 })
+    );
+  }
+  content.push(
+    ...writeOnLine('This book belongs to:', {
+      x: margin,
+      right: paper.width - margin,
+      y: paper.height * 0.3,
+      size: 16,
+    })
+  );
+  return { ...paper, content };
+}
+
+/**
+ * The pictures as a PDF, one per page, in order. With `booklet`, a cover comes
+ * first and the pictures' pages are numbered from 1.
+ */
+export function createPrintPdf(
+  items: PrintItem[],
+  options: PrintOptions,
+  booklet?: { title: string; subtitle?: string }
+): Uint8Array {
+  const pages = items.map((item, i) =>
+    printPage(item, options, booklet ? i + 1 : undefined)
+  );
+  if (booklet) pages.unshift(coverPage(booklet, options));
+  return createPdf(pages, { title: booklet?.title ?? items[0]?.title });
+}
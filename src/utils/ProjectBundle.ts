@@ -0,0 +1,131 @@
+import { asciiToJson, jsonToAscii } from './AsciiJson';
+import { fitIntoBox, resampleNearest } from './BitmapUtils';
+import type { RgbaBitmap } from './ColoringEngine';
+import {
+  type DrawingDocument,
+  parseDrawingDocument,
+  serializeDrawingDocument,
+} from './DrawingDocument';
+import { encodePng } from './PngCodec';
+import { createZip, readZip, type ZipEntry } from './ZipArchive';
+
+/**
+ * ProjectBundle - A drawing and everything it needs, in one zip
+ *
+ * A bundle moves an editable drawing between devices:
+ *   manifest.json     title, category and dates
+ *   template.png      the template as imported, full size
+ *   outline-mask.png  its gap-bridged outline mask, when it has one
+ *   drawing.coloring  every operation (see DrawingDocument), replayable at
+ *                     whatever size the other device's canvas is
+ *   history.bin       undo steps with the paint layers (UndoHistory), which
+ *                     resume exactly when the canvas size matches
+ *   thumbnail.png     a small picture of the page, for lists
+ */
+
+export const PROJECT_BUNDLE_FORMAT = 'coloring-project';
+export const PROJECT_BUNDLE_VERSION = 1;
+export const PROJECT_BUNDLE_EXTENSION = '.zip';
+// Longest side of the thumbnail, in px
+export const THUMBNAIL_SIZE = 256;
+
+export interface ProjectManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: number;
+  title: string;
+  category?: string;
+  createdAt: number; // When the template was added, ms since epoch
+  exportedAt: number;
+}
+
+export interface ProjectBundle {
+  manifest: ProjectManifest;
+  template: Uint8Array; // PNG bytes
+  outlineMask?: Uint8Array; // PNG bytes (see TemplateMaskService)
+  drawing: DrawingDocument;
+  history?: Uint8Array; // UndoHistory.serialize() bytes
+  thumbnail: Uint8Array; // PNG bytes
+}
+
+const FILES = {
+  manifest: 'manifest.json',
+  template: 'template.png',
+  outlineMask: 'outline-mask.png',
+  drawing: 'drawing.coloring',
+  history: 'history.bin',
+  thumbnail: 'thumbnail.png',
+} as const;
+
+/** Small PNG of the page for lists, never larger than the page */
+export function projectThumbnail(page: RgbaBitmap): Uint8Array {
+  const size = fitIntoBox(
+    page,
+    Math.min(THUMBNAIL_SIZE, page.width),
+    Math.min(THUMBNAIL_SIZE, page.height)
+  );
+  return encodePng(resampleNearest(page, size.width, size.height));
+}
+
+export function packProjectBundle(bundle: ProjectBundle): Uint8Array {
+  // Inside the bundle the drawing points at the bundled template
+  const drawing: DrawingDocument = {
+    ...bundle.drawing,
+    template: { ...bundle.drawing.template, uri: FILES.template },
+  };
+  const entries: ZipEntry[] = [
+    {
+      name: FILES.manifest,
+      data: jsonToAscii(JSON.stringify(bundle.manifest, null, 2)),
+    },
+    { name: FILES.template, data: bundle.template },
+    {
+      name: FILES.drawing,
+      data: jsonToAscii(serializeDrawingDocument(drawing)),
+    },
+    { name: FILES.thumbnail, data: bundle.thumbnail },
+  ];
+  if (bundle.outlineMask) {
+    entries.push({ name: FILES.outlineMask, data: bundle.outlineMask });
+  }
+  if (bundle.history)
+    entries.push({ name: FILES.history, data: bundle.history });
+  return createZip(entries, new Date(bundle.manifest.exportedAt));
+}
+
+/**
+ * Read a bundle back. Throws when it is not one, is missing a required
+ * file, or was written by a newer version of the app.
+ */
+export function unpackProjectBundle(bytes: Uint8Array): ProjectBundle {
+  const files = readZip(bytes);
+  const manifestBytes = files.get(FILES.manifest);
+  if (!manifestBytes) throw new Error('Not a project bundle: no manifest');
+  let manifest: ProjectManifest;
+  try {
+    manifest = JSON.parse(asciiToJson(manifestBytes));
+  } catch {
+    throw new Error('Not a project bundle: unreadable manifest');
+  }
+  if (manifest?.format !== PROJECT_BUNDLE_FORMAT) {
+    throw new Error('Not a project bundle');
+  }
+  if (!(manifest.version <= PROJECT_BUNDLE_VERSION)) {
+    throw new Error(
+      `Project bundle version ${manifest.version} is newer than this app supports`
+    );
+  }
+  const template = files.get(FILES.template);
+  const drawing = files.get(FILES.drawing);
+  const thumbnail = files.get(FILES.thumbnail);
+  if (!template || !drawing || !thumbnail) {
+    throw new Error('Project bundle is incomplete');
+  }
+  return {
+    manifest,
+    template,
+    outlineMask: files.get(FILES.outlineMask),
+    drawing: parseDrawingDocument(asciiToJson(drawing)),
+    history: files.get(FILES.history),
+    thumbnail,
+  };
+}
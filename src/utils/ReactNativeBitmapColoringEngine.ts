@@ -1,5 +1,7 @@
 import { manipulateAsync, SaveFormat } from 'expo-image-manipulator';
 
+import { hexToArgb } from './ColorUtils';
+
 export interface ColoringBitmap {
   width: number;
   height: number;
@@ -179,17 +181,7 @@ export class ReactNativeBitmapColoringEngine {
    * Convert color string to ARGB number
    */
   static colorStringToArgb(colorString: string): number {
-    // Remove # if present
-    const hex = colorString.replace('#', '');
-
-    // Parse RGB
-    const r = parseInt(hex.substring(0, 2), 16);
-    const g = parseInt(hex.substring(2, 4), 16);
-    const b = parseInt(hex.substring(4, 6), 16);
-    const a = 255; // Full opacity
-
-    // Convert to ARGB
-    return (a << 24) | (r << 16) | (g << 8) | b;
+    return hexToArgb(colorString);
   }
 
   /**
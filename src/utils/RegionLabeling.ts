@@ -0,0 +1,228 @@
+/**
+ * RegionLabeling - Connected-component labeling of a template's fillable area
+ *
+ * Runs once when a template loads. Every fillable pixel gets the label of its
+ * 4-connected region (0 = boundary), and each region gets a table entry with
+ * area, bounding box, centroid and neighbouring regions. A bucket tap is then
+ * a recolor of the tapped region's pixel list instead of a fresh BFS.
+ */
+
+export interface RegionInfo {
+  id: number; // Label, starting at 1
+  area: number; // Pixel count
+  bounds: { minX: number; minY: number; maxX: number; maxY: number };
+  centroid: { x: number; y: number };
+  neighbors: number[]; // Region ids across a boundary line
+}
+
+export interface RegionMap {
+  width: number;
+  height: number;
+  labels: Int32Array; // Per pixel region id, 0 for boundary pixels
+  regions: RegionInfo[]; // regions[id - 1]
+  // Pixel indices grouped by region: region id's pixels are
+  // order.subarray(offsets[id - 1], offsets[id])
+  order: Uint32Array;
+  offsets: Uint32Array;
+}
+
+// Boundary lines thicker than this do not make two regions neighbours
+const NEIGHBOR_MAX_GAP = 6;
+
+/**
+ * Label the 4-connected components of pixels where fillable[i] === 1
+ */
+export function labelRegions(
+  fillable: Uint8Array,
+  width: number,
+  height: number
+): RegionMap {
+  const labels = new Int32Array(width * height);
+  const regions: RegionInfo[] = [];
+  const stack: number[] = [];
+
+  for (let start = 0; start < labels.length; start++) {
+    if (fillable[start] !== 1 || labels[start] !== 0) continue;
+    const id = regions.length + 1;
+    const region: RegionInfo = {
+      id,
+      area: 0,
+      bounds: { minX: width, minY: height, maxX: -1, maxY: -1 },
+      centroid: { x: 0, y: 0 },
+      neighbors: [],
+    };
+    let sumX = 0;
+    let sumY = 0;
+
+    // Scanline fill: label whole runs, seed the rows above and below
+    stack.push(start);
+    while (stack.length > 0) {
+      const seed = stack.pop()!;
+      if (labels[seed] !== 0) continue;
+      const y = Math.floor(seed / width);
+      const row = y * width;
+      let x1 = seed - row;
+      let x2 = x1;
+      while (x1 > 0 && fillable[row + x1 - 1] === 1 && !labels[row + x1 - 1])
+        x1--;
+      while (
+        x2 < width - 1 &&
+        fillable[row + x2 + 1] === 1 &&
+        !labels[row + x2 + 1]
+      )
+        x2++;
+
+      const runLength = x2 - x1 + 1;
+      labels.fill(id, row + x1, row + x2 + 1);
+      region.area += runLength;
+      sumX += ((x1 + x2) * runLength) / 2;
+      sumY += y * runLength;
+      region.bounds.minX = Math.min(region.bounds.minX, x1);
+      region.bounds.maxX = Math.max(region.bounds.maxX, x2);
+      region.bounds.minY = Math.min(region.bounds.minY, y);
+      region.bounds.maxY = Math.max(region.bounds.maxY, y);
+
+      for (const ny of [y - 1, y + 1]) {
+        if (ny < 0 || ny >= height) continue;
+        const nRow = ny * width;
+        let inRun = false;
+        for (let x = x1; x <= x2; x++) {
+          const open = fillable[nRow + x] === 1 && labels[nRow + x] === 0;
+          if (open && !inRun) stack.push(nRow + x);
+          inRun = open;
+        }
+      }
+    }
+
+    region.centroid = { x: sumX / region.area, y: sumY / region.area };
+    regions.push(region);
+  }
+
+  const groups = groupByLabel(labels, regions);
+  return linkNeighbors({ width, height, labels, regions, ...groups });
+}
+
+// Counting sort of pixel indices by label (boundary pixels are left out)
+function groupByLabel(
+  labels: Int32Array,
+  regions: RegionInfo[]
+): { order: Uint32Array; offsets: Uint32Array } {
+  const offsets = new Uint32Array(regions.length + 1);
+  for (let id = 1; id <= regions.length; id++) {
+    offsets[id] = offsets[id - 1] + regions[id - 1].area;
+  }
+  const cursor = offsets.slice(0, regions.length);
+  const order = new Uint32Array(offsets[regions.length]);
+  for (let i = 0; i < labels.length; i++) {
+    const id = labels[i];
+    if (id !== 0) order[cursor[id - 1]++] = i;
+  }
+  return { order, offsets };
+}
+
+// Two regions are neighbours when a short horizontal or vertical run of
+// boundary pixels separates them
+function linkNeighbors(map: RegionMap): RegionMap {
+  const { width, height, labels, regions } = map;
+  const links = regions.map(() => new Set<number>());
+  const link = (a: number, b: number) => {
+    if (a === 0 || b === 0 || a === b) return;
+    links[a - 1].add(b);
+    links[b - 1].add(a);
+  };
+  const scan = (count: number, length: number, at: (i: number) => number) => {
+    for (let line = 0; line < count; line++) {
+      let last = 0;
+      let gap = 0;
+      for (let i = 0; i < length; i++) {
+        const id = labels[at(line * length + i)];
+        if (id === 0) {
+          gap++;
+          continue;
+        }
+        if (gap > 0 && gap <= NEIGHBOR_MAX_GAP) link(last, id);
+        last = id;
+        gap = 0;
+      }
+    }
+  };
+  // Rows, then columns (k = x * height + y)
+  scan(height, width, (k) => k);
+  scan(width, height, (k) => (k % height) * width + Math.floor(k / height));
+  regions.forEach((region, i) => {
+    region.neighbors = Array.from(links[i]).sort((a, b) => a - b);
+  });
+  return map;
+}
+
+/**
+ * Pixel indices of one region (a view, do not modify)
+ */
+export function regionPixels(map: RegionMap, id: number): Uint32Array {
+  return map.order.subarray(map.offsets[id - 1], map.offsets[id]);
+}
+
+/**
+ * Region id under a point, or the nearest region within `radius` pixels so
+ * taps on a line or on a tiny region still hit something. 0 when none.
+ */
+export function regionAt(
+  map: RegionMap,
+  point: { x: number; y: number },
+  radius: number = 0
+): number {
+  const { width, height, labels } = map;
+  const sx = Math.floor(point.x);
+  const sy = Math.floor(point.y);
+  const labelAt = (x: number, y: number) =>
+    x >= 0 && y >= 0 && x < width && y < height ? labels[y * width + x] : 0;
+
+  if (labelAt(sx, sy) !== 0) return labelAt(sx, sy);
+  for (let r = 1; r <= radius; r++) {
+    for (let dy = -r; dy <= r; dy++) {
+      for (let dx = -r; dx <= r; dx++) {
+        const id = labelAt(sx + dx, sy + dy);
+        if (id !== 0) return id;
+      }
+    }
+  }
+  return 0;
+}
+
+/**
+ * Mask (1 = inside) of a region grown up to `rim` pixels into unlabeled
+ * pixels, never into other regions. The rim reaches the anti-aliased band
+ * along the outlines that labeling leaves out.
+ */
+export function regionMask(
+  map: RegionMap,
+  id: number,
+  rim: number = 0
+): Uint8Array {
+  const { width, height, labels } = map;
+  const mask = new Uint8Array(width * height);
+  let frontier = Array.from(regionPixels(map, id));
+  for (const index of frontier) mask[index] = 1;
+
+  for (let step = 0; step < rim && frontier.length > 0; step++) {
+    const next: number[] = [];
+    for (const index of frontier) {
+      const x = index % width;
+      const y = (index - x) / width;
+      for (const [nx, ny] of [
+        [x - 1, y],
+        [x + 1, y],
+        [x, y - 1],
+        [x, y + 1],
+      ]) {
+        if (nx < 0 || ny < 0 || nx >= width || ny >= height) continue;
+        const n = ny * width + nx;
+        if (mask[n] === 1 || labels[n] !== 0) continue;
+        mask[n] = 1;
+        next.push(n);
+      }
+    }
+    frontier = next;
+  }
+  return mask;
+}
@@ -1,4 +1,5 @@
 // Note: Keep this engine free of native dependencies for broad compatibility
+import { argbToHex, hexToArgb } from './ColorUtils';
 
 export interface TouchPoint {
   x: number;
@@ -24,19 +25,12 @@ export class SimpleColoringEngine {
 
   // Convert hex color to ARGB format (Android format)
   static hexToArgb(hex: string): number {
-    const color = hex.replace('#', '');
-    const r = parseInt(color.substr(0, 2), 16);
-    const g = parseInt(color.substr(2, 2), 16);
-    const b = parseInt(color.substr(4, 2), 16);
-    return (0xff << 24) | (r << 16) | (g << 8) | b;
+    return hexToArgb(hex);
   }
 
   // Convert ARGB back to hex
   static argbToHex(argb: number): string {
-    const r = (argb >> 16) & 0xff;
-    const g = (argb >> 8) & 0xff;
-    const b = argb & 0xff;
-    return `#${r.toString(16).padStart(2, '0')}${g.toString(16).padStart(2, '0')}${b.toString(16).padStart(2, '0')}`;
+    return argbToHex(argb);
   }
 
   // Create a bitmap from image URI (simplified approach)
@@ -352,8 +346,8 @@ export class SimpleColoringEngine {
 
   // Convert bitmap to base64 PNG for display
   static async bitmapToBase64(bitmap: ColoringBitmap): Promise<string> {
-  // Placeholder 1x1 PNG base64 (white pixel). Replace with real encoding if needed.
-  return 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+P+/HgAFhAJ/wlseKgAAAABJRU5ErkJggg==';
+    // Placeholder 1x1 PNG base64 (white pixel). Replace with real encoding if needed.
+    return 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+P+/HgAFhAJ/wlseKgAAAABJRU5ErkJggg==';
   }
 
   // Check if two bitmaps are different
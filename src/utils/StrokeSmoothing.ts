@@ -0,0 +1,260 @@
+/**
+ * StrokeSmoothing - Turns raw touch samples into the points a brush stamps
+ *
+ * Samples go through an optional lazy-brush stabilizer, get a width from
+ * stylus pressure (or from speed when the device reports none), then are
+ * interpolated with Catmull-Rom or quadratic curves. Output points are whole
+ * bitmap pixels, so anything drawn from them (live preview and committed
+ * bitmap alike) covers the same pixels.
+ */
+
+export interface StrokeSample {
+  x: number;
+  y: number;
+  time: number; // ms
+  pressure?: number; // 0..1 where reported
+}
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  size: number; // Brush diameter here
+}
+
+export type StrokeCurve = 'catmull-rom' | 'quadratic' | 'linear';
+
+export interface StrokeOptions {
+  size: number; // Full brush diameter
+  curve?: StrokeCurve;
+  // Lazy-brush string length: the pen only moves once the pointer pulls
+  // further than this away (0 = off)
+  lazyRadius?: number;
+  // Thinnest the brush gets, as a fraction of size
+  minScale?: number;
+}
+
+const DEFAULT_MIN_SCALE = 0.35;
+// Size lost per px/ms of speed when there is no pressure
+const VELOCITY_THINNING = 0.5;
+// How quickly the speed-based size follows the pointer (0..1)
+const VELOCITY_SMOOTHING = 0.3;
+// Max distance between interpolated points
+const CURVE_STEP = 1;
+
+const distance = (a: { x: number; y: number }, b: { x: number; y: number }) =>
+  Math.hypot(b.x - a.x, b.y - a.y);
+
+type Segment4 = [StrokePoint, StrokePoint, StrokePoint, StrokePoint];
+type Segment3 = [StrokePoint, StrokePoint, StrokePoint];
+
+// Segment p1 -> p2 of the Catmull-Rom spline through p0..p3
+function catmullRomAt([p0, p1, p2, p3]: Segment4, t: number): StrokePoint {
+  const t2 = t * t;
+  const axis = (k: 'x' | 'y') =>
+    0.5 *
+    (2 * p1[k] +
+      (p2[k] - p0[k]) * t +
+      (2 * p0[k] - 5 * p1[k] + 4 * p2[k] - p3[k]) * t2 +
+      (3 * p1[k] - p0[k] - 3 * p2[k] + p3[k]) * t2 * t);
+  return {
+    x: axis('x'),
+    y: axis('y'),
+    size: p1.size + (p2.size - p1.size) * t,
+  };
+}
+
+function quadraticAt([from, control, to]: Segment3, t: number): StrokePoint {
+  const u = 1 - t;
+  const axis = (k: 'x' | 'y') =>
+    u * u * from[k] + 2 * u * t * control[k] + t * t * to[k];
+  return {
+    x: axis('x'),
+    y: axis('y'),
+    size: from.size + (to.size - from.size) * t,
+  };
+}
+
+const midpoint = (a: StrokePoint, b: StrokePoint): StrokePoint => ({
+  x: (a.x + b.x) / 2,
+  y: (a.y + b.y) / 2,
+  size: (a.size + b.size) / 2,
+});
+
+export class StrokeBuilder {
+  private readonly options: Required<StrokeOptions>;
+  // Stabilized, sized samples the curve passes through
+  private readonly controls: StrokePoint[] = [];
+  private pen: StrokeSample | null = null;
+  private lastSample: StrokeSample | null = null;
+  private pressureReported = false;
+  private lastEmitted: StrokePoint | null = null;
+
+  constructor(options: StrokeOptions) {
+    this.options = {
+      curve: 'catmull-rom',
+      lazyRadius: 0,
+      minScale: DEFAULT_MIN_SCALE,
+      ...options,
+    };
+  }
+
+  /** Feed a touch sample; returns the stroke points it settled */
+  add(sample: StrokeSample): StrokePoint[] {
+    const pen = this.stabilize(sample);
+    if (!pen) return [];
+    this.controls.push({ x: pen.x, y: pen.y, size: this.sizeFor(pen) });
+    this.lastSample = pen;
+
+    const c = this.controls;
+    const n = c.length;
+    if (n === 1) return this.emit([c[0]]);
+    switch (this.options.curve) {
+      case 'linear':
+        return this.emit([c[n - 1]]);
+      case 'quadratic':
+        // Curve between edge midpoints, bent towards the shared control
+        return n === 2
+          ? this.emit(this.line(c[0], midpoint(c[0], c[1])))
+          : this.emit(
+              this.quadratic([
+                midpoint(c[n - 3], c[n - 2]),
+                c[n - 2],
+                midpoint(c[n - 2], c[n - 1]),
+              ])
+            );
+      default:
+        // A Catmull-Rom segment needs the point after it
+        return n === 2
+          ? []
+          : this.emit(
+              this.catmullRom([
+                c[Math.max(0, n - 4)],
+                c[n - 3],
+                c[n - 2],
+                c[n - 1],
+              ])
+            );
+    }
+  }
+
+  /** End the stroke; returns the points still held back for the curve */
+  finish(): StrokePoint[] {
+    const c = this.controls;
+    const n = c.length;
+    if (n < 2 || this.options.curve === 'linear') return [];
+    if (this.options.curve === 'quadratic') {
+      return this.emit(this.line(midpoint(c[n - 2], c[n - 1]), c[n - 1]));
+    }
+    return this.emit(
+      this.catmullRom([c[Math.max(0, n - 3)], c[n - 2], c[n - 1], c[n - 1]])
+    );
+  }
+
+  // Lazy brush: the pen trails the pointer on a string of lazyRadius
+  private stabilize(sample: StrokeSample): StrokeSample | null {
+    const radius = this.options.lazyRadius;
+    if (!this.pen || radius <= 0) {
+      this.pen = sample;
+      return sample;
+    }
+    const d = distance(this.pen, sample);
+    if (d <= radius) return null;
+    const k = (d - radius) / d;
+    this.pen = {
+      ...sample,
+      x: this.pen.x + (sample.x - this.pen.x) * k,
+      y: this.pen.y + (sample.y - this.pen.y) * k,
+    };
+    return this.pen;
+  }
+
+  // Pressure where the device reports it, otherwise thinner when faster
+  private sizeFor(sample: StrokeSample): number {
+    const { size, minScale } = this.options;
+    const { pressure } = sample;
+    // Devices without pressure report a constant 0 or 1
+    if (pressure !== undefined && pressure > 0 && pressure < 1) {
+      this.pressureReported = true;
+    }
+    if (this.pressureReported) {
+      return size * (minScale + (1 - minScale) * (pressure ?? 1));
+    }
+    const prev = this.lastSample;
+    const prevSize = this.controls[this.controls.length - 1]?.size ?? size;
+    if (!prev) return size;
+    const dt = Math.max(1, sample.time - prev.time);
+    const speed = distance(prev, sample) / dt;
+    const target = size * Math.max(minScale, 1 - speed * VELOCITY_THINNING);
+    return prevSize + (target - prevSize) * VELOCITY_SMOOTHING;
+  }
+
+  private line(from: StrokePoint, to: StrokePoint): StrokePoint[] {
+    return this.sampleCurve(distance(from, to), (t) => ({
+      x: from.x + (to.x - from.x) * t,
+      y: from.y + (to.y - from.y) * t,
+      size: from.size + (to.size - from.size) * t,
+    }));
+  }
+
+  private quadratic(segment: Segment3): StrokePoint[] {
+    const [from, control, to] = segment;
+    const length = distance(from, control) + distance(control, to);
+    return this.sampleCurve(length, (t) => quadraticAt(segment, t));
+  }
+
+  private catmullRom(segment: Segment4): StrokePoint[] {
+    const length = distance(segment[1], segment[2]);
+    return this.sampleCurve(length, (t) => catmullRomAt(segment, t));
+  }
+
+  // Points at t in (0, 1], about CURVE_STEP apart
+  private sampleCurve(
+    length: number,
+    at: (t: number) => StrokePoint
+  ): StrokePoint[] {
+    const steps = Math.max(1, Math.ceil(length / CURVE_STEP));
+    return Array.from({ length: steps }, (_, i) => at((i + 1) / steps));
+  }
+
+  // Snap to whole pixels and drop repeats
+  private emit(points: StrokePoint[]): StrokePoint[] {
+    const out: StrokePoint[] = [];
+    for (const p of points) {
+      const point = { x: Math.round(p.x), y: Math.round(p.y), size: p.size };
+      const last = this.lastEmitted;
+      if (last && last.x === point.x && last.y === point.y) continue;
+      out.push(point);
+      this.lastEmitted = point;
+    }
+    return out;
+  }
+}
+
+export interface StrokePath {
+  d: string;
+  width: number;
+}
+
+/**
+ * SVG paths covering the pixels a brush stamps along the points: one path
+ * per run of equal stamp radius (see forEachStrokePixel), in bitmap pixels
+ * through pixel centres
+ */
+export function strokePaths(points: StrokePoint[]): StrokePath[] {
+  const paths: StrokePath[] = [];
+  let prev: StrokePoint | null = null;
+  for (const p of points) {
+    const width = 2 * Math.max(1, Math.floor(p.size / 2)) + 1;
+    const at = `${p.x + 0.5} ${p.y + 0.5}`;
+    const last = paths[paths.length - 1];
+    if (last && last.width === width) {
+      last.d += ` L ${at}`;
+    } else {
+      // A new run starts where the previous one ended; a lone point is a dot
+      const from = prev ? `${prev.x + 0.5} ${prev.y + 0.5}` : at;
+      paths.push({ d: `M ${from} L ${at}`, width });
+    }
+    prev = p;
+  }
+  return paths;
+}
@@ -0,0 +1,173 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import { rgbToHex } from './ColorUtils';
+import {
+  DEFAULT_SIMPLIFY_TOLERANCE,
+  loopsToPathData,
+  simplifyLoop,
+  traceContours,
+} from './ContourTracing';
+
+/**
+ * SvgExport - The user's artwork as a scalable SVG
+ *
+ * Paint is grouped into colour layers (nearby shades merged, so brush
+ * texture does not explode into thousands of shapes), each traced into
+ * paths. Layers are stacked biggest first, and every layer's shape also
+ * covers the smaller layers drawn over it, so neighbouring colours never
+ * leave hairline cracks between them. The template's outlines are traced
+ * the same way and drawn on top.
+ */
+
+export interface SvgExportOptions {
+  // Most colour layers kept; rarer shades join the closest kept layer
+  maxColors?: number;
+  simplifyTolerance?: number;
+}
+
+const DEFAULT_MAX_COLORS = 48;
+// Shades within one bucket (per channel) share a layer
+const BUCKET_BITS = 3;
+// Page pixels this light on every channel are unpainted paper
+const PAPER_THRESHOLD = 248;
+
+interface ColorLayer {
+  sums: [number, number, number];
+  area: number;
+  mask: Uint8Array | null;
+}
+
+const bucketOf = (data: Uint8Array, pi: number) =>
+  ((data[pi] >> BUCKET_BITS) << 10) |
+  ((data[pi + 1] >> BUCKET_BITS) << 5) |
+  (data[pi + 2] >> BUCKET_BITS);
+
+const meanColor = ({ sums, area }: ColorLayer) =>
+  rgbToHex(sums.map((s) => Math.round(s / area)) as [number, number, number]);
+
+function distance(a: ColorLayer, b: ColorLayer): number {
+  return Math.max(
+    ...a.sums.map((s, c) => Math.abs(s / a.area - b.sums[c] / b.area))
+  );
+}
+
+// Paint pixels grouped by colour bucket, biggest layers first, capped
+function colorLayers(
+  page: RgbaBitmap,
+  outline: Uint8Array | undefined,
+  maxColors: number
+): ColorLayer[] {
+  const { data } = page;
+  const pixels = page.width * page.height;
+  const buckets = new Map<number, ColorLayer>();
+  const bucketAt = new Int32Array(pixels).fill(-1);
+  for (let i = 0; i < pixels; i++) {
+    if (outline?.[i] === 1) continue;
+    const pi = i * 4;
+    if (
+      data[pi] >= PAPER_THRESHOLD &&
+      data[pi + 1] >= PAPER_THRESHOLD &&
+      data[pi + 2] >= PAPER_THRESHOLD
+    ) {
+      continue;
+    }
+    const bucket = bucketOf(data, pi);
+    let layer = buckets.get(bucket);
+    if (!layer) {
+      layer = { sums: [0, 0, 0], area: 0, mask: null };
+      buckets.set(bucket, layer);
+    }
+    layer.sums[0] += data[pi];
+    layer.sums[1] += data[pi + 1];
+    layer.sums[2] += data[pi + 2];
+    layer.area++;
+    bucketAt[i] = bucket;
+  }
+
+  const ranked = [...buckets.entries()].sort((a, b) => b[1].area - a[1].area);
+  const kept = ranked.slice(0, maxColors).map(([, layer]) => layer);
+  // Each rare bucket joins the closest kept layer
+  const target = new Map<number, ColorLayer>();
+  for (const [bucket, layer] of ranked) {
+    let best = kept[0];
+    if (!kept.includes(layer)) {
+      for (const candidate of kept) {
+        if (distance(layer, candidate) < distance(layer, best)) {
+          best = candidate;
+        }
+      }
+    }
+    target.set(bucket, kept.includes(layer) ? layer : best);
+  }
+  for (const layer of kept) layer.mask = new Uint8Array(pixels);
+  for (let i = 0; i < pixels; i++) {
+    if (bucketAt[i] >= 0) target.get(bucketAt[i])!.mask![i] = 1;
+  }
+  return kept;
+}
+
+function tracedPath(
+  mask: Uint8Array,
+  page: RgbaBitmap,
+  tolerance: number
+): string {
+  const loops = traceContours(mask, page)
+    .map((loop) => simplifyLoop(loop, tolerance))
+    .filter((loop) => loop !== null);
+  return loopsToPathData(loops);
+}
+
+/**
+ * SVG document for a page (the flattened bitmap from exportBitmap), sized
+ * in bitmap pixels. `outline` (1 = template line, same size) is drawn as its
+ * own layer on top; without it, lines are traced like any other colour.
+ */
+export function artworkToSvg(
+  page: RgbaBitmap,
+  outline?: Uint8Array,
+  options: SvgExportOptions = {}
+): string {
+  const { width, height, data } = page;
+  const tolerance = options.simplifyTolerance ?? DEFAULT_SIMPLIFY_TOLERANCE;
+  const layers = colorLayers(
+    page,
+    outline,
+    options.maxColors ?? DEFAULT_MAX_COLORS
+  );
+
+  // Smallest first, so each layer's mask can take in the ones above it
+  const covered = new Uint8Array(width * height);
+  const paths: string[] = [];
+  for (let l = layers.length - 1; l >= 0; l--) {
+    const mask = layers[l].mask!;
+    for (let i = 0; i < mask.length; i++) covered[i] |= mask[i];
+    const d = tracedPath(covered, page, tolerance);
+    if (d) {
+      paths.unshift(
+        `<path fill="${meanColor(layers[l])}" fill-rule="evenodd" d="${d}"/>`
+      );
+    }
+  }
+
+  if (outline) {
+    // Lines keep the template's ink colour
+    const ink: ColorLayer = { sums: [0, 0, 0], area: 0, mask: outline };
+    for (let i = 0; i < outline.length; i++) {
+      if (outline[i] !== 1) continue;
+      for (let c = 0; c < 3; c++) ink.sums[c] += data[i * 4 + c];
+      ink.area++;
+    }
+    const d = ink.area > 0 ? tracedPath(outline, page, tolerance) : '';
+    if (d) {
+      paths.push(
+        `<path fill="${meanColor(ink)}" fill-rule="evenodd" d="${d}"/>`
+      );
+    }
+  }
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="${width}" height="${height}" fill="#FFFFFF"/>`,
+    ...paths,
+    '</svg>',
+  ].join('\n');
+}
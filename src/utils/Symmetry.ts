@@ -0,0 +1,136 @@
+import type { EnginePoint } from './ColoringEngine';
+
+/**
+ * Symmetry - Mirrored positions for symmetry painting
+ *
+ * A symmetry mode maps one touch to every position it is repeated at:
+ * mirrored across a vertical or horizontal axis, across both (quad), or
+ * rotated into N equal slices around a centre (radial). The axes cross at
+ * `center`, in bitmap pixels, so the user can drag them onto the picture's
+ * own middle. The first transform is always the identity.
+ */
+
+export type SymmetryKind = 'vertical' | 'horizontal' | 'quad' | 'radial';
+
+export interface SymmetrySpec {
+  kind: SymmetryKind;
+  center: EnginePoint; // Where the axes cross
+  segments?: number; // Radial only: copies around the centre
+}
+
+export type SymmetryTransform = (point: EnginePoint) => EnginePoint;
+
+export const DEFAULT_RADIAL_SEGMENTS = 6;
+export const MIN_RADIAL_SEGMENTS = 2;
+export const MAX_RADIAL_SEGMENTS = 12;
+
+function rotation(center: EnginePoint, angle: number): SymmetryTransform {
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  return ({ x, y }) => {
+    const dx = x - center.x;
+    const dy = y - center.y;
+    return {
+      x: center.x + dx * cos - dy * sin,
+      y: center.y + dx * sin + dy * cos,
+    };
+  };
+}
+
+/** Every transform of the mode, identity first */
+export function symmetryTransforms(spec: SymmetrySpec): SymmetryTransform[] {
+  const { x: cx, y: cy } = spec.center;
+  const identity: SymmetryTransform = (p) => p;
+  const flipX: SymmetryTransform = ({ x, y }) => ({ x: 2 * cx - x, y });
+  const flipY: SymmetryTransform = ({ x, y }) => ({ x, y: 2 * cy - y });
+  switch (spec.kind) {
+    case 'vertical':
+      return [identity, flipX];
+    case 'horizontal':
+      return [identity, flipY];
+    case 'quad':
+      return [identity, flipX, flipY, (p) => flipX(flipY(p))];
+    case 'radial': {
+      const segments = Math.min(
+        MAX_RADIAL_SEGMENTS,
+        Math.max(
+          MIN_RADIAL_SEGMENTS,
+          Math.round(spec.segments ?? DEFAULT_RADIAL_SEGMENTS)
+        )
+      );
+      return Array.from({ length: segments }, (_, k) =>
+        k === 0 ? identity : rotation(spec.center, (2 * Math.PI * k) / segments)
+      );
+    }
+    default:
+      return [identity];
+  }
+}
+
+/**
+ * Whole-pixel positions a tap is repeated at inside a width x height page,
+ * the tap itself first, each with the transform that took it there. Copies
+ * that land on an earlier copy's pixel (on an axis) or off the page are
+ * dropped.
+ */
+export function mirroredTaps(
+  point: EnginePoint,
+  { spec, width, height }: { spec: SymmetrySpec; width: number; height: number }
+): { point: EnginePoint; transform: SymmetryTransform }[] {
+  const seen = new Set<number>();
+  const taps: { point: EnginePoint; transform: SymmetryTransform }[] = [];
+  for (const transform of symmetryTransforms(spec)) {
+    const p = transform(point);
+    const x = Math.round(p.x);
+    const y = Math.round(p.y);
+    if (x < 0 || y < 0 || x >= width || y >= height) continue;
+    if (seen.has(y * width + x)) continue;
+    seen.add(y * width + x);
+    taps.push({ point: { x, y }, transform });
+  }
+  return taps;
+}
+
+/** Map a point list through a transform, keeping any other fields */
+export function transformPoints<T extends EnginePoint>(
+  points: T[],
+  transform: SymmetryTransform
+): T[] {
+  return points.map((point) => ({ ...point, ...transform(point) }));
+}
+
+/**
+ * Axis segments to draw over a width x height page, as [from, to] pairs in
+ * bitmap pixels: the mirror lines, or one spoke per radial slice
+ */
+export function symmetryGuides(
+  spec: SymmetrySpec,
+  { width, height }: { width: number; height: number }
+): [EnginePoint, EnginePoint][] {
+  const { x: cx, y: cy } = spec.center;
+  const vertical: [EnginePoint, EnginePoint] = [
+    { x: cx, y: 0 },
+    { x: cx, y: height },
+  ];
+  const horizontal: [EnginePoint, EnginePoint] = [
+    { x: 0, y: cy },
+    { x: width, y: cy },
+  ];
+  switch (spec.kind) {
+    case 'vertical':
+      return [vertical];
+    case 'horizontal':
+      return [horizontal];
+    case 'quad':
+      return [vertical, horizontal];
+    default: {
+      // Spokes long enough to leave the page from any centre
+      const reach = Math.hypot(width, height);
+      const tip = { x: cx, y: cy - reach };
+      return symmetryTransforms(spec).map((transform) => [
+        spec.center,
+        transform(tip),
+      ]);
+    }
+  }
+}
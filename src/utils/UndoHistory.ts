@@ -0,0 +1,461 @@
+import { asciiToJson, jsonToAscii } from './AsciiJson';
+import type { EngineSnapshot } from './ColoringEngine';
+
+/**
+ * UndoHistory - Undo/redo as compressed diffs under a memory budget
+ *
+ * Only the current engine snapshot is kept whole. Each step stores the
+ * dirty rectangle of every pixel plane it changed, XORed against the state
+ * before: applying the same diff undoes and redoes it. XOR leaves unchanged
+ * pixels zero, so run-length encoding squeezes the rectangles well. Steps
+ * that change the data's shape (layers added, removed, merged) store both
+ * states whole, compressed the same way. The oldest steps are dropped first
+ * once the budget is exceeded; the first snapshot is kept for clear().
+ *
+ * serialize() writes the history to bytes for keeping on disk: a length,
+ * an ASCII JSON header with the states' metadata, then the encoded planes
+ * the header points into. Only the newest steps are written, within limits.
+ */
+
+export const DEFAULT_HISTORY_BUDGET = 24 * 1024 * 1024;
+
+// A run of pixels in a snapshot's data: a page (4 bytes per pixel), a mask
+// (1 byte per pixel), ...
+interface Plane {
+  offset: number;
+  bytesPerPixel: number;
+}
+
+interface Rect {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface PlaneDiff {
+  plane: number;
+  rect: Rect;
+  xor: Uint8Array; // Run-length encoded
+}
+
+type Meta = Omit<EngineSnapshot, 'data'>;
+
+/** Caps on a serialized history; the newest steps are kept */
+export interface SavedHistoryLimits {
+  steps: number;
+  bytes: number;
+}
+
+const SAVED_VERSION = 1;
+
+// Offset and length of an encoded plane after a serialized header
+type BlobRef = [number, number];
+
+interface SavedPacked {
+  meta: Meta;
+  length: number;
+  data: BlobRef;
+}
+
+type SavedStep =
+  | {
+      kind: 'diff';
+      before: Meta;
+      after: Meta;
+      planes: { plane: number; rect: Rect; xor: BlobRef }[];
+    }
+  | { kind: 'swap'; before: SavedPacked; after: SavedPacked };
+
+interface SavedHeader {
+  version: number;
+  index: number;
+  first: SavedPacked;
+  current: SavedPacked;
+  steps: SavedStep[];
+}
+
+type Step =
+  | { kind: 'diff'; before: Meta; after: Meta; planes: PlaneDiff[] }
+  | { kind: 'swap'; before: Packed; after: Packed };
+
+interface Packed {
+  meta: Meta;
+  data: Uint8Array; // Run-length encoded
+  length: number;
+}
+
+function planesOf(snapshot: EngineSnapshot): Plane[] {
+  const pixels = snapshot.width * snapshot.height;
+  const paint = snapshot.layers?.layers.filter((l) => l.kind !== 'outline');
+  if (!paint) {
+    return [{ offset: 0, bytesPerPixel: snapshot.data.length / pixels }];
+  }
+  // PaintLayerStack.encode: each layer's page, then its marks
+  return paint.flatMap((_, l) => [
+    { offset: l * pixels * 5, bytesPerPixel: 4 },
+    { offset: l * pixels * 5 + pixels * 4, bytesPerPixel: 1 },
+  ]);
+}
+
+function sameShape(a: EngineSnapshot, b: EngineSnapshot): boolean {
+  if (a.width !== b.width || a.height !== b.height) return false;
+  if (a.data.length !== b.data.length) return false;
+  const pa = planesOf(a);
+  const pb = planesOf(b);
+  return (
+    pa.length === pb.length &&
+    pa.every(
+      (p, i) =>
+        p.offset === pb[i].offset && p.bytesPerPixel === pb[i].bytesPerPixel
+    )
+  );
+}
+
+function metaOf({ data: _data, ...meta }: EngineSnapshot): Meta {
+  return meta;
+}
+
+/**
+ * Run-length encode in units of `unit` bytes: a run count byte (1-255)
+ * then the repeated unit
+ */
+export function encodeRuns(data: Uint8Array, unit: number): Uint8Array {
+  // Worst case: every unit its own run
+  const out = new Uint8Array((data.length / unit) * (unit + 1));
+  let o = 0;
+  let i = 0;
+  while (i < data.length) {
+    let run = 1;
+    let next = i + unit;
+    while (run < 255 && next < data.length) {
+      let same = true;
+      for (let c = 0; c < unit && same; c++)
+        same = data[next + c] === data[i + c];
+      if (!same) break;
+      run++;
+      next += unit;
+    }
+    out[o++] = run;
+    out.set(data.subarray(i, i + unit), o);
+    o += unit;
+    i = next;
+  }
+  return out.slice(0, o);
+}
+
+export function decodeRuns(
+  encoded: Uint8Array,
+  { unit, length }: { unit: number; length: number }
+): Uint8Array {
+  const out = new Uint8Array(length);
+  let o = 0;
+  for (let i = 0; i < encoded.length; i += unit + 1) {
+    const value = encoded.subarray(i + 1, i + 1 + unit);
+    for (let r = encoded[i]; r > 0; r--) {
+      out.set(value, o);
+      o += unit;
+    }
+  }
+  return out;
+}
+
+function pack(snapshot: EngineSnapshot): Packed {
+  return {
+    meta: metaOf(snapshot),
+    data: encodeRuns(snapshot.data, 4),
+    length: snapshot.data.length,
+  };
+}
+
+function unpack({ meta, data, length }: Packed): EngineSnapshot {
+  return { ...meta, data: decodeRuns(data, { unit: 4, length }) };
+}
+
+// Dirty rectangle of a plane, XORed and encoded; null when it is unchanged
+function diffPlane(
+  [a, b]: [Uint8Array, Uint8Array],
+  plane: Plane,
+  size: { width: number; height: number }
+): Omit<PlaneDiff, 'plane'> | null {
+  const { offset, bytesPerPixel: bpp } = plane;
+  const { width, height } = size;
+  let rect: Rect | null = null;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = offset + (y * width + x) * bpp;
+      let differs = false;
+      for (let c = 0; c < bpp && !differs; c++) differs = a[p + c] !== b[p + c];
+      if (!differs) continue;
+      if (!rect) rect = { minX: x, minY: y, maxX: x, maxY: y };
+      rect.minX = Math.min(rect.minX, x);
+      rect.maxX = Math.max(rect.maxX, x);
+      rect.maxY = y;
+    }
+  }
+  if (!rect) return null;
+  const rowBytes = (rect.maxX - rect.minX + 1) * bpp;
+  const xor = new Uint8Array(rowBytes * (rect.maxY - rect.minY + 1));
+  for (let y = rect.minY; y <= rect.maxY; y++) {
+    const p = offset + (y * width + rect.minX) * bpp;
+    const k = (y - rect.minY) * rowBytes;
+    for (let c = 0; c < rowBytes; c++) xor[k + c] = a[p + c] ^ b[p + c];
+  }
+  return { rect, xor: encodeRuns(xor, bpp) };
+}
+
+function xorPlane(
+  data: Uint8Array,
+  { plane, diff, width }: { plane: Plane; diff: PlaneDiff; width: number }
+): void {
+  const { offset, bytesPerPixel: bpp } = plane;
+  const { rect } = diff;
+  const rowBytes = (rect.maxX - rect.minX + 1) * bpp;
+  const rows = rect.maxY - rect.minY + 1;
+  const xor = decodeRuns(diff.xor, { unit: bpp, length: rowBytes * rows });
+  for (let y = rect.minY; y <= rect.maxY; y++) {
+    const p = offset + (y * width + rect.minX) * bpp;
+    const k = (y - rect.minY) * rowBytes;
+    for (let c = 0; c < rowBytes; c++) data[p + c] ^= xor[k + c];
+  }
+}
+
+export class UndoHistory {
+  private current: EngineSnapshot | null = null;
+  private first: Packed | null = null;
+  private steps: Step[] = [];
+  private sizes: number[] = [];
+  // Steps applied to `current`; the rest can be redone
+  private index = 0;
+
+  constructor(private readonly budget: number = DEFAULT_HISTORY_BUDGET) {}
+
+  /** Start over from a freshly loaded state */
+  reset(snapshot: EngineSnapshot): void {
+    this.current = snapshot;
+    this.first = pack(snapshot);
+    this.steps = [];
+    this.sizes = [];
+    this.index = 0;
+  }
+
+  get canUndo(): boolean {
+    return this.index > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.index < this.steps.length;
+  }
+
+  /** Bytes held: the current state, the first one and every step */
+  get bytes(): number {
+    const sizes = this.sizes.reduce((sum, size) => sum + size, 0);
+    return (
+      (this.current?.data.length ?? 0) + (this.first?.data.length ?? 0) + sizes
+    );
+  }
+
+  /** Record the state after an edit; anything undone is dropped */
+  push(snapshot: EngineSnapshot): void {
+    const previous = this.current;
+    this.current = snapshot;
+    if (!previous) {
+      this.reset(snapshot);
+      return;
+    }
+    this.steps.length = this.index;
+    this.sizes.length = this.index;
+    const step = this.stepBetween(previous, snapshot);
+    this.steps.push(step);
+    this.sizes.push(stepSize(step));
+    this.index++;
+    while (
+      this.bytes > this.budget &&
+      this.steps.length > 0 &&
+      this.index > 0
+    ) {
+      this.steps.shift();
+      this.sizes.shift();
+      this.index--;
+    }
+  }
+
+  /** Step back; the state to restore and the layer the step changed */
+  undo(): { snapshot: EngineSnapshot; layer?: string } | null {
+    if (!this.canUndo || !this.current) return null;
+    const step = this.steps[--this.index];
+    const layer = (step.kind === 'diff' ? step.after : step.after.meta).layer;
+    this.current = this.apply(step, 'before');
+    return { snapshot: this.current, layer };
+  }
+
+  /** Step forward again; as undo() */
+  redo(): { snapshot: EngineSnapshot; layer?: string } | null {
+    if (!this.canRedo || !this.current) return null;
+    const step = this.steps[this.index++];
+    this.current = this.apply(step, 'after');
+    return { snapshot: this.current, layer: this.current.layer };
+  }
+
+  /** The state history started from (the fresh template) */
+  firstSnapshot(): EngineSnapshot | null {
+    return this.first ? unpack(this.first) : null;
+  }
+
+  /** Whether history began at this state (a saved one, the same template) */
+  startsFrom(snapshot: EngineSnapshot): boolean {
+    const first = this.first;
+    if (!first) return false;
+    const { engineId, width, height } = first.meta;
+    if (
+      engineId !== snapshot.engineId ||
+      width !== snapshot.width ||
+      height !== snapshot.height ||
+      first.length !== snapshot.data.length
+    )
+      return false;
+    const data = encodeRuns(snapshot.data, 4);
+    return (
+      data.length === first.data.length &&
+      data.every((byte, i) => byte === first.data[i])
+    );
+  }
+
+  /** The state undo and redo last arrived at */
+  currentSnapshot(): EngineSnapshot | null {
+    return this.current;
+  }
+
+  /** The history as bytes, newest steps first to fit `limits` */
+  serialize(limits: SavedHistoryLimits): Uint8Array {
+    if (!this.current || !this.first) return new Uint8Array(0);
+    // Redo steps are dropped first, then the oldest undo steps
+    let from = 0;
+    let to = this.steps.length;
+    let bytes = this.sizes.reduce((sum, size) => sum + size, 0);
+    while (to > from && (to - from > limits.steps || bytes > limits.bytes)) {
+      bytes -= to > this.index ? this.sizes[--to] : this.sizes[from++];
+    }
+    const blobs: Uint8Array[] = [];
+    let offset = 0;
+    const add = (data: Uint8Array): BlobRef => {
+      blobs.push(data);
+      offset += data.length;
+      return [offset - data.length, data.length];
+    };
+    const savePacked = (packed: Packed): SavedPacked => ({
+      meta: packed.meta,
+      length: packed.length,
+      data: add(packed.data),
+    });
+    const header: SavedHeader = {
+      version: SAVED_VERSION,
+      index: this.index - from,
+      first: savePacked(this.first),
+      current: savePacked(pack(this.current)),
+      steps: this.steps.slice(from, to).map((step) =>
+        step.kind === 'swap'
+          ? {
+              kind: 'swap',
+              before: savePacked(step.before),
+              after: savePacked(step.after),
+            }
+          : {
+              ...step,
+              planes: step.planes.map((p) => ({ ...p, xor: add(p.xor) })),
+            }
+      ),
+    };
+    const json = jsonToAscii(JSON.stringify(header));
+    const out = new Uint8Array(4 + json.length + offset);
+    new DataView(out.buffer).setUint32(0, json.length, true);
+    out.set(json, 4);
+    let at = 4 + json.length;
+    for (const blob of blobs) {
+      out.set(blob, at);
+      at += blob.length;
+    }
+    return out;
+  }
+
+  /** A history back from serialize(); null if the bytes are not one */
+  static deserialize(
+    data: Uint8Array,
+    budget: number = DEFAULT_HISTORY_BUDGET
+  ): UndoHistory | null {
+    try {
+      const length = new DataView(
+        data.buffer,
+        data.byteOffset,
+        data.byteLength
+      ).getUint32(0, true);
+      const header = JSON.parse(
+        asciiToJson(data.subarray(4, 4 + length))
+      ) as SavedHeader;
+      if (header.version !== SAVED_VERSION) return null;
+      const body = data.subarray(4 + length);
+      const blob = ([at, size]: BlobRef) => body.slice(at, at + size);
+      const loadPacked = (saved: SavedPacked): Packed => ({
+        meta: saved.meta,
+        length: saved.length,
+        data: blob(saved.data),
+      });
+      const history = new UndoHistory(budget);
+      history.first = loadPacked(header.first);
+      history.current = unpack(loadPacked(header.current));
+      history.steps = header.steps.map(
+        (step): Step =>
+          step.kind === 'swap'
+            ? {
+                kind: 'swap',
+                before: loadPacked(step.before),
+                after: loadPacked(step.after),
+              }
+            : {
+                ...step,
+                planes: step.planes.map((p) => ({ ...p, xor: blob(p.xor) })),
+              }
+      );
+      history.sizes = history.steps.map(stepSize);
+      history.index = Math.min(header.index, history.steps.length);
+      return history;
+    } catch {
+      return null;
+    }
+  }
+
+  private stepBetween(before: EngineSnapshot, after: EngineSnapshot): Step {
+    if (!sameShape(before, after)) {
+      return { kind: 'swap', before: pack(before), after: pack(after) };
+    }
+    const planes: PlaneDiff[] = [];
+    planesOf(after).forEach((plane, index) => {
+      const diff = diffPlane([before.data, after.data], plane, after);
+      if (diff) planes.push({ ...diff, plane: index });
+    });
+    return {
+      kind: 'diff',
+      before: metaOf(before),
+      after: metaOf(after),
+      planes,
+    };
+  }
+
+  // XOR is its own inverse, so both directions apply the same bytes
+  private apply(step: Step, to: 'before' | 'after'): EngineSnapshot {
+    if (step.kind === 'swap') return unpack(step[to]);
+    const current = this.current!;
+    const data = current.data.slice();
+    const planes = planesOf(current);
+    for (const diff of step.planes) {
+      xorPlane(data, { plane: planes[diff.plane], diff, width: current.width });
+    }
+    return { ...step[to], data };
+  }
+}
+
+function stepSize(step: Step): number {
+  if (step.kind === 'swap')
+    return step.before.data.length + step.after.data.length;
+  return step.planes.reduce((sum, p) => sum + p.xor.length, 0);
+}
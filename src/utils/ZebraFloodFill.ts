@@ -6,6 +6,8 @@
  * that works reliably in the reference Android coloring app.
  */
 
+import { argbToHex, hexToArgb } from './ColorUtils';
+
 export interface Point {
   x: number;
   y: number;
@@ -412,25 +414,13 @@ export class ZebraFloodFill {
    * Convert hex color to ARGB integer
    */
   static hexToArgb(hex: string): number {
-    const cleanHex = hex.replace('#', '');
-    const r = parseInt(cleanHex.substr(0, 2), 16);
-    const g = parseInt(cleanHex.substr(2, 2), 16);
-    const b = parseInt(cleanHex.substr(4, 2), 16);
-
-    return (0xff << 24) | (r << 16) | (g << 8) | b;
+    return hexToArgb(hex);
   }
 
   /**
    * Convert ARGB integer to hex color
    */
   static argbToHex(argb: number): string {
-    const r = (argb >> 16) & 0xff;
-    const g = (argb >> 8) & 0xff;
-    const b = argb & 0xff;
-
-    return (
-      '#' +
-      ((1 << 24) + (r << 16) + (g << 8) + b).toString(16).slice(1).toUpperCase()
-    );
+    return argbToHex(argb);
   }
 }
@@ -8,16 +8,37 @@
  * Based on the Android zebra-paint implementation by Peter Dornbach
  */
 
+import { regionColors, regionsToReplace } from './ColorReplace';
+import { argbToRgba, hexToArgb, rgbaToArgb } from './ColorUtils';
+import {
+  AUTO_SEAL_MAX_GAP,
+  type FillPreview,
+  previewRegionFill,
+} from './FillLeakGuard';
+import { closeOutlineGaps } from './GapClosing';
+import { createGradientSampler, type GradientSpec } from './GradientFill';
+import {
+  BRUSH_PRESETS,
+  forEachBrushDab,
+  mixPigment,
+  type NaturalStroke,
+} from './NaturalBrush';
+import { createPatternSampler, type PatternSpec } from './PatternFill';
+import { labelRegions, type RegionMap, regionPixels } from './RegionLabeling';
+
 export interface ZebraPaintState {
   width: number;
   height: number;
   outlineImageData: ImageData; // Black outlines with alpha
   paintImageData: ImageData; // White canvas for painting
   paintMask: Uint8Array; // 1 = fillable, 0 = boundary
-  workingMask: Uint8Array; // Working copy for flood fill
+  regions: RegionMap; // Fillable regions labeled once from paintMask
   pixels: Uint32Array; // ARGB pixel array for fast access
 }
 
+// Flat ARGB colour, or a per-pixel ARGB colour for gradient/pattern fills
+export type FillColor = number | ((x: number, y: number) => number);
+
 export class ZebraPaintEngine {
   private static readonly ALPHA_THRESHOLD = 224;
 
@@ -30,6 +51,18 @@ export class ZebraPaintEngine {
     width: number,
     height: number
   ): Promise<ZebraPaintState> {
+    const templateData = this.templatePixels(templateCanvas, width, height);
+    return this.createState(templateData, width, height);
+  }
+
+  /**
+   * RGBA pixels of the template scaled to the paint size (web only)
+   */
+  static templatePixels(
+    templateCanvas: HTMLCanvasElement,
+    width: number,
+    height: number
+  ): Uint8ClampedArray {
     const ctx = templateCanvas.getContext('2d');
     if (!ctx) {
       throw new Error('Could not get canvas context');
@@ -51,8 +84,18 @@ export class ZebraPaintEngine {
 
     // Draw template at the desired size
     processingCtx.drawImage(templateCanvas, 0, 0, width, height);
-    const resizedImageData = processingCtx.getImageData(0, 0, width, height);
+    return processingCtx.getImageData(0, 0, width, height).data;
+  }
 
+  /**
+   * Build the two-layer state straight from RGBA template pixels
+   * (no DOM needed, so this also works on native)
+   */
+  static createState(
+    templateData: ArrayLike<number>,
+    width: number,
+    height: number
+  ): ZebraPaintState {
     // Create the outline bitmap and paint mask
     const outlineData = new Uint8ClampedArray(width * height * 4);
     const paintMask = new Uint8Array(width * height);
@@ -61,13 +104,8 @@ export class ZebraPaintEngine {
     // Process each pixel to extract outlines and create mask
     for (let i = 0; i < n; i++) {
       const pixelIndex = i * 4;
-      const r = resizedImageData.data[pixelIndex];
-      const g = resizedImageData.data[pixelIndex + 1];
-      const b = resizedImageData.data[pixelIndex + 2];
-      const a = resizedImageData.data[pixelIndex + 3];
-
-      // Calculate brightness (zebra-paint uses green channel as approximation)
-      const brightness = r; // zebra-paint uses red channel for speed
+      // zebra-paint uses red channel as a brightness approximation for speed
+      const brightness = templateData[pixelIndex];
 
       // Create alpha channel based on brightness (darker = more opaque outline)
       const alpha = 255 - brightness;
@@ -86,75 +124,75 @@ export class ZebraPaintEngine {
       outlineData[pixelIndex + 3] = alpha; // A
     }
 
-    // Create outline ImageData
-    const outlineImageData = new ImageData(outlineData, width, height);
-
     // Create white paint canvas
-    const paintData = new Uint8ClampedArray(width * height * 4);
-    for (let i = 0; i < n; i++) {
-      const pixelIndex = i * 4;
-      paintData[pixelIndex] = 255; // R
-      paintData[pixelIndex + 1] = 255; // G
-      paintData[pixelIndex + 2] = 255; // B
-      paintData[pixelIndex + 3] = 255; // A
-    }
-    const paintImageData = new ImageData(paintData, width, height);
+    const paintData = new Uint8ClampedArray(n * 4).fill(255);
 
     // Create ARGB pixel array for fast flood fill operations
-    const pixels = new Uint32Array(n);
-    for (let i = 0; i < n; i++) {
-      pixels[i] = 0xffffffff; // White in ARGB format
-    }
-
-    // Create working mask copy
-    const workingMask = new Uint8Array(paintMask);
+    const pixels = new Uint32Array(n).fill(0xffffffff); // White in ARGB format
 
     return {
       width,
       height,
-      outlineImageData,
-      paintImageData,
+      outlineImageData: this.createImageData(outlineData, width, height),
+      paintImageData: this.createImageData(paintData, width, height),
       paintMask,
-      workingMask,
+      // Label regions once so each fill is a recolor by label
+      regions: labelRegions(paintMask, width, height),
       pixels,
     };
   }
 
+  /**
+   * Mark extra pixels as boundary (e.g. bridged outline gaps) and relabel
+   */
+  static blockPaintMask(state: ZebraPaintState, boundary: Uint8Array): void {
+    for (let i = 0; i < state.paintMask.length; i++) {
+      if (boundary[i] === 1) state.paintMask[i] = 0;
+    }
+    state.regions = labelRegions(state.paintMask, state.width, state.height);
+  }
+
+  // ImageData only exists in the DOM; on native a plain object carries the same fields
+  private static createImageData(
+    data: Uint8ClampedArray,
+    width: number,
+    height: number
+  ): ImageData {
+    if (typeof ImageData !== 'undefined') {
+      return new ImageData(data, width, height);
+    }
+    return { data, width, height, colorSpace: 'srgb' } as ImageData;
+  }
+
   /**
    * Perform flood fill on the paint canvas
-   * This is the exact algorithm from zebra-paint FloodFill.fillRaw
+   * Regions are precomputed, so this recolors the tapped region's pixels
+   * (same result as zebra-paint FloodFill.fillRaw on the paint mask).
+   * A colour function paints a gradient or pattern clipped to the region.
    */
   static floodFill(
     state: ZebraPaintState,
     x: number,
     y: number,
-    color: number // ARGB format
+    color: FillColor // ARGB format
   ): boolean {
     // Validate coordinates
     if (x < 0 || x >= state.width || y < 0 || y >= state.height) {
       return false;
     }
 
-    const startIndex = y * state.width + x;
-
-    // Check if the starting position can be painted
-    if (state.paintMask[startIndex] === 0) {
+    // Boundary pixels have no label and cannot be painted
+    const id = state.regions.labels[y * state.width + x];
+    if (id === 0) {
       return false;
     }
 
-    // Copy paint mask to working mask
-    state.workingMask.set(state.paintMask);
-
-    // Perform the flood fill using zebra-paint algorithm
-    this.fillRaw(
-      x,
-      y,
-      state.width,
-      state.height,
-      state.workingMask,
-      state.pixels,
-      color
-    );
+    for (const index of regionPixels(state.regions, id)) {
+      state.pixels[index] =
+        typeof color === 'number'
+          ? color
+          : color(index % state.width, Math.floor(index / state.width));
+    }
 
     // Update the paint ImageData
     this.updatePaintImageData(state);
@@ -162,16 +200,114 @@ export class ZebraPaintEngine {
     return true;
   }
 
+  /**
+   * Flood fill with a linear or radial gradient clipped to the region
+   * under `seed` (the gradient's own start/end can lie anywhere)
+   */
+  static gradientFill(
+    state: ZebraPaintState,
+    seed: { x: number; y: number },
+    gradient: GradientSpec
+  ): boolean {
+    const sample = createGradientSampler(gradient);
+    return this.floodFill(state, seed.x, seed.y, (px, py) =>
+      rgbaToArgb(sample(px, py))
+    );
+  }
+
+  /**
+   * Flood fill with a tiled pattern clipped to the region under `seed`
+   */
+  static patternFill(
+    state: ZebraPaintState,
+    seed: { x: number; y: number },
+    pattern: PatternSpec
+  ): boolean {
+    const sample = createPatternSampler(pattern);
+    return this.floodFill(state, seed.x, seed.y, (px, py) =>
+      rgbaToArgb(sample(px, py))
+    );
+  }
+
+  /**
+   * Recolour every region whose colour is close to the region under `seed`
+   * (see ColorReplace), all in one go
+   */
+  static replaceColor(
+    state: ZebraPaintState,
+    seed: { x: number; y: number },
+    paint: { color: number; tolerance?: number } // ARGB colour
+  ): boolean {
+    if (
+      seed.x < 0 ||
+      seed.x >= state.width ||
+      seed.y < 0 ||
+      seed.y >= state.height
+    ) {
+      return false;
+    }
+    const id = state.regions.labels[seed.y * state.width + seed.x];
+    if (id === 0) return false;
+    const colors = regionColors(
+      state.regions,
+      (i) => state.pixels[i] & 0xffffff
+    );
+    const ids = regionsToReplace(colors, id, {
+      fill: paint.color & 0xffffff,
+      tolerance: paint.tolerance,
+    });
+    for (const target of ids) {
+      for (const index of regionPixels(state.regions, target)) {
+        state.pixels[index] = paint.color;
+      }
+    }
+    if (ids.length > 0) this.updatePaintImageData(state);
+    return ids.length > 0;
+  }
+
+  /**
+   * What floodFill would cover at (x, y), without painting.
+   * Callers check `leaking` and ask the user before filling.
+   */
+  static previewFill(
+    state: ZebraPaintState,
+    x: number,
+    y: number
+  ): FillPreview | null {
+    if (x < 0 || x >= state.width || y < 0 || y >= state.height) {
+      return null;
+    }
+    const id = state.regions.labels[y * state.width + x];
+    return id === 0 ? null : previewRegionFill(state.regions, id);
+  }
+
+  /**
+   * Bridge wider outline gaps so a leaking fill stays inside its shape.
+   * Returns false when no gaps were found.
+   */
+  static sealGaps(state: ZebraPaintState): boolean {
+    const boundary = state.paintMask.map((m) => (m === 1 ? 0 : 1));
+    const { mask, bridges } = closeOutlineGaps(boundary, state, {
+      maxGap: AUTO_SEAL_MAX_GAP,
+    });
+    if (bridges.length === 0) return false;
+    this.blockPaintMask(state, mask);
+    return true;
+  }
+
   /**
    * Paint with brush at specified coordinates
-   * This allows freehand painting while respecting boundaries
+   * This allows freehand painting while respecting boundaries.
+   * With a lockRegion label the brush also stays inside that region
+   * ("stay inside the lines"); 0 paints every fillable pixel.
    */
   static paintBrush(
     state: ZebraPaintState,
     x: number,
     y: number,
     color: number, // ARGB format
-    brushSize: number = 8
+    brushSize: number = 8,
+    lockRegion: number = 0
   ): boolean {
     // Validate coordinates
     if (x < 0 || x >= state.width || y < 0 || y >= state.height) {
@@ -194,8 +330,12 @@ export class ZebraPaintEngine {
           if (distance <= radius) {
             const pixelIndex = py * state.width + px;
 
-            // Only paint if the pixel is not a boundary
-            if (state.paintMask[pixelIndex] === 1) {
+            // Only paint if the pixel is not a boundary (and in the locked region)
+            if (
+              state.paintMask[pixelIndex] === 1 &&
+              (lockRegion === 0 ||
+                state.regions.labels[pixelIndex] === lockRegion)
+            ) {
               state.pixels[pixelIndex] = color;
               pixelsPainted++;
             }
@@ -214,7 +354,36 @@ export class ZebraPaintEngine {
   }
 
   /**
-   * Paint a line between two points (for smooth brush strokes)
+   * Paint a natural-media brush stroke (see NaturalBrush), blending each dab
+   * into the paint layer; locked to one region like paintBrush
+   */
+  static paintDabs(
+    state: ZebraPaintState,
+    stroke: NaturalStroke,
+    paint: { color: number; lockRegion: number } // ARGB colour
+  ): boolean {
+    const ink = argbToRgba(paint.color);
+    const { glaze } = BRUSH_PRESETS[stroke.brush];
+    const { lockRegion } = paint;
+    let painted = false;
+    forEachBrushDab(state, stroke, (index, coverage) => {
+      if (state.paintMask[index] !== 1) return;
+      if (lockRegion !== 0 && state.regions.labels[index] !== lockRegion) {
+        return;
+      }
+      const under = argbToRgba(state.pixels[index]);
+      const next = rgbaToArgb(mixPigment(under, ink, { coverage, glaze }));
+      if (next === state.pixels[index]) return;
+      state.pixels[index] = next;
+      painted = true;
+    });
+    if (painted) this.updatePaintImageData(state);
+    return painted;
+  }
+
+  /**
+   * Paint a line between two points (for smooth brush strokes), optionally
+   * locked to one region like paintBrush
    */
   static paintLine(
     state: ZebraPaintState,
@@ -223,7 +392,8 @@ export class ZebraPaintEngine {
     x1: number,
     y1: number,
     color: number,
-    brushSize: number = 8
+    brushSize: number = 8,
+    lockRegion: number = 0
   ): boolean {
     const dx = Math.abs(x1 - x0);
     const dy = Math.abs(y1 - y0);
@@ -237,7 +407,7 @@ export class ZebraPaintEngine {
 
     while (true) {
       // Paint at current position
-      if (this.paintBrush(state, x, y, color, brushSize)) {
+      if (this.paintBrush(state, x, y, color, brushSize, lockRegion)) {
         painted = true;
       }
 
@@ -259,82 +429,10 @@ export class ZebraPaintEngine {
     return painted;
   }
 
-  /**
-   * Raw flood fill implementation - direct port from zebra-paint
-   */
-  private static fillRaw(
-    x: number,
-    y: number,
-    width: number,
-    height: number,
-    mask: Uint8Array,
-    pixels: Uint32Array,
-    color: number
-  ): void {
-    interface Point {
-      x: number;
-      y: number;
-    }
-
-    const queue: Point[] = [];
-    queue.push({ x, y });
-
-    while (queue.length > 0) {
-      const p = queue.shift()!;
-      let px1 = p.x;
-      let px2 = p.x;
-      const py = p.y;
-      const pp = py * width;
-
-      if (mask[pp + px1] !== 0) {
-        // Find the left edge
-        while (px1 >= 0 && mask[pp + px1] !== 0) {
-          px1--;
-        }
-        px1++;
-
-        // Find the right edge
-        while (px2 < width && mask[pp + px2] !== 0) {
-          px2++;
-        }
-
-        // Fill the line
-        for (let i = px1; i < px2; i++) {
-          pixels[pp + i] = color;
-          mask[pp + i] = 0; // Mark as filled
-        }
-
-        let prevMatchUp = false;
-        let prevMatchDn = false;
-        const ppUp = pp - width;
-        const ppDn = pp + width;
-
-        // Check neighbors above and below
-        for (let px = px1; px < px2; px++) {
-          if (py > 0) {
-            const matchUp = mask[ppUp + px] !== 0;
-            if (matchUp && !prevMatchUp) {
-              queue.push({ x: px, y: py - 1 });
-            }
-            prevMatchUp = matchUp;
-          }
-
-          if (py + 1 < height) {
-            const matchDn = mask[ppDn + px] !== 0;
-            if (matchDn && !prevMatchDn) {
-              queue.push({ x: px, y: py + 1 });
-            }
-            prevMatchDn = matchDn;
-          }
-        }
-      }
-    }
-  }
-
   /**
    * Update the paint ImageData from the ARGB pixel array
    */
-  private static updatePaintImageData(state: ZebraPaintState): void {
+  static updatePaintImageData(state: ZebraPaintState): void {
     const data = state.paintImageData.data;
 
     for (let i = 0; i < state.pixels.length; i++) {
@@ -371,11 +469,6 @@ export class ZebraPaintEngine {
    * Convert hex color to ARGB format
    */
   static hexToArgb(hex: string): number {
-    const cleanHex = hex.replace('#', '');
-    const r = parseInt(cleanHex.substr(0, 2), 16);
-    const g = parseInt(cleanHex.substr(2, 2), 16);
-    const b = parseInt(cleanHex.substr(4, 2), 16);
-
-    return (0xff << 24) | (r << 16) | (g << 8) | b;
+    return hexToArgb(hex);
   }
 }
@@ -0,0 +1,186 @@
+/**
+ * ZipArchive - Minimal zip files for project bundles
+ *
+ * Entries are stored uncompressed: bundles are mostly PNGs, which are
+ * already deflated, so compression would buy little and need a codec. The
+ * output opens in any unzip tool; reading accepts stored entries only,
+ * which covers every bundle the app writes. Names must be ASCII.
+ */
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array;
+}
+
+const LOCAL_HEADER = 0x04_03_4b_50;
+const CENTRAL_HEADER = 0x02_01_4b_50;
+const END_OF_DIRECTORY = 0x06_05_4b_50;
+const LOCAL_HEADER_SIZE = 30;
+const CENTRAL_HEADER_SIZE = 46;
+const END_SIZE = 22;
+const VERSION = 20; // 2.0: plain stored files
+const STORED = 0;
+
+let crcTable: Uint32Array | null = null;
+
+export function crc32(data: Uint8Array): number {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++)
+        c = c & 1 ? 0xed_b8_83_20 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = 0xff_ff_ff_ff;
+  for (let i = 0; i < data.length; i++) {
+    crc = crcTable[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xff_ff_ff_ff) >>> 0;
+}
+
+function asciiBytes(text: string): Uint8Array {
+  const out = new Uint8Array(text.length);
+  for (let i = 0; i < text.length; i++) out[i] = text.charCodeAt(i) & 0x7f;
+  return out;
+}
+
+// MS-DOS time and date words
+function dosDateTime(date: Date): { time: number; day: number } {
+  return {
+    time:
+      (date.getHours() << 11) |
+      (date.getMinutes() << 5) |
+      Math.floor(date.getSeconds() / 2),
+    day:
+      ((Math.max(1980, date.getFullYear()) - 1980) << 9) |
+      ((date.getMonth() + 1) << 5) |
+      date.getDate(),
+  };
+}
+
+/** Zip the entries, in order, stamped with `modified` */
+export function createZip(
+  entries: ZipEntry[],
+  modified: Date = new Date()
+): Uint8Array {
+  const { time, day } = dosDateTime(modified);
+  const names = entries.map((entry) => asciiBytes(entry.name));
+  const localSize = entries.reduce(
+    (sum, entry, i) =>
+      sum + LOCAL_HEADER_SIZE + names[i].length + entry.data.length,
+    0
+  );
+  const centralSize = names.reduce(
+    (sum, name) => sum + CENTRAL_HEADER_SIZE + name.length,
+    0
+  );
+  const out = new Uint8Array(localSize + centralSize + END_SIZE);
+  const view = new DataView(out.buffer);
+  const offsets: number[] = [];
+  const crcs = entries.map((entry) => crc32(entry.data));
+  let at = 0;
+
+  entries.forEach((entry, i) => {
+    offsets.push(at);
+    view.setUint32(at, LOCAL_HEADER, true);
+    view.setUint16(at + 4, VERSION, true);
+    view.setUint16(at + 8, STORED, true);
+    view.setUint16(at + 10, time, true);
+    view.setUint16(at + 12, day, true);
+    view.setUint32(at + 14, crcs[i], true);
+    view.setUint32(at + 18, entry.data.length, true);
+    view.setUint32(at + 22, entry.data.length, true);
+    view.setUint16(at + 26, names[i].length, true);
+    out.set(names[i], at + LOCAL_HEADER_SIZE);
+    at += LOCAL_HEADER_SIZE + names[i].length;
+    out.set(entry.data, at);
+    at += entry.data.length;
+  });
+
+  const directoryStart = at;
+  entries.forEach((entry, i) => {
+    view.setUint32(at, CENTRAL_HEADER, true);
+    view.setUint16(at + 4, VERSION, true);
+    view.setUint16(at + 6, VERSION, true);
+    view.setUint16(at + 10, STORED, true);
+    view.setUint16(at + 12, time, true);
+    view.setUint16(at + 14, day, true);
+    view.setUint32(at + 16, crcs[i], true);
+    view.setUint32(at + 20, entry.data.length, true);
+    view.setUint32(at + 24, entry.data.length, true);
+    view.setUint16(at + 28, names[i].length, true);
+    view.setUint32(at + 42, offsets[i], true);
+    out.set(names[i], at + CENTRAL_HEADER_SIZE);
+    at += CENTRAL_HEADER_SIZE + names[i].length;
+  });
+
+  view.setUint32(at, END_OF_DIRECTORY, true);
+  view.setUint16(at + 8, entries.length, true);
+  view.setUint16(at + 10, entries.length, true);
+  view.setUint32(at + 12, at - directoryStart, true);
+  view.setUint32(at + 16, directoryStart, true);
+  return out;
+}
+
+/**
+ * Files in a zip by name. Throws when the bytes are not a zip, an entry is
+ * compressed, or an entry fails its checksum.
+ */
+export function readZip(bytes: Uint8Array): Map<string, Uint8Array> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  // The end record sits last, after an optional comment of up to 64 KB
+  let end = -1;
+  const earliest = Math.max(0, bytes.length - END_SIZE - 0xff_ff);
+  for (let at = bytes.length - END_SIZE; at >= earliest; at--) {
+    if (view.getUint32(at, true) === END_OF_DIRECTORY) {
+      end = at;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip file');
+
+  const files = new Map<string, Uint8Array>();
+  const count = view.getUint16(end + 10, true);
+  let at = view.getUint32(end + 16, true);
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(at, true) !== CENTRAL_HEADER) {
+      throw new Error('Zip directory is damaged');
+    }
+    const method = view.getUint16(at + 10, true);
+    const crc = view.getUint32(at + 16, true);
+    const size = view.getUint32(at + 20, true);
+    const nameLength = view.getUint16(at + 28, true);
+    const extraLength = view.getUint16(at + 30, true);
+    const commentLength = view.getUint16(at + 32, true);
+    const offset = view.getUint32(at + 42, true);
+    const name = String.fromCharCode(
+      ...bytes.subarray(
+        at + CENTRAL_HEADER_SIZE,
+        at + CENTRAL_HEADER_SIZE + nameLength
+      )
+    );
+    at += CENTRAL_HEADER_SIZE + nameLength + extraLength + commentLength;
+    if (name.endsWith('/')) continue; // Folder
+    if (method !== STORED) {
+      throw new Error(
+        `Zip entry ${name} is compressed; only stored entries are supported`
+      );
+    }
+    if (view.getUint32(offset, true) !== LOCAL_HEADER) {
+      throw new Error(`Zip entry ${name} is damaged`);
+    }
+    const start =
+      offset +
+      LOCAL_HEADER_SIZE +
+      view.getUint16(offset + 26, true) +
+      view.getUint16(offset + 28, true);
+    const data = bytes.slice(start, start + size);
+    if (data.length !== size || crc32(data) !== crc) {
+      throw new Error(`Zip entry ${name} is damaged`);
+    }
+    files.set(name, data);
+  }
+  return files;
+}
@@ -0,0 +1,61 @@
+import {
+  buildColorByNumber,
+  checkFill,
+  completedRegions,
+  regionPole,
+} from './ColorByNumber';
+import { labelRegions } from './RegionLabeling';
+
+// 21x11 grid split into a wide left region and a narrow right one by a
+// vertical line at x = 14
+function twoRegions() {
+  const width = 21;
+  const height = 11;
+  const fillable = new Uint8Array(width * height).fill(1);
+  for (let y = 0; y < height; y++) fillable[y * width + 14] = 0;
+  return labelRegions(fillable, width, height);
+}
+
+function page(
+  map: ReturnType<typeof twoRegions>,
+  colorAt: (x: number) => number[]
+) {
+  const data = new Uint8Array(map.width * map.height * 4);
+  for (let i = 0; i < map.width * map.height; i++) {
+    data.set([...colorAt(i % map.width), 255], i * 4);
+  }
+  return { width: map.width, height: map.height, data };
+}
+
+describe('regionPole', () => {
+  it('finds the inside point furthest from the edges', () => {
+    // Every x in 5..8 on the middle row is 6 px from the nearest edge
+    const pole = regionPole(twoRegions(), 1);
+    expect(pole.y).toBe(5);
+    expect(pole.x).toBeGreaterThanOrEqual(5);
+    expect(pole.x).toBeLessThanOrEqual(8);
+    expect(pole.radius).toBe(6);
+  });
+});
+
+describe('buildColorByNumber', () => {
+  it('gives neighbouring regions different generated colours', () => {
+    const built = buildColorByNumber(twoRegions());
+    expect(built.regions).toHaveLength(2);
+    const [a, b] = built.numbers;
+    expect(a).not.toBe(b);
+    expect(checkFill(built, 1, built.palette[a - 1])).toBe('correct');
+    expect(checkFill(built, 1, built.palette[b - 1])).toBe('wrong');
+  });
+
+  it('takes numbers and palette from a reference colouring', () => {
+    const map = twoRegions();
+    const reference = page(map, (x) => (x < 14 ? [255, 0, 0] : [0, 0, 255]));
+    const built = buildColorByNumber(map, { reference });
+    expect(built.palette).toEqual(['#FF0000', '#0000FF']);
+    expect(built.numbers).toEqual([1, 2]);
+
+    const painted = page(map, (x) => (x < 14 ? [255, 0, 0] : [255, 255, 255]));
+    expect([...completedRegions(built, map, painted)]).toEqual([1]);
+  });
+});
@@ -0,0 +1,39 @@
+import { createColoringEngine } from './engines';
+
+// White page split into three boxes by vertical lines, framed by a border
+function threeBoxes() {
+  const width = 31;
+  const height = 11;
+  const data = new Uint8Array(width * height * 4).fill(255);
+  const ink = (x: number, y: number) =>
+    data.fill(0, (y * width + x) * 4, (y * width + x) * 4 + 3);
+  for (let x = 0; x < width; x++) {
+    ink(x, 0);
+    ink(x, height - 1);
+  }
+  for (let y = 0; y < height; y++) [0, 10, 20, 30].forEach((x) => ink(x, y));
+  return { width, height, data };
+}
+
+describe('replaceColorAt', () => {
+  it.each(['native-zebra', 'zebra-paint'])(
+    '%s recolours every region with the tapped colour',
+    (id) => {
+      const engine = createColoringEngine(id);
+      engine.loadTemplate(threeBoxes());
+      engine.fillAt({ x: 5, y: 5 }, '#FF0000');
+      engine.fillAt({ x: 15, y: 5 }, '#0000FF');
+      // Close enough to count as the same red
+      engine.fillAt({ x: 25, y: 5 }, '#F00808');
+
+      expect(engine.replaceColorAt?.({ x: 5, y: 5 }, '#00FF00')).toBe(true);
+      const page = engine.exportBitmap();
+      const rgb = (x: number) =>
+        Array.from(page.data.slice((5 * 31 + x) * 4, (5 * 31 + x) * 4 + 3));
+      expect(rgb(5)).toEqual([0, 255, 0]);
+      expect(rgb(15)).toEqual([0, 0, 255]);
+      expect(rgb(25)).toEqual([0, 255, 0]);
+      expect(engine.replaceColorAt?.({ x: 5, y: 5 }, '#00FF00')).toBe(false);
+    }
+  );
+});
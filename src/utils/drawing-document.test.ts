@@ -0,0 +1,147 @@
+import type { RgbaBitmap } from './ColoringEngine';
+import {
+  createDrawingDocument,
+  documentTimelapse,
+  DRAWING_DOCUMENT_VERSION,
+  type DrawingDocument,
+  parseDrawingDocument,
+  replayDrawingDocument,
+  scaleDrawingDocument,
+  serializeDrawingDocument,
+} from './DrawingDocument';
+import {
+  createInlineTransport,
+  PaintWorkerClient,
+} from './worker/PaintWorkerClient';
+import { TimelapseRecorder } from './worker/Timelapse';
+
+// White page split into two boxes by a vertical line, framed by a border
+function twoBoxes(size: number): RgbaBitmap {
+  const data = new Uint8Array(size * size * 4).fill(255);
+  const ink = (x: number, y: number) => {
+    const pi = (y * size + x) * 4;
+    data[pi] = data[pi + 1] = data[pi + 2] = 0;
+  };
+  for (let i = 0; i < size; i++) {
+    ink(i, 0);
+    ink(i, size - 1);
+    ink(0, i);
+    ink(size - 1, i);
+    ink(size / 2, i);
+  }
+  return { width: size, height: size, data };
+}
+
+function pixel(bitmap: RgbaBitmap, x: number, y: number): number[] {
+  const pi = (y * bitmap.width + x) * 4;
+  return Array.from(bitmap.data.slice(pi, pi + 4));
+}
+
+// Colour a page in the worker as the canvas does, recording each operation
+async function colouredSession(): Promise<{
+  page: RgbaBitmap;
+  document: DrawingDocument;
+}> {
+  const client = new PaintWorkerClient(createInlineTransport());
+  await client.load(twoBoxes(40), { engine: 'zebra-paint' });
+  const recorder = new TimelapseRecorder();
+  recorder.start();
+
+  const red = { kind: 'solid', color: '#FF0000' } as const;
+  await client.fill({ x: 10, y: 20 }, red);
+  recorder.record({ op: 'fill', point: { x: 10, y: 20 }, fill: red });
+  recorder.record({ op: 'commit' });
+
+  // Long enough for the worker to paint it in pieces
+  const stroke = {
+    points: Array.from({ length: 80 }, (_, i) => ({
+      x: 22 + (i % 14) + 0.3,
+      y: 3 + i * 0.4,
+    })),
+    size: 3,
+    brush: 'crayon' as const,
+  };
+  await client.stroke(stroke, '#0000FF');
+  recorder.record({ op: 'stroke', stroke, color: '#0000FF' });
+  recorder.record({ op: 'commit' });
+
+  const replace = { kind: 'replace', color: '#00FF00', tolerance: 10 } as const;
+  const last = await client.fill({ x: 10, y: 20 }, replace);
+  recorder.record({ op: 'fill', point: { x: 10, y: 20 }, fill: replace });
+
+  return {
+    page: last!.bitmap!,
+    document: createDrawingDocument({
+      template: { uri: 'file:///two-boxes.png', title: 'Two boxes' },
+      canvas: { width: 40, height: 40 },
+      engine: { id: 'zebra-paint', outlineRepair: false },
+      timelapse: recorder.timelapse(),
+    }),
+  };
+}
+
+describe('DrawingDocument', () => {
+  it('replays a saved document to the same bytes the session painted', async () => {
+    const { page, document } = await colouredSession();
+    const text = serializeDrawingDocument(document);
+    // One operation per line
+    expect(
+      text.split('\n').filter((line) => line.includes('"op"'))
+    ).toHaveLength(document.operations.length);
+
+    const replayed = replayDrawingDocument(parseDrawingDocument(text), {
+      template: twoBoxes(40),
+    });
+    expect(Buffer.from(replayed.data).equals(Buffer.from(page.data))).toBe(
+      true
+    );
+  });
+
+  it('re-renders at another resolution', async () => {
+    const { document } = await colouredSession();
+    const replayed = replayDrawingDocument(
+      scaleDrawingDocument(document, { width: 80, height: 80 }),
+      { template: twoBoxes(80) }
+    );
+    expect(pixel(replayed, 20, 40)).toEqual([0, 255, 0, 255]);
+    expect(pixel(replayed, 70, 76)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('rejects files from a newer version', () => {
+    const newer = JSON.stringify({
+      format: 'coloring',
+      version: DRAWING_DOCUMENT_VERSION + 1,
+    });
+    expect(() => parseDrawingDocument(newer)).toThrow(/newer/);
+    expect(() => parseDrawingDocument('{}')).toThrow(/Not a drawing/);
+  });
+});
+
+describe('reopened drawings', () => {
+  it('carry on recording after the saved operations', async () => {
+    const { document } = await colouredSession();
+    const last = document.operations[document.operations.length - 1];
+    let now = 5000;
+    const recorder = new TimelapseRecorder(() => now);
+    recorder.start(documentTimelapse(document));
+    now += 300;
+    recorder.record({ op: 'undo' });
+
+    const timelapse = recorder.timelapse();
+    expect(recorder.carriedOver).toBe(document.operations.length);
+    expect(timelapse.base).toBeUndefined();
+    expect(timelapse.events.slice(0, -1)).toEqual(document.operations);
+    expect(timelapse.events[timelapse.events.length - 1]).toEqual({
+      op: 'undo',
+      t: last.t + 300,
+    });
+    // Saved again, the whole drawing still re-renders at another size: the
+    // undo takes the left box back from green to red
+    const resaved = createDrawingDocument({ ...document, timelapse });
+    const replayed = replayDrawingDocument(
+      scaleDrawingDocument(resaved, { width: 80, height: 80 }),
+      { template: twoBoxes(80) }
+    );
+    expect(pixel(replayed, 20, 40)).toEqual([255, 0, 0, 255]);
+  });
+});
@@ -0,0 +1,128 @@
+import {
+  activeTimeMs,
+  colorsUsed,
+  copyName,
+  IDLE_GAP_MS,
+  legacyDrawing,
+  type LibraryDrawing,
+  searchDrawings,
+  sortDrawings,
+} from './DrawingLibrary';
+import type { TimelapseEvent } from './worker/Timelapse';
+
+const point = { x: 1, y: 1 };
+// Every kind of paint a drawing can use
+const OPERATIONS: TimelapseEvent[] = [
+  { op: 'fill', point, fill: { kind: 'solid', color: '#ff0000' }, t: 0 },
+  {
+    op: 'stroke',
+    stroke: { points: [point], size: 4 },
+    color: '#00FF00',
+    t: 10,
+  },
+  // Erasing adds no colour
+  { op: 'stroke', stroke: { points: [point], size: 4 }, t: 20 },
+  {
+    op: 'fill',
+    point,
+    fill: {
+      kind: 'gradient',
+      gradient: {
+        kind: 'linear',
+        start: point,
+        end: point,
+        stops: [
+          { offset: 0, color: '#FF0000' },
+          { offset: 1, color: '#0000FF' },
+        ],
+      },
+    },
+    t: 30,
+  },
+  {
+    op: 'fill',
+    point,
+    fill: { kind: 'pattern', pattern: { kind: 'dots', color: '#123456' } },
+    t: 40,
+  },
+  { op: 'undo', t: 50 },
+];
+
+function drawing(
+  id: string,
+  extra: Partial<LibraryDrawing> = {}
+): LibraryDrawing {
+  return {
+    id,
+    name: id,
+    createdAt: 0,
+    modifiedAt: 0,
+    timeSpentMs: 0,
+    colors: [],
+    ...extra,
+  };
+}
+
+describe('drawing library', () => {
+  it('collects colours from fills and strokes, first use first', () => {
+    expect(colorsUsed(OPERATIONS)).toEqual([
+      '#FF0000',
+      '#00FF00',
+      '#0000FF',
+      '#123456',
+      '#FFFFFF',
+    ]);
+  });
+
+  it('counts idle stretches as at most a minute of colouring', () => {
+    expect(activeTimeMs([])).toBe(0);
+    expect(
+      activeTimeMs([{ t: 0 }, { t: 5000 }, { t: 5000 + 10 * IDLE_GAP_MS }])
+    ).toBe(5000 + IDLE_GAP_MS);
+  });
+
+  it('sorts, searches by name, template or colour, and names copies', () => {
+    const list = [
+      drawing('a', { name: 'Cat 10', modifiedAt: 1, timeSpentMs: 5 }),
+      drawing('b', {
+        name: 'Cat 9',
+        modifiedAt: 3,
+        template: { uri: 'x.png', title: 'Jungle' },
+      }),
+      drawing('c', { name: 'Dog', modifiedAt: 2, colors: ['#AB12CD'] }),
+    ];
+    const ids = (drawings: LibraryDrawing[]) => drawings.map((d) => d.id);
+    expect(ids(sortDrawings(list, 'modified'))).toEqual(['b', 'c', 'a']);
+    expect(ids(sortDrawings(list, 'name'))).toEqual(['b', 'a', 'c']);
+    expect(ids(sortDrawings(list, 'time'))).toEqual(['a', 'b', 'c']);
+    expect(ids(searchDrawings(list, 'cat jungle'))).toEqual(['b']);
+    expect(ids(searchDrawings(list, 'ab12cd'))).toEqual(['c']);
+    expect(ids(searchDrawings(list, '  '))).toEqual(['a', 'b', 'c']);
+    expect(copyName('Dog', ['Dog (copy)'])).toBe('Dog (copy 2)');
+    expect(copyName('Dog (copy 2)', [])).toBe('Dog (copy)');
+  });
+
+  it('reads both shapes of the old AsyncStorage saves', () => {
+    const data = {
+      name: 'Drawing 1/2/2025',
+      createdAt: '2025-01-02T10:00:00.000Z',
+      strokes: [
+        { type: 'brush', color: '#FF6B6B' },
+        { type: 'eraser', color: '#FFFFFF' },
+      ],
+      fillRegions: [{ color: '#4ecdc4' }],
+    };
+    expect(legacyDrawing('drawing_1', { listed: 'drawing_1', data })).toEqual({
+      id: 'drawing_1',
+      name: 'Drawing 1/2/2025',
+      createdAt: Date.UTC(2025, 0, 2, 10),
+      modifiedAt: Date.UTC(2025, 0, 2, 10),
+      timeSpentMs: 0,
+      colors: ['#FF6B6B', '#4ECDC4'],
+    });
+    // Listed without its data: the id carries the time it was saved
+    expect(
+      legacyDrawing('drawing_1735812000000', { listed: { name: 'Old one' } })
+    ).toMatchObject({ name: 'Old one', createdAt: 1_735_812_000_000 });
+  });
+});
@@ -0,0 +1,238 @@
+import {
+  argbPixelsToRgba,
+  copyPixel,
+  createBlankBitmap,
+  forEachStrokePixel,
+  nearestPixel,
+  rgbaToArgbPixels,
+} from '../BitmapUtils';
+import { computeStrongBoundaryMask } from '../BoundaryMask';
+import type {
+  ColoringEngine,
+  EngineBrushStroke,
+  EnginePoint,
+  EngineSnapshot,
+  EngineStroke,
+  RgbaBitmap,
+} from '../ColoringEngine';
+import { hexToRgba, type Rgba, rgbToHex } from '../ColorUtils';
+import {
+  BRUSH_PRESETS,
+  forEachBrushDab,
+  isNaturalBrush,
+  mixPigment,
+  type NaturalStroke,
+} from '../NaturalBrush';
+import {
+  type LayerEdit,
+  type LayerStackInfo,
+  PaintLayerStack,
+} from '../PaintLayers';
+
+// Max distance (in pixels) the eyedropper looks past an outline for paint
+const SAMPLE_SEARCH_RADIUS = 4;
+
+/**
+ * Base class for adapters whose working state is an RGBA page.
+ *
+ * Keeps the untouched template for the eraser and implements snapshot,
+ * restore, export, brush and erase generically. Brush paint skips the
+ * template's dark lines (strong boundary mask). Subclasses provide the
+ * bucket fill and may derive further state in onTemplateLoaded().
+ *
+ * The page is one layer of a PaintLayerStack: the fill layer, except while
+ * a brush stroke or erase runs on the active layer. Exports composite all
+ * layers.
+ */
+export abstract class BitmapBackedEngine implements ColoringEngine {
+  abstract readonly id: string;
+  protected template: RgbaBitmap = createBlankBitmap(1, 1);
+  protected page: RgbaBitmap = createBlankBitmap(1, 1);
+  // 1 = template outline pixel that brush paint must leave alone
+  protected outlineMask: Uint8Array = new Uint8Array(1);
+  // 1 = extra boundary pixel from outline repair (bridged gaps)
+  protected outlineRepair: Uint8Array | null = null;
+  private readonly layers = new PaintLayerStack();
+  // Layer the last edit changed, for the next snapshot; fills by default
+  private changedLayer: string | null = null;
+
+  loadTemplate(template: RgbaBitmap, outlineRepair?: Uint8Array): void {
+    this.template = {
+      width: template.width,
+      height: template.height,
+      data: new Uint8Array(template.data),
+    };
+    this.outlineMask = computeStrongBoundaryMask(this.template);
+    this.layers.reset(this.template, this.outlineMask);
+    this.page = this.layers.fillLayer.page;
+    this.outlineRepair = outlineRepair ?? null;
+    this.onTemplateLoaded();
+  }
+
+  abstract fillAt(point: EnginePoint, color: string): boolean;
+
+  brushStroke(stroke: EngineBrushStroke): boolean {
+    return this.onActiveLayer(() => this.paintBrush(stroke));
+  }
+
+  /** Paint a brush stroke into the page (the active layer's) */
+  protected paintBrush(stroke: EngineBrushStroke): boolean {
+    const [r, g, b, a] = hexToRgba(stroke.color);
+    const data = this.page.data;
+    const { marks } = this.layers.activeLayer;
+    const inside = stroke.lockTo ? this.strokeClip(stroke.lockTo) : null;
+    const paintable = (index: number) => {
+      if (this.outlineMask[index] === 1 || (inside && !inside(index))) {
+        return false;
+      }
+      marks[index] = 1;
+      return true;
+    };
+    if (isNaturalBrush(stroke.brush)) {
+      const dabs = { ...stroke, brush: stroke.brush };
+      return this.paintDabs(dabs, [r, g, b, a], paintable);
+    }
+    let painted = false;
+    forEachStrokePixel(this.page, stroke, (index) => {
+      if (!paintable(index)) return;
+      const pi = index * 4;
+      data[pi] = r;
+      data[pi + 1] = g;
+      data[pi + 2] = b;
+      data[pi + 3] = a;
+      painted = true;
+    });
+    return painted;
+  }
+
+  // Natural-media brush: blend every dab into the page
+  private paintDabs(
+    stroke: NaturalStroke,
+    ink: Rgba,
+    paintable: (index: number) => boolean
+  ): boolean {
+    const { glaze } = BRUSH_PRESETS[stroke.brush];
+    const data = this.page.data;
+    let painted = false;
+    forEachBrushDab(this.page, stroke, (index, coverage) => {
+      if (!paintable(index)) return;
+      const pi = index * 4;
+      const under = Array.from(data.subarray(pi, pi + 4)) as Rgba;
+      const mixed = mixPigment(under, ink, { coverage, glaze });
+      if (mixed.every((v, c) => v === data[pi + c])) return;
+      data.set(mixed, pi);
+      painted = true;
+    });
+    return painted;
+  }
+
+  erase(stroke: EngineStroke): boolean {
+    return this.onActiveLayer(() => {
+      const { marks } = this.layers.activeLayer;
+      let erased = false;
+      forEachStrokePixel(this.page, stroke, (index) => {
+        copyPixel(this.template.data, this.page.data, index);
+        marks[index] = 0;
+        erased = true;
+      });
+      return erased;
+    });
+  }
+
+  // What the visible layers show there, over white paper
+  sampleColor(point: EnginePoint): string | null {
+    const index = nearestPixel(this.page, point, {
+      radius: SAMPLE_SEARCH_RADIUS,
+      accept: (i) => this.outlineMask[i] !== 1,
+    });
+    return index < 0 ? null : rgbToHex(this.layers.paintColorAt(index));
+  }
+
+  getLayers(): LayerStackInfo {
+    return this.layers.info();
+  }
+
+  editLayers(edit: LayerEdit): boolean {
+    const changed = this.layers.edit(edit);
+    // A merge can turn another layer into the fill layer
+    this.page = this.layers.fillLayer.page;
+    if (changed === null) return false;
+    if (edit.kind !== 'select') this.changedLayer = changed;
+    return true;
+  }
+
+  getOutlineMask(): Uint8Array {
+    return this.outlineMask;
+  }
+
+  snapshot(): EngineSnapshot {
+    const layer = this.changedLayer ?? this.layers.fillLayer.id;
+    this.changedLayer = null;
+    return {
+      engineId: this.id,
+      width: this.page.width,
+      height: this.page.height,
+      data: this.layers.encode(),
+      layers: this.layers.info(),
+      layer,
+    };
+  }
+
+  // Snapshots without layer info hold a single page; it becomes the fill layer
+  restore(snapshot: EngineSnapshot): void {
+    if (snapshot.layers) {
+      this.layers.decode(snapshot.layers, snapshot.data);
+    } else {
+      this.layers.decodePage(snapshot.data);
+    }
+    this.page = this.layers.fillLayer.page;
+    this.changedLayer = null;
+  }
+
+  exportBitmap(): RgbaBitmap {
+    return this.layers.composite();
+  }
+
+  // Run a brush edit with the page switched to the active layer
+  private onActiveLayer(paint: () => boolean): boolean {
+    const layer = this.layers.activeLayer;
+    this.page = layer.page;
+    try {
+      const changed = paint();
+      if (changed) this.changedLayer = layer.id;
+      return changed;
+    } finally {
+      this.page = this.layers.fillLayer.page;
+    }
+  }
+
+  /** Hook for subclasses to derive masks or backend state from the template */
+  protected onTemplateLoaded(): void {}
+
+  /**
+   * Pixels a region-locked brush stroke may paint, for the region under the
+   * point; null paints unclipped (no region labels to lock to)
+   */
+  protected strokeClip(
+    _lockTo: EnginePoint
+  ): ((index: number) => boolean) | null {
+    return null;
+  }
+
+  /** The page as packed ARGB, for backends that work Android style */
+  protected readArgbPixels(): Uint32Array {
+    return rgbaToArgbPixels(this.page.data);
+  }
+
+  /** Write ARGB pixels back into the page; true when anything changed */
+  protected commitArgbPixels(pixels: ArrayLike<number>): boolean {
+    const next = argbPixelsToRgba(pixels);
+    const data = this.page.data;
+    let changed = false;
+    for (let i = 0; i < next.length && !changed; i++) {
+      changed = next[i] !== data[i];
+    }
+    if (changed) data.set(next);
+    return changed;
+  }
+}
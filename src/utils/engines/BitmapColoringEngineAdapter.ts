@@ -0,0 +1,60 @@
+import { BitmapColoringEngine, type FillColor } from '../BitmapColoringEngine';
+import { argbPixelsToRgba, rgbaToArgbPixels } from '../BitmapUtils';
+import type { EnginePoint, RgbaBitmap } from '../ColoringEngine';
+import { hexToArgb, rgbaToArgb } from '../ColorUtils';
+import { createPatternSampler, type PatternSpec } from '../PatternFill';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+/**
+ * BitmapColoringEngineAdapter - BitmapColoringEngine behind the engine contract
+ *
+ * Like the Android app it is based on, the template is first reduced to pure
+ * black borders on white, so fills stop exactly at BORDER_COLOR pixels.
+ */
+export class BitmapColoringEngineAdapter extends BitmapBackedEngine {
+  readonly id: string = 'bitmap';
+
+  loadTemplate(template: RgbaBitmap, outlineRepair?: Uint8Array): void {
+    const binarized = BitmapColoringEngine.convertToColoringTemplate({
+      width: template.width,
+      height: template.height,
+      pixels: Array.from(rgbaToArgbPixels(template.data)),
+    });
+    super.loadTemplate(
+      {
+        width: template.width,
+        height: template.height,
+        data: argbPixelsToRgba(binarized.pixels),
+      },
+      outlineRepair
+    );
+  }
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    return this.fillWith(point, hexToArgb(color));
+  }
+
+  patternFillAt(point: EnginePoint, pattern: PatternSpec): boolean {
+    const sample = createPatternSampler(pattern);
+    return this.fillWith(point, (x, y) => rgbaToArgb(sample(x, y)));
+  }
+
+  private fillWith(point: EnginePoint, fill: FillColor): boolean {
+    const { width, height } = this.page;
+    const bitmap = {
+      width,
+      height,
+      pixels: Array.from(this.readArgbPixels()),
+    };
+    const seed = BitmapColoringEngine.findPaintableArea(
+      bitmap,
+      Math.floor(point.x),
+      Math.floor(point.y),
+      // Patterns have no single colour to skip (pixels are never -1)
+      typeof fill === 'number' ? fill : -1
+    );
+    if (!seed) return false;
+    const result = BitmapColoringEngine.floodFill(bitmap, seed.x, seed.y, fill);
+    return this.commitArgbPixels(result.pixels);
+  }
+}
@@ -0,0 +1,288 @@
+import { copyPixel } from '../BitmapUtils';
+import { computeBoundaryMask } from '../BoundaryMask';
+import type { EnginePoint } from '../ColoringEngine';
+import { regionColors, regionsToReplace } from '../ColorReplace';
+import { hexToRgba, type Rgba, rgbaToArgb } from '../ColorUtils';
+import {
+  AUTO_SEAL_MAX_GAP,
+  type FillPreview,
+  previewRegionFill,
+} from '../FillLeakGuard';
+import { closeOutlineGaps } from '../GapClosing';
+import { createGradientSampler, type GradientSpec } from '../GradientFill';
+import { createPatternSampler, type PatternSpec } from '../PatternFill';
+import {
+  labelRegions,
+  regionAt,
+  type RegionInfo,
+  type RegionMap,
+  regionMask,
+  regionPixels,
+} from '../RegionLabeling';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+/**
+ * NativeZebraEngine - The mask-aware bucket fill NativeZebraCanvas grew up with
+ *
+ * ZebraFloodFill leaked through anti-aliased lines on Android, so this engine
+ * computes a boundary mask once per template and labels the regions between
+ * the lines. A tap recolors the tapped region, then lightly seals the rim
+ * along the outlines.
+ */
+
+// Max distance (in pixels) to nudge a tap that landed on an outline
+const BOUNDARY_SEARCH_RADIUS = 5;
+// Fill is a no-op when the region is already this close to the fill colour
+const SAME_COLOR_TOLERANCE = 10;
+// Rim sealing never reaches further than this outside the region's bounds
+const RIM_MARGIN = 2;
+
+function toleranceTest(
+  target: Rgba,
+  tol: number
+): (data: Uint8Array, index: number) => boolean {
+  return (data, index) => {
+    const pi = index * 4;
+    return (
+      Math.abs(data[pi] - target[0]) <= tol &&
+      Math.abs(data[pi + 1] - target[1]) <= tol &&
+      Math.abs(data[pi + 2] - target[2]) <= tol &&
+      Math.abs(data[pi + 3] - target[3]) <= tol
+    );
+  };
+}
+
+function writePixel(data: Uint8Array, index: number, color: Rgba): void {
+  const pi = index * 4;
+  data[pi] = color[0];
+  data[pi + 1] = color[1];
+  data[pi + 2] = color[2];
+  data[pi + 3] = color[3];
+}
+
+type Bounds = RegionInfo['bounds'];
+
+export class NativeZebraEngine extends BitmapBackedEngine {
+  readonly id: string = 'native-zebra';
+  // Dilated boundary mask (1 = boundary/outline, 0 = fillable)
+  protected boundaryMask: Uint8Array = new Uint8Array(1);
+  // Regions between the boundary lines, labeled once per template
+  protected regions: RegionMap = labelRegions(new Uint8Array(1), 1, 1);
+  // Reusable work buffer to avoid GC thrash; all-zero between fills
+  private filledMask = new Uint8Array(1);
+  // Region a locked brush stroke keeps to, reused across its segments
+  private strokeLock: { id: number; mask: Uint8Array } | null = null;
+
+  protected onTemplateLoaded(): void {
+    const { width, height } = this.template;
+    this.boundaryMask = computeBoundaryMask(this.template);
+    // Bridged outline gaps count as boundary too
+    this.outlineRepair?.forEach((b, i) => {
+      if (b === 1) this.boundaryMask[i] = 1;
+    });
+    this.relabel();
+    this.filledMask = new Uint8Array(width * height);
+  }
+
+  private relabel(): void {
+    const { width, height } = this.template;
+    const fillable = this.boundaryMask.map((b) => (b === 1 ? 0 : 1));
+    this.regions = labelRegions(fillable, width, height);
+    this.strokeLock = null;
+  }
+
+  // Region plus the anti-aliased band a fill's rim sealing would reach
+  protected strokeClip(lockTo: EnginePoint): (index: number) => boolean {
+    const id = regionAt(this.regions, lockTo, BOUNDARY_SEARCH_RADIUS);
+    if (id === 0) return () => false;
+    if (this.strokeLock?.id !== id) {
+      this.strokeLock = { id, mask: regionMask(this.regions, id, RIM_MARGIN) };
+    }
+    const { mask } = this.strokeLock;
+    return (index) => mask[index] === 1;
+  }
+
+  getRegionMap(): RegionMap {
+    return this.regions;
+  }
+
+  previewFill(point: EnginePoint): FillPreview | null {
+    const id = regionAt(this.regions, point, BOUNDARY_SEARCH_RADIUS);
+    return id === 0 ? null : previewRegionFill(this.regions, id);
+  }
+
+  sealOutlineGaps(): boolean {
+    const { mask, bridges } = closeOutlineGaps(this.boundaryMask, this.page, {
+      maxGap: AUTO_SEAL_MAX_GAP,
+    });
+    if (bridges.length === 0) return false;
+    this.boundaryMask = mask;
+    this.relabel();
+    return true;
+  }
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    // If tapped on a boundary, nudge to nearest region within small radius
+    const id = regionAt(this.regions, point, BOUNDARY_SEARCH_RADIUS);
+    if (id === 0) return false; // nowhere to fill
+
+    const data = this.page.data;
+    const pixels = regionPixels(this.regions, id);
+    const fill = hexToRgba(color);
+    const alreadyFilled = toleranceTest(fill, SAME_COLOR_TOLERANCE);
+    if (pixels.every((index) => alreadyFilled(data, index))) {
+      return false; // already similar to fill color
+    }
+
+    this.paintRegion(id, () => fill);
+    return true;
+  }
+
+  replaceColorAt(
+    point: EnginePoint,
+    color: string,
+    tolerance?: number
+  ): boolean {
+    const id = regionAt(this.regions, point, BOUNDARY_SEARCH_RADIUS);
+    if (id === 0) return false;
+    const data = this.page.data;
+    const colors = regionColors(
+      this.regions,
+      (i) => (data[i * 4] << 16) | (data[i * 4 + 1] << 8) | data[i * 4 + 2]
+    );
+    const fill = hexToRgba(color);
+    const ids = regionsToReplace(colors, id, {
+      fill: rgbaToArgb(fill) & 0xffffff,
+      tolerance,
+    });
+    for (const target of ids) this.paintRegion(target, () => fill);
+    return ids.length > 0;
+  }
+
+  gradientFillAt(point: EnginePoint, gradient: GradientSpec): boolean {
+    return this.sampleFillAt(point, createGradientSampler(gradient));
+  }
+
+  patternFillAt(point: EnginePoint, pattern: PatternSpec): boolean {
+    return this.sampleFillAt(point, createPatternSampler(pattern));
+  }
+
+  // Fill the region under the point with a colour per pixel position
+  private sampleFillAt(
+    point: EnginePoint,
+    sample: (x: number, y: number) => Rgba
+  ): boolean {
+    const id = regionAt(this.regions, point, BOUNDARY_SEARCH_RADIUS);
+    if (id === 0) return false;
+    const { width } = this.page;
+    this.paintRegion(id, (index) =>
+      sample(index % width, Math.floor(index / width))
+    );
+    return true;
+  }
+
+  // Paint a region (plus its sealed rim) with a per-pixel colour
+  private paintRegion(id: number, colorAt: (index: number) => Rgba): void {
+    const pixels = regionPixels(this.regions, id);
+    for (const index of pixels) {
+      writePixel(this.page.data, index, colorAt(index));
+      this.filledMask[index] = 1;
+    }
+    const bounds = this.expandBounds(this.regions.regions[id - 1].bounds);
+    const sealed = this.sealRim(pixels.length, colorAt, bounds);
+    this.reapplyOutlines(bounds);
+
+    for (const index of pixels) this.filledMask[index] = 0;
+    for (const index of sealed) this.filledMask[index] = 0;
+  }
+
+  private expandBounds(bounds: Bounds): Bounds {
+    const { width, height } = this.page;
+    return {
+      minX: Math.max(0, bounds.minX - RIM_MARGIN),
+      minY: Math.max(0, bounds.minY - RIM_MARGIN),
+      maxX: Math.min(width - 1, bounds.maxX + RIM_MARGIN),
+      maxY: Math.min(height - 1, bounds.maxY + RIM_MARGIN),
+    };
+  }
+
+  // Adaptive, boundary-aware gap sealing: lightly grow the region only along
+  // outlines to close anti-aliased gaps without leaking past dark lines.
+  // Returns the rim pixels it painted.
+  private sealRim(
+    filled: number,
+    colorAt: (index: number) => Rgba,
+    bounds: Bounds
+  ): number[] {
+    const { width, height } = this.page;
+    const sealed: number[] = [];
+    // Heuristic: for small fills, allow up to 2 sealing passes; large fills only 1
+    const maxPasses = filled / (width * height) < 0.05 ? 2 : 1;
+    for (let pass = 0; pass < maxPasses; pass++) {
+      const toPaint = this.collectRimPixels(bounds);
+      for (const index of toPaint) {
+        writePixel(this.page.data, index, colorAt(index));
+        this.filledMask[index] = 1;
+        sealed.push(index);
+      }
+      // Early exit if pass added nothing
+      if (toPaint.length === 0) break;
+    }
+    return sealed;
+  }
+
+  private collectRimPixels(bounds: Bounds): number[] {
+    const { width, height, data } = this.page;
+    const strong = this.outlineMask;
+    const loose = this.boundaryMask;
+    const filledMask = this.filledMask;
+    const toPaint: number[] = [];
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      for (let x = bounds.minX; x <= bounds.maxX; x++) {
+        const index = y * width + x;
+        if (filledMask[index] === 1 || strong[index] === 1) continue;
+
+        // Must touch the filled region and hug a boundary pixel (8-neighborhood)
+        let neighborFilled = false;
+        let neighborBoundary = false;
+        for (let dy = -1; dy <= 1; dy++) {
+          for (let dx = -1; dx <= 1; dx++) {
+            const nx = x + dx;
+            const ny = y + dy;
+            if (
+              (dx === 0 && dy === 0) ||
+              nx < 0 ||
+              ny < 0 ||
+              nx >= width ||
+              ny >= height
+            )
+              continue;
+            const n = ny * width + nx;
+            if (filledMask[n] === 1) neighborFilled = true;
+            if (loose[n] === 1) neighborBoundary = true;
+          }
+        }
+        if (!neighborFilled || !neighborBoundary) continue;
+
+        // Luma threshold tuned to keep away from dark outline greys
+        const pi = index * 4;
+        const luma =
+          0.2126 * data[pi] + 0.7152 * data[pi + 1] + 0.0722 * data[pi + 2];
+        if (luma > 110) toPaint.push(index);
+      }
+    }
+    return toPaint;
+  }
+
+  // Reapply outlines so fills never soften or cover template lines
+  protected reapplyOutlines(bounds: Bounds): void {
+    const { width } = this.page;
+    const mask = this.outlineMask;
+    for (let y = bounds.minY; y <= bounds.maxY; y++) {
+      for (let x = bounds.minX; x <= bounds.maxX; x++) {
+        const i = y * width + x;
+        if (mask[i] === 1) copyPixel(this.template.data, this.page.data, i);
+      }
+    }
+  }
+}
@@ -0,0 +1,76 @@
+import type { EnginePoint } from '../ColoringEngine';
+import { hexToRgba } from '../ColorUtils';
+import { type DetectionOptions, PixelFloodFill } from '../PixelFloodFill';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+// How far (in bitmap pixels) a tap on a border may be nudged into a region
+const SEARCH_RADIUS = 8;
+
+// Robust against anti-aliasing and faint lines (tuned in SimplePaintCanvas)
+const DETECTION_OPTIONS: DetectionOptions = {
+  useLuma: true,
+  lumaThreshold: 110,
+  alphaThreshold: 120, // consider faint anti-aliased edges
+  dilate: true,
+  dilateIterations: 2,
+  sampleRadius: 3, // larger neighborhood to catch thin lines
+  autoCalibrate: true,
+  useOtsu: true,
+  closing: true,
+  closingIterations: 2,
+  edgeDetect: true,
+  edgeThreshold: 24,
+  minRGBThreshold: 90,
+};
+
+/**
+ * PixelFloodFillEngine - PixelFloodFill's border detection and region fill
+ * behind the engine contract.
+ *
+ * PixelFloodFill runs on a 1:1 grid over the template (viewport = bitmap).
+ * Each filled region is painted into the page and then released again with
+ * clearAll(), so regions stay defined by the template borders and can be
+ * refilled with another colour.
+ */
+export class PixelFloodFillEngine extends BitmapBackedEngine {
+  readonly id: string = 'pixel-flood-fill';
+  private fill = new PixelFloodFill(1, 1);
+
+  protected onTemplateLoaded(): void {
+    const { width, height } = this.template;
+    this.fill = new PixelFloodFill(width, height);
+    this.fill.setViewport({ x: 0, y: 0, width, height });
+    this.fill.setDetectionOptions(DETECTION_OPTIONS);
+    this.fill.initializeFromPixels(this.template);
+  }
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    const region = this.fill.findRegionNearPoint(
+      point.x,
+      point.y,
+      SEARCH_RADIUS,
+      color
+    );
+    if (!region) return false;
+    this.fill.clearAll();
+
+    const [r, g, b, a] = hexToRgba(color);
+    const data = this.page.data;
+    let changed = false;
+    // Grid cells map 1:1 onto page pixels
+    for (const index of Array.from(region.pixels)) {
+      const pi = index * 4;
+      changed =
+        changed ||
+        data[pi] !== r ||
+        data[pi + 1] !== g ||
+        data[pi + 2] !== b ||
+        data[pi + 3] !== a;
+      data[pi] = r;
+      data[pi + 1] = g;
+      data[pi + 2] = b;
+      data[pi + 3] = a;
+    }
+    return changed;
+  }
+}
@@ -0,0 +1,34 @@
+import type { EnginePoint } from '../ColoringEngine';
+import { hexToArgb } from '../ColorUtils';
+import { ReactNativeBitmapColoringEngine } from '../ReactNativeBitmapColoringEngine';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+/**
+ * ReactNativeBitmapEngineAdapter - ReactNativeBitmapColoringEngine behind the
+ * engine contract (exact-colour fill, no tolerance)
+ */
+export class ReactNativeBitmapEngineAdapter extends BitmapBackedEngine {
+  readonly id: string = 'rn-bitmap';
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    const bitmap = {
+      width: this.page.width,
+      height: this.page.height,
+      pixels: Array.from(this.readArgbPixels()),
+    };
+    const seed = ReactNativeBitmapColoringEngine.findPaintableArea(
+      bitmap,
+      point.x,
+      point.y
+    );
+    const index = seed.y * bitmap.width + seed.x;
+    if (this.outlineMask[index] === 1) return false;
+    const result = ReactNativeBitmapColoringEngine.floodFill(
+      bitmap,
+      seed.x,
+      seed.y,
+      hexToArgb(color)
+    );
+    return this.commitArgbPixels(result.pixels);
+  }
+}
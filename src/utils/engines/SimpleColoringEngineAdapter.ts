@@ -0,0 +1,82 @@
+import type { EngineBrushStroke, EnginePoint } from '../ColoringEngine';
+import { hexToArgb } from '../ColorUtils';
+import { isNaturalBrush } from '../NaturalBrush';
+import {
+  type ColoringBitmap,
+  SimpleColoringEngine,
+} from '../SimpleColoringEngine';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+// SimpleColoringEngine only stops at pure black
+const BORDER_COLOR = 0xff000000;
+
+// applyBrushStroke only stamps at the given points, so fill in 1px steps
+function densify(points: EnginePoint[]): EnginePoint[] {
+  const out = points.slice(0, 1);
+  for (let p = 1; p < points.length; p++) {
+    const prev = points[p - 1];
+    const dx = points[p].x - prev.x;
+    const dy = points[p].y - prev.y;
+    const steps = Math.max(1, Math.ceil(Math.max(Math.abs(dx), Math.abs(dy))));
+    for (let i = 1; i <= steps; i++) {
+      out.push({ x: prev.x + (dx * i) / steps, y: prev.y + (dy * i) / steps });
+    }
+  }
+  return out;
+}
+
+/**
+ * SimpleColoringEngineAdapter - SimpleColoringEngine behind the engine contract
+ *
+ * Template outline pixels are presented to the engine as pure black so its
+ * exact-colour border test works on anti-aliased artwork too.
+ */
+export class SimpleColoringEngineAdapter extends BitmapBackedEngine {
+  readonly id: string = 'simple';
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    const bitmap = this.toEngineBitmap();
+    const seed = SimpleColoringEngine.findPaintableArea(
+      bitmap,
+      Math.floor(point.x),
+      Math.floor(point.y)
+    );
+    if (!seed) return false;
+    const fill = hexToArgb(color);
+    if (bitmap.pixels[seed.y * bitmap.width + seed.x] === fill) return false;
+    const result = SimpleColoringEngine.floodFill(bitmap, seed.x, seed.y, fill);
+    return this.commitEngineBitmap(result);
+  }
+
+  protected paintBrush(stroke: EngineBrushStroke): boolean {
+    // The engine only has a solid stamp; textured brushes blend generically
+    if (isNaturalBrush(stroke.brush)) return super.paintBrush(stroke);
+    const result = SimpleColoringEngine.applyBrushStroke(
+      this.toEngineBitmap(),
+      {
+        points: densify(stroke.points),
+        color: stroke.color,
+        thickness: stroke.size,
+      }
+    );
+    return this.commitEngineBitmap(result);
+  }
+
+  private toEngineBitmap(): ColoringBitmap {
+    const pixels = this.readArgbPixels();
+    for (let i = 0; i < pixels.length; i++) {
+      if (this.outlineMask[i] === 1) pixels[i] = BORDER_COLOR;
+    }
+    return { width: this.page.width, height: this.page.height, pixels };
+  }
+
+  // Outline pixels were only masked for the engine; keep the template's own
+  private commitEngineBitmap(bitmap: ColoringBitmap): boolean {
+    const pixels = bitmap.pixels;
+    const original = this.readArgbPixels();
+    for (let i = 0; i < pixels.length; i++) {
+      if (this.outlineMask[i] === 1) pixels[i] = original[i];
+    }
+    return this.commitArgbPixels(pixels);
+  }
+}
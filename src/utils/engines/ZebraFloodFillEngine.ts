@@ -0,0 +1,29 @@
+import type { EnginePoint } from '../ColoringEngine';
+import { hexToArgb } from '../ColorUtils';
+import { ZebraFloodFill } from '../ZebraFloodFill';
+import { BitmapBackedEngine } from './BitmapBackedEngine';
+
+/**
+ * ZebraFloodFillEngine - ZebraFloodFill.floodFillRGBA behind the engine contract
+ */
+export class ZebraFloodFillEngine extends BitmapBackedEngine {
+  readonly id: string = 'zebra-flood-fill';
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    const { width, height, data } = this.page;
+    // floodFillRGBA wants clamped bytes; view the page buffer without copying
+    const pixels = new Uint8ClampedArray(
+      data.buffer,
+      data.byteOffset,
+      data.length
+    );
+    return ZebraFloodFill.floodFillRGBA(
+      pixels,
+      width,
+      height,
+      Math.floor(point.x),
+      Math.floor(point.y),
+      hexToArgb(color)
+    );
+  }
+}
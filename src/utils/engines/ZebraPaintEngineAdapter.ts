@@ -0,0 +1,199 @@
+import { nearestPixel } from '../BitmapUtils';
+import type {
+  ColoringEngine,
+  EngineBrushStroke,
+  EnginePoint,
+  EngineSnapshot,
+  EngineStroke,
+  RgbaBitmap,
+} from '../ColoringEngine';
+import { argbToHex, hexToArgb } from '../ColorUtils';
+import type { FillPreview } from '../FillLeakGuard';
+import type { GradientSpec } from '../GradientFill';
+import { isNaturalBrush } from '../NaturalBrush';
+import type { PatternSpec } from '../PatternFill';
+import { regionAt, type RegionMap } from '../RegionLabeling';
+import { ZebraPaintEngine, type ZebraPaintState } from '../ZebraPaintEngine';
+
+const WHITE = 0xffffffff;
+// Max distance (in pixels) to nudge a locked stroke that starts on an outline
+const LOCK_SEARCH_RADIUS = 5;
+// Max distance (in pixels) the eyedropper looks past an outline for paint
+const SAMPLE_SEARCH_RADIUS = 4;
+
+/**
+ * ZebraPaintEngineAdapter - The two-layer zebra-paint model behind the engine
+ * contract. Paint lives in the ARGB pixel layer; outlines are only composited
+ * on export, so erasing is just painting white.
+ */
+export class ZebraPaintEngineAdapter implements ColoringEngine {
+  readonly id: string = 'zebra-paint';
+  private state: ZebraPaintState = ZebraPaintEngine.createState([255], 1, 1);
+
+  loadTemplate(template: RgbaBitmap, outlineRepair?: Uint8Array): void {
+    this.state = ZebraPaintEngine.createState(
+      template.data,
+      template.width,
+      template.height
+    );
+    if (outlineRepair) {
+      ZebraPaintEngine.blockPaintMask(this.state, outlineRepair);
+    }
+  }
+
+  getRegionMap(): RegionMap {
+    return this.state.regions;
+  }
+
+  gradientFillAt(point: EnginePoint, gradient: GradientSpec): boolean {
+    const seed = { x: Math.floor(point.x), y: Math.floor(point.y) };
+    return ZebraPaintEngine.gradientFill(this.state, seed, gradient);
+  }
+
+  patternFillAt(point: EnginePoint, pattern: PatternSpec): boolean {
+    const seed = { x: Math.floor(point.x), y: Math.floor(point.y) };
+    return ZebraPaintEngine.patternFill(this.state, seed, pattern);
+  }
+
+  replaceColorAt(
+    point: EnginePoint,
+    color: string,
+    tolerance?: number
+  ): boolean {
+    const seed = { x: Math.floor(point.x), y: Math.floor(point.y) };
+    return ZebraPaintEngine.replaceColor(this.state, seed, {
+      color: hexToArgb(color),
+      tolerance,
+    });
+  }
+
+  previewFill(point: EnginePoint): FillPreview | null {
+    const x = Math.floor(point.x);
+    const y = Math.floor(point.y);
+    return ZebraPaintEngine.previewFill(this.state, x, y);
+  }
+
+  sealOutlineGaps(): boolean {
+    return ZebraPaintEngine.sealGaps(this.state);
+  }
+
+  fillAt(point: EnginePoint, color: string): boolean {
+    const x = Math.floor(point.x);
+    const y = Math.floor(point.y);
+    const fill = hexToArgb(color);
+    if (this.state.pixels[y * this.state.width + x] === fill) return false;
+    return ZebraPaintEngine.floodFill(this.state, x, y, fill);
+  }
+
+  brushStroke(stroke: EngineBrushStroke): boolean {
+    const color = hexToArgb(stroke.color);
+    const lock = stroke.lockTo
+      ? regionAt(this.state.regions, stroke.lockTo, LOCK_SEARCH_RADIUS)
+      : 0;
+    if (stroke.lockTo && lock === 0) return false;
+    if (isNaturalBrush(stroke.brush)) {
+      const dabs = { ...stroke, brush: stroke.brush };
+      return ZebraPaintEngine.paintDabs(this.state, dabs, {
+        color,
+        lockRegion: lock,
+      });
+    }
+    return this.paintStroke(stroke, color, lock);
+  }
+
+  erase(stroke: EngineStroke): boolean {
+    return this.paintStroke(stroke, WHITE);
+  }
+
+  // Reads the paint layer, which has no outlines; boundary pixels there are
+  // unpainted white, so they are skipped too
+  sampleColor(point: EnginePoint): string | null {
+    const index = nearestPixel(this.state, point, {
+      radius: SAMPLE_SEARCH_RADIUS,
+      accept: (i) => this.state.paintMask[i] === 1,
+    });
+    return index < 0 ? null : argbToHex(this.state.pixels[index]);
+  }
+
+  // Ink of the outline layer; sealed gaps are boundaries but not lines
+  getOutlineMask(): Uint8Array {
+    const alpha = this.state.outlineImageData.data;
+    const mask = new Uint8Array(this.state.width * this.state.height);
+    for (let i = 0; i < mask.length; i++) {
+      mask[i] = alpha[i * 4 + 3] >= 128 ? 1 : 0;
+    }
+    return mask;
+  }
+
+  snapshot(): EngineSnapshot {
+    const { width, height, pixels } = this.state;
+    return {
+      engineId: this.id,
+      width,
+      height,
+      data: new Uint8Array(pixels.slice().buffer),
+    };
+  }
+
+  restore(snapshot: EngineSnapshot): void {
+    this.state.pixels.set(new Uint32Array(snapshot.data.slice().buffer));
+    ZebraPaintEngine.updatePaintImageData(this.state);
+  }
+
+  // Same result as ZebraPaintEngine.render: outline layer over paint layer
+  exportBitmap(): RgbaBitmap {
+    const { width, height } = this.state;
+    const paint = this.state.paintImageData.data;
+    const outline = this.state.outlineImageData.data;
+    const data = new Uint8Array(width * height * 4);
+    for (let pi = 0; pi < data.length; pi += 4) {
+      const keep = 255 - outline[pi + 3];
+      data[pi] = Math.round((paint[pi] * keep) / 255);
+      data[pi + 1] = Math.round((paint[pi + 1] * keep) / 255);
+      data[pi + 2] = Math.round((paint[pi + 2] * keep) / 255);
+      data[pi + 3] = 255;
+    }
+    return { width, height, data };
+  }
+
+  // lock: region label to stay inside, 0 for none
+  private paintStroke(stroke: EngineStroke, color: number, lock = 0): boolean {
+    const points = stroke.points.map((p) => ({
+      x: Math.round(p.x),
+      y: Math.round(p.y),
+    }));
+    if (points.length === 0) return false;
+    if (points.length === 1) {
+      const { x, y } = points[0];
+      return ZebraPaintEngine.paintBrush(
+        this.state,
+        x,
+        y,
+        color,
+        stroke.sizes?.[0] ?? stroke.size,
+        lock
+      );
+    }
+    let painted = false;
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      painted =
+        ZebraPaintEngine.paintLine(
+          this.state,
+          a.x,
+          a.y,
+          b.x,
+          b.y,
+          color,
+          // The engine draws one width per segment: take its wider end
+          Math.max(
+            stroke.sizes?.[i - 1] ?? stroke.size,
+            stroke.sizes?.[i] ?? stroke.size
+          ),
+          lock
+        ) || painted;
+    }
+    return painted;
+  }
+}
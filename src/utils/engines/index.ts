@@ -0,0 +1,48 @@
+import type { ColoringEngine, ColoringEngineFactory } from '../ColoringEngine';
+import { BitmapColoringEngineAdapter } from './BitmapColoringEngineAdapter';
+import { NativeZebraEngine } from './NativeZebraEngine';
+import { PixelFloodFillEngine } from './PixelFloodFillEngine';
+import { ReactNativeBitmapEngineAdapter } from './ReactNativeBitmapEngineAdapter';
+import { SimpleColoringEngineAdapter } from './SimpleColoringEngineAdapter';
+import { ZebraFloodFillEngine } from './ZebraFloodFillEngine';
+import { ZebraPaintEngineAdapter } from './ZebraPaintEngineAdapter';
+
+/**
+ * Registry of coloring backends by id. Canvases ask for an engine here and
+ * only ever see the ColoringEngine contract.
+ */
+
+export const DEFAULT_COLORING_ENGINE = 'native-zebra';
+
+const factories = new Map<string, ColoringEngineFactory>([
+  ['native-zebra', () => new NativeZebraEngine()],
+  ['pixel-flood-fill', () => new PixelFloodFillEngine()],
+  ['zebra-flood-fill', () => new ZebraFloodFillEngine()],
+  ['zebra-paint', () => new ZebraPaintEngineAdapter()],
+  ['bitmap', () => new BitmapColoringEngineAdapter()],
+  ['simple', () => new SimpleColoringEngineAdapter()],
+  ['rn-bitmap', () => new ReactNativeBitmapEngineAdapter()],
+]);
+
+export function registerColoringEngine(
+  id: string,
+  factory: ColoringEngineFactory
+): void {
+  factories.set(id, factory);
+}
+
+export function listColoringEngines(): string[] {
+  return Array.from(factories.keys());
+}
+
+/**
+ * Create a fresh engine instance; unknown ids fall back to the default
+ */
+export function createColoringEngine(
+  id: string = DEFAULT_COLORING_ENGINE
+): ColoringEngine {
+  const factory = factories.get(id) ?? factories.get(DEFAULT_COLORING_ENGINE)!;
+  return factory();
+}
+
+export type { ColoringEngine } from '../ColoringEngine';
@@ -0,0 +1,72 @@
+import {
+  LEAK_AREA_RATIO,
+  previewRegionFill,
+  regionHighlight,
+} from './FillLeakGuard';
+import { labelRegions, regionPixels } from './RegionLabeling';
+
+const SIZE = 20;
+
+// 20x20 page split by a vertical line at x = `wall`
+function splitAt(wall: number) {
+  const fillable = new Uint8Array(SIZE * SIZE).fill(1);
+  for (let y = 0; y < SIZE; y++) fillable[y * SIZE + wall] = 0;
+  return labelRegions(fillable, SIZE, SIZE);
+}
+
+// Only the outermost ring of pixels is fillable: small, but on every edge
+function frame() {
+  const fillable = new Uint8Array(SIZE * SIZE);
+  for (let i = 0; i < SIZE; i++) {
+    fillable[i] = 1;
+    fillable[(SIZE - 1) * SIZE + i] = 1;
+    fillable[i * SIZE] = 1;
+    fillable[i * SIZE + SIZE - 1] = 1;
+  }
+  return labelRegions(fillable, SIZE, SIZE);
+}
+
+describe('previewRegionFill', () => {
+  it('lets a region under the area threshold fill without asking', () => {
+    // Left half: 10 columns, 50% of the page
+    const preview = previewRegionFill(splitAt(10), 1);
+    expect(preview).toEqual({
+      regionId: 1,
+      area: 200,
+      areaRatio: 0.5,
+      touchesAllEdges: false,
+      leaking: false,
+    });
+  });
+
+  it(`flags a fill covering more than ${LEAK_AREA_RATIO * 100}% of the page`, () => {
+    // Left 15 columns: 75% of the page, but not the right edge
+    const preview = previewRegionFill(splitAt(15), 1);
+    expect(preview.areaRatio).toBe(0.75);
+    expect(preview.touchesAllEdges).toBe(false);
+    expect(preview.leaking).toBe(true);
+  });
+
+  it('flags a small fill that reaches all four edges', () => {
+    const preview = previewRegionFill(frame(), 1);
+    expect(preview.area).toBe(76);
+    expect(preview.areaRatio).toBeLessThan(LEAK_AREA_RATIO);
+    expect(preview.touchesAllEdges).toBe(true);
+    expect(preview.leaking).toBe(true);
+  });
+});
+
+describe('regionHighlight', () => {
+  it('tints only the previewed region in the fill colour', () => {
+    const map = splitAt(10);
+    const overlay = regionHighlight(map, 2, '#FF8000');
+    const inside = regionPixels(map, 2)[0] * 4;
+    expect(Array.from(overlay.data.slice(inside, inside + 3))).toEqual([
+      255, 128, 0,
+    ]);
+    expect(overlay.data[inside + 3]).toBeGreaterThan(0);
+    // The left region and the line stay clear
+    expect(overlay.data[3]).toBe(0);
+    expect(overlay.data[10 * 4 + 3]).toBe(0);
+  });
+});
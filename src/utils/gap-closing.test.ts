@@ -0,0 +1,53 @@
+import { closeOutlineGaps } from './GapClosing';
+import { labelRegions } from './RegionLabeling';
+
+const SIZE = { width: 40, height: 40 };
+
+// 3px thick square outline from (5, 5) to (34, 34) with a break in the top
+// edge between x = gapStart and x = gapEnd
+function brokenSquare(gapStart: number, gapEnd: number) {
+  const mask = new Uint8Array(SIZE.width * SIZE.height);
+  for (let y = 5; y <= 34; y++) {
+    for (let x = 5; x <= 34; x++) {
+      const onEdge = x <= 7 || x >= 32 || y <= 7 || y >= 32;
+      const inGap = y <= 7 && x >= gapStart && x <= gapEnd;
+      if (onEdge && !inGap) mask[y * SIZE.width + x] = 1;
+    }
+  }
+  return mask;
+}
+
+function regionCount(mask: Uint8Array) {
+  const fillable = mask.map((b) => (b === 1 ? 0 : 1));
+  return labelRegions(fillable, SIZE.width, SIZE.height).regions.length;
+}
+
+describe('closeOutlineGaps', () => {
+  it('bridges a small break so inside and outside are separate', () => {
+    const mask = brokenSquare(18, 23);
+    expect(regionCount(mask)).toBe(1);
+
+    const result = closeOutlineGaps(mask, SIZE);
+
+    expect(result.bridges).toHaveLength(1);
+    expect(result.bridges[0].from.y).toBeGreaterThanOrEqual(5);
+    expect(result.bridges[0].from.y).toBeLessThanOrEqual(7);
+    expect(regionCount(result.mask)).toBe(2);
+    expect(regionCount(mask)).toBe(1); // input left untouched
+  });
+
+  it('leaves gaps wider than maxGap open', () => {
+    const result = closeOutlineGaps(brokenSquare(18, 23), SIZE, {
+      maxGap: 4,
+    });
+
+    expect(result.bridges).toHaveLength(0);
+    expect(regionCount(result.mask)).toBe(1);
+  });
+
+  it('adds nothing to a closed outline', () => {
+    const result = closeOutlineGaps(brokenSquare(0, -1), SIZE);
+
+    expect(result.bridges).toHaveLength(0);
+  });
+});
@@ -0,0 +1,70 @@
+import { encodeGif, lzwEncode } from './GifEncoder';
+
+// Plain GIF LZW decoder, 8-bit minimum code size
+function lzwDecode(data: Uint8Array): number[] {
+  const clearCode = 256;
+  const endCode = 257;
+  let table: number[][] = [];
+  let codeSize = 9;
+  let previous: number[] | null = null;
+  let bits = 0;
+  let bitCount = 0;
+  let at = 0;
+  const out: number[] = [];
+  const reset = () => {
+    table = Array.from({ length: 258 }, (_, i) => [i]);
+    codeSize = 9;
+    previous = null;
+  };
+  reset();
+  for (;;) {
+    while (bitCount < codeSize) {
+      bits |= data[at++] << bitCount;
+      bitCount += 8;
+    }
+    const code = bits & ((1 << codeSize) - 1);
+    bits >>>= codeSize;
+    bitCount -= codeSize;
+    if (code === clearCode) {
+      reset();
+      continue;
+    }
+    if (code === endCode) return out;
+    const entry: number[] =
+      code < table.length ? table[code] : [...previous!, previous![0]];
+    out.push(...entry);
+    if (previous) table.push([...previous, entry[0]]);
+    if (table.length === 1 << codeSize && codeSize < 12) codeSize++;
+    previous = entry;
+  }
+}
+
+describe('GIF encoding', () => {
+  it('LZW-encodes long inputs that fill and clear the code table', () => {
+    const indices = new Uint8Array(20_000);
+    for (let i = 0; i < indices.length; i++) indices[i] = (i * 7919) % 251;
+    expect(lzwDecode(lzwEncode(indices))).toEqual(Array.from(indices));
+  });
+
+  it('crops later frames to what changed', () => {
+    const frame = (color: number) => ({
+      width: 8,
+      height: 8,
+      data: new Uint8Array(8 * 8 * 4).fill(color),
+    });
+    const second = frame(255);
+    second.data.set([0, 0, 0, 255], (3 * 8 + 2) * 4);
+    const gif = encodeGif([frame(255), second], [100, 100]);
+    // Second image descriptor: at (2, 3), 1x1
+    const descriptors = gif.reduce<number[]>(
+      (found, byte, i) =>
+        byte === 0x2c && gif[i + 9] === 0x87 ? [...found, i] : found,
+      []
+    );
+    const last = descriptors[descriptors.length - 1];
+    expect(Array.from(gif.slice(last + 1, last + 9))).toEqual([
+      2, 0, 3, 0, 1, 0, 1, 0,
+    ]);
+    expect(gif[gif.length - 1]).toBe(0x3b);
+  });
+});
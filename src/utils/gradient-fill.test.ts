@@ -0,0 +1,76 @@
+import {
+  createGradientSampler,
+  type GradientSpec,
+  gradientStops,
+} from './GradientFill';
+
+const BLACK_TO_WHITE = gradientStops(['#000000', '#FFFFFF']);
+
+describe('gradientStops', () => {
+  it('spaces colours evenly from 0 to 1', () => {
+    expect(gradientStops(['#FF0000', '#00FF00', '#0000FF'])).toEqual([
+      { offset: 0, color: '#FF0000' },
+      { offset: 0.5, color: '#00FF00' },
+      { offset: 1, color: '#0000FF' },
+    ]);
+    expect(gradientStops(['#FF0000'])).toEqual([
+      { offset: 0, color: '#FF0000' },
+    ]);
+  });
+});
+
+describe('createGradientSampler', () => {
+  it('blends a linear gradient along the drag and clamps past its ends', () => {
+    const sample = createGradientSampler({
+      kind: 'linear',
+      start: { x: 0, y: 0 },
+      end: { x: 10, y: 0 },
+      stops: BLACK_TO_WHITE,
+    });
+    expect(sample(0, 0)).toEqual([0, 0, 0, 255]);
+    expect(sample(5, 7)).toEqual([128, 128, 128, 255]);
+    expect(sample(10, 0)).toEqual([255, 255, 255, 255]);
+    expect(sample(-5, 0)).toEqual([0, 0, 0, 255]);
+    expect(sample(20, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('blends a radial gradient by distance from the centre', () => {
+    const sample = createGradientSampler({
+      kind: 'radial',
+      start: { x: 10, y: 10 },
+      end: { x: 20, y: 10 },
+      stops: BLACK_TO_WHITE,
+    });
+    expect(sample(10, 10)).toEqual([0, 0, 0, 255]);
+    // Same distance in any direction
+    expect(sample(10, 5)).toEqual(sample(15, 10));
+    expect(sample(10, 0)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('sorts stops by offset and passes through each one', () => {
+    const spec: GradientSpec = {
+      kind: 'linear',
+      start: { x: 0, y: 0 },
+      end: { x: 4, y: 0 },
+      stops: [
+        { offset: 1, color: '#0000FF' },
+        { offset: 0, color: '#FF0000' },
+        { offset: 0.5, color: '#00FF00' },
+      ],
+    };
+    const sample = createGradientSampler(spec);
+    expect(sample(0, 0)).toEqual([255, 0, 0, 255]);
+    expect(sample(2, 0)).toEqual([0, 255, 0, 255]);
+    expect(sample(4, 0)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('paints the first stop when the drag has no length', () => {
+    const sample = createGradientSampler({
+      kind: 'linear',
+      start: { x: 3, y: 3 },
+      end: { x: 3, y: 3 },
+      stops: BLACK_TO_WHITE,
+    });
+    expect(sample(50, 50)).toEqual([0, 0, 0, 255]);
+  });
+});
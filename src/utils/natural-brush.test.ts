@@ -0,0 +1,79 @@
+import { createColoringEngine } from './engines';
+import { forEachBrushDab, mixPigment } from './NaturalBrush';
+
+function whitePage(size: number) {
+  return {
+    width: size,
+    height: size,
+    data: new Uint8Array(size * size * 4).fill(255),
+  };
+}
+
+const LINE = [
+  { x: 5, y: 20 },
+  { x: 35, y: 20 },
+];
+
+describe('forEachBrushDab', () => {
+  it('lays the same dabs every time a stroke is replayed', () => {
+    const run = () => {
+      const hits: number[] = [];
+      forEachBrushDab(
+        { width: 40, height: 40 },
+        { points: LINE, size: 8, brush: 'crayon' },
+        (index, coverage) => hits.push(index, coverage)
+      );
+      return hits;
+    };
+    expect(run()).toEqual(run());
+  });
+
+  it('leaves paper grain bare under a crayon', () => {
+    const covered = new Set<number>();
+    forEachBrushDab(
+      { width: 40, height: 40 },
+      { points: LINE, size: 8, brush: 'crayon' },
+      (index) => covered.add(index)
+    );
+    const row = Array.from({ length: 20 }, (_, i) => 20 * 40 + 10 + i);
+    const bare = row.filter((index) => !covered.has(index));
+    expect(bare.length).toBeGreaterThan(0);
+    expect(bare.length).toBeLessThan(row.length);
+  });
+});
+
+describe('mixPigment', () => {
+  it('covers with opaque pigment and multiplies with a glaze', () => {
+    const red = [255, 0, 0, 255] as const;
+    const blue = [0, 0, 255, 255] as const;
+    expect(
+      mixPigment([...blue], [...red], { coverage: 1, glaze: false })
+    ).toEqual([255, 0, 0, 255]);
+    expect(
+      mixPigment([...blue], [...red], { coverage: 1, glaze: true })
+    ).toEqual([0, 0, 0, 255]);
+  });
+});
+
+describe('natural brushes in the engines', () => {
+  it.each(['native-zebra', 'zebra-paint'])(
+    '%s builds airbrush paint up over repeated strokes',
+    (id) => {
+      const engine = createColoringEngine(id);
+      engine.loadTemplate(whitePage(40));
+      const stroke = {
+        points: LINE,
+        size: 10,
+        color: '#0000FF',
+        brush: 'airbrush' as const,
+      };
+      const redAt = () => engine.exportBitmap().data[(20 * 40 + 20) * 4];
+
+      expect(engine.brushStroke(stroke)).toBe(true);
+      const once = redAt();
+      engine.brushStroke(stroke);
+      expect(once).toBeLessThan(255);
+      expect(redAt()).toBeLessThan(once);
+    }
+  );
+});
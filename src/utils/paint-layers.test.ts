@@ -0,0 +1,62 @@
+import { createColoringEngine } from './engines';
+
+function whitePage(size: number) {
+  return {
+    width: size,
+    height: size,
+    data: new Uint8Array(size * size * 4).fill(255),
+  };
+}
+
+const LINE = [
+  { x: 5, y: 10 },
+  { x: 15, y: 10 },
+];
+
+function setUp() {
+  const engine = createColoringEngine('native-zebra');
+  engine.loadTemplate(whitePage(20));
+  engine.fillAt({ x: 2, y: 2 }, '#FF0000');
+  engine.brushStroke({ points: LINE, size: 3, color: '#FFFFFF' });
+  const pixelAt = (x: number, y: number) =>
+    Array.from(
+      engine.exportBitmap().data.slice((y * 20 + x) * 4, (y * 20 + x) * 4 + 3)
+    );
+  return { engine, pixelAt };
+}
+
+describe('paint layers', () => {
+  it('keeps brush paint, white included, above the fill layer', () => {
+    const { engine, pixelAt } = setUp();
+    expect(engine.getLayers!().layers.map((l) => l.id)).toEqual([
+      'fill',
+      'brush-1',
+      'outline',
+    ]);
+    expect(pixelAt(10, 10)).toEqual([255, 255, 255]);
+    expect(pixelAt(10, 2)).toEqual([255, 0, 0]);
+
+    engine.editLayers!({ kind: 'update', id: 'brush-1', opacity: 0.5 });
+    expect(pixelAt(10, 10)).toEqual([255, 128, 128]);
+    engine.editLayers!({ kind: 'update', id: 'brush-1', visible: false });
+    expect(pixelAt(10, 10)).toEqual([255, 0, 0]);
+  });
+
+  it('merges down and restores layers from snapshots', () => {
+    const { engine, pixelAt } = setUp();
+    const before = engine.snapshot();
+    expect(before.layer).toBe('brush-1');
+
+    expect(engine.editLayers!({ kind: 'merge', id: 'brush-1' })).toBe(true);
+    expect(engine.getLayers!().layers.map((l) => l.id)).toEqual([
+      'fill',
+      'outline',
+    ]);
+    expect(pixelAt(10, 10)).toEqual([255, 255, 255]);
+
+    engine.restore(before);
+    expect(engine.getLayers!().layers).toHaveLength(3);
+    engine.editLayers!({ kind: 'move', id: 'brush-1', to: 0 });
+    expect(pixelAt(10, 10)).toEqual([255, 0, 0]);
+  });
+});
@@ -0,0 +1,60 @@
+import { createPatternSampler } from './PatternFill';
+
+const INK = [255, 0, 0, 255];
+const PAPER = [255, 255, 255, 255];
+
+describe('createPatternSampler', () => {
+  it('repeats stripes every tile, ink then background', () => {
+    const sample = createPatternSampler({
+      kind: 'stripes',
+      color: '#FF0000',
+      scale: 10,
+    });
+    expect(sample(2, 0)).toEqual(INK);
+    expect(sample(7, 0)).toEqual(PAPER);
+    expect(sample(12, 33)).toEqual(INK);
+    expect(sample(17, 33)).toEqual(PAPER);
+  });
+
+  it('rotates the pattern, not the page', () => {
+    const sample = createPatternSampler({
+      kind: 'stripes',
+      color: '#FF0000',
+      scale: 10,
+      rotation: 90,
+    });
+    // Stripes now run across: colour changes down the page, not along it
+    expect(sample(0, 2)).toEqual(sample(7, 2));
+    expect(sample(0, 2)).not.toEqual(sample(0, 7));
+  });
+
+  it('alternates checks between neighbouring tiles', () => {
+    const sample = createPatternSampler({
+      kind: 'checks',
+      color: '#FF0000',
+      background: '#0000FF',
+      scale: 4,
+    });
+    expect(sample(1, 1)).toEqual(INK);
+    expect(sample(5, 1)).toEqual([0, 0, 255, 255]);
+    expect(sample(5, 5)).toEqual(INK);
+  });
+
+  it('tiles an image, with transparent pixels over the background', () => {
+    const sample = createPatternSampler({
+      kind: 'image',
+      color: '#000000',
+      background: '#00FF00',
+      scale: 4,
+      // 2x1 tile: opaque red, then fully transparent
+      image: {
+        width: 2,
+        height: 1,
+        data: new Uint8Array([255, 0, 0, 255, 0, 0, 0, 0]),
+      },
+    });
+    expect(sample(0, 0)).toEqual(INK);
+    expect(sample(3, 0)).toEqual([0, 255, 0, 255]);
+    expect(sample(4, 9)).toEqual(INK);
+  });
+});
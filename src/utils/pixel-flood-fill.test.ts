@@ -0,0 +1,65 @@
+import { PixelFloodFill } from './PixelFloodFill';
+
+// 8x6 white image split by a black vertical line at x = 3
+function splitTemplate() {
+  const width = 8;
+  const height = 6;
+  const data = new Uint8Array(width * height * 4).fill(255);
+  for (let y = 0; y < height; y++) {
+    const i = (y * width + 3) * 4;
+    data[i] = data[i + 1] = data[i + 2] = 0;
+  }
+  return { width, height, data };
+}
+
+function createFill() {
+  const fill = new PixelFloodFill(8, 6);
+  fill.setViewport({ x: 0, y: 0, width: 8, height: 6 });
+  fill.setDetectionOptions({
+    autoCalibrate: false,
+    dilate: false,
+    edgeDetect: false,
+    sampleRadius: 1,
+  });
+  fill.initializeFromPixels(splitTemplate());
+  return fill;
+}
+
+describe('PixelFloodFill', () => {
+  it('fills only the region on the tapped side of a border', () => {
+    const fill = createFill();
+    const region = fill.fillAt(0, 0, '#FF0000');
+
+    expect(region).not.toBeNull();
+    // Cell centres round right and the 3x3 sample widens the line to x = 1..3
+    expect(region!.bounds).toEqual({ minX: 0, maxX: 0, minY: 0, maxY: 5 });
+    expect(region!.pixels.length).toBe(6);
+    expect(Array.from(region!.pixels)).toEqual(
+      [...region!.pixels].sort((a, b) => a - b)
+    );
+  });
+
+  it('does not refill an already filled region until cleared', () => {
+    const fill = createFill();
+    fill.fillAt(6, 2, '#00FF00');
+
+    expect(fill.fillAt(6, 2, '#0000FF')).toBeNull();
+    fill.clearAll();
+    expect(fill.fillAt(6, 2, '#0000FF')?.pixels.length).toBe(24);
+  });
+
+  it('terminates when filling with the background colour', () => {
+    const fill = createFill();
+    expect(fill.fillAt(0, 0, '#FFFFFF')?.pixels.length).toBe(6);
+  });
+
+  it('emits one rectangle per horizontal span', () => {
+    const fill = createFill();
+    fill.fillAt(0, 0, '#FF0000');
+    const [svg] = fill.getFilledRegionsAsSVGPaths();
+
+    expect(svg.color).toBe('#FF0000');
+    expect(svg.path.split('Z').filter((p) => p.trim())).toHaveLength(6);
+    expect(svg.path.startsWith('M0,0 L1,0 L1,1 L0,1 Z')).toBe(true);
+  });
+});
@@ -0,0 +1,117 @@
+import { createPdf, pdfImageFromPng, textWidth } from './PdfWriter';
+import { encodePng } from './PngCodec';
+import {
+  createPrintPdf,
+  DEFAULT_PRINT_OPTIONS,
+  paperFor,
+  placePicture,
+  printImage,
+  printPage,
+} from './PrintPages';
+
+function bitmap(width: number, height: number, alpha = 255) {
+  const data = new Uint8Array(width * height * 4);
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = (i / 4) % 2 ? 0 : 200; // Two colours: palette PNG
+    data[i + 3] = alpha;
+  }
+  return { width, height, data };
+}
+
+const latin1 = (bytes: Uint8Array) => String.fromCharCode(...bytes);
+
+// Every xref entry must point at the start of its object
+function expectValidXref(pdf: string) {
+  const xref = Number(/startxref\n(\d+)/.exec(pdf)![1]);
+  const [header, ...entries] = pdf.slice(xref).split('\n').slice(1);
+  const count = Number(header.split(' ')[1]);
+  for (let id = 1; id < count; id++) {
+    const offset = Number(entries[id].slice(0, 10));
+    expect(pdf.slice(offset, offset + 12)).toMatch(
+      new RegExp(`^${id} 0 obj\n`)
+    );
+  }
+}
+
+describe('print layout', () => {
+  it('turns wide pictures sideways and fits or fills the area', () => {
+    const options = { paper: 'a4' as const, orientation: 'auto' as const };
+    expect(paperFor(options, { width: 400, height: 300 })).toEqual({
+      width: 841.89,
+      height: 595.28,
+    });
+    expect(
+      paperFor(
+        { paper: 'letter', orientation: 'portrait' },
+        { width: 4, height: 3 }
+      )
+    ).toEqual({ width: 612, height: 792 });
+    const area = { x: 10, y: 20, width: 200, height: 100 };
+    const square = { width: 50, height: 50 };
+    expect(placePicture(square, area, 'fit')).toEqual({
+      x: 60,
+      y: 20,
+      width: 100,
+      height: 100,
+    });
+    expect(placePicture(square, area, 'fill')).toEqual({
+      x: 10,
+      y: -30,
+      width: 200,
+      height: 200,
+    });
+  });
+
+  it('puts a title above and a name line below the picture', () => {
+    const image = printImage(bitmap(10, 20));
+    const page = printPage(
+      { image, title: 'Cat' },
+      {
+        ...DEFAULT_PRINT_OPTIONS,
+        nameLine: true,
+      }
+    );
+    const [title, name, line, picture] = page.content;
+    expect(title).toMatchObject({ kind: 'text', text: 'Cat', bold: true });
+    expect(name).toMatchObject({ kind: 'text', text: 'Name:' });
+    expect(line).toMatchObject({ kind: 'line' });
+    if (title.kind !== 'text' || picture.kind !== 'image') throw new Error();
+    expect(picture.box.y + picture.box.height).toBeLessThan(title.y);
+    expect(title.x).toBeCloseTo((page.width - textWidth('Cat', 20, true)) / 2);
+  });
+});
+
+describe('pdf writer', () => {
+  it('embeds PNGs without re-encoding and refuses transparency', () => {
+    const image = printImage(bitmap(3, 2, 128));
+    expect(image).toMatchObject({ width: 3, height: 2, colors: 1 });
+    expect(image.colorSpace).toMatch(
+      /^\[\/Indexed \/DeviceRGB \d+ <[0-9a-f]+>\]$/
+    );
+    // Too many colours for a palette: RGBA
+    const translucent = bitmap(300, 1, 128);
+    for (let p = 0; p < 300; p++) {
+      translucent.data[p * 4 + 1] = p % 256;
+      translucent.data[p * 4 + 2] = p >> 8;
+    }
+    expect(() => pdfImageFromPng(encodePng(translucent))).toThrow(
+      'colour type 6'
+    );
+    expect(() => pdfImageFromPng(new Uint8Array(8))).toThrow('Not a PNG');
+  });
+
+  it('writes a PDF with a valid xref and each picture stored once', () => {
+    const image = printImage(bitmap(4, 4));
+    const items = [{ image, title: 'A (1) \\ é' }, { image }, { image }];
+    const pdf = latin1(
+      createPrintPdf(items, DEFAULT_PRINT_OPTIONS, { title: 'Animals' })
+    );
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 4'); // Cover and three pictures
+    expect(pdf.match(/\/Subtype \/Image/g)).toHaveLength(1);
+    expect(pdf).toContain('(A \\(1\\) \\\\ \\351) Tj');
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+    expectValidXref(pdf);
+    expectValidXref(latin1(createPdf([])));
+  });
+});
@@ -0,0 +1,73 @@
+import { createDrawingDocument } from './DrawingDocument';
+import { decodePng } from './PngCodec';
+import {
+  packProjectBundle,
+  PROJECT_BUNDLE_FORMAT,
+  PROJECT_BUNDLE_VERSION,
+  projectThumbnail,
+  unpackProjectBundle,
+} from './ProjectBundle';
+import { createZip, readZip } from './ZipArchive';
+
+function page(width: number, height: number) {
+  return { width, height, data: new Uint8Array(width * height * 4).fill(200) };
+}
+
+describe('project bundles', () => {
+  it('round-trips a drawing with its template, history and thumbnail', () => {
+    const drawing = createDrawingDocument({
+      template: { uri: 'file:///docs/user_1.png', title: 'Fée' },
+      canvas: { width: 40, height: 30 },
+      engine: { id: 'zebra-paint', outlineRepair: true },
+      timelapse: {
+        events: [
+          {
+            op: 'fill',
+            point: { x: 3, y: 4 },
+            fill: { kind: 'solid', color: '#FF0000' },
+            t: 0,
+          },
+        ],
+      },
+    });
+    const bytes = packProjectBundle({
+      manifest: {
+        format: PROJECT_BUNDLE_FORMAT,
+        version: PROJECT_BUNDLE_VERSION,
+        title: 'Fée',
+        createdAt: 1,
+        exportedAt: Date.UTC(2025, 0, 2),
+      },
+      template: new Uint8Array([1, 2, 3]),
+      outlineMask: new Uint8Array([4, 5]),
+      drawing,
+      history: new Uint8Array([6]),
+      thumbnail: projectThumbnail(page(800, 400)),
+    });
+
+    const bundle = unpackProjectBundle(bytes);
+    expect(bundle.manifest.title).toBe('Fée');
+    expect(Array.from(bundle.template)).toEqual([1, 2, 3]);
+    expect(Array.from(bundle.outlineMask!)).toEqual([4, 5]);
+    expect(Array.from(bundle.history!)).toEqual([6]);
+    expect(bundle.drawing.template).toEqual({
+      uri: 'template.png',
+      title: 'Fée',
+    });
+    expect(bundle.drawing.operations).toEqual(drawing.operations);
+    const thumbnail = decodePng(bundle.thumbnail.buffer as ArrayBuffer);
+    expect([thumbnail.width, thumbnail.height]).toEqual([256, 128]);
+  });
+
+  it('rejects damaged or foreign zips', () => {
+    const zip = createZip([
+      { name: 'manifest.json', data: new Uint8Array([123, 125]) },
+    ]);
+    expect(() => unpackProjectBundle(zip)).toThrow(/Not a project bundle/);
+
+    const damaged = zip.slice();
+    damaged[30 + 'manifest.json'.length] ^= 0xff;
+    expect(() => readZip(damaged)).toThrow(/damaged/);
+    expect(() => readZip(new Uint8Array(10))).toThrow(/Not a zip/);
+  });
+});
@@ -0,0 +1,64 @@
+import {
+  labelRegions,
+  regionAt,
+  regionMask,
+  regionPixels,
+} from './RegionLabeling';
+
+// 7x5 grid: a vertical line at x = 3 splits two regions, a dot at (5, 2)
+// sits inside the right one
+function splitMask() {
+  const width = 7;
+  const height = 5;
+  const fillable = new Uint8Array(width * height).fill(1);
+  for (let y = 0; y < height; y++) fillable[y * width + 3] = 0;
+  fillable[2 * width + 5] = 0;
+  return { fillable, width, height };
+}
+
+describe('labelRegions', () => {
+  it('builds a region table with area, bounds, centroid and neighbours', () => {
+    const { fillable, width, height } = splitMask();
+    const map = labelRegions(fillable, width, height);
+
+    expect(map.regions).toHaveLength(2);
+    const [left, right] = map.regions;
+    expect(left.area).toBe(15);
+    expect(left.bounds).toEqual({ minX: 0, minY: 0, maxX: 2, maxY: 4 });
+    expect(left.centroid).toEqual({ x: 1, y: 2 });
+    expect(right.area).toBe(14);
+    expect(left.neighbors).toEqual([2]);
+    expect(right.neighbors).toEqual([1]);
+  });
+
+  it('groups pixel indices by label', () => {
+    const { fillable, width, height } = splitMask();
+    const map = labelRegions(fillable, width, height);
+    const pixels = Array.from(regionPixels(map, 2));
+
+    expect(pixels).toHaveLength(14);
+    expect(pixels.every((i) => map.labels[i] === 2)).toBe(true);
+  });
+
+  it('hit-tests points on a boundary within a radius', () => {
+    const { fillable, width, height } = splitMask();
+    const map = labelRegions(fillable, width, height);
+
+    expect(regionAt(map, { x: 3, y: 2 })).toBe(0);
+    expect(regionAt(map, { x: 3, y: 2 }, 1)).not.toBe(0);
+    expect(regionAt(map, { x: 6.4, y: 0.2 })).toBe(2);
+  });
+
+  it('grows a region mask into unlabeled pixels but not other regions', () => {
+    const { fillable, width, height } = splitMask();
+    const map = labelRegions(fillable, width, height);
+    const mask = regionMask(map, 2, 1);
+
+    // The line pixel at x = 3 and the dot join the right region...
+    expect(mask[2 * width + 3]).toBe(1);
+    expect(mask[2 * width + 5]).toBe(1);
+    // ...but the left region stays out
+    expect(mask[2 * width + 2]).toBe(0);
+    expect(regionMask(map, 2)[2 * width + 3]).toBe(0);
+  });
+});
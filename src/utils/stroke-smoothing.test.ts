@@ -0,0 +1,56 @@
+import { StrokeBuilder, type StrokePoint } from './StrokeSmoothing';
+
+function draw(
+  builder: StrokeBuilder,
+  samples: { x: number; y: number; pressure?: number }[]
+): StrokePoint[] {
+  const points = samples.flatMap((s, i) => builder.add({ ...s, time: i * 16 }));
+  return [...points, ...builder.finish()];
+}
+
+// A zig-zag drawn with a few coarse samples
+const ZIGZAG = [
+  { x: 0, y: 0 },
+  { x: 20, y: 10 },
+  { x: 40, y: 0 },
+  { x: 60, y: 10 },
+];
+
+describe('StrokeBuilder', () => {
+  it('interpolates whole-pixel points through every sample', () => {
+    const points = draw(new StrokeBuilder({ size: 8 }), ZIGZAG);
+
+    for (const sample of ZIGZAG) {
+      expect(points).toContainEqual(expect.objectContaining(sample));
+    }
+    for (let i = 1; i < points.length; i++) {
+      const a = points[i - 1];
+      const b = points[i];
+      expect(Number.isInteger(b.x) && Number.isInteger(b.y)).toBe(true);
+      expect(
+        Math.max(Math.abs(b.x - a.x), Math.abs(b.y - a.y))
+      ).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('sizes by pressure where the device reports it', () => {
+    const points = draw(new StrokeBuilder({ size: 10, curve: 'linear' }), [
+      { x: 0, y: 0, pressure: 0.2 },
+      { x: 10, y: 0, pressure: 1 },
+    ]);
+    expect(points[0].size).toBeCloseTo(10 * (0.35 + 0.65 * 0.2));
+    expect(points[points.length - 1].size).toBe(10);
+  });
+
+  it('holds the brush back by the lazy radius', () => {
+    const builder = new StrokeBuilder({
+      size: 4,
+      curve: 'linear',
+      lazyRadius: 5,
+    });
+    builder.add({ x: 0, y: 0, time: 0 });
+    expect(builder.add({ x: 4, y: 0, time: 16 })).toEqual([]);
+    const moved = builder.add({ x: 12, y: 0, time: 32 });
+    expect(moved[moved.length - 1]).toMatchObject({ x: 7, y: 0 });
+  });
+});
@@ -0,0 +1,70 @@
+import { simplifyLoop, traceContours } from './ContourTracing';
+import { artworkToSvg } from './SvgExport';
+
+const SIZE = { width: 8, height: 8 };
+
+function maskOf(rows: string[]): Uint8Array {
+  return Uint8Array.from(rows.join('').split(''), (c) => (c === '#' ? 1 : 0));
+}
+
+const SQUARE = maskOf([
+  '........',
+  '........',
+  '..####..',
+  '..####..',
+  '..####..',
+  '..####..',
+  '........',
+  '........',
+]);
+
+describe('traceContours', () => {
+  it('puts straight edges on pixel edges and simplifies them', () => {
+    const [loop, ...rest] = traceContours(SQUARE, SIZE);
+    expect(rest).toHaveLength(0);
+    const simplified = simplifyLoop(loop)!;
+    const xs = simplified.map((p) => p.x);
+    const ys = simplified.map((p) => p.y);
+    expect([Math.min(...xs), Math.max(...xs)]).toEqual([2, 6]);
+    expect([Math.min(...ys), Math.max(...ys)]).toEqual([2, 6]);
+    // Four sides, each corner cut once
+    expect(simplified).toHaveLength(8);
+  });
+
+  it('traces holes and diagonal touches as loops of their own', () => {
+    const ring = maskOf([
+      '........',
+      '.#####..',
+      '.#...#..',
+      '.#...#..',
+      '.#####..',
+      '......#.',
+      '.......#',
+      '........',
+    ]);
+    expect(traceContours(ring, SIZE)).toHaveLength(4);
+  });
+});
+
+describe('artworkToSvg', () => {
+  it('layers each colour under the outline layer', () => {
+    const data = new Uint8Array(64 * 4).fill(255);
+    const outline = new Uint8Array(64);
+    for (let i = 0; i < 64; i++) {
+      const x = i % 8;
+      if (x === 4) {
+        outline[i] = 1;
+        data.set([0, 0, 0, 255], i * 4);
+      } else if (x < 4) {
+        data.set([255, 0, 0, 255], i * 4);
+      }
+    }
+    const svg = artworkToSvg({ width: 8, height: 8, data }, outline);
+
+    expect(svg).toContain('viewBox="0 0 8 8"');
+    const fills = [...svg.matchAll(/<path fill="(#[0-9A-F]{6})"/gi)].map((m) =>
+      m[1].toUpperCase()
+    );
+    expect(fills).toEqual(['#FF0000', '#000000']);
+  });
+});
@@ -0,0 +1,51 @@
+import { mirroredTaps, symmetryTransforms } from './Symmetry';
+
+const page = { width: 20, height: 20 };
+const center = { x: 9.5, y: 9.5 };
+
+describe('symmetryTransforms', () => {
+  it('mirrors across both axes for quad symmetry', () => {
+    const points = symmetryTransforms({ kind: 'quad', center }).map((t) =>
+      t({ x: 2, y: 5 })
+    );
+    expect(points).toEqual([
+      { x: 2, y: 5 },
+      { x: 17, y: 5 },
+      { x: 2, y: 14 },
+      { x: 17, y: 14 },
+    ]);
+  });
+
+  it('rotates into equal radial slices', () => {
+    const points = symmetryTransforms({ kind: 'radial', center, segments: 4 })
+      .map((t) => t({ x: 9.5, y: 2.5 }))
+      .map(({ x, y }) => [Math.round(x * 10) / 10, Math.round(y * 10) / 10]);
+    expect(points).toEqual([
+      [9.5, 2.5],
+      [16.5, 9.5],
+      [9.5, 16.5],
+      [2.5, 9.5],
+    ]);
+  });
+});
+
+describe('mirroredTaps', () => {
+  it('drops copies on the axis and off the page', () => {
+    // On the vertical axis of a page with an odd width
+    const onAxis = mirroredTaps(
+      { x: 5, y: 3 },
+      {
+        spec: { kind: 'vertical', center: { x: 5, y: 5 } },
+        width: 11,
+        height: 11,
+      }
+    );
+    expect(onAxis.map((tap) => tap.point)).toEqual([{ x: 5, y: 3 }]);
+
+    const offPage = mirroredTaps(
+      { x: 2, y: 3 },
+      { spec: { kind: 'vertical', center: { x: 15, y: 5 } }, ...page }
+    );
+    expect(offPage.map((tap) => tap.point)).toEqual([{ x: 2, y: 3 }]);
+  });
+});
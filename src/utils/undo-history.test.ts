@@ -0,0 +1,98 @@
+import type { EngineSnapshot } from './ColoringEngine';
+import { createColoringEngine } from './engines';
+import { decodeRuns, encodeRuns, UndoHistory } from './UndoHistory';
+
+function whitePage(size: number) {
+  return {
+    width: size,
+    height: size,
+    data: new Uint8Array(size * size * 4).fill(255),
+  };
+}
+
+function paintedEngine() {
+  const engine = createColoringEngine('native-zebra');
+  engine.loadTemplate(whitePage(64));
+  const history = new UndoHistory();
+  history.reset(engine.snapshot());
+  const strokes = ['#FF0000', '#00FF00', '#0000FF'].map((color, i) => {
+    const y = 10 + i * 10;
+    engine.brushStroke({
+      points: [
+        { x: 5, y },
+        { x: 40, y },
+      ],
+      size: 4,
+      color,
+    });
+    const snapshot = engine.snapshot();
+    history.push(snapshot);
+    return snapshot;
+  });
+  return { engine, history, strokes };
+}
+
+describe('encodeRuns', () => {
+  it('round-trips runs longer than a count byte holds', () => {
+    const data = new Uint8Array(4 * 600).fill(7);
+    data.set([1, 2, 3, 4], 400);
+    const encoded = encodeRuns(data, 4);
+    expect(encoded.length).toBeLessThan(30);
+    expect(decodeRuns(encoded, { unit: 4, length: data.length })).toEqual(data);
+  });
+});
+
+describe('UndoHistory', () => {
+  it('steps back and forward through exact snapshots', () => {
+    const { history, strokes } = paintedEngine();
+    const same = (a: EngineSnapshot | undefined, b: EngineSnapshot) =>
+      expect(Array.from(a!.data)).toEqual(Array.from(b.data));
+
+    same(history.undo()?.snapshot, strokes[1]);
+    same(history.undo()?.snapshot, strokes[0]);
+    const redone = history.redo();
+    same(redone?.snapshot, strokes[1]);
+    expect(redone?.layer).toBe('brush-1');
+    // Stored as dirty rectangles, not pages
+    expect(history.bytes).toBeLessThan(strokes[0].data.length * 2);
+  });
+
+  it('drops the oldest steps over budget and keeps the first state', () => {
+    const engine = createColoringEngine('native-zebra');
+    engine.loadTemplate(whitePage(64));
+    const first = engine.snapshot();
+    const history = new UndoHistory(first.data.length + 600);
+    history.reset(first);
+    for (let i = 0; i < 10; i++) {
+      engine.fillAt({ x: 1, y: 1 }, i % 2 ? '#FF0000' : '#00FF00');
+      history.push(engine.snapshot());
+    }
+    let undone = 0;
+    while (history.undo()) undone++;
+    expect(undone).toBeGreaterThan(0);
+    expect(undone).toBeLessThan(10);
+    expect(Array.from(history.firstSnapshot()!.data)).toEqual(
+      Array.from(first.data)
+    );
+  });
+
+  it('serializes the newest steps and picks up where it left off', () => {
+    const { engine, history, strokes } = paintedEngine();
+    const saved = UndoHistory.deserialize(
+      history.serialize({ steps: 2, bytes: 1 << 20 })
+    )!;
+    const fresh = createColoringEngine('native-zebra');
+    fresh.loadTemplate(whitePage(64));
+    expect(saved.startsFrom(fresh.snapshot())).toBe(true);
+    expect(Array.from(saved.currentSnapshot()!.data)).toEqual(
+      Array.from(engine.snapshot().data)
+    );
+    expect(Array.from(saved.undo()!.snapshot.data)).toEqual(
+      Array.from(strokes[1].data)
+    );
+    expect(saved.undo()).not.toBeNull();
+    // Capped at two steps: the first stroke can no longer be undone
+    expect(saved.undo()).toBeNull();
+    expect(UndoHistory.deserialize(new Uint8Array([9, 0, 0, 0]))).toBeNull();
+  });
+});
@@ -0,0 +1,120 @@
+import type { ColoringEngine, EnginePoint } from '../ColoringEngine';
+import {
+  mirroredTaps,
+  type SymmetrySpec,
+  symmetryTransforms,
+  transformPoints,
+} from '../Symmetry';
+import type { PaintFill, PaintStroke } from './PaintWorkerProtocol';
+
+/**
+ * PaintOperations - Fills and strokes as the worker runs them on an engine
+ *
+ * Shared by the worker host and timelapse replay, so a replayed operation
+ * paints exactly what the original did.
+ */
+
+// Segments painted per macrotask before checking for newer requests
+export const STROKE_CHUNK = 32;
+
+export interface FillOperation {
+  point: EnginePoint;
+  fill: PaintFill;
+  symmetry?: SymmetrySpec;
+}
+
+function fillOnce(
+  engine: ColoringEngine,
+  { point, fill }: { point: EnginePoint; fill: PaintFill }
+): boolean {
+  switch (fill.kind) {
+    case 'gradient':
+      return engine.gradientFillAt?.(point, fill.gradient) ?? false;
+    case 'pattern':
+      return engine.patternFillAt?.(point, fill.pattern) ?? false;
+    case 'replace':
+      return (
+        engine.replaceColorAt?.(point, fill.color, fill.tolerance) ?? false
+      );
+    default:
+      return engine.fillAt(point, fill.color);
+  }
+}
+
+/** Run a fill; with symmetry every mirrored tap fills, gradients mirrored too */
+export function applyFill(
+  engine: ColoringEngine,
+  request: FillOperation,
+  page: { width: number; height: number }
+): boolean {
+  const { point, fill, symmetry } = request;
+  if (!symmetry) return fillOnce(engine, { point, fill });
+  let changed = false;
+  for (const tap of mirroredTaps(point, { spec: symmetry, ...page })) {
+    const { transform } = tap;
+    const mirrored: PaintFill =
+      fill.kind === 'gradient'
+        ? {
+            ...fill,
+            gradient: {
+              ...fill.gradient,
+              start: transform(fill.gradient.start),
+              end: transform(fill.gradient.end),
+            },
+          }
+        : fill;
+    changed = fillOnce(engine, { point: tap.point, fill: mirrored }) || changed;
+  }
+  return changed;
+}
+
+/** Paint a stroke, once per mirrored copy; no colour erases */
+export function applyStroke(
+  engine: ColoringEngine,
+  stroke: PaintStroke,
+  { color, symmetry }: { color?: string; symmetry?: SymmetrySpec }
+): boolean {
+  const transforms = symmetry ? symmetryTransforms(symmetry) : [];
+  const strokes = transforms.length
+    ? transforms.map((transform) => ({
+        ...stroke,
+        points: transformPoints(stroke.points, transform),
+        lockTo: stroke.lockTo && roundPoint(transform(stroke.lockTo)),
+      }))
+    : [stroke];
+  let changed = false;
+  for (const copy of strokes) {
+    changed =
+      (color ? engine.brushStroke({ ...copy, color }) : engine.erase(copy)) ||
+      changed;
+  }
+  return changed;
+}
+
+/**
+ * The first STROKE_CHUNK segments of a stroke, and the rest (overlapping one
+ * point so the pieces join up) if there is more. The worker paints long
+ * strokes a piece at a time; replays split them the same way so stamps land
+ * exactly where they did.
+ */
+export function splitStroke(stroke: PaintStroke): {
+  head: PaintStroke;
+  rest?: PaintStroke;
+} {
+  const head = {
+    ...stroke,
+    points: stroke.points.slice(0, STROKE_CHUNK + 1),
+    sizes: stroke.sizes?.slice(0, STROKE_CHUNK + 1),
+  };
+  if (stroke.points.length <= STROKE_CHUNK + 1) return { head };
+  const rest = {
+    ...stroke,
+    points: stroke.points.slice(STROKE_CHUNK),
+    sizes: stroke.sizes?.slice(STROKE_CHUNK),
+  };
+  return { head, rest };
+}
+
+function roundPoint({ x, y }: EnginePoint): EnginePoint {
+  return { x: Math.round(x), y: Math.round(y) };
+}
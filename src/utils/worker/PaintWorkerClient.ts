@@ -0,0 +1,264 @@
+import { Platform } from 'react-native';
+
+import type {
+  EnginePoint,
+  EngineSnapshot,
+  RgbaBitmap,
+} from '../ColoringEngine';
+import type { LayerEdit } from '../PaintLayers';
+import type { SymmetrySpec } from '../Symmetry';
+import { PaintWorkerHost } from './PaintWorkerHost';
+import {
+  type PaintFill,
+  type PaintOperation,
+  type PaintRequest,
+  type PaintResponse,
+  type PaintResult,
+  type PaintStroke,
+  transferablesOf,
+} from './PaintWorkerProtocol';
+import type { AnimationFormat, Timelapse } from './Timelapse';
+
+/**
+ * PaintWorkerClient - The canvas side of the paint protocol
+ *
+ * Each call resolves with the operation's result, or null when a newer
+ * request cancelled it before it ran. Failures reject. If the transport
+ * itself breaks (a Web Worker that failed to start), everything pending
+ * rejects and the client carries on with its fallback transport, which has
+ * no template until the canvas loads one again.
+ */
+
+export interface PaintWorkerTransport {
+  post(request: PaintRequest, transfer: ArrayBuffer[]): void;
+  // onError: the transport broke and will answer nothing more
+  listen(
+    onResponse: (response: PaintResponse) => void,
+    onError?: (error: Error) => void
+  ): void;
+  terminate(): void;
+}
+
+interface Pending {
+  resolve: (result: PaintResult | null) => void;
+  reject: (error: Error) => void;
+}
+
+export class PaintWorkerClient {
+  private nextId = 1;
+  private readonly pending = new Map<number, Pending>();
+
+  constructor(
+    private transport: PaintWorkerTransport,
+    private fallback?: () => PaintWorkerTransport
+  ) {
+    this.attach(transport);
+  }
+
+  /** Hands the template over; its buffers are moved, not copied */
+  load(
+    template: RgbaBitmap,
+    options: { engine?: string; outlineRepair?: Uint8Array } = {}
+  ): Promise<PaintResult | null> {
+    return this.send({ type: 'load', template, ...options });
+  }
+
+  /** Fill, repeated at the mirrored positions when `symmetry` is given */
+  fill(
+    point: EnginePoint,
+    fill: PaintFill,
+    symmetry?: SymmetrySpec
+  ): Promise<PaintResult | null> {
+    return this.send({ type: 'fill', point, fill, symmetry });
+  }
+
+  /** Brush stroke in `color`, or erase when no colour is given; mirrored as fill() */
+  stroke(
+    stroke: PaintStroke,
+    color?: string,
+    symmetry?: SymmetrySpec
+  ): Promise<PaintResult | null> {
+    return this.send({ type: 'stroke', stroke, color, symmetry });
+  }
+
+  preview(point: EnginePoint): Promise<PaintResult | null> {
+    return this.send({ type: 'preview', point });
+  }
+
+  /** Eyedropper sample; resolves with the result's `color` */
+  sample(point: EnginePoint): Promise<PaintResult | null> {
+    return this.send({ type: 'sample', point });
+  }
+
+  seal(): Promise<PaintResult | null> {
+    return this.send({ type: 'seal' });
+  }
+
+  /** Layer edit; resolves with the result's `layers` */
+  layers(edit: LayerEdit): Promise<PaintResult | null> {
+    return this.send({ type: 'layers', edit });
+  }
+
+  /** Run a timelapse's operations on the page; resolves with the new snapshot */
+  apply(timelapse: Timelapse): Promise<PaintResult | null> {
+    return this.send({ type: 'apply', timelapse });
+  }
+
+  /** Traced SVG of the page; resolves with the result's `svg` */
+  vector(): Promise<PaintResult | null> {
+    return this.send({ type: 'vector' });
+  }
+
+  /**
+   * Timelapse page after its first `upTo` events; pass the timelapse to
+   * start a replay, then step on without it
+   */
+  replay(upTo: number, timelapse?: Timelapse): Promise<PaintResult | null> {
+    return this.send({ type: 'replay', upTo, timelapse });
+  }
+
+  /** Encoded timelapse; resolves with the result's `animation` bytes */
+  animation(
+    timelapse: Timelapse,
+    format: AnimationFormat
+  ): Promise<PaintResult | null> {
+    return this.send({ type: 'animation', timelapse, format });
+  }
+
+  snapshot(): Promise<PaintResult | null> {
+    return this.send({ type: 'snapshot' });
+  }
+
+  restore(snapshot: EngineSnapshot): Promise<PaintResult | null> {
+    // Copy: the caller keeps the snapshot in its history
+    const copy = { ...snapshot, data: snapshot.data.slice() };
+    return this.send({ type: 'restore', snapshot: copy });
+  }
+
+  /** Cancel everything that has not run yet */
+  cancelAll(): void {
+    for (const id of this.pending.keys()) {
+      this.transport.post(
+        { id: this.nextId++, type: 'cancel', target: id },
+        []
+      );
+    }
+  }
+
+  terminate(): void {
+    this.transport.terminate();
+    for (const { resolve } of this.pending.values()) resolve(null);
+    this.pending.clear();
+  }
+
+  private attach(transport: PaintWorkerTransport): void {
+    this.transport = transport;
+    transport.listen(
+      (response) => this.settle(response),
+      (error) => this.fail(transport, error)
+    );
+  }
+
+  // The transport broke: nothing pending will be answered, so reject it all
+  private fail(transport: PaintWorkerTransport, error: Error): void {
+    if (transport !== this.transport) return;
+    transport.terminate();
+    const pending = [...this.pending.values()];
+    this.pending.clear();
+    const fallback = this.fallback;
+    this.fallback = undefined;
+    if (fallback) this.attach(fallback());
+    for (const { reject } of pending) reject(error);
+  }
+
+  private send(operation: PaintOperation): Promise<PaintResult | null> {
+    const request = { ...operation, id: this.nextId++ } as PaintRequest;
+    return new Promise((resolve, reject) => {
+      this.pending.set(request.id, { resolve, reject });
+      this.transport.post(request, transferablesOf(request));
+    });
+  }
+
+  private settle(response: PaintResponse): void {
+    const pending = this.pending.get(response.id);
+    if (!pending) return;
+    this.pending.delete(response.id);
+    if (response.type === 'failed') {
+      pending.reject(new Error(response.message));
+    } else if (response.type === 'cancelled') {
+      pending.resolve(null);
+    } else {
+      const { id: _id, type: _type, ...result } = response;
+      pending.resolve(result);
+    }
+  }
+}
+
+/**
+ * Web: a dedicated Web Worker; pixel buffers are transferred both ways
+ */
+export function createWebWorkerTransport(): PaintWorkerTransport {
+  const worker = new Worker(new URL('./paint.worker.ts', import.meta.url), {
+    type: 'module',
+  });
+  return {
+    post: (request, transfer) => worker.postMessage(request, transfer),
+    listen: (onResponse, onError) => {
+      worker.onmessage = (event: MessageEvent<PaintResponse>) =>
+        onResponse(event.data);
+      // The script did not load or threw at the top level
+      worker.onerror = (event: ErrorEvent) => {
+        event.preventDefault();
+        onError?.(new Error(event.message || 'The paint worker failed'));
+      };
+      worker.onmessageerror = () =>
+        onError?.(new Error('The paint worker sent an unreadable message'));
+    },
+    terminate: () => worker.terminate(),
+  };
+}
+
+/**
+ * Same host on the calling thread. Native uses this: the engines are plain
+ * JS classes, not worklets, and the host also needs upng-js and the Expo
+ * modules, so none of it can run on a Reanimated worklet runtime. Paint work
+ * is therefore not off the JS thread on native; it runs one request per
+ * macrotask, letting touches in between cancel queued work. A worklet or
+ * JSI transport can take this one's place without protocol changes.
+ */
+export function createInlineTransport(): PaintWorkerTransport {
+  let onResponse: ((response: PaintResponse) => void) | null = null;
+  let terminated = false;
+  const host = new PaintWorkerHost((response) => {
+    if (!terminated) onResponse?.(response);
+  });
+  return {
+    post: (request) => {
+      if (!terminated) host.receive(request);
+    },
+    listen: (handler) => {
+      onResponse = handler;
+    },
+    terminate: () => {
+      terminated = true;
+    },
+  };
+}
+
+/**
+ * A Web Worker on web, falling back to inline if it cannot start; inline on
+ * native
+ */
+export function createPaintWorkerClient(): PaintWorkerClient {
+  if (Platform.OS === 'web' && typeof Worker !== 'undefined') {
+    try {
+      return new PaintWorkerClient(
+        createWebWorkerTransport(),
+        createInlineTransport
+      );
+    } catch {
+      // Workers refused (e.g. by a content security policy)
+    }
+  }
+  return new PaintWorkerClient(createInlineTransport());
+}
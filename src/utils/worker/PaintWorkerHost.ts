@@ -0,0 +1,330 @@
+import type { ColoringEngine, RgbaBitmap } from '../ColoringEngine';
+import { createColoringEngine } from '../engines';
+import { encodeGif } from '../GifEncoder';
+import { encodeApng } from '../PngCodec';
+import { artworkToSvg } from '../SvgExport';
+import { applyFill, applyStroke, splitStroke } from './PaintOperations';
+import {
+  type PaintRequest,
+  type PaintRequestType,
+  type PaintResponse,
+  type PaintResult,
+  transferablesOf,
+} from './PaintWorkerProtocol';
+import {
+  planTimelapseFrames,
+  type Timelapse,
+  type TimelapseFrame,
+  TimelapseReplayer,
+} from './Timelapse';
+
+/**
+ * PaintWorkerHost - The worker side of the paint protocol
+ *
+ * Requests are queued and run one per macrotask, so messages that arrive
+ * meanwhile can cancel work that has not started yet. Long strokes are
+ * painted in chunks for the same reason, and timelapse animations are
+ * rendered a frame at a time.
+ */
+
+export type PostResponse = (
+  response: PaintResponse,
+  transfer: ArrayBuffer[]
+) => void;
+
+// Queued requests a newer request of the key's type makes pointless. Fills
+// and strokes supersede nothing and are only dropped by a load or an
+// explicit cancel: each is a tap or a stroke segment the user made, which
+// the canvas records for undo and the timelapse, so dropping one would lose
+// paint or break a stroke. A burst of them still only exports the page once
+// (see EDITS).
+const SUPERSEDES: Partial<Record<PaintRequestType, PaintRequestType[]>> = {
+  load: [
+    'load',
+    'fill',
+    'stroke',
+    'preview',
+    'sample',
+    'seal',
+    'snapshot',
+    'restore',
+    'layers',
+    'vector',
+    'apply',
+    'replay',
+    'animation',
+  ],
+  preview: ['preview'],
+  sample: ['sample'],
+  snapshot: ['snapshot'],
+};
+
+// Requests that change the page; only the last queued one exports a bitmap
+const EDITS = new Set<PaintRequestType>([
+  'fill',
+  'stroke',
+  'restore',
+  'layers',
+  'apply',
+]);
+
+export class PaintWorkerHost {
+  private readonly queue: PaintRequest[] = [];
+  // Whether a chunked stroke changed anything in its earlier chunks
+  private readonly strokeChanged = new Map<number, boolean>();
+  // Frames rendered so far for animations in progress
+  private readonly animations = new Map<
+    number,
+    {
+      replayer: TimelapseReplayer;
+      frames: TimelapseFrame[];
+      bitmaps: RgbaBitmap[];
+    }
+  >();
+  private engine: ColoringEngine | null = null;
+  // The last load, kept to start timelapse replays from; its template also
+  // gives the page size for mirrored fills
+  private loaded: Extract<PaintRequest, { type: 'load' }> | null = null;
+  // On-canvas timelapse replay, stepped forward by 'replay' requests
+  private replayer: TimelapseReplayer | null = null;
+  private scheduled = false;
+
+  constructor(private readonly post: PostResponse) {}
+
+  receive(request: PaintRequest): void {
+    if (request.type === 'cancel') {
+      this.cancelQueued((queued) => queued.id !== request.target);
+      return;
+    }
+    const superseded = SUPERSEDES[request.type];
+    if (superseded) {
+      this.cancelQueued((queued) => !superseded.includes(queued.type));
+    }
+    this.queue.push(request);
+    this.schedule();
+  }
+
+  private respond(response: PaintResponse): void {
+    this.post(response, transferablesOf(response));
+  }
+
+  private cancelQueued(keep: (queued: PaintRequest) => boolean): void {
+    for (let i = this.queue.length - 1; i >= 0; i--) {
+      if (keep(this.queue[i])) continue;
+      const [dropped] = this.queue.splice(i, 1);
+      this.forget(dropped.id);
+      this.respond({ id: dropped.id, type: 'cancelled' });
+    }
+  }
+
+  private schedule(): void {
+    if (this.scheduled || this.queue.length === 0) return;
+    this.scheduled = true;
+    setTimeout(() => this.drain(), 0);
+  }
+
+  private drain(): void {
+    this.scheduled = false;
+    const request = this.queue.shift();
+    if (!request) return;
+    try {
+      const result = this.run(request);
+      if (result) this.respond({ id: request.id, type: 'done', ...result });
+    } catch (error: any) {
+      this.forget(request.id);
+      this.respond({
+        id: request.id,
+        type: 'failed',
+        message: error?.message ?? String(error),
+      });
+    }
+    this.schedule();
+  }
+
+  // Drop the partial work of a chunked request
+  private forget(id: number): void {
+    this.strokeChanged.delete(id);
+    this.animations.delete(id);
+  }
+
+  // null while a chunked stroke or animation still has work queued
+  private run(request: PaintRequest): PaintResult | null {
+    if (request.type === 'load') {
+      const engine = createColoringEngine(request.engine);
+      this.loaded = {
+        ...request,
+        template: { ...request.template, data: request.template.data.slice() },
+        outlineRepair: request.outlineRepair?.slice(),
+      };
+      this.replayer = null;
+      engine.loadTemplate(request.template, request.outlineRepair);
+      this.engine = engine;
+      return {
+        changed: true,
+        bitmap: engine.exportBitmap(),
+        snapshot: engine.snapshot(),
+        regions: engine.getRegionMap?.(),
+        layers: engine.getLayers?.(),
+      };
+    }
+    const engine = this.engine;
+    if (!engine) throw new Error('No template loaded');
+    switch (request.type) {
+      case 'fill': {
+        const changed = applyFill(engine, request, this.loaded!.template);
+        const snapshot = changed ? engine.snapshot() : undefined;
+        return this.withBitmap({ changed, snapshot });
+      }
+      case 'stroke':
+        return this.runStroke(engine, request);
+      case 'preview':
+        return {
+          changed: false,
+          preview: engine.previewFill?.(request.point) ?? null,
+        };
+      case 'sample':
+        return {
+          changed: false,
+          color: engine.sampleColor?.(request.point) ?? null,
+        };
+      case 'seal': {
+        const changed = engine.sealOutlineGaps?.() ?? false;
+        return { changed, regions: engine.getRegionMap?.() };
+      }
+      case 'vector':
+        return {
+          changed: false,
+          svg: artworkToSvg(engine.exportBitmap(), engine.getOutlineMask?.()),
+        };
+      case 'snapshot':
+        return { changed: false, snapshot: engine.snapshot() };
+      case 'restore':
+        engine.restore(request.snapshot);
+        return this.withBitmap({ changed: true, layers: engine.getLayers?.() });
+      case 'layers':
+        return this.runLayerEdit(engine, request);
+      case 'apply':
+        return this.runApply(engine, request);
+      case 'replay':
+        return this.runReplay(request);
+      case 'animation':
+        return this.runAnimation(request);
+      default:
+        return null;
+    }
+  }
+
+  // Selecting a layer changes neither the page nor the history
+  private runLayerEdit(
+    engine: ColoringEngine,
+    request: Extract<PaintRequest, { type: 'layers' }>
+  ): PaintResult {
+    const changed = engine.editLayers?.(request.edit) ?? false;
+    const layers = engine.getLayers?.();
+    if (!changed || request.edit.kind === 'select') {
+      return { changed, layers };
+    }
+    return this.withBitmap({ changed, snapshot: engine.snapshot(), layers });
+  }
+
+  // A fresh engine on the loaded template, ready to replay a timelapse
+  private startReplay(timelapse: Timelapse): TimelapseReplayer {
+    const loaded = this.loaded;
+    if (!loaded) throw new Error('No template loaded');
+    const { template, outlineRepair } = loaded;
+    const engine = createColoringEngine(loaded.engine);
+    engine.loadTemplate(
+      { ...template, data: template.data.slice() },
+      outlineRepair?.slice()
+    );
+    return new TimelapseReplayer(engine, timelapse, template);
+  }
+
+  private runApply(
+    engine: ColoringEngine,
+    { timelapse }: Extract<PaintRequest, { type: 'apply' }>
+  ): PaintResult {
+    new TimelapseReplayer(engine, timelapse, this.loaded!.template).advance(
+      timelapse.events.length
+    );
+    return this.withBitmap({
+      changed: true,
+      snapshot: engine.snapshot(),
+      layers: engine.getLayers?.(),
+    });
+  }
+
+  // A new timelapse starts over; so does stepping back
+  private runReplay(
+    request: Extract<PaintRequest, { type: 'replay' }>
+  ): PaintResult {
+    const timelapse = request.timelapse ?? this.replayer?.timelapse;
+    if (!timelapse) throw new Error('No timelapse to replay');
+    if (
+      !this.replayer ||
+      request.timelapse ||
+      request.upTo < this.replayer.position
+    ) {
+      this.replayer = this.startReplay(timelapse);
+    }
+    this.replayer.advance(request.upTo);
+    return { changed: false, bitmap: this.replayer.bitmap() };
+  }
+
+  // Render one frame; the request goes back to the front of the queue until
+  // every frame is rendered, then they are encoded together
+  private runAnimation(
+    request: Extract<PaintRequest, { type: 'animation' }>
+  ): PaintResult | null {
+    let job = this.animations.get(request.id);
+    if (!job) {
+      job = {
+        replayer: this.startReplay(request.timelapse),
+        frames: planTimelapseFrames(
+          request.timelapse.events,
+          request.maxFrames
+        ),
+        bitmaps: [],
+      };
+      this.animations.set(request.id, job);
+    }
+    job.replayer.advance(job.frames[job.bitmaps.length].upTo);
+    job.bitmaps.push(job.replayer.bitmap());
+    if (job.bitmaps.length < job.frames.length) {
+      this.queue.unshift(request);
+      return null;
+    }
+    this.animations.delete(request.id);
+    const delays = job.frames.map((frame) => frame.delay);
+    const animation =
+      request.format === 'gif'
+        ? encodeGif(job.bitmaps, delays)
+        : encodeApng(job.bitmaps, delays);
+    return { changed: false, animation };
+  }
+
+  // Paint one chunk; the rest goes back to the front of the queue
+  private runStroke(
+    engine: ColoringEngine,
+    request: Extract<PaintRequest, { type: 'stroke' }>
+  ): PaintResult | null {
+    const { head, rest } = splitStroke(request.stroke);
+    const changed =
+      applyStroke(engine, head, request) ||
+      (this.strokeChanged.get(request.id) ?? false);
+    if (rest) {
+      this.queue.unshift({ ...request, stroke: rest });
+      this.strokeChanged.set(request.id, changed);
+      return null;
+    }
+    this.strokeChanged.delete(request.id);
+    return this.withBitmap({ changed });
+  }
+
+  // Skip the export when a newer edit will replace the page anyway
+  private withBitmap(result: PaintResult): PaintResult {
+    const newerEdit = this.queue.some((queued) => EDITS.has(queued.type));
+    if (newerEdit || !this.engine) return result;
+    return { ...result, bitmap: this.engine.exportBitmap() };
+  }
+}
@@ -0,0 +1,145 @@
+import type {
+  EngineBrushStroke,
+  EnginePoint,
+  EngineSnapshot,
+  RgbaBitmap,
+} from '../ColoringEngine';
+import type { FillPreview } from '../FillLeakGuard';
+import type { GradientSpec } from '../GradientFill';
+import type { LayerEdit, LayerStackInfo } from '../PaintLayers';
+import type { PatternSpec } from '../PatternFill';
+import type { RegionMap } from '../RegionLabeling';
+import type { SymmetrySpec } from '../Symmetry';
+import type { AnimationFormat, Timelapse } from './Timelapse';
+
+/**
+ * PaintWorkerProtocol - Messages between a canvas and the paint worker
+ *
+ * The worker owns the ColoringEngine; the canvas sends operations and renders
+ * the bitmaps that come back. Every request carries an id and gets exactly
+ * one response with that id: done, cancelled or failed.
+ */
+
+export type PaintFill =
+  | { kind: 'solid'; color: string }
+  | { kind: 'gradient'; gradient: GradientSpec }
+  | { kind: 'pattern'; pattern: PatternSpec }
+  // Every region with the tapped region's colour (see ColorReplace)
+  | { kind: 'replace'; color: string; tolerance?: number };
+
+// A brush stroke minus the colour, which the request carries separately
+export type PaintStroke = Omit<EngineBrushStroke, 'color'>;
+
+export type PaintRequest =
+  | {
+      id: number;
+      type: 'load';
+      engine?: string; // Registered engine id (see utils/engines)
+      template: RgbaBitmap;
+      outlineRepair?: Uint8Array;
+    }
+  // With `symmetry`, repeated at every mirrored position as one edit
+  | {
+      id: number;
+      type: 'fill';
+      point: EnginePoint;
+      fill: PaintFill;
+      symmetry?: SymmetrySpec;
+    }
+  // No colour means erase
+  | {
+      id: number;
+      type: 'stroke';
+      stroke: PaintStroke;
+      color?: string;
+      symmetry?: SymmetrySpec;
+    }
+  | { id: number; type: 'preview'; point: EnginePoint }
+  // Eyedropper: paint colour under the point
+  | { id: number; type: 'sample'; point: EnginePoint }
+  | { id: number; type: 'seal' }
+  | { id: number; type: 'layers'; edit: LayerEdit }
+  // Run a timelapse's operations on the page itself, as one edit: an
+  // imported drawing (see DrawingDocument) replayed onto a fresh template
+  | { id: number; type: 'apply'; timelapse: Timelapse }
+  // Page traced into an SVG document (see SvgExport)
+  | { id: number; type: 'vector' }
+  // Timelapse replay on a second engine: the page after the first `upTo`
+  // events. A timelapse starts a new replay; later steps leave it out.
+  | { id: number; type: 'replay'; upTo: number; timelapse?: Timelapse }
+  // Timelapse encoded as an animated PNG or GIF
+  | {
+      id: number;
+      type: 'animation';
+      timelapse: Timelapse;
+      format: AnimationFormat;
+      maxFrames?: number;
+    }
+  | { id: number; type: 'snapshot' }
+  | { id: number; type: 'restore'; snapshot: EngineSnapshot }
+  | { id: number; type: 'cancel'; target: number };
+
+export type PaintRequestType = PaintRequest['type'];
+
+// Requests without the id; the client assigns it
+export type PaintOperation = PaintRequest extends infer R
+  ? R extends PaintRequest
+    ? Omit<R, 'id'>
+    : never
+  : never;
+
+export interface PaintResult {
+  changed: boolean;
+  // Page after the operation; left out while a newer edit is queued
+  bitmap?: RgbaBitmap;
+  // Engine state after fill, apply, load and restore, for the undo history
+  snapshot?: EngineSnapshot;
+  // Region labels after load and seal, for previews drawn on the canvas side
+  regions?: RegionMap;
+  // Layer stack after load, restore and layer edits, for layered engines
+  layers?: LayerStackInfo;
+  preview?: FillPreview | null;
+  color?: string | null;
+  svg?: string;
+  // Encoded timelapse animation (APNG or GIF bytes)
+  animation?: Uint8Array;
+}
+
+export type PaintResponse =
+  | ({ id: number; type: 'done' } & PaintResult)
+  | { id: number; type: 'cancelled' }
+  | { id: number; type: 'failed'; message: string };
+
+// A buffer can only be transferred whole, so skip views into larger buffers
+function ownBuffer(view?: Uint8Array): ArrayBuffer[] {
+  if (!view || view.byteOffset !== 0) return [];
+  const buffer = view.buffer as ArrayBuffer;
+  return view.byteLength === buffer.byteLength ? [buffer] : [];
+}
+
+/**
+ * Pixel buffers a message can move instead of copy. The sender must not
+ * touch them afterwards. Region maps are never transferred: the worker's
+ * engine keeps using its own.
+ */
+export function transferablesOf(
+  message: PaintRequest | PaintResponse
+): ArrayBuffer[] {
+  switch (message.type) {
+    case 'load':
+      return [
+        ...ownBuffer(message.template.data),
+        ...ownBuffer(message.outlineRepair),
+      ];
+    case 'restore':
+      return ownBuffer(message.snapshot.data);
+    case 'done':
+      return [
+        ...ownBuffer(message.bitmap?.data),
+        ...ownBuffer(message.snapshot?.data),
+        ...ownBuffer(message.animation),
+      ];
+    default:
+      return [];
+  }
+}
@@ -0,0 +1,212 @@
+import type {
+  ColoringEngine,
+  EngineSnapshot,
+  RgbaBitmap,
+} from '../ColoringEngine';
+import type { LayerEdit } from '../PaintLayers';
+import type { SymmetrySpec } from '../Symmetry';
+import { UndoHistory } from '../UndoHistory';
+import {
+  applyFill,
+  applyStroke,
+  type FillOperation,
+  splitStroke,
+} from './PaintOperations';
+import type { PaintStroke } from './PaintWorkerProtocol';
+
+/**
+ * Timelapse - A colouring session as timestamped paint operations
+ *
+ * The canvas records every operation the worker ran for it: fills, brush
+ * and eraser segments, layer edits, gap sealing, and the undo steps it
+ * kept ('commit'), undid, redid or cleared back to. Replaying them in order
+ * on a fresh engine loaded with the same template paints the session again,
+ * one frame per operation, so a timelapse is a few kilobytes of points
+ * rather than a stack of pictures.
+ */
+
+export type TimelapseOperation =
+  | ({ op: 'fill' } & FillOperation)
+  | {
+      op: 'stroke';
+      stroke: PaintStroke;
+      color?: string; // None erases
+      symmetry?: SymmetrySpec;
+    }
+  | { op: 'layers'; edit: LayerEdit }
+  | { op: 'seal' }
+  // The canvas saved an undo step here
+  | { op: 'commit' }
+  | { op: 'undo' }
+  | { op: 'redo' }
+  // Back to the state the history started from
+  | { op: 'clear' };
+
+// `t`: milliseconds since recording started
+export type TimelapseEvent = TimelapseOperation & { t: number };
+
+export interface Timelapse {
+  // Where recording started when it was not the fresh template (a resumed
+  // history); undo cannot go back past it
+  base?: EngineSnapshot;
+  events: TimelapseEvent[];
+}
+
+export type AnimationFormat = 'apng' | 'gif';
+
+// A replayed frame: the page after the first `upTo` events, shown `delay` ms
+export interface TimelapseFrame {
+  upTo: number;
+  delay: number;
+}
+
+export const TIMELAPSE_MAX_FRAMES = 60;
+// Real time between frames is divided by this, then clamped
+const TIMELAPSE_SPEEDUP = 8;
+const MIN_FRAME_MS = 60;
+const MAX_FRAME_MS = 600;
+// The finished picture stays up before the animation loops
+const FINAL_FRAME_MS = 2000;
+
+export class TimelapseRecorder {
+  private events: TimelapseEvent[] = [];
+  private base: EngineSnapshot | undefined;
+  private startedAt = 0;
+  private continued = 0;
+
+  constructor(private readonly now: () => number = Date.now) {}
+
+  /**
+   * Start over for a freshly loaded page, or carry on from an earlier
+   * recording (a reopened drawing's operations). Carried-over events keep
+   * their times and new ones are timed on from the last of them.
+   */
+  start(from?: Timelapse): void {
+    this.events = from ? [...from.events] : [];
+    this.base = from?.base;
+    this.continued = this.events.length;
+    const last = this.events[this.events.length - 1];
+    this.startedAt = this.now() - (last?.t ?? 0);
+  }
+
+  record(operation: TimelapseOperation): void {
+    this.events.push({ ...operation, t: this.now() - this.startedAt });
+  }
+
+  get length(): number {
+    return this.events.length;
+  }
+
+  /** Events carried over by start(); the rest were recorded since */
+  get carriedOver(): number {
+    return this.continued;
+  }
+
+  timelapse(): Timelapse {
+    return { base: this.base, events: [...this.events] };
+  }
+}
+
+/**
+ * Frames worth showing: the starting page, then the page after operations
+ * that change it, evenly thinned to `maxFrames`. Each frame stays up for the
+ * real time until the next one, sped up; the last one lingers.
+ */
+export function planTimelapseFrames(
+  events: TimelapseEvent[],
+  maxFrames: number = TIMELAPSE_MAX_FRAMES
+): TimelapseFrame[] {
+  const cuts = [0];
+  events.forEach((event, i) => {
+    if (event.op !== 'commit') cuts.push(i + 1);
+  });
+  let kept = cuts;
+  if (cuts.length > maxFrames) {
+    const step = (cuts.length - 1) / (maxFrames - 1);
+    kept = Array.from(
+      { length: maxFrames },
+      (_, k) => cuts[Math.round(k * step)]
+    );
+  }
+  const timeAt = (upTo: number) => (upTo > 0 ? events[upTo - 1].t : 0);
+  return kept.map((upTo, k) => {
+    if (k === kept.length - 1) return { upTo, delay: FINAL_FRAME_MS };
+    const elapsed = timeAt(kept[k + 1]) - timeAt(upTo);
+    const delay = Math.min(
+      MAX_FRAME_MS,
+      Math.max(MIN_FRAME_MS, Math.round(elapsed / TIMELAPSE_SPEEDUP))
+    );
+    return { upTo, delay };
+  });
+}
+
+/**
+ * Plays a timelapse forward on an engine loaded with the session's
+ * template. Undo steps are tracked as the canvas tracked them.
+ */
+export class TimelapseReplayer {
+  private readonly history = new UndoHistory();
+  private next = 0;
+
+  constructor(
+    private readonly engine: ColoringEngine,
+    readonly timelapse: Timelapse,
+    private readonly page: { width: number; height: number }
+  ) {
+    if (timelapse.base) engine.restore(timelapse.base);
+    this.history.reset(engine.snapshot());
+  }
+
+  /** Events applied so far */
+  get position(): number {
+    return this.next;
+  }
+
+  /** The page as replayed so far */
+  bitmap(): RgbaBitmap {
+    return this.engine.exportBitmap();
+  }
+
+  /** Apply events until the first `upTo` have run (never backwards) */
+  advance(upTo: number): void {
+    const end = Math.min(upTo, this.timelapse.events.length);
+    while (this.next < end) this.apply(this.timelapse.events[this.next++]);
+  }
+
+  private apply(event: TimelapseEvent): void {
+    const { engine, history } = this;
+    switch (event.op) {
+      case 'fill':
+        applyFill(engine, event, this.page);
+        break;
+      case 'stroke': {
+        // In the pieces the worker painted it in
+        let piece: PaintStroke | undefined = event.stroke;
+        while (piece) {
+          const { head, rest } = splitStroke(piece);
+          applyStroke(engine, head, event);
+          piece = rest;
+        }
+        break;
+      }
+      case 'layers':
+        engine.editLayers?.(event.edit);
+        break;
+      case 'seal':
+        engine.sealOutlineGaps?.();
+        break;
+      case 'commit':
+        history.push(engine.snapshot());
+        break;
+      case 'clear': {
+        const first = history.firstSnapshot();
+        if (first) engine.restore(first);
+        break;
+      }
+      default: {
+        const step = event.op === 'undo' ? history.undo() : history.redo();
+        if (step) engine.restore(step.snapshot);
+      }
+    }
+  }
+}
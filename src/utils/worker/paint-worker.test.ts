@@ -0,0 +1,212 @@
+import type { RgbaBitmap } from '../ColoringEngine';
+import { STROKE_CHUNK } from './PaintOperations';
+import {
+  createInlineTransport,
+  PaintWorkerClient,
+  type PaintWorkerTransport,
+} from './PaintWorkerClient';
+import type { Timelapse } from './Timelapse';
+
+// White page split into two boxes by a vertical line, framed by a border
+function twoBoxes(size: number): RgbaBitmap {
+  const data = new Uint8Array(size * size * 4).fill(255);
+  const ink = (x: number, y: number) => {
+    const pi = (y * size + x) * 4;
+    data[pi] = data[pi + 1] = data[pi + 2] = 0;
+  };
+  for (let i = 0; i < size; i++) {
+    ink(i, 0);
+    ink(i, size - 1);
+    ink(0, i);
+    ink(size - 1, i);
+    ink(size / 2, i);
+  }
+  return { width: size, height: size, data };
+}
+
+function pixel(bitmap: RgbaBitmap, x: number, y: number): number[] {
+  const pi = (y * bitmap.width + x) * 4;
+  return Array.from(bitmap.data.slice(pi, pi + 4));
+}
+
+async function loadedClient(): Promise<PaintWorkerClient> {
+  const client = new PaintWorkerClient(createInlineTransport());
+  await client.load(twoBoxes(40), { engine: 'zebra-paint' });
+  return client;
+}
+
+describe('PaintWorkerClient', () => {
+  it('fills in the host and returns the page, snapshot and regions', async () => {
+    const client = new PaintWorkerClient(createInlineTransport());
+    const loaded = await client.load(twoBoxes(40), { engine: 'zebra-paint' });
+    expect(loaded?.regions?.regions.length).toBe(2);
+
+    const result = await client.fill(
+      { x: 10, y: 20 },
+      { kind: 'solid', color: '#FF0000' }
+    );
+    expect(result?.changed).toBe(true);
+    expect(result?.snapshot).toBeDefined();
+    expect(pixel(result!.bitmap!, 10, 20)).toEqual([255, 0, 0, 255]);
+    expect(pixel(result!.bitmap!, 30, 20)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('cancels queued work a newer request makes pointless', async () => {
+    const client = await loadedClient();
+    const first = client.preview({ x: 10, y: 20 });
+    const second = client.preview({ x: 30, y: 20 });
+    expect(await first).toBeNull();
+    expect((await second)?.preview?.regionId).toBeGreaterThan(0);
+
+    const fill = client.fill(
+      { x: 10, y: 20 },
+      { kind: 'solid', color: '#00FF00' }
+    );
+    const reload = client.load(twoBoxes(40), { engine: 'zebra-paint' });
+    expect(await fill).toBeNull();
+    expect((await reload)?.changed).toBe(true);
+  });
+
+  it('paints long strokes in chunks that can be cancelled', async () => {
+    const client = await loadedClient();
+    const points = Array.from({ length: STROKE_CHUNK * 3 }, (_, i) => ({
+      x: 5 + (i % 10),
+      y: 5 + Math.floor(i / 10),
+    }));
+    const whole = await client.stroke({ points, size: 2 }, '#0000FF');
+    expect(whole?.changed).toBe(true);
+
+    const interrupted = client.stroke({ points, size: 2 }, '#FF00FF');
+    // Let the first chunk run, then cancel the rest
+    await new Promise((resolve) => setTimeout(resolve, 0));
+    client.cancelAll();
+    expect(await interrupted).toBeNull();
+  });
+});
+
+describe('transport failure', () => {
+  it('rejects pending requests and carries on inline', async () => {
+    let breakTransport: ((error: Error) => void) | undefined;
+    // A Web Worker whose script never loaded: requests go nowhere
+    const broken: PaintWorkerTransport = {
+      post: () => {},
+      listen: (_onResponse, onError) => {
+        breakTransport = onError;
+      },
+      terminate: jest.fn(),
+    };
+    const client = new PaintWorkerClient(broken, createInlineTransport);
+    const load = client.load(twoBoxes(40), { engine: 'zebra-paint' });
+    breakTransport?.(new Error('404'));
+    await expect(load).rejects.toThrow('404');
+    expect(broken.terminate).toHaveBeenCalled();
+
+    await client.load(twoBoxes(40), { engine: 'zebra-paint' });
+    const result = await client.fill(
+      { x: 10, y: 20 },
+      { kind: 'solid', color: '#FF0000' }
+    );
+    expect(pixel(result!.bitmap!, 10, 20)).toEqual([255, 0, 0, 255]);
+  });
+});
+
+describe('queued edits', () => {
+  it('runs every queued fill: a newer tap does not drop an older one', async () => {
+    const client = await loadedClient();
+    const left = client.fill(
+      { x: 10, y: 20 },
+      { kind: 'solid', color: '#FF0000' }
+    );
+    const right = client.fill(
+      { x: 30, y: 20 },
+      { kind: 'solid', color: '#0000FF' }
+    );
+    expect((await left)?.changed).toBe(true);
+    const page = (await right)?.bitmap;
+    expect(pixel(page!, 10, 20)).toEqual([255, 0, 0, 255]);
+    expect(pixel(page!, 30, 20)).toEqual([0, 0, 255, 255]);
+  });
+
+  it('only exports the page for the last queued edit', async () => {
+    const client = await loadedClient();
+    const stroke = {
+      points: [
+        { x: 5, y: 5 },
+        { x: 15, y: 5 },
+      ],
+      size: 2,
+    };
+    const first = client.stroke(stroke, '#0000FF');
+    const second = client.stroke(
+      { ...stroke, points: [{ x: 5, y: 30 }] },
+      '#0000FF'
+    );
+    expect((await first)?.bitmap).toBeUndefined();
+    expect((await second)?.bitmap).toBeDefined();
+  });
+});
+
+describe('eyedropper sampling', () => {
+  it('samples the paint beside an outline, not the outline', async () => {
+    const client = await loadedClient();
+    await client.fill({ x: 10, y: 20 }, { kind: 'solid', color: '#FF0000' });
+    expect((await client.sample({ x: 10, y: 20 }))?.color).toBe('#FF0000');
+    // The left border is black; the nearest paint is the red box
+    expect((await client.sample({ x: 0, y: 20 }))?.color).toBe('#FF0000');
+  });
+});
+
+describe('symmetry', () => {
+  it('fills every mirrored region in one edit', async () => {
+    const client = await loadedClient();
+    const result = await client.fill(
+      { x: 10, y: 20 },
+      { kind: 'solid', color: '#FF0000' },
+      { kind: 'vertical', center: { x: 19.5, y: 19.5 } }
+    );
+    expect(result?.snapshot).toBeDefined();
+    expect(pixel(result!.bitmap!, 10, 20)).toEqual([255, 0, 0, 255]);
+    expect(pixel(result!.bitmap!, 30, 20)).toEqual([255, 0, 0, 255]);
+  });
+});
+
+describe('timelapse', () => {
+  const red = { kind: 'solid', color: '#FF0000' } as const;
+  const blue = { kind: 'solid', color: '#0000FF' } as const;
+  const timelapse: Timelapse = {
+    events: [
+      { op: 'fill', point: { x: 10, y: 20 }, fill: red, t: 0 },
+      { op: 'commit', t: 5 },
+      { op: 'fill', point: { x: 30, y: 20 }, fill: blue, t: 900 },
+      { op: 'commit', t: 905 },
+      { op: 'undo', t: 2000 },
+    ],
+  };
+
+  it('replays operations, undo included, on a second engine', async () => {
+    const client = await loadedClient();
+    const afterBlue = await client.replay(3, timelapse);
+    expect(pixel(afterBlue!.bitmap!, 30, 20)).toEqual([0, 0, 255, 255]);
+    const end = await client.replay(5);
+    expect(pixel(end!.bitmap!, 10, 20)).toEqual([255, 0, 0, 255]);
+    expect(pixel(end!.bitmap!, 30, 20)).toEqual([255, 255, 255, 255]);
+    // The page being coloured is untouched
+    expect((await client.sample({ x: 10, y: 20 }))?.color).toBe('#FFFFFF');
+  });
+
+  it('applies an imported timelapse to the page as one edit', async () => {
+    const client = await loadedClient();
+    const result = await client.apply(timelapse);
+    expect(result?.snapshot).toBeDefined();
+    expect(pixel(result!.bitmap!, 10, 20)).toEqual([255, 0, 0, 255]);
+    expect(pixel(result!.bitmap!, 30, 20)).toEqual([255, 255, 255, 255]);
+  });
+
+  it('encodes the replay as an animated GIF or PNG', async () => {
+    const client = await loadedClient();
+    const gif = (await client.animation(timelapse, 'gif'))?.animation;
+    expect(String.fromCharCode(...gif!.slice(0, 6))).toBe('GIF89a');
+    const apng = (await client.animation(timelapse, 'apng'))?.animation;
+    expect(Array.from(apng!.slice(1, 4))).toEqual([0x50, 0x4e, 0x47]);
+  });
+});
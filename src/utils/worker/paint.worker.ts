@@ -0,0 +1,16 @@
+import { PaintWorkerHost } from './PaintWorkerHost';
+import type { PaintRequest, PaintResponse } from './PaintWorkerProtocol';
+
+// Web Worker entry: one host (and engine) per worker
+
+interface WorkerScope {
+  onmessage: ((event: MessageEvent<PaintRequest>) => void) | null;
+  postMessage(message: PaintResponse, transfer: ArrayBuffer[]): void;
+}
+
+const scope = self as unknown as WorkerScope;
+const host = new PaintWorkerHost((response, transfer) =>
+  scope.postMessage(response, transfer)
+);
+
+scope.onmessage = (event) => host.receive(event.data);
@@ -3,7 +3,22 @@ declare module 'upng-js' {
     buf: ArrayBuffer | Uint8Array
   ): { width: number; height: number; depth: number; frames: number } & any;
   export function toRGBA8(png: any): Uint8Array[];
-  const _default: { decode: typeof decode; toRGBA8: typeof toRGBA8 };
+  // Positional in upng-js: frames, width, height, colour count (0 = lossless)
+  // and per-frame delays in ms
+  export function encode(
+    ...args: [
+      imgs: ArrayBuffer[],
+      w: number,
+      h: number,
+      cnum: number,
+      dels?: number[],
+    ]
+  ): ArrayBuffer;
+  const _default: {
+    decode: typeof decode;
+    toRGBA8: typeof toRGBA8;
+    encode: typeof encode;
+  };
   export default _default;
 }
 
@@ -11,3 +26,16 @@ declare module 'base-64' {
   export function decode(input: string): string;
   export function encode(input: string): string;
 }
+
+// Installed with jest-expo; only what the component tests use
+declare module 'react-test-renderer' {
+  import type { ReactElement } from 'react';
+
+  export interface ReactTestRenderer {
+    update(element: ReactElement): void;
+    unmount(): void;
+  }
+  export function create(element: ReactElement): ReactTestRenderer;
+  export function act(callback: () => void): void;
+  export function act(callback: () => Promise<unknown>): Promise<void>;
+}